@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSttStream, encodeSseEvent, SttError, STT_ERROR_STATUS } from '@/lib/stt';
+
+/**
+ * Streaming Speech-to-Text: one session
+ * GET streams partial and final transcripts as Server-Sent Events.
+ * POST uploads the next audio chunk (`audio`, `seq`); `final=1` marks the
+ * end of the recording and returns once the final transcript is sent.
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function sessionNotFound() {
+  return NextResponse.json(
+    { error: 'Unknown or expired transcription session' },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const session = getSttStream(params.id);
+  if (!session) {
+    return sessionNotFound();
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      unsubscribe = session.subscribe(event => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(encodeSseEvent(event)));
+        if (event.type !== 'partial') {
+          closed = true;
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const session = getSttStream(params.id);
+  if (!session) {
+    return sessionNotFound();
+  }
+
+  try {
+    const formData = await request.formData();
+    const audio = formData.get('audio') as File | null;
+    const seq = Number(formData.get('seq'));
+
+    if (audio) {
+      session.append(seq, audio);
+    }
+    if (formData.get('final') === '1') {
+      await session.finish();
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof SttError) {
+      // Out-of-order chunks, or a recording that is too large
+      const status = error.category === 'unknown' ? 409 : STT_ERROR_STATUS[error.category];
+      return NextResponse.json({ error: error.message, category: error.category }, { status });
+    }
+    console.error('STT stream API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return NextResponse.json(
+      { error: `Upload failed: ${errorMessage}`, category: 'unknown' },
+      { status: 500 }
+    );
+  }
+}
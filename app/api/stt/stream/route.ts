@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSttProvider,
+  getDefaultSttProviderId,
+  getSttFallbackChain,
+  createSttStream,
+  isSttStreamingEnabled,
+  SttError,
+  SttProviderId,
+  STT_ERROR_STATUS,
+  isSttLanguageCode
+} from '@/lib/stt';
+
+/**
+ * Streaming Speech-to-Text: start a session
+ * The client then uploads audio chunks to /api/stt/stream/[id] and reads
+ * partial and final transcripts from the same URL as Server-Sent Events.
+ * Off unless STT_STREAMING=1: sessions are held in one instance's memory
+ * (see lib/stt/streaming), which serverless deploys cannot guarantee.
+ */
+
+export async function POST(request: NextRequest) {
+  if (!isSttStreamingEnabled()) {
+    return NextResponse.json(
+      { error: 'Streaming transcription is not enabled on this server', category: 'not_configured' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const formData = await request.formData();
+    const language = formData.get('language') as string | null;
+    const providerId = (formData.get('provider') as string | null) || getDefaultSttProviderId();
+
+    if (!isSttLanguageCode(language)) {
+      return NextResponse.json(
+        { error: 'Invalid language code format' },
+        { status: 400 }
+      );
+    }
+
+    const provider = getSttProvider(providerId);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Unsupported provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    const chain = getSttFallbackChain(provider.id as SttProviderId);
+    if (chain.length === 0) {
+      return NextResponse.json(
+        { error: 'No speech-to-text provider is configured', category: 'not_configured' },
+        { status: STT_ERROR_STATUS.not_configured }
+      );
+    }
+
+    const session = createSttStream(language, chain);
+    return NextResponse.json({ id: session.id });
+  } catch (error) {
+    if (error instanceof SttError) {
+      // Too many sessions open
+      return NextResponse.json({ error: error.message, category: error.category }, { status: STT_ERROR_STATUS[error.category] });
+    }
+    console.error('STT stream API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return NextResponse.json(
+      { error: `Could not start transcription: ${errorMessage}`, category: 'unknown' },
+      { status: 500 }
+    );
+  }
+}
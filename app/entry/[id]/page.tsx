@@ -3,12 +3,14 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import EntryDetail from '@/components/EntryDetail';
-import { storage, JournalEntry } from '@/lib/store';
+import { storage, JournalEntry, EntryRevision, EntryUpdate } from '@/lib/store';
+import { sealedEntries } from '@/lib/sealedEntries';
 
 export default function EntryPage() {
   const params = useParams();
   const router = useRouter();
   const [entry, setEntry] = useState<JournalEntry | null>(null);
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -23,6 +25,7 @@ export default function EntryPage() {
       const loadedEntry = await storage.getEntry(id);
       if (loadedEntry) {
         setEntry(loadedEntry);
+        setRevisions(await storage.getRevisions(id));
       } else {
         setError('Entry not found');
       }
@@ -44,6 +47,47 @@ export default function EntryPage() {
     }
   };
 
+  const handleUpdate = async (id: string, changes: EntryUpdate) => {
+    try {
+      setEntry(await storage.updateEntry(id, changes));
+      setRevisions(await storage.getRevisions(id));
+    } catch (error) {
+      console.error('Failed to update entry:', error);
+      alert('Failed to save changes. Please try again.');
+    }
+  };
+
+  const handleRestore = async (id: string, revisionId: string) => {
+    try {
+      setEntry(await storage.restoreRevision(id, revisionId));
+      setRevisions(await storage.getRevisions(id));
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert('Failed to restore this version. Please try again.');
+    }
+  };
+
+  const handleSeal = async (id: string) => {
+    if (!entry) return;
+    try {
+      setEntry(await storage.sealEntry(id, await sealedEntries.seal(entry)));
+      setRevisions([]);
+    } catch (error) {
+      console.error('Failed to seal entry:', error);
+      alert('Failed to seal this entry. Please try again.');
+    }
+  };
+
+  const handleUnseal = async (id: string) => {
+    if (!entry) return;
+    try {
+      setEntry(await storage.unsealEntry(id, await sealedEntries.open(entry)));
+    } catch (error) {
+      console.error('Failed to unseal entry:', error);
+      alert('Failed to unseal this entry. Please try again.');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="max-w-2xl w-full mx-auto p-4 sm:p-6">
@@ -77,7 +121,15 @@ export default function EntryPage() {
   return (
     <div className="max-w-2xl w-full mx-auto p-4 sm:p-6">
       <div className="bg-[var(--ui-screen)] rounded-lg card-border p-4 sm:p-6">
-        <EntryDetail entry={entry} onDelete={handleDelete} />
+        <EntryDetail
+          entry={entry}
+          revisions={revisions}
+          onDelete={handleDelete}
+          onUpdate={handleUpdate}
+          onRestore={handleRestore}
+          onSeal={handleSeal}
+          onUnseal={handleUnseal}
+        />
       </div>
     </div>
   );
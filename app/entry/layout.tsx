@@ -0,0 +1,9 @@
+import AppLockGate from '@/components/AppLockGate'
+
+export default function EntryLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <AppLockGate>{children}</AppLockGate>
+}
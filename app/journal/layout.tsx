@@ -0,0 +1,9 @@
+import AppLockGate from '@/components/AppLockGate'
+
+export default function JournalLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <AppLockGate>{children}</AppLockGate>
+}
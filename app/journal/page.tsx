@@ -5,13 +5,16 @@ import { useRouter } from 'next/navigation';
 import Composer from '@/components/Composer';
 import EntryList from '@/components/EntryList';
 import RecentEntriesDrawer from '@/components/RecentEntriesDrawer';
-import { storage, JournalEntry } from '@/lib/store';
+import { storage, JournalEntry, EntriesChangedDetail } from '@/lib/store';
+import { EntryPage, startOfWeek } from '@/lib/entryQuery';
 import { gdprManager } from '@/lib/gdpr';
 import { performanceMonitor } from '@/lib/performance';
 import { rateLimiter } from '@/lib/rateLimiter';
 import { useAuth } from '@/lib/auth';
 import { analyticsCollector } from '@/lib/analytics';
+import { scheduledBackups } from '@/lib/scheduledBackups';
 import Settings from '@/components/Settings';
+import SyncConflicts from '@/components/SyncConflicts';
 
 export default function JournalPage() {
   const [entries, setEntries] = useState<JournalEntry[]>([]);
@@ -58,7 +61,7 @@ export default function JournalPage() {
         
         loadEntries();
         
-        // Sync local entries on app boot
+        // Sync on app boot and sign-in; reads never sync (see HybridStorage)
         storage.syncLocalEntries().catch(error => {
           console.warn('Failed to sync local entries:', error);
         });
@@ -71,9 +74,33 @@ export default function JournalPage() {
     initializeApp();
   }, [user]);
 
+  // Reads don't sync: reload when a sync (or import) has changed many entries
+  useEffect(() => {
+    if (!user) return;
+    const handleEntriesChanged = (event: Event) => {
+      if ((event as CustomEvent<EntriesChangedDetail>).detail?.reset) loadEntries();
+    };
+    window.addEventListener('heijo:entries-changed', handleEntriesChanged);
+    return () => window.removeEventListener('heijo:entries-changed', handleEntriesChanged);
+  }, [user]);
+
+  // Scheduled backups run while the journal is open
+  useEffect(() => {
+    if (!user) return;
+    return scheduledBackups.start();
+  }, [user]);
+
   const loadEntries = async () => {
     try {
-      const loadedEntries = await storage.getEntries();
+      // Only this week is loaded up front; the drawer pages in older weeks on demand
+      const from = startOfWeek(new Date()).toISOString();
+      const loadedEntries: JournalEntry[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: EntryPage = await storage.queryEntries({ from, cursor });
+        loadedEntries.push(...page.entries);
+        cursor = page.nextCursor;
+      } while (cursor);
       setEntries(loadedEntries);
     } catch (error) {
       console.error('Failed to load entries:', error);
@@ -228,6 +255,8 @@ export default function JournalPage() {
             </div>
           </div>
           
+          <SyncConflicts onResolved={loadEntries} />
+
           <div className="flex-1 overflow-y-auto min-h-0">
             <Composer 
               onSave={handleSave} 
@@ -286,6 +315,7 @@ export default function JournalPage() {
         onEntryClick={handleEntryClick}
         onExportAll={handleExport}
         onDelete={handleDelete}
+        onRestore={loadEntries}
       />
 
 
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { appLock, AppLockCooldownError } from '@/lib/appLock';
+import { WrongPassphraseError } from '@/lib/encryption';
+import { useAuth } from '@/lib/auth';
+
+interface AppLockGateProps {
+  children: React.ReactNode;
+}
+
+function LockScreen() {
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { signOut } = useAuth();
+  const isPin = appLock.getSettings()?.type === 'pin';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      await appLock.unlock(secret);
+    } catch (err) {
+      setSecret('');
+      if (err instanceof WrongPassphraseError) {
+        setError(isPin ? 'Incorrect PIN' : 'Incorrect passphrase');
+      } else if (err instanceof AppLockCooldownError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForgot = async () => {
+    if (!confirm(`Sign out to reset the app lock? You can set a new ${isPin ? 'PIN' : 'passphrase'} after signing back in.`)) return;
+    // Only drop the lock once the account has to be signed back into
+    const { error: signOutError } = await signOut();
+    if (signOutError) {
+      console.warn('Sign out failed:', signOutError);
+      alert('Could not sign out, so the app lock was not reset. Please try again.');
+      return;
+    }
+    appLock.reset();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4" style={{ background: 'linear-gradient(180deg, #f5f5f5 0%, #f0f0f0 100%)' }}>
+      <form onSubmit={handleSubmit} className="brutalist-card w-full max-w-[360px] bg-[#fefefe] rounded-[18px] px-6 py-8 space-y-4">
+        <h1 className="text-2xl tracking-tight text-graphite-charcoal">
+          <span className="brand-hero">Heijō</span>
+        </h1>
+        <p className="text-sm text-text-secondary">
+          Locked. Enter your {isPin ? 'PIN' : 'passphrase'} to continue.
+        </p>
+        <input
+          type="password"
+          inputMode={isPin ? 'numeric' : undefined}
+          autoComplete="current-password"
+          aria-label={isPin ? 'PIN' : 'Passphrase'}
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          className="block w-full bg-tactile-taupe/30 text-sm px-3 py-2 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50"
+          autoFocus
+        />
+        {error && (
+          <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+        )}
+        <div className="flex items-center justify-between gap-3">
+          <button
+            type="submit"
+            disabled={isBusy || secret.length === 0}
+            className="px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBusy ? 'Unlocking…' : 'Unlock'}
+          </button>
+          <button type="button" onClick={handleForgot} className="text-xs text-text-secondary hover:text-graphite-charcoal">
+            Forgot {isPin ? 'PIN' : 'passphrase'}?
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+/**
+ * Renders the lock screen instead of its children while the app is locked.
+ * Locking unmounts the children, which throws away their decrypted state.
+ */
+export default function AppLockGate({ children }: AppLockGateProps) {
+  // Unknown until mounted: the lock settings live in localStorage
+  const [locked, setLocked] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const update = () => setLocked(appLock.isLocked());
+    update();
+    const stop = appLock.start();
+    window.addEventListener('heijo:app-locked', update);
+    window.addEventListener('heijo:app-unlocked', update);
+    return () => {
+      stop();
+      window.removeEventListener('heijo:app-locked', update);
+      window.removeEventListener('heijo:app-unlocked', update);
+    };
+  }, []);
+
+  if (locked === null) return null;
+  if (locked) return <LockScreen />;
+  return <>{children}</>;
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  appLock,
+  AppLockCooldownError,
+  AppLockCredentialType,
+  AppLockSettings as AppLockConfig,
+  DEFAULT_APP_LOCK_TIMEOUTS,
+  MIN_PIN_LENGTH
+} from '@/lib/appLock';
+import { MIN_PASSPHRASE_LENGTH, WrongPassphraseError } from '@/lib/encryption';
+
+const IDLE_OPTIONS = [1, 5, 15, 30, 60];
+const HIDDEN_OPTIONS = [0, 1, 5, 15];
+
+export default function AppLockSettings() {
+  const [settings, setSettings] = useState<AppLockConfig | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [type, setType] = useState<AppLockCredentialType>('pin');
+  const [secret, setSecret] = useState('');
+  const [confirmSecret, setConfirmSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setSettings(appLock.getSettings());
+  }, []);
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setSecret('');
+    setConfirmSecret('');
+    setError(null);
+  };
+
+  const label = (credential: AppLockCredentialType) => (credential === 'pin' ? 'PIN' : 'passphrase');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings && secret !== confirmSecret) {
+      setError(`The ${label(type)}s do not match`);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (settings) {
+        await appLock.disable(secret);
+      } else {
+        await appLock.enable(type, secret);
+      }
+      resetForm();
+      setSettings(appLock.getSettings());
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError(`Incorrect ${label(settings?.type ?? type)}`);
+      } else if (err instanceof AppLockCooldownError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTimeoutChange = (changes: Partial<typeof DEFAULT_APP_LOCK_TIMEOUTS>) => {
+    if (!settings) return;
+    appLock.setTimeouts({
+      idleTimeoutMinutes: changes.idleTimeoutMinutes ?? settings.idleTimeoutMinutes,
+      hiddenTimeoutMinutes: changes.hiddenTimeoutMinutes ?? settings.hiddenTimeoutMinutes
+    });
+    setSettings(appLock.getSettings());
+  };
+
+  const buttonClass = 'px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass = 'block w-full bg-tactile-taupe/30 text-sm px-3 py-1.5 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+  const selectClass = 'bg-tactile-taupe/30 text-sm px-2 py-1 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-text-secondary">
+        {settings
+          ? `The journal locks with your ${label(settings.type)} after a period of inactivity or when this tab is hidden, and entries are cleared from memory.`
+          : 'Ask for a PIN or passphrase before showing the journal, e.g. on a shared computer.'}
+      </p>
+
+      {settings && (
+        <div className="space-y-2 text-sm text-[#1a1a1a]">
+          <label className="flex items-center justify-between gap-3">
+            <span>Lock after inactivity</span>
+            <select
+              value={settings.idleTimeoutMinutes}
+              onChange={(e) => handleTimeoutChange({ idleTimeoutMinutes: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {IDLE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} min</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            <span>Lock when hidden for</span>
+            <select
+              value={settings.hiddenTimeoutMinutes}
+              onChange={(e) => handleTimeoutChange({ hiddenTimeoutMinutes: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {HIDDEN_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'Immediately' : `${minutes} min`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {!isEditing && (
+        <div className="flex flex-wrap gap-3">
+          {settings ? (
+            <>
+              <button onClick={() => appLock.lock('manual')} className={buttonClass}>
+                Lock now
+              </button>
+              <button onClick={() => setIsEditing(true)} className={buttonClass}>
+                Turn off app lock
+              </button>
+            </>
+          ) : (
+            <button onClick={() => setIsEditing(true)} className={buttonClass}>
+              Turn on app lock
+            </button>
+          )}
+        </div>
+      )}
+
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {!settings && (
+            <div className="flex gap-4 text-sm text-[#1a1a1a]">
+              {(['pin', 'passphrase'] as AppLockCredentialType[]).map(option => (
+                <label key={option} className="flex items-center gap-2">
+                  <input type="radio" name="app-lock-type" checked={type === option} onChange={() => setType(option)} />
+                  {option === 'pin' ? 'PIN' : 'Passphrase'}
+                </label>
+              ))}
+            </div>
+          )}
+          <input
+            type="password"
+            inputMode={(settings?.type ?? type) === 'pin' ? 'numeric' : undefined}
+            autoComplete={settings ? 'current-password' : 'new-password'}
+            placeholder={settings
+              ? `Current ${label(settings.type)}`
+              : type === 'pin'
+                ? `PIN (at least ${MIN_PIN_LENGTH} digits)`
+                : `Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className={inputClass}
+            autoFocus
+          />
+          {!settings && (
+            <input
+              type="password"
+              inputMode={type === 'pin' ? 'numeric' : undefined}
+              autoComplete="new-password"
+              placeholder={`Repeat ${label(type)}`}
+              value={confirmSecret}
+              onChange={(e) => setConfirmSecret(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          {error && (
+            <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button type="submit" disabled={isBusy || secret.length === 0} className={buttonClass}>
+              {isBusy ? 'Working…' : settings ? 'Turn off' : 'Turn on'}
+            </button>
+            <button type="button" onClick={resetForm} disabled={isBusy} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
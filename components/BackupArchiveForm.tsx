@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadBackup, previewBackup, restoreBackup, BackupPasswordError, BackupFormatError } from '@/lib/backupArchive';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+
+interface BackupArchiveFormProps {
+  mode: 'export' | 'import';
+  file?: File | null; // The .heijo file to restore (import)
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Password form for encrypted .heijo backups. Exporting asks for the
+ * password twice; importing shows what the backup holds before restoring.
+ */
+export default function BackupArchiveForm({ mode, file, onDone, onCancel }: BackupArchiveFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+    await downloadBackup(password);
+    alert('Backup saved. Keep the password somewhere safe: the backup cannot be opened without it.');
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    const preview = await previewBackup(await file.text(), password);
+    const { counts, createdAt } = preview.manifest;
+    const summary = [
+      `This backup from ${new Date(createdAt).toLocaleString()} holds ${counts.entries} entries (${counts.trashed} in the trash), ${counts.customTags} tags, ${counts.settings} settings and ${counts.promptHistory} prompt history records.`,
+      preview.duplicates > 0 ? `${preview.duplicates} entries are already on this device and will be skipped.` : '',
+      `Restore ${preview.newEntries.length} entries? Settings from the backup replace the ones on this device.`
+    ].filter(Boolean).join('\n\n');
+    if (!confirm(summary)) return;
+
+    const result = await restoreBackup(preview);
+    alert(`Restored ${result.imported} entries from the backup.`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (mode === 'export') {
+        await handleExport();
+      } else {
+        await handleImport();
+      }
+      setPassword('');
+      setConfirmPassword('');
+      onDone();
+    } catch (err) {
+      if (err instanceof BackupPasswordError || err instanceof BackupFormatError) {
+        setError(err.message);
+      } else {
+        console.error('Backup failed:', err);
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = 'block w-full bg-white text-sm px-3 py-2 rounded border border-[#B8B8B8] focus:outline-none focus:ring-1 focus:ring-[#1A1A1A]';
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 bg-[#F0F0F0] rounded-lg space-y-3">
+      <p className="text-xs text-[#6A6A6A]">
+        {mode === 'export'
+          ? 'Choose a password for this backup. Entries, settings and prompt history are encrypted with it. It cannot be recovered.'
+          : `Enter the password of ${file?.name ?? 'the backup'}.`}
+      </p>
+      <input
+        type="password"
+        autoComplete={mode === 'export' ? 'new-password' : 'current-password'}
+        placeholder={mode === 'export' ? `Password (at least ${MIN_PASSPHRASE_LENGTH} characters)` : 'Backup password'}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className={inputClass}
+        autoFocus
+      />
+      {mode === 'export' && (
+        <input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Repeat password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      {error && (
+        <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+      )}
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isBusy}
+          className="px-4 py-2 text-sm font-light border border-[#B8B8B8] text-[#6A6A6A] hover:bg-[#F8F8F8] transition-colors duration-200 rounded"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isBusy || password.length === 0}
+          className="px-4 py-2 text-sm font-light bg-[#1A1A1A] text-white hover:bg-[#2A2A2A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 rounded"
+        >
+          {isBusy
+            ? (mode === 'export' ? 'Encrypting...' : 'Checking...')
+            : (mode === 'export' ? 'Save Backup' : 'Preview Restore')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -6,6 +6,9 @@ import TagPicker from './TagPicker';
 import HeaderClock from './HeaderClock';
 import VibesPillButton from './VibesPillButton';
 import { JournalEntry } from '@/lib/store';
+import { secureStorage, RecordingQuotaError } from '@/lib/secureStorage';
+import { useVoiceSettings } from '@/lib/voiceSettings';
+import type { VoiceRecording } from '@/lib/voiceToText';
 import { getPrompt, logPromptHistory } from '@/lib/pickPrompt';
 import { analyticsCollector } from '@/lib/analytics';
 import { supabase, isSupabaseConfigured } from '@/lib/supabaseClient';
@@ -34,7 +37,25 @@ interface ComposerProps {
   onSaveStateChange?: (state: { isSaving: boolean; isSaved: boolean; error: string | null; isTranscribing?: boolean }) => void; // Optional callback to expose save states
 }
 
+/**
+ * Keep the audio an entry was dictated from (Settings → Keep voice recordings)
+ */
+async function attachRecordings(entryId: string, recordings: VoiceRecording[]): Promise<void> {
+  for (const recording of recordings) {
+    try {
+      await secureStorage.saveRecording(entryId, recording.audio, recording.durationMs, recording.words);
+    } catch (error) {
+      console.warn('Failed to keep voice recording:', error);
+      if (error instanceof RecordingQuotaError) {
+        alert(`Your entry was saved, but its recording was not. ${error.message}`);
+        return;
+      }
+    }
+  }
+}
+
 export default function Composer({ onSave, onExport, selectedPrompt, userId, fontSize, setFontSize, entryCount = 0, onManualSaveReady, onSaveStateChange }: ComposerProps) {
+  const { keepRecordings } = useVoiceSettings();
   const [content, setContent] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [source, setSource] = useState<'text' | 'voice'>('text');
@@ -57,6 +78,7 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
   // Mobile mic refs removed - mobile no longer uses custom MicButton
   const handleManualSaveRef = useRef<() => Promise<void>>();
   const userInitiatedSaveRef = useRef<boolean>(false); // Guard to ensure only user-initiated saves proceed
+  const pendingRecordingsRef = useRef<VoiceRecording[]>([]); // Audio of the voice input in the current draft
   const [isUserScrolled, setIsUserScrolled] = useState(false);
   const [showSaveGlow, setShowSaveGlow] = useState(false);
   const [showWelcomeOverlay, setShowWelcomeOverlay] = useState(false);
@@ -94,6 +116,13 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
     NEXT_PUBLIC_ENABLE_AUTO_SAVE: process.env.NEXT_PUBLIC_ENABLE_AUTO_SAVE
   });
 
+  // A cleared draft takes its recordings with it
+  useEffect(() => {
+    if (!content.trim()) {
+      pendingRecordingsRef.current = [];
+    }
+  }, [content]);
+
   // Check if user has seen welcome (account-based, Supabase-first)
   // Show onboarding if has_seen_onboarding is false AND heijo_hasSeenWelcome is not 'true'
   useEffect(() => {
@@ -464,6 +493,15 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
           isSaveInProgressRef.current = false;
         }
 
+        // Recordings stay with the draft until they are attached to a saved entry
+        if (savedEntry) {
+          const recordings = pendingRecordingsRef.current;
+          if (recordings.length > 0) {
+            await attachRecordings(savedEntry.id, recordings);
+          }
+          pendingRecordingsRef.current = [];
+        }
+
         // Persist saved content string for duplicate detection (keep for 60 seconds)
         lastSavedContentStringRef.current = `${contentToSave}|TAGS|${selectedTags.join(',')}|SOURCE|${source}`;
         lastSavedContentHashRef.current = contentHash; // Keep hash for additional protection
@@ -658,7 +696,7 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [content, isRateLimited, isVoiceActive, source]); // Removed handleManualSave from deps - use ref instead
 
-  const handleVoiceTranscript = (transcript: string, isFinal?: boolean) => {
+  const handleVoiceTranscript = (transcript: string, isFinal?: boolean, recording?: VoiceRecording) => {
     // Mark user interaction when voice transcript arrives
     if (!hasUserInteracted) {
       setHasUserInteracted(true);
@@ -666,6 +704,9 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
 
     if (isFinal) {
       debugLog('Mic transcription complete, ready for saving');
+      if (recording && keepRecordings) {
+        pendingRecordingsRef.current.push(recording);
+      }
       
       // Track analytics for voice recording
       analyticsCollector.trackEvent('voice_recording_start');
@@ -720,14 +761,14 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
   };
 
   const handleVoiceError = (error: string) => {
-    // Log voice errors to console for debugging, but do not show in UI
+    // MicButton shows the message next to the mic; log it here for debugging
     console.error('[Heijo][Voice] Error:', error);
     setIsVoiceActive(false);
     setInterimTranscript('');
     setMicStatus('error');
     // Clear isTranscribing when error occurs - processing is done
     setIsTranscribing(false);
-    // Do NOT set voiceError state - no UI messages for voice errors
+    // No voiceError state here: the message would show twice
   };
 
   // Mic lifecycle callbacks for mobile hero button
@@ -752,7 +793,7 @@ export default function Composer({ onSave, onExport, selectedPrompt, userId, fon
     setMicStatus('unsupported');
     // Log unsupported state to console, but do not show in UI
     console.warn('[Heijo][Voice] Unsupported: Voice journaling is not supported on this browser');
-    // Do NOT set voiceError state - no UI messages for voice errors
+    // No voiceError state here: the message would show twice
   }, []);
 
   // Mobile mic ref setup removed - mobile no longer uses custom MicButton
@@ -1,14 +1,36 @@
 'use client';
 
-import { JournalEntry } from '@/lib/store';
+import { useState } from 'react';
+import { JournalEntry, EntryRevision, EntryUpdate } from '@/lib/store';
+import { diffWords } from '@/lib/revisionDiff';
+import { useSealedEntries, isLockedSealedEntry } from '@/lib/sealedEntries';
+import TagPicker from './TagPicker';
+import SealedEntryUnlock from './SealedEntryUnlock';
+import EntryRecordings from './EntryRecordings';
 import Link from 'next/link';
 
 interface EntryDetailProps {
   entry: JournalEntry;
+  revisions?: EntryRevision[];
   onDelete?: (id: string) => void;
+  onUpdate?: (id: string, changes: EntryUpdate) => Promise<void>;
+  onRestore?: (id: string, revisionId: string) => Promise<void>;
+  onSeal?: (id: string) => Promise<void>;
+  onUnseal?: (id: string) => Promise<void>;
 }
 
-export default function EntryDetail({ entry, onDelete }: EntryDetailProps) {
+export default function EntryDetail({ entry: storedEntry, revisions = [], onDelete, onUpdate, onRestore, onSeal, onUnseal }: EntryDetailProps) {
+  const sealed = useSealedEntries();
+  const entry = sealed.reveal(storedEntry);
+  const isLocked = isLockedSealedEntry(entry);
+  const [showSealUnlock, setShowSealUnlock] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftContent, setDraftContent] = useState(entry.content);
+  const [draftTags, setDraftTags] = useState<string[]>(entry.tags);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [comparedRevision, setComparedRevision] = useState<string | null>(null);
+
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString('en-US', {
@@ -23,11 +45,53 @@ export default function EntryDetail({ entry, onDelete }: EntryDetailProps) {
   };
 
   const handleDelete = () => {
-    if (onDelete && confirm('Are you sure you want to delete this entry?')) {
+    if (onDelete && confirm('Move this entry to the trash?')) {
       onDelete(entry.id);
     }
   };
 
+  const startEditing = () => {
+    setDraftContent(entry.content);
+    setDraftTags(entry.tags);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!onUpdate || !draftContent.trim()) return;
+    setIsSaving(true);
+    try {
+      await onUpdate(entry.id, { content: draftContent, tags: draftTags });
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSeal = async () => {
+    if (!onSeal) return;
+    if (!sealed.isUnlocked()) {
+      setShowSealUnlock(true);
+      return;
+    }
+    setShowSealUnlock(false);
+    if (confirm('Seal this entry? It can only be read with the passphrase for sealed entries, and its edit history is deleted.')) {
+      await onSeal(entry.id);
+    }
+  };
+
+  const handleUnseal = async () => {
+    if (onUnseal && confirm('Unseal this entry? It will be readable without the passphrase for sealed entries again.')) {
+      await onUnseal(entry.id);
+    }
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    if (onRestore && confirm('Restore this version? The current text will be kept in the history.')) {
+      await onRestore(entry.id, revisionId);
+      setComparedRevision(null);
+    }
+  };
+
   return (
     <div className="space-y-4 sm:space-y-6">
       {/* Header */}
@@ -38,14 +102,41 @@ export default function EntryDetail({ entry, onDelete }: EntryDetailProps) {
         >
           ← Back to Journal
         </Link>
-        {onDelete && (
-          <button
-            onClick={handleDelete}
-            className="text-xs sm:text-sm text-red-600 hover:text-red-800 transition-colors"
-          >
-            Delete
-          </button>
-        )}
+        <div className="flex items-center gap-4">
+          {onSeal && !entry.sealed && !isEditing && (
+            <button
+              onClick={handleSeal}
+              className="text-xs sm:text-sm text-[var(--ui-graphite)] hover:text-[var(--ui-press)] transition-colors"
+            >
+              Seal
+            </button>
+          )}
+          {onUnseal && entry.sealed && !isLocked && (
+            <button
+              onClick={handleUnseal}
+              className="text-xs sm:text-sm text-[var(--ui-graphite)] hover:text-[var(--ui-press)] transition-colors"
+            >
+              Unseal
+            </button>
+          )}
+          {/* Sealed entries are read-only; unseal to edit */}
+          {onUpdate && !isEditing && !entry.sealed && (
+            <button
+              onClick={startEditing}
+              className="text-xs sm:text-sm text-[var(--ui-graphite)] hover:text-[var(--ui-press)] transition-colors"
+            >
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={handleDelete}
+              className="text-xs sm:text-sm text-red-600 hover:text-red-800 transition-colors"
+            >
+              Delete
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Entry content */}
@@ -60,8 +151,47 @@ export default function EntryDetail({ entry, onDelete }: EntryDetailProps) {
               <span>•</span>
               <span className="break-words">{formatDateTime(entry.created_at)}</span>
             </div>
+            {entry.updated_at && (
+              <span className="text-xs text-text-caption">
+                Edited {formatDateTime(entry.updated_at)}
+              </span>
+            )}
           </div>
 
+          {showSealUnlock && (
+            <SealedEntryUnlock onUnlocked={handleSeal} onCancel={() => setShowSealUnlock(false)} />
+          )}
+
+          {isLocked ? (
+            <SealedEntryUnlock />
+          ) : isEditing ? (
+            <div className="space-y-3">
+              <textarea
+                value={draftContent}
+                onChange={(e) => setDraftContent(e.target.value)}
+                rows={8}
+                className="w-full px-3 py-2 text-sm bg-white border border-heijo-border rounded-lg focus:ring-1 focus:ring-heijo-press focus:outline-none text-heijo-text leading-relaxed"
+              />
+              <TagPicker selectedTags={draftTags} onTagsChange={setDraftTags} />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver transition-colors duration-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || !draftContent.trim()}
+                  className="px-3 py-1.5 text-xs font-light bg-heijo-press text-white rounded hover:opacity-90 transition-opacity duration-200 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save changes'}
+                </button>
+              </div>
+            </div>
+          ) : (
+          <>
           {/* Tags */}
           {entry.tags.length > 0 && (
             <div className="flex flex-wrap gap-1.5 sm:gap-2">
@@ -82,8 +212,78 @@ export default function EntryDetail({ entry, onDelete }: EntryDetailProps) {
               {entry.content}
             </p>
           </div>
+          </>
+          )}
+
+          {/* Kept voice recordings; also shown while editing, to correct the transcript */}
+          {!isLocked && entry.source === 'voice' && <EntryRecordings entryId={entry.id} />}
         </div>
       </div>
+
+      {/* Revision history */}
+      {revisions.length > 0 && (
+        <div className="space-y-3">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-xs sm:text-sm text-[var(--ui-graphite)] hover:text-[var(--ui-press)] transition-colors"
+          >
+            {showHistory ? 'Hide' : 'Show'} history ({revisions.length} {revisions.length === 1 ? 'version' : 'versions'})
+          </button>
+
+          {showHistory && (
+            <ul className="space-y-2">
+              {revisions.map(revision => (
+                <li key={revision.id} className="p-3 bg-white rounded-lg border border-[var(--ui-warm-silver)]">
+                  <div className="flex items-center justify-between text-xs text-text-secondary">
+                    <span>{formatDateTime(revision.created_at)}</span>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => setComparedRevision(comparedRevision === revision.id ? null : revision.id)}
+                        className="hover:text-[var(--ui-press)] transition-colors"
+                      >
+                        {comparedRevision === revision.id ? 'Hide changes' : 'Compare'}
+                      </button>
+                      {onRestore && (
+                        <button
+                          onClick={() => handleRestore(revision.id)}
+                          className="hover:text-[var(--ui-press)] transition-colors"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {comparedRevision === revision.id ? (
+                    <p className="mt-2 text-sm whitespace-pre-wrap leading-relaxed text-heijo-text">
+                      {diffWords(revision.content, entry.content).map((segment, index) => (
+                        <span
+                          key={index}
+                          className={
+                            segment.type === 'added'
+                              ? 'bg-green-100 text-green-900'
+                              : segment.type === 'removed'
+                                ? 'bg-red-100 text-red-900 line-through'
+                                : undefined
+                          }
+                        >
+                          {segment.text}
+                        </span>
+                      ))}
+                    </p>
+                  ) : (
+                    <p className="mt-2 text-sm text-heijo-text line-clamp-2">{revision.content}</p>
+                  )}
+
+                  {revision.tags.length > 0 && (
+                    <p className="mt-1 text-xs text-text-caption">{revision.tags.join(', ')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,13 +1,16 @@
 'use client';
 
 import { JournalEntry } from '@/lib/store';
+import { useSealedEntries, isLockedSealedEntry } from '@/lib/sealedEntries';
 import Link from 'next/link';
 
 interface EntryListProps {
   entries: JournalEntry[];
 }
 
-export default function EntryList({ entries }: EntryListProps) {
+export default function EntryList({ entries: storedEntries }: EntryListProps) {
+  const sealed = useSealedEntries();
+  const entries = storedEntries.map(entry => sealed.reveal(entry));
   const today = new Date().toDateString();
   const todayEntries = entries.filter(entry => 
     new Date(entry.created_at).toDateString() === today
@@ -82,9 +85,15 @@ export default function EntryList({ entries }: EntryListProps) {
               >
                 <div className="flex items-start justify-between">
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm text-gray-900 line-clamp-2">
-                      {entry.content}
-                    </p>
+                    {isLockedSealedEntry(entry) ? (
+                      <p className="text-sm text-[var(--ui-graphite)] italic">
+                        🔒 Sealed entry
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-900 line-clamp-2">
+                        {entry.content}
+                      </p>
+                    )}
                     {entry.tags.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-2">
                         {entry.tags.map(tag => (
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { secureStorage, EntryRecording } from '@/lib/secureStorage';
+import type { SttWord } from '@/lib/stt/types';
+
+interface EntryRecordingsProps {
+  entryId: string;
+}
+
+interface LoadedRecording extends EntryRecording {
+  url: string | null; // Object URL of the decrypted audio
+  words: SttWord[];
+}
+
+// Words the provider was less sure of than this are flagged for checking
+const LOW_CONFIDENCE = 0.6;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${('0' + (seconds % 60)).slice(-2)}`;
+}
+
+interface RecordingPlayerProps {
+  recording: LoadedRecording;
+  deleteLabel: string;
+  onDelete: () => void;
+}
+
+/**
+ * One recording, with its transcript below when the provider gave word
+ * timing: the word being played is highlighted, clicking a word plays from
+ * there, and words with low confidence are underlined.
+ */
+function RecordingPlayer({ recording, deleteLabel, onDelete }: RecordingPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const seek = (word: SttWord) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = word.start;
+    setCurrentTime(word.start);
+    audio.play().catch(error => console.warn('Failed to play recording:', error));
+  };
+
+  return (
+    <li className="space-y-1">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        {recording.url ? (
+          <audio
+            ref={audioRef}
+            controls
+            preload="metadata"
+            src={recording.url}
+            onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime)}
+            className="w-full sm:flex-1 h-9"
+          >
+            <track kind="captions" />
+          </audio>
+        ) : (
+          <span className="flex-1 text-xs text-text-caption">This recording could not be read.</span>
+        )}
+        <div className="flex items-center gap-3 text-xs text-text-secondary">
+          <span>{formatDuration(recording.durationMs)}</span>
+          <button
+            onClick={onDelete}
+            className="hover:text-[var(--ui-press)] transition-colors"
+          >
+            {deleteLabel}
+          </button>
+        </div>
+      </div>
+      {recording.url && recording.words.length > 0 && (
+        <p className="text-sm leading-relaxed text-text-secondary">
+          {recording.words.map((word, index) => {
+            const playing = currentTime > 0 && currentTime >= word.start && currentTime < word.end;
+            const uncertain = word.confidence !== undefined && word.confidence < LOW_CONFIDENCE;
+            return (
+              <span key={index}>
+                {index > 0 && ' '}
+                <button
+                  type="button"
+                  onClick={() => seek(word)}
+                  title={uncertain ? 'Low confidence: listen, and correct the entry if this is wrong' : 'Play from here'}
+                  className={`rounded-sm px-0.5 -mx-0.5 transition-colors hover:text-[#1a1a1a] ${
+                    playing ? 'bg-[#F3E6C4] text-[#1a1a1a]' : ''
+                  } ${uncertain ? 'underline decoration-dotted decoration-[var(--ui-press)] underline-offset-2' : ''}`}
+                >
+                  {word.text}
+                </button>
+              </span>
+            );
+          })}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Players for the voice recordings kept with an entry, so the transcript
+ * can be checked against what was said. Deleting audio keeps the text.
+ */
+export default function EntryRecordings({ entryId }: EntryRecordingsProps) {
+  const [recordings, setRecordings] = useState<LoadedRecording[]>([]);
+  const urlsRef = useRef<string[]>([]);
+
+  // Release the decrypted audio that is no longer shown
+  const revokeUrls = () => {
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current = [];
+  };
+
+  const load = useCallback(async () => {
+    try {
+      const kept = await secureStorage.getRecordings(entryId);
+      const loaded: LoadedRecording[] = [];
+      for (const recording of kept) {
+        let url: string | null = null;
+        let words: SttWord[] = [];
+        try {
+          const audio = await secureStorage.getRecordingAudio(recording.id);
+          url = audio ? URL.createObjectURL(audio) : null;
+          words = await secureStorage.getRecordingWords(recording.id);
+        } catch (error) {
+          console.warn(`Failed to decrypt recording ${recording.id}:`, error);
+        }
+        loaded.push({ ...recording, url, words });
+      }
+      revokeUrls();
+      urlsRef.current = loaded.map(recording => recording.url).filter((url): url is string => url !== null);
+      setRecordings(loaded);
+    } catch (error) {
+      console.warn('Failed to load voice recordings:', error);
+    }
+  }, [entryId]);
+
+  useEffect(() => {
+    load();
+    window.addEventListener('heijo:recordings-changed', load);
+    return () => {
+      window.removeEventListener('heijo:recordings-changed', load);
+      revokeUrls();
+    };
+  }, [load]);
+
+  const handleDelete = async (ids: string[]) => {
+    const message = ids.length === 1
+      ? 'Delete this recording? The text of the entry is kept.'
+      : `Delete all ${ids.length} recordings of this entry? The text is kept.`;
+    if (!confirm(message)) return;
+    try {
+      await secureStorage.deleteRecordings(ids);
+    } catch (error) {
+      console.error('Failed to delete recordings:', error);
+      alert('Failed to delete the recording. Please try again.');
+    }
+  };
+
+  if (recordings.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-heijo-border">
+      <div className="flex items-center justify-between text-xs text-text-secondary">
+        <span>{recordings.length === 1 ? 'Original recording' : `Original recordings (${recordings.length})`}</span>
+        {recordings.length > 1 && (
+          <button
+            onClick={() => handleDelete(recordings.map(recording => recording.id))}
+            className="hover:text-[var(--ui-press)] transition-colors"
+          >
+            Delete audio, keep text
+          </button>
+        )}
+      </div>
+      <ul className="space-y-3">
+        {recordings.map(recording => (
+          <RecordingPlayer
+            key={recording.id}
+            recording={recording}
+            deleteLabel={recordings.length === 1 ? 'Delete audio, keep text' : 'Delete'}
+            onDelete={() => handleDelete([recording.id])}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
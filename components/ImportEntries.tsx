@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  getImporters,
+  readImportFiles,
+  readCsvHeaders,
+  previewImport,
+  runImport,
+  downloadImportReport,
+  ImportFile,
+  ImportPreview,
+  ImportReport,
+  CsvColumnMapping,
+  DateOrder
+} from '@/lib/importers';
+
+const SKIPPED_ROWS_SHOWN = 20;
+
+interface ImportEntriesProps {
+  onImported?: () => void;
+}
+
+/**
+ * Import from other journal apps: pick the app and files, check the dry-run
+ * preview, then import and download the report
+ */
+export default function ImportEntries({ onImported }: ImportEntriesProps) {
+  const importers = getImporters();
+  const [importerId, setImporterId] = useState(importers[0].id);
+  const [files, setFiles] = useState<ImportFile[]>([]);
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ content: '', date: '', dateOrder: 'ymd' });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const importer = importers.find(candidate => candidate.id === importerId)!;
+
+  useEffect(() => {
+    // Not a standard attribute, so React does not pass it through
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [importerId]);
+
+  const reset = () => {
+    setFiles([]);
+    setCsvHeaders([]);
+    setPreview(null);
+    setReport(null);
+    setError(null);
+  };
+
+  const handleFiles = async (picked: FileList | null) => {
+    reset();
+    if (!picked || picked.length === 0) return;
+    const read = await readImportFiles(Array.from(picked));
+    setFiles(read);
+    if (importer.id === 'csv') {
+      const headers = readCsvHeaders(read[0]);
+      setCsvHeaders(headers);
+      setMapping({
+        content: headers.find(header => /content|text|entry|body/i.test(header)) ?? headers[0] ?? '',
+        date: headers.find(header => /date|created/i.test(header)) ?? '',
+        dateOrder: 'ymd'
+      });
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPreview(await previewImport(importerId, files, importer.id === 'csv' ? { csvMapping: mapping } : {}));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'These files could not be read.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsBusy(true);
+    try {
+      const result = await runImport(preview);
+      setPreview(null);
+      setReport(result);
+      onImported?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const buttonClass = 'px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+  const selectClass = 'bg-tactile-taupe/30 text-sm px-2 py-1 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+  const skippedRows = (preview ?? report)?.skipped ?? [];
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-3 text-sm text-[#1a1a1a]">
+        <span>Import from</span>
+        <select
+          value={importerId}
+          onChange={(e) => {
+            setImporterId(e.target.value);
+            reset();
+          }}
+          className={selectClass}
+        >
+          {importers.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-text-caption">{importer.description}</p>
+
+      <div className="flex flex-wrap gap-3">
+        <label className={`${buttonClass} cursor-pointer`}>
+          {importer.multiple ? 'Choose files' : 'Choose file'}
+          <input
+            type="file"
+            accept={importer.accept}
+            multiple={importer.multiple}
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {importer.multiple && (
+          <label className={`${buttonClass} cursor-pointer`}>
+            Choose folder
+            <input
+              ref={folderInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+      {files.length > 0 && (
+        <p className="text-xs text-text-secondary">
+          {files.length === 1 ? files[0].path : `${files.length} files`}
+        </p>
+      )}
+
+      {csvHeaders.length > 0 && (
+        <div className="space-y-2 text-sm text-[#1a1a1a]">
+          {([
+            ['content', 'Text'],
+            ['date', 'Date'],
+            ['time', 'Time (optional)'],
+            ['tags', 'Tags (optional)'],
+            ['source', 'Source (optional)']
+          ] as [keyof CsvColumnMapping, string][]).map(([field, label]) => (
+            <label key={field} className="flex items-center justify-between gap-3">
+              <span>{label}</span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                className={selectClass}
+              >
+                {field !== 'content' && <option value="">—</option>}
+                {csvHeaders.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-3">
+            <span>Numeric dates are</span>
+            <select
+              value={mapping.dateOrder}
+              onChange={(e) => setMapping({ ...mapping, dateOrder: e.target.value as DateOrder })}
+              className={selectClass}
+            >
+              <option value="ymd">Year/month/day</option>
+              <option value="dmy">Day/month/year</option>
+              <option value="mdy">Month/day/year</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {files.length > 0 && !preview && !report && (
+        <button onClick={handlePreview} disabled={isBusy || (csvHeaders.length > 0 && !mapping.date)} className={buttonClass}>
+          {isBusy ? 'Reading…' : 'Preview import'}
+        </button>
+      )}
+
+      {error && (
+        <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+      )}
+
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-sm text-[#1a1a1a]">
+            {preview.entries.length} of {preview.total} entries will be imported, {preview.skipped.length} skipped. Nothing has been saved yet.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <button onClick={handleImport} disabled={isBusy || preview.entries.length === 0} className={buttonClass}>
+              {isBusy ? 'Importing…' : `Import ${preview.entries.length} entries`}
+            </button>
+            <button onClick={reset} disabled={isBusy} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-sm text-[#1a1a1a]">
+            Imported {report.imported} of {report.total} entries, {report.skipped.length} skipped.
+          </p>
+          <button onClick={() => downloadImportReport(report)} className={buttonClass}>
+            Download import report
+          </button>
+        </div>
+      )}
+
+      {skippedRows.length > 0 && (
+        <ul className="text-xs text-text-caption space-y-1 max-h-40 overflow-y-auto">
+          {skippedRows.slice(0, SKIPPED_ROWS_SHOWN).map((row, index) => (
+            <li key={index}>{row.origin}: {row.reason}</li>
+          ))}
+          {skippedRows.length > SKIPPED_ROWS_SHOWN && (
+            <li>…and {skippedRows.length - SKIPPED_ROWS_SHOWN} more{report ? ' (see the report)' : ''}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { encryptionManager, EncryptionLockedError, EncryptionStatus, KeyConflictError } from '@/lib/encryption';
+import {
+  createDeviceTransfer,
+  createRecoveryKey,
+  DeviceTransfer,
+  getRecoveryKit,
+  isRecoveryKitCurrent,
+  markRecoveryKitSaved,
+  openDeviceTransfer,
+  OpenedTransfer,
+  RECOVERY_WORD_COUNT,
+  restoreFromRecoveryKey
+} from '@/lib/keyRecovery';
+import { encodeQrCode, qrCodePath } from '@/lib/qrCode';
+
+type Panel = 'restore' | 'receive';
+
+function QrCodeImage({ text }: { text: string }) {
+  const qr = encodeQrCode(text);
+  const size = qr.size + 8;
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} width={size * 3} height={size * 3} role="img" aria-label="Transfer QR code" className="bg-white">
+      <path d={qrCodePath(qr)} fill="#000" />
+    </svg>
+  );
+}
+
+function buildPrintPage(kit: string, words: string[] | null): string {
+  const qr = encodeQrCode(kit);
+  const size = qr.size + 8;
+  const wordList = words
+    ? `<ol class="words">${words.map(word => `<li>${word}</li>`).join('')}</ol>`
+    : `<p>Write your ${RECOVERY_WORD_COUNT} recovery words here, or keep this page with the ones you printed earlier:</p><div class="blank"></div>`;
+
+  return `<!DOCTYPE html><html><head><title>Heijo recovery kit</title><style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 40px; color: #1a1a1a; }
+    .words { columns: 3; font-size: 16px; line-height: 2; }
+    .blank { height: 160px; border: 1px dashed #999; }
+    .kit { font-family: monospace; font-size: 10px; word-break: break-all; }
+  </style></head><body>
+    <h1>Heijo recovery kit</h1>
+    <p>Created ${new Date().toLocaleString()}. Anyone with this page and the words can read your journal. Keep it somewhere safe and offline.</p>
+    <h2>Recovery words</h2>
+    ${wordList}
+    <h2>Encrypted keys</h2>
+    <p>Print this kit again after rotating your encryption key.</p>
+    <svg viewBox="0 0 ${size} ${size}" width="${size * 4}" height="${size * 4}"><path d="${qrCodePath(qr)}" fill="#000"/></svg>
+    <p class="kit">${kit}</p>
+  </body></html>`;
+}
+
+export default function KeyRecoverySettings() {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  const [kitCurrent, setKitCurrent] = useState(false);
+  const [words, setWords] = useState<string[] | null>(null);
+  const [transfer, setTransfer] = useState<DeviceTransfer | null>(null);
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [restoreWords, setRestoreWords] = useState('');
+  const [restoreKit, setRestoreKit] = useState('');
+  const [transferPayload, setTransferPayload] = useState('');
+  const [transferCode, setTransferCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      setStatus(await encryptionManager.getStatus());
+      setHasRecoveryKey(await encryptionManager.hasRecoveryKey());
+      setKitCurrent(await isRecoveryKitCurrent());
+    } catch (err) {
+      console.warn('Failed to load recovery key state:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadState();
+    window.addEventListener('heijo:encryption-lock-changed', loadState);
+    window.addEventListener('heijo:keyring-changed', loadState);
+    return () => {
+      window.removeEventListener('heijo:encryption-lock-changed', loadState);
+      window.removeEventListener('heijo:keyring-changed', loadState);
+    };
+  }, [loadState]);
+
+  const closePanel = () => {
+    setPanel(null);
+    setRestoreWords('');
+    setRestoreKit('');
+    setTransferPayload('');
+    setTransferCode('');
+    setError(null);
+  };
+
+  const describeError = (err: unknown): string => {
+    if (err instanceof EncryptionLockedError) return 'Unlock your journal with your passphrase first.';
+    return err instanceof Error ? err.message : 'Something went wrong. Please try again.';
+  };
+
+  const handleCreateRecoveryKey = async () => {
+    if (hasRecoveryKey && !confirm('Replace your recovery key? The words and kit you printed before will stop working.')) return;
+    setIsBusy(true);
+    try {
+      setWords(await createRecoveryKey());
+      await loadState();
+    } catch (err) {
+      alert(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePrintKit = async () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Allow pop-ups for Heijo to print the recovery kit.');
+      return;
+    }
+    try {
+      printWindow.document.write(buildPrintPage(await getRecoveryKit(), words));
+      printWindow.document.close();
+      printWindow.print();
+      await markRecoveryKitSaved();
+      setWords(null);
+      await loadState();
+    } catch (err) {
+      printWindow.close();
+      alert(describeError(err));
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Restore keys from the recovery kit? The encryption keys and passphrase on this device are replaced.')) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const restored = await restoreFromRecoveryKey(restoreWords, restoreKit);
+      closePanel();
+      await loadState();
+      alert(`Restored ${restored.length} ${restored.length === 1 ? 'key' : 'keys'}. Your entries can be read again.`);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartTransfer = async () => {
+    setIsBusy(true);
+    try {
+      setTransfer(await createDeviceTransfer());
+    } catch (err) {
+      alert(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const importTransfer = async (opened: OpenedTransfer) => {
+    try {
+      return await encryptionManager.importKeys(opened.keys);
+    } catch (err) {
+      if (err instanceof KeyConflictError &&
+        confirm('This device already has its own encryption keys. Replace them? Entries written only on this device will no longer open.')) {
+        return encryptionManager.importKeys(opened.keys, { replace: true });
+      }
+      throw err;
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const opened = await openDeviceTransfer(transferPayload, transferCode);
+      if (!confirm(`Does your other device show the confirmation number ${opened.checksum}?`)) {
+        setError('The numbers do not match. Start a new transfer on the other device.');
+        return;
+      }
+      const imported = await importTransfer(opened);
+      closePanel();
+      await loadState();
+      alert(`Received ${imported.length} ${imported.length === 1 ? 'key' : 'keys'} from your other device.`);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!status) return null;
+
+  const buttonClass = 'px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass = 'block w-full bg-tactile-taupe/30 text-sm px-3 py-1.5 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-text-secondary">
+        {!hasRecoveryKey
+          ? 'Without a recovery key, clearing browser data or forgetting your passphrase means losing your encrypted entries.'
+          : kitCurrent
+            ? 'Recovery key set up. Keep the printed kit somewhere safe.'
+            : 'Your keys changed since the recovery kit was last printed. Print it again.'}
+      </p>
+
+      {words && (
+        <div className="rounded-lg border border-[#e5e5e5] p-3 space-y-2">
+          <p className="text-sm font-medium text-[#1a1a1a]">Your recovery words</p>
+          <ol className="grid grid-cols-3 gap-1 text-sm font-mono list-decimal list-inside">
+            {words.map((word, i) => <li key={i}>{word}</li>)}
+          </ol>
+          <p className="text-xs text-text-secondary">
+            These words are shown only once. Print the kit now; you need both the words and the kit to restore.
+          </p>
+        </div>
+      )}
+
+      {transfer && (
+        <div className="rounded-lg border border-[#e5e5e5] p-3 space-y-2">
+          <p className="text-sm font-medium text-[#1a1a1a]">Send keys to another device</p>
+          <p className="text-xs text-text-secondary">
+            On the other device, open Settings, choose Receive keys, scan or paste this payload and type the code.
+          </p>
+          <QrCodeImage text={transfer.payload} />
+          <textarea readOnly value={transfer.payload} rows={3} className={`${inputClass} font-mono text-xs`} aria-label="Transfer payload" />
+          <p className="text-sm">Code: <span className="font-mono font-semibold">{transfer.code}</span></p>
+          <p className="text-sm">Confirmation number: <span className="font-mono font-semibold">{transfer.checksum}</span></p>
+          <p className="text-xs text-text-caption">
+            Expires at {new Date(transfer.expiresAt).toLocaleTimeString()}. Only continue on the other device if it shows the same confirmation number.
+          </p>
+          <button type="button" onClick={() => setTransfer(null)} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+            Done
+          </button>
+        </div>
+      )}
+
+      {!panel && (
+        <div className="flex flex-wrap gap-3">
+          {!status.locked && (
+            <button onClick={handleCreateRecoveryKey} disabled={isBusy} className={buttonClass}>
+              {hasRecoveryKey ? 'New recovery key' : 'Create recovery key'}
+            </button>
+          )}
+          {hasRecoveryKey && !status.locked && (
+            <button onClick={handlePrintKit} disabled={isBusy} className={buttonClass}>
+              Print recovery kit
+            </button>
+          )}
+          {!status.locked && !transfer && (
+            <button onClick={handleStartTransfer} disabled={isBusy} className={buttonClass}>
+              Send keys to another device
+            </button>
+          )}
+          <button onClick={() => setPanel('receive')} className={buttonClass}>
+            Receive keys
+          </button>
+          <button onClick={() => setPanel('restore')} className={buttonClass}>
+            Restore from recovery kit
+          </button>
+        </div>
+      )}
+
+      {panel === 'restore' && (
+        <form onSubmit={handleRestore} className="space-y-2">
+          <textarea
+            placeholder={`Your ${RECOVERY_WORD_COUNT} recovery words (the first four letters of each are enough)`}
+            value={restoreWords}
+            onChange={(e) => setRestoreWords(e.target.value)}
+            rows={3}
+            className={inputClass}
+            autoFocus
+          />
+          <textarea
+            placeholder="Recovery kit text (starts with heijo-recovery:)"
+            value={restoreKit}
+            onChange={(e) => setRestoreKit(e.target.value)}
+            rows={3}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          {error && (
+            <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button type="submit" disabled={isBusy || !restoreWords || !restoreKit} className={buttonClass}>
+              {isBusy ? 'Working…' : 'Restore keys'}
+            </button>
+            <button type="button" onClick={closePanel} disabled={isBusy} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {panel === 'receive' && (
+        <form onSubmit={handleReceive} className="space-y-2">
+          <textarea
+            placeholder="Transfer payload (starts with heijo-transfer:)"
+            value={transferPayload}
+            onChange={(e) => setTransferPayload(e.target.value)}
+            rows={3}
+            className={`${inputClass} font-mono text-xs`}
+            autoFocus
+          />
+          <input
+            type="text"
+            autoComplete="off"
+            placeholder="Code (XXXXX-XXXXX)"
+            value={transferCode}
+            onChange={(e) => setTransferCode(e.target.value)}
+            className={`${inputClass} font-mono`}
+          />
+          {error && (
+            <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button type="submit" disabled={isBusy || !transferPayload || !transferCode} className={buttonClass}>
+              {isBusy ? 'Working…' : 'Receive keys'}
+            </button>
+            <button type="button" onClick={closePanel} disabled={isBusy} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { createEnhancedMicButton, VoiceMetrics, EnhancedMicButton } from '@/lib/voiceToText';
-import { useVoiceSettings } from '@/lib/voiceSettings';
+import { createEnhancedMicButton, VoiceMetrics, EnhancedMicButton, VoiceRecording } from '@/lib/voiceToText';
+import { useVoiceSettings, VoiceProvider } from '@/lib/voiceSettings';
 import { detectVoiceCapabilities, getRecommendedProvider, getVoiceSupportMessage } from '@/lib/browserCapabilities';
 import { debugLog } from '@/lib/logger';
+import { STT_ERROR_MESSAGES } from '@/lib/stt/errors';
 
 type MicState = 'idle' | 'initializing' | 'ready' | 'recording' | 'error';
 
+// Web Speech reports bare codes (e.g. 'no-speech'); the backend engine sends sentences
+function toUserMessage(error: string): string | null {
+  if (error === 'aborted') return null; // Stopped on purpose
+  if (error === 'no-speech') return 'We didn\'t hear anything. Please try again.';
+  return /^[a-z-]+$/.test(error) ? STT_ERROR_MESSAGES.unknown : error;
+}
+
 /**
  * CODEX CHANGES INVESTIGATION:
  * 
@@ -27,7 +35,7 @@ type MicState = 'idle' | 'initializing' | 'ready' | 'recording' | 'error';
  */
 
 interface MicButtonProps {
-  onTranscript: (text: string, isFinal?: boolean) => void;
+  onTranscript: (text: string, isFinal?: boolean, recording?: VoiceRecording) => void;
   onError?: (error: string) => void;
   onStart?: () => void;
   onStop?: () => void;
@@ -42,8 +50,11 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
   const [isSupported, setIsSupported] = useState(false);
   const [metrics, setMetrics] = useState<VoiceMetrics | null>(null);
   const [permissionState, setPermissionState] = useState<'granted' | 'denied' | 'prompt' | 'unknown'>('unknown');
-  const [effectiveProvider, setEffectiveProvider] = useState<'webspeech' | 'whisper' | 'google'>('webspeech');
+  const [effectiveProvider, setEffectiveProvider] = useState<VoiceProvider>('webspeech');
   const [isUnsupported, setIsUnsupported] = useState(false);
+  const [canRetry, setCanRetry] = useState(false); // The last transcription failed and its audio was kept
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null); // Why the last recording or transcription failed
   const micRef = useRef<HTMLButtonElement>(null);
   const enhancedMicButtonRef = useRef<EnhancedMicButton | null>(null);
   const capabilitiesRef = useRef<ReturnType<typeof detectVoiceCapabilities> | null>(null);
@@ -107,7 +118,7 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
 
         // Determine effective provider based on capabilities
         const recommendedProvider = getRecommendedProvider(capabilities);
-        let effectiveProv: 'webspeech' | 'whisper' | 'google' = 'webspeech';
+        let effectiveProv: VoiceProvider = 'webspeech';
 
         if (recommendedProvider === 'unsupported') {
           if (cancelled) return;
@@ -117,8 +128,8 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
           onErrorRef.current?.(supportMessage || 'Voice input is not supported on this device.');
           return;
         } else if (recommendedProvider === 'backend') {
-          // Auto-select backend provider (prefer whisper, fallback to google)
-          effectiveProv = userProvider === 'google' ? 'google' : 'whisper';
+          // Auto-select a backend provider: the user's choice, else whisper
+          effectiveProv = userProvider === 'webspeech' ? 'whisper' : userProvider;
           // Update context if needed - but only once to avoid loops
           if (userProvider === 'webspeech' && !hasAutoSwitchedProviderRef.current) {
             setProvider('whisper');
@@ -126,7 +137,7 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
           }
         } else {
           // WebSpeech is available
-          effectiveProv = userProvider === 'webspeech' ? 'webspeech' : 'whisper';
+          effectiveProv = userProvider;
           // Reset flag when WebSpeech is available
           hasAutoSwitchedProviderRef.current = false;
         }
@@ -298,12 +309,12 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
           // Need to create new instance
           const capabilities = detectVoiceCapabilities();
           const recommendedProvider = getRecommendedProvider(capabilities);
-          let effectiveProv: 'webspeech' | 'whisper' | 'google' = 'webspeech';
+          let effectiveProv: VoiceProvider = 'webspeech';
           
           if (recommendedProvider === 'backend') {
-            effectiveProv = userProvider === 'google' ? 'google' : 'whisper';
+            effectiveProv = userProvider === 'webspeech' ? 'whisper' : userProvider;
           } else {
-            effectiveProv = userProvider === 'webspeech' ? 'webspeech' : 'whisper';
+            effectiveProv = userProvider;
           }
           
           const micButton = createEnhancedMicButton(selectedLanguage, effectiveProv);
@@ -389,6 +400,7 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
       try {
         isStartingRef.current = true; // Set guard to prevent double-toggling
         setMicState('recording');
+        setErrorMessage(null);
         
         // Ensure language is up to date before starting
         enhancedMicButtonRef.current.setLanguage(selectedLanguage);
@@ -412,11 +424,12 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
 
         debugLog(`Starting enhanced microphone listening with language: ${selectedLanguage}, provider: ${effectiveProvider}...`);
         await enhancedMicButtonRef.current.startListening(
-          (text, isFinal) => {
-            onTranscript(text, isFinal);
+          (text, isFinal, recording) => {
+            onTranscript(text, isFinal, recording);
             if (isFinal) {
               // Update metrics after each final result
               setMetrics(enhancedMicButtonRef.current?.getMetrics() || null);
+              setCanRetry(enhancedMicButtonRef.current?.canRetryTranscription() ?? false);
             }
           },
           (error) => {
@@ -424,6 +437,8 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
             setIsListening(false);
             setMicState('ready');
             isStartingRef.current = false; // Reset guard on error
+            setCanRetry(enhancedMicButtonRef.current?.canRetryTranscription() ?? false);
+            setErrorMessage(toUserMessage(error));
             onError?.(error);
           },
           () => {
@@ -446,6 +461,7 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
       } catch (error) {
         console.error('Mic start failed:', error);
         const errorMessage = getMicrophoneErrorMessage(error);
+        setErrorMessage(errorMessage);
         onError?.(errorMessage);
         setPermissionState('denied');
         setMicState('ready'); // Return to ready state, allow retry
@@ -454,6 +470,26 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
     }
   };
 
+  // Send the audio of a failed transcription again instead of dictating it twice
+  const retryTranscription = async () => {
+    const micButton = enhancedMicButtonRef.current;
+    if (!micButton || isRetrying) return;
+    setIsRetrying(true);
+    setErrorMessage(null); // Set again if the retry fails too
+    try {
+      await micButton.retryTranscription();
+    } finally {
+      setIsRetrying(false);
+      setCanRetry(micButton.canRetryTranscription());
+    }
+  };
+
+  const discardFailedRecording = () => {
+    enhancedMicButtonRef.current?.discardFailedRecording();
+    setCanRetry(false);
+    setErrorMessage(null);
+  };
+
   // [Heijo Remediation 2025-01-06] Unified error messaging
   const getMicrophoneErrorMessage = (error: any) => {
     const errorName = error?.name || 'UnknownError';
@@ -573,6 +609,32 @@ export default function MicButton({ onTranscript, onError, onStart, onStop, onUn
         <div className="absolute top-full right-4 w-0 h-0 border-l-2 border-r-2 border-t-2 border-transparent border-t-graphite-charcoal"></div>
       </div>
 
+      {/* Why the last attempt failed, and a retry with the kept audio */}
+      {(errorMessage || canRetry) && !isListening && (
+        <div className="absolute top-full right-0 mt-2 flex flex-col items-end gap-1 z-10">
+          {errorMessage && (
+            <p role="alert" className="w-56 px-2 py-1 bg-graphite-charcoal text-text-inverse text-xs rounded">
+              {errorMessage}
+            </p>
+          )}
+          {canRetry && (
+            <div className="flex items-center gap-1 px-2 py-1 bg-graphite-charcoal text-text-inverse text-xs rounded-full whitespace-nowrap">
+              <button
+                onClick={retryTranscription}
+                disabled={isRetrying}
+                title="Your recording was kept; send it again."
+                className="disabled:opacity-60"
+              >
+                {isRetrying ? 'Retrying…' : 'Retry transcription'}
+              </button>
+              <button onClick={discardFailedRecording} aria-label="Discard recording" className="opacity-60 hover:opacity-100">
+                ×
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Metrics display (for debugging) */}
       {metrics && process.env.NEXT_PUBLIC_DEBUG_UI === '1' && (
         <div className="absolute top-full left-0 mt-2 p-2 bg-black text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10">
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  encryptionManager,
+  EncryptionManager,
+  EncryptionStatus,
+  MIN_PASSPHRASE_LENGTH,
+  WrongPassphraseError
+} from '@/lib/encryption';
+import { secureStorage, ReencryptionProgress } from '@/lib/secureStorage';
+
+type PassphraseAction = 'enable' | 'unlock' | 'change' | 'disable';
+
+const ACTION_LABELS: Record<PassphraseAction, string> = {
+  enable: 'Set passphrase',
+  unlock: 'Unlock',
+  change: 'Change passphrase',
+  disable: 'Remove passphrase'
+};
+
+export default function PassphraseSettings() {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [action, setAction] = useState<PassphraseAction | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [keyIds, setKeyIds] = useState<string[]>([]);
+  const [rotation, setRotation] = useState<ReencryptionProgress | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await encryptionManager.getStatus());
+      setKeyIds(await encryptionManager.getKeyIds());
+    } catch (err) {
+      console.warn('Failed to load encryption status:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+    const handleProgress = (event: Event) => {
+      const progress = (event as CustomEvent<ReencryptionProgress>).detail;
+      setRotation(progress.done ? null : progress);
+      if (progress.done) loadStatus();
+    };
+    window.addEventListener('heijo:encryption-lock-changed', loadStatus);
+    window.addEventListener('heijo:reencryption-progress', handleProgress);
+    return () => {
+      window.removeEventListener('heijo:encryption-lock-changed', loadStatus);
+      window.removeEventListener('heijo:reencryption-progress', handleProgress);
+    };
+  }, [loadStatus]);
+
+  const resetForm = () => {
+    setAction(null);
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const needsNewPassphrase = action === 'enable' || action === 'change';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    if (needsNewPassphrase && newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (action === 'enable') {
+        await encryptionManager.enablePassphrase(newPassphrase);
+      } else if (action === 'unlock') {
+        await encryptionManager.unlock(passphrase);
+      } else if (action === 'change') {
+        await encryptionManager.changePassphrase(passphrase, newPassphrase);
+      } else {
+        await encryptionManager.disablePassphrase(passphrase);
+      }
+      resetForm();
+      await loadStatus();
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError('Incorrect passphrase. Please try again.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!confirm('Create a new encryption key and re-encrypt all local entries with it? Older keys are deleted afterwards.')) return;
+    setIsBusy(true);
+    try {
+      const progress = await secureStorage.rotateKey();
+      alert(`Re-encrypted ${progress.processed} ${progress.processed === 1 ? 'entry' : 'entries'} with the new key.`);
+    } catch (err) {
+      console.error('Key rotation failed:', err);
+      alert('Key rotation did not finish. It resumes automatically, and older keys are kept until every entry has been re-encrypted.');
+    } finally {
+      setIsBusy(false);
+      setRotation(null);
+      await loadStatus();
+    }
+  };
+
+  const handleLock = async () => {
+    await encryptionManager.lock();
+    await loadStatus();
+  };
+
+  if (!EncryptionManager.isSupported()) {
+    return <p className="text-xs text-text-secondary">Encryption is not supported in this browser.</p>;
+  }
+
+  if (!status) {
+    return <p className="text-xs text-text-secondary">Loading…</p>;
+  }
+
+  const buttonClass = 'px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass = 'block w-full bg-tactile-taupe/30 text-sm px-3 py-1.5 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-text-secondary">
+        {status.mode === 'device'
+          ? 'Your local encryption key is stored on this device. Set a passphrase so the key can only be unlocked by you.'
+          : status.locked
+            ? 'Locked. Enter your passphrase to read and write encrypted entries.'
+            : 'Unlocked with your passphrase. If you forget it, only a recovery key can restore access.'}
+      </p>
+
+      {!action && (
+        <div className="flex flex-wrap gap-3">
+          {status.mode === 'device' && (
+            <button onClick={() => setAction('enable')} className={buttonClass}>
+              Set passphrase
+            </button>
+          )}
+          {status.mode === 'passphrase' && status.locked && (
+            <button onClick={() => setAction('unlock')} className={buttonClass}>
+              Unlock
+            </button>
+          )}
+          {status.mode === 'passphrase' && !status.locked && (
+            <button onClick={handleLock} className={buttonClass}>
+              Lock now
+            </button>
+          )}
+          {status.mode === 'passphrase' && (
+            <>
+              <button onClick={() => setAction('change')} className={buttonClass}>
+                Change passphrase
+              </button>
+              <button onClick={() => setAction('disable')} className={buttonClass}>
+                Remove passphrase
+              </button>
+            </>
+          )}
+          {!status.locked && (
+            <button onClick={handleRotateKey} disabled={isBusy || rotation !== null} className={buttonClass}>
+              Rotate key
+            </button>
+          )}
+        </div>
+      )}
+
+      {keyIds.length > 0 && (
+        <p className="text-xs text-text-caption">
+          {rotation
+            ? `Re-encrypting entries… ${rotation.processed} of ${rotation.total}`
+            : `Current key: ${keyIds[keyIds.length - 1]}${keyIds.length > 1 ? ` (${keyIds.length - 1} older ${keyIds.length === 2 ? 'key' : 'keys'} still in use)` : ''}`}
+        </p>
+      )}
+
+      {action && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {!needsNewPassphrase || action === 'change' ? (
+            <input
+              type="password"
+              autoComplete="current-password"
+              placeholder="Current passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className={inputClass}
+              autoFocus
+            />
+          ) : null}
+          {needsNewPassphrase && (
+            <>
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                className={inputClass}
+                autoFocus={action === 'enable'}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Repeat new passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                className={inputClass}
+              />
+            </>
+          )}
+          {error && (
+            <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <button type="submit" disabled={isBusy} className={buttonClass}>
+              {isBusy ? 'Working…' : ACTION_LABELS[action]}
+            </button>
+            <button type="button" onClick={resetForm} disabled={isBusy} className="text-sm text-text-secondary hover:text-graphite-charcoal">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
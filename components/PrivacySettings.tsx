@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { gdprManager, ConsentSettings, PrivacyMetrics } from '@/lib/gdpr';
+import { downloadDeletionReceipt } from '@/lib/deletionReceipt';
+import { BACKUP_FILE_EXTENSION } from '@/lib/backupArchive';
+import BackupArchiveForm from './BackupArchiveForm';
 
 interface PrivacySettingsProps {
   isOpen: boolean;
@@ -15,6 +18,8 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [backupMode, setBackupMode] = useState<'export' | 'import' | null>(null);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
   const fileInputId = 'heijo-import-file-input';
 
   useEffect(() => {
@@ -38,10 +43,10 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
     gdprManager.updateConsent(updatedConsent);
   };
 
-  const handleExportJSON = async () => {
+  const handleExportCSV = async () => {
     setIsExporting(true);
     try {
-      await gdprManager.exportAsJSON();
+      await gdprManager.exportAsCSV();
     } catch (error) {
       console.error('Export failed:', error);
     } finally {
@@ -49,23 +54,30 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
     }
   };
 
-  const handleExportCSV = async () => {
-    setIsExporting(true);
-    try {
-      await gdprManager.exportAsCSV();
-    } catch (error) {
-      console.error('Export failed:', error);
-    } finally {
-      setIsExporting(false);
+  const handleImportFile = (file: File) => {
+    if (file.name.endsWith(BACKUP_FILE_EXTENSION)) {
+      setBackupFile(file);
+      setBackupMode('import');
+    } else {
+      // Plaintext exports from earlier versions
+      handleImportJSON(file);
     }
   };
 
+  const handleBackupDone = async () => {
+    setBackupMode(null);
+    setBackupFile(null);
+    await loadData();
+  };
+
   const handleImportJSON = async (file: File) => {
     setIsImporting(true);
     try {
-      const { imported } = await gdprManager.importFromJSON(file);
+      const { imported, skipped } = await gdprManager.importFromJSON(file);
       await loadData();
-      alert(`Imported ${imported} entries from backup.`);
+      alert(skipped.length > 0
+        ? `Imported ${imported} entries from backup. ${skipped.length} could not be imported:\n${skipped.map(row => `${row.origin}: ${row.reason}`).join('\n')}`
+        : `Imported ${imported} entries from backup.`);
     } catch (error) {
       console.error('Import failed:', error);
       alert('Import failed. Please verify the file format.');
@@ -77,13 +89,17 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
   const handleDeleteAll = async () => {
     setIsDeleting(true);
     try {
-      await gdprManager.deleteAllData();
+      const receipt = await gdprManager.deleteAllData();
       setShowDeleteConfirm(false);
+      if (confirm('All data was deleted and its encryption keys destroyed. Download a deletion receipt to keep?')) {
+        downloadDeletionReceipt(receipt);
+      }
       onClose();
       // Reload the page to reset the app state
       window.location.reload();
     } catch (error) {
       console.error('Delete failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete your data. Please try again.');
     } finally {
       setIsDeleting(false);
     }
@@ -202,11 +218,11 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
             <h3 className="text-sm font-medium text-[#1A1A1A] mb-4">Export Your Data</h3>
             <div className="flex gap-3 flex-wrap items-center">
               <button
-                onClick={handleExportJSON}
-                disabled={isExporting || metrics.totalEntries === 0}
+                onClick={() => setBackupMode('export')}
+                disabled={backupMode !== null || metrics.totalEntries === 0}
                 className="px-4 py-2 text-sm font-light bg-[#1A1A1A] text-white hover:bg-[#2A2A2A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 rounded"
               >
-                {isExporting ? 'Exporting...' : 'Export as JSON'}
+                Encrypted Backup (.heijo)
               </button>
               <button
                 onClick={handleExportCSV}
@@ -219,23 +235,34 @@ export default function PrivacySettings({ isOpen, onClose }: PrivacySettingsProp
                 <input
                   id={fileInputId}
                   type="file"
-                  accept=".json,application/json"
+                  accept={`${BACKUP_FILE_EXTENSION},.json,application/json`}
                   className="hidden"
                   onChange={(e) => {
                     const f = e.target.files && e.target.files[0];
-                    if (f) handleImportJSON(f);
+                    if (f) handleImportFile(f);
                     (e.target as HTMLInputElement).value = '';
                   }}
                 />
                 <button
                   onClick={() => document.getElementById(fileInputId)?.click()}
-                  disabled={isImporting}
+                  disabled={isImporting || backupMode !== null}
                   className="px-4 py-2 text-sm font-light border border-[#B8B8B8] text-[#6A6A6A] hover:bg-[#F0F0F0] disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 rounded"
                 >
-                  {isImporting ? 'Importing...' : 'Restore from Backup (JSON)'}
+                  {isImporting ? 'Importing...' : 'Restore from Backup'}
                 </button>
               </div>
             </div>
+            {backupMode && (
+              <BackupArchiveForm
+                mode={backupMode}
+                file={backupFile}
+                onDone={handleBackupDone}
+                onCancel={() => {
+                  setBackupMode(null);
+                  setBackupFile(null);
+                }}
+              />
+            )}
           </div>
 
           {/* Data Deletion */}
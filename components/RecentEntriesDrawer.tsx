@@ -1,23 +1,118 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { JournalEntry } from '@/lib/store';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { JournalEntry, storage } from '@/lib/store';
+import { EntryQuery, matchesEntryQuery, startOfWeek } from '@/lib/entryQuery';
+import { entrySearch, EntrySearchResult } from '@/lib/entrySearch';
+import { HighlightSegment, highlightMatches, highlightSnippet } from '@/lib/searchIndex';
+import { SearchQuery, SearchQueryError, getTextClauses, parseSearchQuery } from '@/lib/searchQuery';
+import { SavedSearch, deleteSavedSearch, getSavedSearches, saveSearch } from '@/lib/savedSearches';
+import { useVoiceSettings } from '@/lib/voiceSettings';
+import { useSealedEntries, isLockedSealedEntry } from '@/lib/sealedEntries';
+import TrashView from './TrashView';
 
 interface RecentEntriesDrawerProps {
-  entries: JournalEntry[];
+  entries: JournalEntry[]; // This week's entries; older weeks are loaded by the drawer
   onEntryClick: (entry: JournalEntry) => void;
   onExportAll?: () => void;
   onDelete?: (id: string) => void;
+  onRestore?: () => void; // Called after an entry is restored from the trash
 }
 
-export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll, onDelete }: RecentEntriesDrawerProps) {
+// A past week whose entries are fetched when it is first expanded
+interface WeekGroup {
+  key: string;
+  start: string;
+  end: string;
+  entries: JournalEntry[] | null;
+  nextCursor: string | null;
+  isLoading: boolean;
+}
+
+const WEEKS_PER_LOAD = 4;
+const WEEK_PAGE_SIZE = 20;
+
+export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll, onDelete, onRestore }: RecentEntriesDrawerProps) {
+  const sealed = useSealedEntries();
   const [isOpen, setIsOpen] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [expandedWeeks, setExpandedWeeks] = useState<Set<string>>(new Set());
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedEntries, setSelectedEntries] = useState<Set<string>>(new Set());
+  const [pastWeeks, setPastWeeks] = useState<WeekGroup[]>([]);
+  const [hasOlderWeeks, setHasOlderWeeks] = useState(true);
+  const [isLoadingWeeks, setIsLoadingWeeks] = useState(false);
+  const filterGeneration = useRef(0);
+  const [searchResults, setSearchResults] = useState<EntrySearchResult[]>([]);
+  const [isSearchPending, setIsSearchPending] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const { selectedLanguage } = useVoiceSettings();
+
+  // Tag filter is applied by the storage query, not in memory
+  const filterQuery = useMemo<EntryQuery>(() => ({
+    tags: selectedTag ? [selectedTag] : undefined
+  }), [selectedTag]);
+
+  // Typing in the search box switches to results from the local index (see searchQuery for the syntax)
+  const isSearching = searchTerm.trim() !== '';
+  const { parsedQuery, queryError } = useMemo<{ parsedQuery: SearchQuery | null; queryError: SearchQueryError | null }>(() => {
+    try {
+      return { parsedQuery: parseSearchQuery(searchTerm), queryError: null };
+    } catch (error) {
+      if (error instanceof SearchQueryError) return { parsedQuery: null, queryError: error };
+      throw error;
+    }
+  }, [searchTerm]);
+  const searchClauses = useMemo(() => parsedQuery ? getTextClauses(parsedQuery) : [], [parsedQuery]);
+
+  useEffect(() => {
+    if (isOpen) setSavedSearches(getSavedSearches());
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !isSearching || !parsedQuery) {
+      setSearchResults([]);
+      setIsSearchPending(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearchPending(true);
+    const timer = setTimeout(() => {
+      entrySearch.search(parsedQuery, { language: selectedLanguage, filters: filterQuery })
+        .then(results => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(error => console.error('Search failed:', error))
+        .finally(() => {
+          if (!cancelled) setIsSearchPending(false);
+        });
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, isSearching, parsedQuery, filterQuery, selectedLanguage, entries]);
+
+  const handleSaveSearch = () => {
+    const name = prompt('Name this search:');
+    if (!name?.trim()) return;
+    try {
+      saveSearch(name, searchTerm);
+      setSavedSearches(getSavedSearches());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save search');
+    }
+  };
+
+  const handleDeleteSavedSearch = (id: string) => {
+    deleteSavedSearch(id);
+    setSavedSearches(getSavedSearches());
+  };
 
   // Listen for custom event to open drawer
   useEffect(() => {
@@ -40,8 +135,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
 
     const groups = {
       today: [] as JournalEntry[],
-      thisWeek: [] as JournalEntry[],
-      pastWeeks: {} as Record<string, JournalEntry[]>
+      thisWeek: [] as JournalEntry[]
     };
 
     entries.forEach(entry => {
@@ -52,19 +146,92 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
         groups.today.push(entry);
       } else if (entryDate >= weekStart) {
         groups.thisWeek.push(entry);
-      } else {
-        // Group by week
-        const weekKey = `${entryDate.getFullYear()}-W${Math.ceil(entryDate.getDate() / 7)}`;
-        if (!groups.pastWeeks[weekKey]) {
-          groups.pastWeeks[weekKey] = [];
-        }
-        groups.pastWeeks[weekKey].push(entry);
       }
+      // Older entries are shown through the on-demand past week groups
     });
 
     return groups;
   };
 
+  /**
+   * Find the next few older weeks that have matching entries. Each step is a
+   * single-row query for the newest entry before the oldest week found so far.
+   */
+  const loadOlderWeeks = async (existing: WeekGroup[], generation: number) => {
+    setIsLoadingWeeks(true);
+    try {
+      const found: WeekGroup[] = [];
+      let before = existing.length > 0
+        ? existing[existing.length - 1].start
+        : startOfWeek(new Date()).toISOString();
+      let hasMore = true;
+
+      while (found.length < WEEKS_PER_LOAD) {
+        const { entries: [newest] } = await storage.queryEntries({ ...filterQuery, to: before, limit: 1, cursor: null });
+        if (!newest) {
+          hasMore = false;
+          break;
+        }
+        const start = startOfWeek(new Date(newest.created_at));
+        const end = new Date(start);
+        end.setDate(start.getDate() + 7);
+        found.push({
+          key: start.toISOString(),
+          start: start.toISOString(),
+          end: end.toISOString(),
+          entries: null,
+          nextCursor: null,
+          isLoading: false
+        });
+        before = start.toISOString();
+      }
+
+      if (generation !== filterGeneration.current) return;
+      setPastWeeks([...existing, ...found]);
+      setHasOlderWeeks(hasMore);
+    } catch (error) {
+      console.error('Failed to load older weeks:', error);
+    } finally {
+      if (generation === filterGeneration.current) {
+        setIsLoadingWeeks(false);
+      }
+    }
+  };
+
+  const loadWeekEntries = async (week: WeekGroup) => {
+    const generation = filterGeneration.current;
+    setPastWeeks(prev => prev.map(w => w.key === week.key ? { ...w, isLoading: true } : w));
+    try {
+      const page = await storage.queryEntries({
+        ...filterQuery,
+        from: week.start,
+        to: week.end,
+        cursor: week.nextCursor,
+        limit: WEEK_PAGE_SIZE
+      });
+      if (generation !== filterGeneration.current) return;
+      setPastWeeks(prev => prev.map(w => w.key === week.key
+        ? { ...w, entries: [...(w.entries || []), ...page.entries], nextCursor: page.nextCursor, isLoading: false }
+        : w));
+    } catch (error) {
+      console.error('Failed to load week entries:', error);
+      setPastWeeks(prev => prev.map(w => w.key === week.key ? { ...w, isLoading: false } : w));
+    }
+  };
+
+  // (Re)discover past weeks when the drawer opens or the filters change
+  useEffect(() => {
+    if (!isOpen || isSearching) return;
+    const generation = ++filterGeneration.current;
+    setPastWeeks([]);
+    setHasOlderWeeks(true);
+    setExpandedWeeks(new Set());
+
+    const timer = setTimeout(() => loadOlderWeeks([], generation), 250);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, isSearching, filterQuery]);
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -97,28 +264,61 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
     }
   };
 
-  const toggleWeek = (weekKey: string) => {
+  const toggleWeek = (week: WeekGroup) => {
     const newExpanded = new Set(expandedWeeks);
-    if (newExpanded.has(weekKey)) {
-      newExpanded.delete(weekKey);
+    if (newExpanded.has(week.key)) {
+      newExpanded.delete(week.key);
     } else {
-      newExpanded.add(weekKey);
+      newExpanded.add(week.key);
+      if (week.entries === null && !week.isLoading) {
+        loadWeekEntries(week);
+      }
     }
     setExpandedWeeks(newExpanded);
   };
 
-  // Filter entries by search and tag
-  const filteredEntries = entries.filter(entry => {
-    const matchesSearch = entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesTag = !selectedTag || entry.tags.includes(selectedTag);
-    return matchesSearch && matchesTag;
-  });
+  const handleDelete = (id: string) => {
+    onDelete?.(id);
+    setPastWeeks(prev => prev.map(week => week.entries
+      ? { ...week, entries: week.entries.filter(entry => entry.id !== id) }
+      : week));
+    setSearchResults(prev => prev.filter(result => result.entry.id !== id));
+  };
+
+  const renderEntryText = (entry: JournalEntry) =>
+    isLockedSealedEntry(entry) ? <span className="italic opacity-70">🔒 Sealed entry</span> : entry.content;
+
+  const renderHighlighted = (segments: HighlightSegment[]) => segments.map((segment, index) =>
+    segment.match ? (
+      <mark key={index} className="bg-[#F3E6C4] text-inherit rounded-sm px-0.5">{segment.text}</mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+
+  // Sealed entries stay placeholders unless unlocked (see lib/sealedEntries)
+  const revealedEntries = entries.map(entry => sealed.reveal(entry));
+  const loadedPastEntries = pastWeeks.flatMap(week => week.entries || []).map(entry => sealed.reveal(entry));
+
+  // Recent entries come from props, so the same filters are applied here
+  const filteredEntries = isSearching
+    ? searchResults.map(result => result.entry)
+    : [
+        ...revealedEntries.filter(entry => matchesEntryQuery(entry, filterQuery)),
+        ...loadedPastEntries
+      ];
 
-  // Get all unique tags from entries
-  const allTags = Array.from(new Set(entries.flatMap(entry => entry.tags))).sort();
+  // Tags from everything loaded so far
+  const allTags = Array.from(new Set([
+    ...revealedEntries.flatMap(entry => entry.tags),
+    ...loadedPastEntries.flatMap(entry => entry.tags),
+    ...(selectedTag ? [selectedTag] : [])
+  ])).sort();
 
   const groups = groupEntriesByTime(filteredEntries);
-  const hasEntries = filteredEntries.length > 0;
+  const hasEntries = isSearching
+    ? searchResults.length > 0
+    : groups.today.length > 0 || groups.thisWeek.length > 0 || pastWeeks.length > 0;
 
   // Selection handlers
   const toggleSelection = (entryId: string) => {
@@ -143,9 +343,9 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
     if (selectedEntries.size === 0) return;
     
     const count = selectedEntries.size;
-    if (confirm(`Are you sure you want to delete ${count} ${count === 1 ? 'entry' : 'entries'}?`)) {
+    if (confirm(`Move ${count} ${count === 1 ? 'entry' : 'entries'} to the trash?`)) {
       selectedEntries.forEach(id => {
-        onDelete?.(id);
+        handleDelete(id);
       });
       setSelectedEntries(new Set());
       setSelectionMode(false);
@@ -163,9 +363,18 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
     if (!isOpen) {
       setSelectionMode(false);
       setSelectedEntries(new Set());
+      setShowTrash(false);
     }
   }, [isOpen]);
 
+  // Restored entries may belong to any week, so rediscover them
+  const handleRestored = () => {
+    onRestore?.();
+    setPastWeeks([]);
+    setHasOlderWeeks(true);
+    loadOlderWeeks([], ++filterGeneration.current);
+  };
+
   return (
     <>
       {/* Drawer Overlay */}
@@ -196,7 +405,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
               )}
               {!selectionMode && (
                 <h2 className="text-base sm:text-lg font-light text-heijo-text" style={{ fontFamily: 'Inter, system-ui, sans-serif' }}>
-                  Journal History
+                  {showTrash ? 'Trash' : 'Journal History'}
                 </h2>
               )}
             </div>
@@ -221,6 +430,13 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                     </button>
                   )}
                 </>
+              ) : showTrash ? (
+                <button
+                  onClick={() => setShowTrash(false)}
+                  className="px-3 py-1.5 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver transition-colors duration-200"
+                >
+                  Back
+                </button>
               ) : (
                 <>
                   {onExportAll && (
@@ -244,6 +460,12 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                   >
                     Select
                   </button>
+                  <button
+                    onClick={() => setShowTrash(true)}
+                    className="px-3 py-1.5 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver transition-colors duration-200"
+                  >
+                    Trash
+                  </button>
                 </>
               )}
               <button
@@ -259,15 +481,65 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
 
             {/* Content */}
             <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4 sm:space-y-6 min-h-0">
+              {showTrash ? (
+                <TrashView onRestored={handleRestored} />
+              ) : (
+              <>
               {/* Search and Filter */}
               <div className="space-y-4">
-                <input
-                  type="text"
-                  placeholder="Search entries..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full px-3 py-2 text-sm bg-white border border-heijo-border rounded-lg focus:ring-1 focus:ring-heijo-press focus:outline-none text-graphite-charcoal"
-                />
+                <div className="space-y-1">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder='Search entries... (tag:joy -work "slow morning")'
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      aria-invalid={queryError !== null}
+                      className={`flex-1 min-w-0 px-3 py-2 text-sm bg-white border rounded-lg focus:ring-1 focus:ring-heijo-press focus:outline-none text-graphite-charcoal ${
+                        queryError ? 'border-[#DC2626]' : 'border-heijo-border'
+                      }`}
+                    />
+                    {isSearching && !queryError && (
+                      <button
+                        onClick={handleSaveSearch}
+                        className="px-3 py-2 text-xs text-heijo-text border border-heijo-border rounded-lg hover:border-heijo-press transition-colors whitespace-nowrap"
+                      >
+                        Save view
+                      </button>
+                    )}
+                  </div>
+                  {queryError && (
+                    <p className="text-xs text-[#DC2626]" role="alert">
+                      {queryError.message}
+                    </p>
+                  )}
+                </div>
+
+                {savedSearches.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {savedSearches.map(view => (
+                      <span
+                        key={view.id}
+                        className={`inline-flex items-center gap-1 pl-3 pr-2 py-1 text-xs rounded-full border transition-colors ${
+                          searchTerm.trim() === view.query
+                            ? 'bg-heijo-press text-white border-heijo-press'
+                            : 'bg-white text-heijo-text border-heijo-border hover:border-heijo-press'
+                        }`}
+                      >
+                        <button onClick={() => setSearchTerm(view.query)} title={view.query}>
+                          {view.name}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSavedSearch(view.id)}
+                          className="opacity-60 hover:opacity-100"
+                          aria-label={`Delete saved search ${view.name}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
                 
                 {allTags.length > 0 && (
                   <div className="flex flex-wrap gap-2">
@@ -299,7 +571,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
               </div>
 
               {/* Empty State */}
-              {!hasEntries && (
+              {!hasEntries && !isLoadingWeeks && !isSearchPending && !queryError && (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
                   <p className="text-sm text-text-secondary mb-2">
                     {searchTerm || selectedTag ? 'No entries match your filters' : 'No journal entries yet'}
@@ -310,6 +582,91 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                 </div>
               )}
               
+              {/* Search Results */}
+              {isSearching && searchResults.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-[#6A6A6A] mb-3" style={{ fontFamily: 'Inter, system-ui, sans-serif' }}>
+                    {searchResults.length} {searchResults.length === 1 ? 'MATCH' : 'MATCHES'}
+                  </h3>
+                  <div className="space-y-2">
+                    {searchResults.map(({ entry }) => (
+                      <div
+                        key={entry.id}
+                        onClick={() => {
+                          if (selectionMode) {
+                            toggleSelection(entry.id);
+                          } else {
+                            setExpandedEntry(expandedEntry === entry.id ? null : entry.id);
+                          }
+                        }}
+                        className={`p-2.5 sm:p-3 bg-white border border-[#D8D8D8] rounded-lg hover:border-[#B8B8B8] transition-all duration-200 cursor-pointer ${
+                          selectedEntries.has(entry.id) ? 'border-heijo-press bg-[#F0F0F0]' : ''
+                        }`}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            {selectionMode && (
+                              <input
+                                type="checkbox"
+                                checked={selectedEntries.has(entry.id)}
+                                onChange={(e) => {
+                                  e.stopPropagation();
+                                  toggleSelection(entry.id);
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                className="w-4 h-4 rounded border-heijo-border text-heijo-press focus:ring-heijo-press"
+                              />
+                            )}
+                            <span className="text-xs text-[#8A8A8A]">
+                              {formatDate(entry.created_at)}
+                            </span>
+                            {getSyncStatusIcon(entry)}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-[#8A8A8A]">
+                              {entry.source === 'voice' ? 'Voice' : 'Text'}
+                            </span>
+                            {expandedEntry === entry.id && onDelete && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (confirm('Move this entry to the trash?')) {
+                                    handleDelete(entry.id);
+                                    setExpandedEntry(null);
+                                  }
+                                }}
+                                className="text-xs text-[#DC2626] hover:text-[#B91C1C] transition-colors duration-200"
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <p className="text-sm text-[#4A4A4A] leading-relaxed whitespace-pre-wrap">
+                          {renderHighlighted(expandedEntry === entry.id
+                            ? highlightMatches(entry.content, searchClauses, selectedLanguage)
+                            : highlightSnippet(entry.content, searchClauses, selectedLanguage))}
+                        </p>
+                        {entry.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {entry.tags.map(tag => (
+                              <span
+                                key={tag}
+                                className="px-2 py-1 text-xs bg-[#E8E8E8] text-[#6A6A6A] border border-[#C7C7C7] rounded"
+                              >
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!isSearching && (
+              <>
               {/* Today */}
               {groups.today.length > 0 && (
                 <div>
@@ -355,7 +712,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                             </span>
                           </div>
                           <p className="text-sm text-[#E8E8E8] line-clamp-2 leading-relaxed">
-                            {entry.content}
+                            {renderEntryText(entry)}
                           </p>
                           {entry.tags.length > 0 && (
                             <div className="flex flex-wrap gap-1 mt-2">
@@ -376,7 +733,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                           <div className="mt-2 p-3 sm:p-4 bg-[#1C1C1C] border border-[#C7C7C7] animate-fade-in">
                             <div className="space-y-3">
                               <div className="text-sm text-[#E8E8E8] leading-relaxed whitespace-pre-wrap">
-                                {entry.content}
+                                {renderEntryText(entry)}
                               </div>
                               {entry.tags.length > 0 && (
                                 <div className="flex flex-wrap gap-1">
@@ -398,8 +755,8 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      if (confirm('Are you sure you want to delete this entry?')) {
-                                        onDelete(entry.id);
+                                      if (confirm('Move this entry to the trash?')) {
+                                        handleDelete(entry.id);
                                         setExpandedEntry(null);
                                       }
                                     }}
@@ -466,8 +823,8 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    if (confirm('Are you sure you want to delete this entry?')) {
-                                      onDelete(entry.id);
+                                    if (confirm('Move this entry to the trash?')) {
+                                      handleDelete(entry.id);
                                       setExpandedEntry(null);
                                     }
                                   }}
@@ -481,7 +838,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                           <p className={`text-sm text-[#4A4A4A] leading-relaxed transition-all duration-200 ${
                             expandedEntry === entry.id ? 'whitespace-pre-wrap' : 'line-clamp-2'
                           }`}>
-                            {entry.content}
+                            {renderEntryText(entry)}
                           </p>
                           
                           {/* Expanded Entry Content - now inline */}
@@ -512,22 +869,20 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
               )}
 
               {/* Past Weeks */}
-              {Object.keys(groups.pastWeeks).length > 0 && (
+              {pastWeeks.length > 0 && (
                 <div>
                   <h3 className="text-sm font-medium text-[#6A6A6A] mb-3" style={{ fontFamily: 'Inter, system-ui, sans-serif' }}>
                     PAST WEEKS
                   </h3>
                   <div className="space-y-2">
-                    {Object.entries(groups.pastWeeks)
-                      .sort(([a], [b]) => b.localeCompare(a))
-                      .map(([weekKey, weekEntries]) => (
-                        <div key={weekKey}>
+                    {pastWeeks.map(week => (
+                        <div key={week.key}>
                           <button
-                            onClick={() => toggleWeek(weekKey)}
+                            onClick={() => toggleWeek(week)}
                             className="w-full flex items-center justify-between p-2 text-left hover:bg-[#F0F0F0] rounded-lg transition-colors duration-200"
                           >
                             <span className="text-sm text-[#6A6A6A]">
-                              Week of {formatDate(weekEntries[0].created_at)}
+                              Week of {new Date(week.start).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
                             </span>
                             <svg
                               width="16"
@@ -537,16 +892,19 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                               stroke="currentColor"
                               strokeWidth="2"
                               className={`transform transition-transform duration-200 ${
-                                expandedWeeks.has(weekKey) ? 'rotate-180' : ''
+                                expandedWeeks.has(week.key) ? 'rotate-180' : ''
                               }`}
                             >
                               <path d="M6 9l6 6 6-6" />
                             </svg>
                           </button>
                           
-                          {expandedWeeks.has(weekKey) && (
+                          {expandedWeeks.has(week.key) && (
                             <div className="ml-4 space-y-2 mt-2">
-                              {weekEntries.map(entry => (
+                              {week.entries === null && week.isLoading && (
+                                <p className="text-xs text-text-caption p-2">Loading…</p>
+                              )}
+                              {(week.entries || []).map(stored => sealed.reveal(stored)).map(entry => (
                                 <div key={entry.id}>
                                   <div
                                     onClick={() => {
@@ -585,8 +943,8 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                                           <button
                                             onClick={(e) => {
                                               e.stopPropagation();
-                                              if (confirm('Are you sure you want to delete this entry?')) {
-                                                onDelete(entry.id);
+                                              if (confirm('Move this entry to the trash?')) {
+                                                handleDelete(entry.id);
                                                 setExpandedEntry(null);
                                               }
                                             }}
@@ -600,7 +958,7 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                                     <p className={`text-sm text-[#4A4A4A] leading-relaxed transition-all duration-200 ${
                                       expandedEntry === entry.id ? 'whitespace-pre-wrap' : 'line-clamp-2'
                                     }`}>
-                                      {entry.content}
+                                      {renderEntryText(entry)}
                                     </p>
                                     
                                     {/* Expanded Entry Content - now inline */}
@@ -626,6 +984,15 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                                   </div>
                                 </div>
                               ))}
+                              {week.nextCursor && (
+                                <button
+                                  onClick={() => loadWeekEntries(week)}
+                                  disabled={week.isLoading}
+                                  className="w-full p-2 text-xs text-[#6A6A6A] hover:text-[#1a1a1a] disabled:opacity-50 transition-colors duration-200"
+                                >
+                                  {week.isLoading ? 'Loading…' : 'Show more from this week'}
+                                </button>
+                              )}
                             </div>
                           )}
                         </div>
@@ -633,6 +1000,21 @@ export default function RecentEntriesDrawer({ entries, onEntryClick, onExportAll
                   </div>
                 </div>
               )}
+
+              {/* Older weeks are discovered a few at a time */}
+              {(isLoadingWeeks || (hasOlderWeeks && pastWeeks.length > 0)) && (
+                <button
+                  onClick={() => loadOlderWeeks(pastWeeks, filterGeneration.current)}
+                  disabled={isLoadingWeeks}
+                  className="w-full px-3 py-2 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver disabled:opacity-50 transition-colors duration-200"
+                >
+                  {isLoadingWeeks ? 'Loading…' : 'Load older weeks'}
+                </button>
+              )}
+              </>
+              )}
+              </>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  scheduledBackups,
+  BackupFrequency,
+  BackupSnapshot,
+  ScheduledBackupSettings as Settings,
+  BackupStatus,
+  DEFAULT_KEEP,
+  MAX_KEEP
+} from '@/lib/scheduledBackups';
+import { restoreBackup, BackupPasswordError, BackupFormatError } from '@/lib/backupArchive';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+
+interface ScheduledBackupSettingsProps {
+  hasEntries: boolean;
+  onRestored?: () => void;
+}
+
+const KEEP_OPTIONS = [3, DEFAULT_KEEP, 14, MAX_KEEP];
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Automatic encrypted backups: schedule, optional folder, staleness warning
+ * and restoring from one of the kept snapshots
+ */
+export default function ScheduledBackupSettings({ hasEntries, onRestored }: ScheduledBackupSettingsProps) {
+  const [settings, setSettings] = useState<Settings>(scheduledBackups.getSettings());
+  const [status, setStatus] = useState<BackupStatus>(scheduledBackups.getStatus());
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [needsPermission, setNeedsPermission] = useState(false);
+  const [frequency, setFrequency] = useState<BackupFrequency>('daily');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSettings(scheduledBackups.getSettings());
+    setStatus(scheduledBackups.getStatus());
+    try {
+      setSnapshots(await scheduledBackups.listSnapshots());
+      setNeedsPermission(await scheduledBackups.folderNeedsPermission());
+    } catch (err) {
+      console.warn('Failed to load backup snapshots:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('heijo:backup-completed', refresh);
+    return () => window.removeEventListener('heijo:backup-completed', refresh);
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof BackupPasswordError || err instanceof BackupFormatError) {
+        setError(err.message);
+      } else if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        // AbortError: the folder picker was closed
+        console.error('Backup failed:', err);
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+      await refresh();
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+    run(async () => {
+      await scheduledBackups.enable(password, frequency);
+      setPassword('');
+      setConfirmPassword('');
+      alert('Automatic backups are on. Keep the password somewhere safe: backups cannot be opened on another device without it.');
+    });
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Turn off automatic backups? The snapshots kept in this browser will be deleted. Files saved to a folder are kept.')) return;
+    run(() => scheduledBackups.disable());
+  };
+
+  const handleRestore = (snapshot: BackupSnapshot) => run(async () => {
+    const preview = await scheduledBackups.previewSnapshot(snapshot.id);
+    const { counts } = preview.manifest;
+    const summary = [
+      `The snapshot from ${new Date(snapshot.createdAt).toLocaleString()} holds ${counts.entries} entries (${counts.trashed} in the trash).`,
+      preview.duplicates > 0 ? `${preview.duplicates} entries are already in your journal and will be skipped.` : '',
+      `Restore ${preview.newEntries.length} entries? Settings from the snapshot replace the current ones.`
+    ].filter(Boolean).join('\n\n');
+    if (!confirm(summary)) return;
+
+    const result = await restoreBackup(preview);
+    alert(`Restored ${result.imported} entries from the snapshot.`);
+    onRestored?.();
+  });
+
+  const buttonClass = 'px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+  const selectClass = 'bg-tactile-taupe/30 text-sm px-2 py-1 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+  const inputClass = 'block w-full bg-tactile-taupe/30 text-sm px-3 py-2 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-text-secondary">
+        Last backup: {status.lastBackupAt ? new Date(status.lastBackupAt).toLocaleString() : 'never'}
+        {status.nextBackupAt && ` · next ${new Date(status.nextBackupAt).toLocaleDateString()}`}
+      </p>
+      {status.stale && hasEntries && (
+        <p role="alert" className="text-xs text-[#DC2626]">
+          {status.lastBackupAt
+            ? 'Your last backup is out of date. Back up now so recent entries are not lost.'
+            : 'This journal has never been backed up.'}
+        </p>
+      )}
+
+      {!settings.enabled ? (
+        <form onSubmit={handleEnable} className="space-y-2">
+          <label className="flex items-center justify-between gap-3 text-sm text-[#1a1a1a]">
+            <span>Back up automatically</span>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as BackupFrequency)} className={selectClass}>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            placeholder={`Backup password (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            placeholder="Repeat password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={inputClass}
+          />
+          <p className="text-xs text-text-caption">
+            The password protects snapshots saved or downloaded to files. Snapshots kept in this browser can be restored here without it.
+          </p>
+          <button type="submit" disabled={isBusy || password.length === 0} className={buttonClass}>
+            {isBusy ? 'Encrypting…' : 'Turn on automatic backups'}
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-[#1a1a1a]">
+            <select
+              value={settings.frequency}
+              onChange={(e) => run(() => scheduledBackups.updateSchedule(e.target.value as BackupFrequency, settings.keep))}
+              className={selectClass}
+              aria-label="Backup frequency"
+            >
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+            <select
+              value={settings.keep}
+              onChange={(e) => run(() => scheduledBackups.updateSchedule(settings.frequency, Number(e.target.value)))}
+              className={selectClass}
+              aria-label="Snapshots to keep"
+            >
+              {KEEP_OPTIONS.map(keep => (
+                <option key={keep} value={keep}>Keep {keep}</option>
+              ))}
+            </select>
+            <button onClick={() => run(() => scheduledBackups.runBackup())} disabled={isBusy} className={buttonClass}>
+              {isBusy ? 'Backing up…' : 'Back up now'}
+            </button>
+          </div>
+
+          {scheduledBackups.isFolderSupported() && (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+              {settings.folderName ? (
+                <>
+                  <span>Also saving to the folder “{settings.folderName}”</span>
+                  {needsPermission && (
+                    <button onClick={() => run(() => scheduledBackups.reconnectFolder())} className="underline hover:text-graphite-charcoal">
+                      Allow access again
+                    </button>
+                  )}
+                  <button onClick={() => run(() => scheduledBackups.forgetFolder())} className="underline hover:text-graphite-charcoal">
+                    Stop
+                  </button>
+                </>
+              ) : (
+                <button onClick={() => run(() => scheduledBackups.chooseFolder())} className="underline hover:text-graphite-charcoal">
+                  Also save backups to a folder…
+                </button>
+              )}
+            </div>
+          )}
+
+          {settings.lastError && (
+            <p className="text-xs text-[#DC2626]">{settings.lastError}</p>
+          )}
+
+          {snapshots.length > 0 && (
+            <ul className="text-xs text-text-secondary space-y-1">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id} className="flex items-center justify-between gap-3">
+                  <span>{new Date(snapshot.createdAt).toLocaleString()} · {formatSize(snapshot.bytes)}</span>
+                  <span className="flex gap-3">
+                    <button onClick={() => handleRestore(snapshot)} disabled={isBusy} className="underline hover:text-graphite-charcoal disabled:opacity-50">
+                      Restore
+                    </button>
+                    <button onClick={() => run(() => scheduledBackups.downloadSnapshot(snapshot.id))} disabled={isBusy} className="underline hover:text-graphite-charcoal disabled:opacity-50">
+                      Download
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button onClick={handleDisable} disabled={isBusy} className="text-xs text-text-secondary hover:text-graphite-charcoal">
+            Turn off automatic backups
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+      )}
+      <p className="text-xs text-text-caption">
+        Backups run while the journal is open and are encrypted with the backup password. Downloaded snapshots are .heijo files that can be restored on any device with it.
+      </p>
+    </div>
+  );
+}
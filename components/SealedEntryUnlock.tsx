@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { storage } from '@/lib/store';
+import { sealedEntries } from '@/lib/sealedEntries';
+import { MIN_PASSPHRASE_LENGTH, WrongPassphraseError } from '@/lib/encryption';
+
+interface SealedEntryUnlockProps {
+  onUnlocked?: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Passphrase form for sealed entries. The first time on a device it also
+ * asks to repeat the passphrase, since it may be a new one.
+ */
+export default function SealedEntryUnlock({ onUnlocked, onCancel }: SealedEntryUnlockProps) {
+  const [isNew] = useState(() => !sealedEntries.hasPassphrase());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNew && passphrase !== confirmPassphrase) {
+      setError('The passphrases do not match');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await sealedEntries.unlock(passphrase, await storage.getEntries());
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onUnlocked?.();
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError('Incorrect passphrase');
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = 'block w-full bg-white text-sm px-3 py-1.5 rounded-lg border border-heijo-border focus:outline-none focus:ring-1 focus:ring-heijo-press';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <p className="text-xs text-text-secondary">
+        {isNew
+          ? 'Choose a passphrase for sealed entries, separate from your journal passphrase. If you sealed entries on another device, use the same one. It cannot be recovered.'
+          : '🔒 This entry is sealed. Enter the passphrase for sealed entries to read it.'}
+      </p>
+      <input
+        type="password"
+        autoComplete={isNew ? 'new-password' : 'current-password'}
+        placeholder={isNew ? `Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)` : 'Passphrase for sealed entries'}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        className={inputClass}
+        autoFocus
+      />
+      {isNew && (
+        <input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Repeat passphrase"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      {error && (
+        <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver transition-colors duration-200"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isBusy || passphrase.length === 0}
+          className="px-3 py-1.5 text-xs font-light bg-heijo-press text-white rounded hover:opacity-90 transition-opacity duration-200 disabled:opacity-50"
+        >
+          {isBusy ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -7,8 +7,21 @@ import AnalyticsDashboard from './AnalyticsDashboard';
 import { checkPremiumStatus, activatePremium, deactivatePremium } from '@/lib/premium';
 import { useAuth } from '@/lib/auth';
 import { storage } from '@/lib/store';
+import type { OutboxOperation } from '@/lib/outbox';
+import { getMigrationState, rollbackMigration } from '@/lib/indexedDBStorage';
+import { TRASH_RETENTION_OPTIONS, getTrashCutoff, getTrashRetentionDays, setTrashRetentionDays } from '@/lib/trash';
 import NotificationSettings from './NotificationSettings';
+import PassphraseSettings from './PassphraseSettings';
+import AppLockSettings from './AppLockSettings';
+import KeyRecoverySettings from './KeyRecoverySettings';
+import ImportEntries from './ImportEntries';
+import ScheduledBackupSettings from './ScheduledBackupSettings';
+import SyncSecretSettings from './SyncSecretSettings';
+import { encryptionManager } from '@/lib/encryption';
+import { downloadDeletionReceipt } from '@/lib/deletionReceipt';
 import LanguageSelector from './LanguageSelector';
+import { secureStorage } from '@/lib/secureStorage';
+import { useVoiceSettings } from '@/lib/voiceSettings';
 
 interface SettingsProps {
   isOpen: boolean;
@@ -22,6 +35,9 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
   const [consent, setConsent] = useState<ConsentSettings | null>(null);
   const [metrics, setMetrics] = useState<PrivacyMetrics | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [includeDailyNotes, setIncludeDailyNotes] = useState(false);
+  const [bookFrom, setBookFrom] = useState(() => `${new Date().getFullYear()}-01-01`);
+  const [bookTo, setBookTo] = useState(() => new Date().toLocaleDateString('en-CA')); // YYYY-MM-DD, local day
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isPremium, setIsPremium] = useState(false);
@@ -29,6 +45,12 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [showSyncConfirm, setShowSyncConfirm] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingOperations, setPendingOperations] = useState<OutboxOperation[]>([]);
+  const [usesIndexedDB, setUsesIndexedDB] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [trashRetentionDays, setTrashRetention] = useState(getTrashRetentionDays);
+  const [recordingUsage, setRecordingUsage] = useState<{ count: number; size: number; quota: number } | null>(null);
+  const { keepRecordings, setKeepRecordings } = useVoiceSettings();
   const { user } = useAuth();
 
   useEffect(() => {
@@ -58,10 +80,19 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
       loadData();
     };
     window.addEventListener('heijo:storage-changed', handleCustomStorageChange);
+    window.addEventListener('heijo:recordings-changed', handleCustomStorageChange);
+
+    // Outbox status changes (queued, retried, delivered)
+    const handleOutboxChange = () => {
+      storage.getPendingOperations().then(setPendingOperations).catch(() => undefined);
+    };
+    window.addEventListener('heijo:outbox-changed', handleOutboxChange);
 
     return () => {
       window.removeEventListener('storage', handleStorageChange);
       window.removeEventListener('heijo:storage-changed', handleCustomStorageChange);
+      window.removeEventListener('heijo:recordings-changed', handleCustomStorageChange);
+      window.removeEventListener('heijo:outbox-changed', handleOutboxChange);
     };
   }, [isOpen]);
 
@@ -91,6 +122,66 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
     // Load premium status
     const premiumStatus = await checkPremiumStatus();
     setIsPremium(premiumStatus.isPremium);
+    try {
+      setPendingOperations(await storage.getPendingOperations());
+    } catch (error) {
+      console.warn('Failed to load pending sync operations:', error);
+    }
+    setUsesIndexedDB(getMigrationState()?.status === 'migrated');
+
+    // Voice recordings are kept in secure storage, on this device only
+    try {
+      const secureMetrics = await secureStorage.getStorageMetrics();
+      setRecordingUsage({ count: secureMetrics.recordingCount, size: secureMetrics.recordingSize, quota: secureMetrics.recordingQuota });
+    } catch (error) {
+      console.warn('Failed to load recording usage:', error);
+    }
+  };
+
+  const handleDeleteAllRecordings = async () => {
+    if (!confirm('Delete all voice recordings? The text of your entries is kept.')) return;
+    try {
+      const deleted = await secureStorage.deleteAllRecordings();
+      alert(`Deleted ${deleted} ${deleted === 1 ? 'recording' : 'recordings'}.`);
+    } catch (error) {
+      console.error('Failed to delete recordings:', error);
+      alert('Failed to delete recordings. Please try again.');
+    }
+  };
+
+  const handleRollbackStorage = async () => {
+    setIsRollingBack(true);
+    try {
+      await rollbackMigration();
+      // The storage backend is chosen once per page load
+      window.location.reload();
+    } catch (error) {
+      console.error('Storage rollback failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to move entries back to localStorage.');
+      setIsRollingBack(false);
+    }
+  };
+
+  const handleTrashRetentionChange = async (days: number) => {
+    try {
+      setTrashRetentionDays(days);
+      setTrashRetention(days);
+      // A shorter period applies right away
+      await storage.emptyTrash({ olderThan: getTrashCutoff(days) });
+    } catch (error) {
+      console.error('Failed to update trash retention:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update trash settings.');
+    }
+  };
+
+  const handleRetrySync = async () => {
+    setIsSyncing(true);
+    try {
+      await storage.syncLocalEntries();
+      setPendingOperations(await storage.getPendingOperations());
+    } finally {
+      setIsSyncing(false);
+    }
   };
 
   const handleConsentChange = (key: keyof ConsentSettings, value: boolean) => {
@@ -123,6 +214,44 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
     }
   };
 
+  const handleExportMarkdown = async () => {
+    setIsExporting(true);
+    try {
+      analyticsCollector.trackEvent('export_data');
+      const { exportEntriesAsMarkdown } = await import('@/lib/markdownExport');
+      const entries = await storage.exportEntries();
+      exportEntriesAsMarkdown(entries, { dailyNotes: includeDailyNotes });
+    } catch (error) {
+      console.error('Export failed:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportBook = async () => {
+    if (bookFrom > bookTo) {
+      alert('The start date must be before the end date.');
+      return;
+    }
+    setIsExporting(true);
+    try {
+      analyticsCollector.trackEvent('export_data');
+      const { exportJournalBook } = await import('@/lib/pdfBook');
+      const entries = await storage.exportEntries();
+      const book = await exportJournalBook(entries, { from: bookFrom, to: bookTo });
+      if (book.entries === 0) {
+        alert('There are no entries in this date range.');
+      } else if (book.unsupportedCharacters > 0) {
+        alert(`${book.unsupportedCharacters} characters (such as emoji) are not in the PDF's fonts and appear as "?".`);
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert(error instanceof Error ? error.message : 'Could not create the PDF. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handlePremiumToggle = async (enabled: boolean) => {
     if (enabled) {
       // User wants to enable premium
@@ -183,6 +312,10 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
     setShowSyncConfirm(false);
     
     if (shouldSync) {
+      if (user && !(await encryptionManager.hasSyncKey(user.id))) {
+        alert('Choose a sync secret below Premium Cloud Sync first. Your entries are encrypted with it before they are uploaded.');
+        return;
+      }
       setIsSyncing(true);
       try {
         // Sync all local entries to Supabase
@@ -212,13 +345,17 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
       // Track analytics
       analyticsCollector.trackEvent('delete_entry');
       
-      await gdprManager.deleteAllData();
+      const receipt = await gdprManager.deleteAllData();
       setShowDeleteConfirm(false);
+      if (confirm('All data was deleted and its encryption keys destroyed. Download a deletion receipt to keep?')) {
+        downloadDeletionReceipt(receipt);
+      }
       onClose();
       // Reload the page to reset the app state
       window.location.reload();
     } catch (error) {
       console.error('Delete failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete your data. Please try again.');
     } finally {
       setIsDeleting(false);
     }
@@ -280,7 +417,55 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
                     <span className="text-[#1a1a1a] font-semibold">{metrics.newestEntry.toLocaleDateString()}</span>
                   </div>
                 )}
+                {recordingUsage && recordingUsage.count > 0 && (
+                  <div className="flex items-center justify-between border border-[#eeeeee] rounded-lg px-3 py-2">
+                    <span className="text-text-secondary">Voice Recordings ({recordingUsage.count})</span>
+                    <span className="text-[#1a1a1a] font-semibold">
+                      {formatBytes(recordingUsage.size)} of {formatBytes(recordingUsage.quota)}
+                    </span>
+                  </div>
+                )}
               </div>
+              {recordingUsage && recordingUsage.count > 0 && (
+                <button
+                  onClick={handleDeleteAllRecordings}
+                  className="text-xs text-text-secondary hover:text-graphite-charcoal"
+                >
+                  Delete all voice recordings, keep text
+                </button>
+              )}
+
+              {/* Cloud writes waiting in the outbox */}
+              {isPremium && pendingOperations.length > 0 && (
+                <div className="border border-[#eeeeee] rounded-lg px-3 py-2 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-text-secondary">
+                      Waiting to sync ({pendingOperations.length})
+                    </span>
+                    <button
+                      onClick={handleRetrySync}
+                      disabled={isSyncing}
+                      className="ghost-chip rounded-full px-3 py-1 text-xs tracking-[0.18em] uppercase disabled:opacity-50"
+                    >
+                      {isSyncing ? 'Syncing...' : 'Retry now'}
+                    </button>
+                  </div>
+                  <ul className="space-y-1 text-xs text-text-secondary">
+                    {pendingOperations.map(op => (
+                      <li key={op.id} className="flex items-center justify-between gap-3">
+                        <span className="capitalize">{op.type} · {new Date(op.created_at).toLocaleString()}</span>
+                        <span className={op.status === 'failed' ? 'text-red-600' : undefined} title={op.last_error}>
+                          {op.status === 'in_flight'
+                            ? 'Sending...'
+                            : op.attempts > 0
+                              ? `${op.status === 'failed' ? 'Failed' : 'Retrying'} (${op.attempts} ${op.attempts === 1 ? 'attempt' : 'attempts'})`
+                              : 'Queued'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </section>
 
             {/* Consent settings */}
@@ -310,6 +495,13 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
                   onChange: (checked: boolean) => handlePremiumToggle(checked),
                   disabled: isLoadingPremium,
                 },
+                {
+                  title: 'Keep Voice Recordings',
+                  description: 'Save the encrypted audio of voice entries on this device (Safari and Firefox)',
+                  checked: keepRecordings,
+                  onChange: (checked: boolean) => setKeepRecordings(checked),
+                  disabled: false,
+                },
                 {
                   title: 'Analytics (Optional)',
                   description: 'Share anonymous usage patterns',
@@ -336,6 +528,7 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
                   </label>
                 </div>
               ))}
+              {isPremium && user && <SyncSecretSettings userId={user.id} />}
             </section>
 
             {/* Analytics Dashboard */}
@@ -422,6 +615,23 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
               <NotificationSettings />
             </section>
 
+            {/* App lock */}
+            <section className="space-y-3 border-b settings-divider pb-5">
+              <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
+                App lock
+              </h3>
+              <AppLockSettings />
+            </section>
+
+            {/* Encryption */}
+            <section className="space-y-3 border-b settings-divider pb-5">
+              <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
+                Encryption
+              </h3>
+              <PassphraseSettings />
+              <KeyRecoverySettings />
+            </section>
+
             {/* Export */}
             <section className="space-y-3 border-b settings-divider pb-5">
               <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
@@ -435,10 +645,105 @@ export default function Settings({ isOpen, onClose, onExportCSV, fontSize, setFo
                 >
                   {isExporting ? 'Exporting…' : 'Export as CSV'}
                 </button>
+                <button
+                  onClick={handleExportMarkdown}
+                  disabled={isExporting || metrics.totalEntries === 0}
+                  className="px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isExporting ? 'Exporting…' : 'Export as Markdown (Obsidian)'}
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={includeDailyNotes}
+                  onChange={(e) => setIncludeDailyNotes(e.target.checked)}
+                />
+                Include daily notes in the Markdown export
+              </label>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+                <label className="flex items-center gap-2">
+                  From
+                  <input
+                    type="date"
+                    value={bookFrom}
+                    onChange={(e) => setBookFrom(e.target.value)}
+                    className="bg-tactile-taupe/30 px-2 py-1 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  To
+                  <input
+                    type="date"
+                    value={bookTo}
+                    onChange={(e) => setBookTo(e.target.value)}
+                    className="bg-tactile-taupe/30 px-2 py-1 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50"
+                  />
+                </label>
+                <button
+                  onClick={handleExportBook}
+                  disabled={isExporting || metrics.totalEntries === 0 || !bookFrom || !bookTo}
+                  className="px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isExporting ? 'Exporting…' : 'Export as PDF book'}
+                </button>
               </div>
               <p className="text-xs text-text-caption">
-                Includes entry text, tags, and timestamps.
+                Includes entry text, tags, and timestamps. The Markdown export is a zip with one note per entry in year/month folders. The PDF book has a cover, contents by month and the entries between the two dates, ready to print.
               </p>
+              {usesIndexedDB && (
+                <p className="text-xs text-text-caption">
+                  Entries are stored in IndexedDB on this device.{' '}
+                  <button
+                    onClick={handleRollbackStorage}
+                    disabled={isRollingBack}
+                    className="underline hover:text-graphite-charcoal disabled:opacity-50"
+                  >
+                    {isRollingBack ? 'Moving…' : 'Move back to legacy storage'}
+                  </button>
+                </p>
+              )}
+            </section>
+
+            {/* Backups */}
+            <section className="space-y-3 border-b settings-divider pb-5">
+              <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
+                Backups
+              </h3>
+              <ScheduledBackupSettings hasEntries={metrics.totalEntries > 0} onRestored={loadData} />
+            </section>
+
+            {/* Import */}
+            <section className="space-y-3 border-b settings-divider pb-5">
+              <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
+                Import
+              </h3>
+              <ImportEntries onImported={loadData} />
+            </section>
+
+            {/* Trash */}
+            <section className="space-y-3 border-b settings-divider pb-5">
+              <h3 className="text-sm font-semibold tracking-[0.14em] uppercase text-[#5a5a5a]">
+                Trash
+              </h3>
+              <div className="space-y-2">
+                <label htmlFor="trash-retention" className="text-sm font-medium text-[#1a1a1a]">
+                  Keep deleted entries for
+                </label>
+                <select
+                  id="trash-retention"
+                  value={trashRetentionDays}
+                  onChange={(e) => handleTrashRetentionChange(Number(e.target.value))}
+                  className="block w-full sm:w-auto bg-tactile-taupe/30 text-text-caption text-xs sm:text-sm px-3 py-1.5 pr-8 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50 transition-all duration-200 cursor-pointer"
+                >
+                  {Array.from(new Set([...TRASH_RETENTION_OPTIONS, trashRetentionDays])).sort((a, b) => a - b).map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+                <p className="text-xs text-text-secondary">
+                  Deleted entries can be restored from the trash in Journal History until then, on every synced device.
+                </p>
+              </div>
             </section>
 
             {/* Delete data */}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { storage } from '@/lib/store';
+import type { SyncConflict, ConflictChoice } from '@/lib/syncEngine';
+
+interface SyncConflictsProps {
+  onResolved?: () => void;
+}
+
+export default function SyncConflicts({ onResolved }: SyncConflictsProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      setConflicts(await storage.getSyncConflicts());
+    } catch (error) {
+      console.warn('Failed to load sync conflicts:', error);
+    }
+  }, []);
+
+  // Sync engine announces new conflicts with a window event
+  useEffect(() => {
+    loadConflicts();
+    window.addEventListener('heijo:sync-conflicts', loadConflicts);
+    return () => {
+      window.removeEventListener('heijo:sync-conflicts', loadConflicts);
+    };
+  }, [loadConflicts]);
+
+  const handleResolve = async (entryId: string, choice: ConflictChoice) => {
+    setResolvingId(entryId);
+    try {
+      await storage.resolveSyncConflict(entryId, choice);
+      await loadConflicts();
+      onResolved?.();
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error);
+      alert('Failed to resolve this conflict. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const formatDateTime = (dateString?: string) => {
+    if (!dateString) return 'Unknown time';
+    return new Date(dateString).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-[#e5d3b3] bg-[#fdf8ef] px-4 py-3 text-sm text-graphite-charcoal">
+      <div className="flex items-center justify-between gap-3">
+        <span>
+          {conflicts.length} {conflicts.length === 1 ? 'entry was' : 'entries were'} edited on two devices
+        </span>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs tracking-[0.08em] uppercase text-text-secondary hover:text-graphite-charcoal transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Review'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="mt-3 space-y-3">
+          {conflicts.map(conflict => (
+            <li key={conflict.entry_id} className="grid gap-2 sm:grid-cols-2">
+              {(['local', 'remote'] as const).map(side => (
+                <div key={side} className="flex flex-col gap-2 rounded border border-heijo-border bg-white p-3">
+                  <div className="text-xs text-text-caption">
+                    {side === 'local' ? 'This device' : 'Other device'} · {formatDateTime(conflict[side].updated_at || conflict[side].created_at)}
+                  </div>
+                  <p className="flex-1 whitespace-pre-wrap text-sm leading-relaxed">{conflict[side].content}</p>
+                  <button
+                    onClick={() => handleResolve(conflict.entry_id, side)}
+                    disabled={resolvingId === conflict.entry_id}
+                    className="self-start px-3 py-1.5 text-xs font-light border border-heijo-border text-text-secondary rounded hover:bg-soft-silver transition-colors duration-200 disabled:opacity-50"
+                  >
+                    Keep this version
+                  </button>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { storage } from '@/lib/store';
+import { encryptionManager, EncryptionLockedError, MIN_PASSPHRASE_LENGTH, WrongPassphraseError } from '@/lib/encryption';
+import { getSyncKeyParams, unlockSyncKey } from '@/lib/syncEncryption';
+
+interface SyncSecretSettingsProps {
+  userId: string;
+}
+
+export default function SyncSecretSettings({ userId }: SyncSecretSettingsProps) {
+  const [hasKey, setHasKey] = useState<boolean | null>(null);
+  const [isNewSecret, setIsNewSecret] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [confirmSecret, setConfirmSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      setHasKey(await encryptionManager.hasSyncKey(userId));
+      if (supabase) {
+        setIsNewSecret(!(await getSyncKeyParams(supabase, userId)));
+      }
+    } catch (err) {
+      console.warn('Failed to load sync encryption state:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadState();
+    window.addEventListener('heijo:sync-key-changed', loadState);
+    return () => window.removeEventListener('heijo:sync-key-changed', loadState);
+  }, [loadState]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supabase) return;
+
+    if (isNewSecret && secret !== confirmSecret) {
+      setError('Secrets do not match');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await unlockSyncKey(supabase, userId, secret);
+      setSecret('');
+      setConfirmSecret('');
+      await loadState();
+      // Start syncing (and encrypt anything uploaded before) now that the key is here
+      await storage.syncLocalEntries();
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError('That is not the sync secret used on your other devices.');
+      } else if (err instanceof EncryptionLockedError) {
+        setError('Unlock your passphrase below first.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (hasKey === null) return null;
+
+  if (hasKey) {
+    return (
+      <p className="text-xs text-text-secondary">
+        End-to-end encrypted: entries are encrypted on this device before they are synced.
+      </p>
+    );
+  }
+
+  const inputClass = 'block w-full bg-tactile-taupe/30 text-sm px-3 py-1.5 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-soft-silver/50';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 rounded-lg border border-[#e5e5e5] p-3">
+      <p className="text-sm font-medium text-[#1a1a1a]">
+        {isNewSecret ? 'Choose a sync secret' : 'Enter your sync secret'}
+      </p>
+      <p className="text-xs text-text-secondary">
+        {isNewSecret
+          ? 'Entries are encrypted with this secret before they leave your device. You will need it on every device, and it cannot be recovered.'
+          : 'Sync is paused on this device until you enter the secret you chose on your first device.'}
+      </p>
+      <input
+        type="password"
+        autoComplete={isNewSecret ? 'new-password' : 'current-password'}
+        placeholder={isNewSecret ? `Sync secret (at least ${MIN_PASSPHRASE_LENGTH} characters)` : 'Sync secret'}
+        value={secret}
+        onChange={(e) => setSecret(e.target.value)}
+        className={inputClass}
+      />
+      {isNewSecret && (
+        <input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Repeat sync secret"
+          value={confirmSecret}
+          onChange={(e) => setConfirmSecret(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      {error && (
+        <p role="alert" className="text-xs text-[#DC2626]">{error}</p>
+      )}
+      <button
+        type="submit"
+        disabled={isBusy || secret.length === 0}
+        className="px-4 py-2 text-sm font-medium silver-button text-graphite-charcoal rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isBusy ? 'Working…' : isNewSecret ? 'Turn on encrypted sync' : 'Resume sync'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { storage, JournalEntry } from '@/lib/store';
+import { daysUntilPurge, getTrashRetentionDays } from '@/lib/trash';
+import { useSealedEntries, isLockedSealedEntry } from '@/lib/sealedEntries';
+
+interface TrashViewProps {
+  onRestored?: () => void;
+}
+
+export default function TrashView({ onRestored }: TrashViewProps) {
+  const sealed = useSealedEntries();
+  const [trash, setTrash] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const retentionDays = getTrashRetentionDays();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await storage.getTrash());
+    } catch (error) {
+      console.warn('Failed to load trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (id: string) => {
+    setBusyId(id);
+    try {
+      await storage.restoreEntry(id);
+      setTrash(prev => prev.filter(entry => entry.id !== id));
+      onRestored?.();
+    } catch (error) {
+      console.error('Failed to restore entry:', error);
+      alert('Failed to restore entry. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!confirm('Delete this entry forever? This cannot be undone.')) return;
+    setBusyId(id);
+    try {
+      await storage.purgeEntry(id);
+      setTrash(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error('Failed to delete entry:', error);
+      alert('Failed to delete entry. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const count = trash.length;
+    if (!confirm(`Delete ${count} ${count === 1 ? 'entry' : 'entries'} forever? This cannot be undone.`)) return;
+    setBusyId('all');
+    try {
+      await storage.emptyTrash();
+      await loadTrash();
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      alert('Failed to empty trash. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDeletedAt = (entry: JournalEntry) => {
+    const remaining = daysUntilPurge(entry, retentionDays);
+    const deleted = new Date(entry.deleted_at!).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `Deleted ${deleted} · ${remaining === 0 ? 'removed soon' : `${remaining} ${remaining === 1 ? 'day' : 'days'} left`}`;
+  };
+
+  if (isLoading) {
+    return <p className="py-12 text-center text-sm text-text-secondary">Loading…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-text-caption">
+          Entries in the trash are deleted forever after {retentionDays} days.
+        </p>
+        {trash.length > 0 && (
+          <button
+            onClick={handleEmptyTrash}
+            disabled={busyId !== null}
+            className="px-3 py-1.5 text-xs font-light bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 transition-colors duration-200 whitespace-nowrap"
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {trash.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <p className="text-sm text-text-secondary mb-2">Trash is empty</p>
+          <p className="text-xs text-text-caption">Deleted entries can be restored from here</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {trash.map(entry => (
+            <div key={entry.id} className="p-2.5 sm:p-3 bg-white border border-[#D8D8D8] rounded-lg">
+              <div className="flex items-start justify-between mb-2 gap-2">
+                <span className="text-xs text-[#8A8A8A]">{formatDeletedAt(entry)}</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handleRestore(entry.id)}
+                    disabled={busyId !== null}
+                    className="text-xs text-heijo-text hover:text-heijo-press disabled:opacity-50 transition-colors duration-200"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(entry.id)}
+                    disabled={busyId !== null}
+                    className="text-xs text-[#DC2626] hover:text-[#B91C1C] disabled:opacity-50 transition-colors duration-200"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-[#4A4A4A] leading-relaxed line-clamp-3">
+                {isLockedSealedEntry(entry) ? '🔒 Sealed entry' : sealed.reveal(entry).content}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
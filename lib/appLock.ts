@@ -0,0 +1,353 @@
+/**
+ * App lock
+ * Hides the journal behind a PIN or passphrase screen, and locks again after
+ * a period of inactivity or when the tab has been hidden for too long.
+ * Locking drops the in-memory encryption keys and fires 'heijo:app-locked'
+ * so decrypted entries held in memory (search index, page state) are wiped.
+ * This is a privacy screen for shared machines; what protects data at rest
+ * is the encryption passphrase.
+ */
+
+import {
+  encryptionManager,
+  MIN_PASSPHRASE_LENGTH,
+  PBKDF2_ITERATIONS,
+  WrongPassphraseError,
+  derivePassphraseBits,
+  bytesToBase64,
+  base64ToBytes
+} from './encryption';
+import { debugLog } from './logger';
+
+export type AppLockCredentialType = 'pin' | 'passphrase';
+export type AppLockReason = 'idle' | 'hidden' | 'manual';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  type: AppLockCredentialType;
+  salt: string; // Base64
+  iterations: number;
+  hash: string; // Base64 PBKDF2-SHA256 of the PIN or passphrase
+  idleTimeoutMinutes: number;
+  hiddenTimeoutMinutes: number;
+}
+
+export interface AppLockTimeouts {
+  idleTimeoutMinutes: number;
+  hiddenTimeoutMinutes: number;
+}
+
+export class AppLockCooldownError extends Error {
+  constructor(public readonly retryAfter: number) {
+    super(`Too many attempts. Try again in ${retryAfter} seconds.`);
+    this.name = 'AppLockCooldownError';
+  }
+}
+
+export const DEFAULT_APP_LOCK_TIMEOUTS: AppLockTimeouts = {
+  idleTimeoutMinutes: 5,
+  hiddenTimeoutMinutes: 1
+};
+export const MIN_PIN_LENGTH = 4;
+
+const SETTINGS_STORAGE_KEY = 'heijo-app-lock';
+const FAILURES_STORAGE_KEY = 'heijo-app-lock-failures';
+// Per tab, so following a link or reloading does not lock, but a new tab does
+const SESSION_STORAGE_KEY = 'heijo-app-lock-session';
+const SESSION_WRITE_INTERVAL_MS = 5 * 1000;
+const FREE_ATTEMPTS = 5;
+const BASE_COOLDOWN_SECONDS = 30;
+const MAX_COOLDOWN_SECONDS = 15 * 60;
+const CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'wheel', 'touchstart'];
+
+interface FailureRecord {
+  count: number;
+  until: number; // Epoch ms; no attempts before this
+}
+
+class AppLock {
+  private static instance: AppLock;
+  // A page load starts locked unless this tab was unlocked and active recently
+  private locked = true;
+  private sessionChecked = false;
+  private lastActivity = Date.now();
+  private lastSessionWrite = 0;
+  private hiddenAt: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly handleActivity = () => {
+    this.lastActivity = Date.now();
+    if (!this.locked && this.lastActivity - this.lastSessionWrite >= SESSION_WRITE_INTERVAL_MS) {
+      this.writeSession();
+    }
+  };
+
+  private readonly handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this.hiddenAt = Date.now();
+      return;
+    }
+    const hiddenAt = this.hiddenAt;
+    this.hiddenAt = null;
+    const settings = this.getSettings();
+    if (settings && hiddenAt !== null && Date.now() - hiddenAt >= settings.hiddenTimeoutMinutes * 60 * 1000) {
+      this.lock('hidden');
+    } else {
+      // Timers are throttled in background tabs
+      this.checkIdle();
+    }
+  };
+
+  private constructor() {}
+
+  static getInstance(): AppLock {
+    if (!AppLock.instance) {
+      AppLock.instance = new AppLock();
+    }
+    return AppLock.instance;
+  }
+
+  getSettings(): AppLockSettings | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      const settings: AppLockSettings | null = stored ? JSON.parse(stored) : null;
+      return settings && settings.enabled ? settings : null;
+    } catch (error) {
+      console.warn('Failed to read app lock settings:', error);
+      return null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.getSettings() !== null;
+  }
+
+  isLocked(): boolean {
+    const settings = this.getSettings();
+    if (!settings) return false;
+    if (!this.sessionChecked) {
+      this.sessionChecked = true;
+      this.locked = !this.resumeSession(settings);
+    }
+    return this.locked;
+  }
+
+  /**
+   * Turn the lock on (or replace the PIN/passphrase). The app stays unlocked
+   * until the next timeout.
+   */
+  async enable(type: AppLockCredentialType, secret: string, timeouts: AppLockTimeouts = DEFAULT_APP_LOCK_TIMEOUTS): Promise<void> {
+    if (type === 'pin' && !new RegExp(`^\\d{${MIN_PIN_LENGTH},}$`).test(secret)) {
+      throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`);
+    }
+    if (type === 'passphrase' && secret.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const settings: AppLockSettings = {
+      enabled: true,
+      type,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: await hashSecret(secret, salt, PBKDF2_ITERATIONS),
+      ...this.validateTimeouts(timeouts)
+    };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    localStorage.removeItem(FAILURES_STORAGE_KEY);
+    this.markUnlocked();
+  }
+
+  async disable(secret: string): Promise<void> {
+    await this.verify(secret);
+    this.reset();
+    this.notify('heijo:app-unlocked');
+  }
+
+  /**
+   * Remove the lock without the PIN; only after signing out (forgotten PIN),
+   * since signing back in needs the account password
+   */
+  reset(): void {
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    localStorage.removeItem(FAILURES_STORAGE_KEY);
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    this.locked = false;
+  }
+
+  setTimeouts(timeouts: AppLockTimeouts): void {
+    const settings = this.getSettings();
+    if (!settings) return;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...settings, ...this.validateTimeouts(timeouts) }));
+  }
+
+  /**
+   * Unlock with the PIN or passphrase. Throws WrongPassphraseError, or
+   * AppLockCooldownError after repeated failures.
+   */
+  async unlock(secret: string): Promise<void> {
+    const settings = await this.verify(secret);
+
+    // A shared app lock and encryption passphrase unlocks both in one step
+    if (settings.type === 'passphrase') {
+      const status = await encryptionManager.getStatus();
+      if (status.mode === 'passphrase' && status.locked) {
+        await encryptionManager.unlock(secret).catch(error => {
+          if (!(error instanceof WrongPassphraseError)) throw error;
+        });
+      }
+    }
+
+    this.markUnlocked();
+    this.notify('heijo:app-unlocked');
+  }
+
+  /**
+   * Lock now and wipe decrypted data from memory
+   */
+  async lock(reason: AppLockReason = 'manual'): Promise<void> {
+    if (!this.isEnabled() || this.isLocked()) return;
+    this.locked = true;
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    debugLog(`App locked (${reason})`);
+
+    this.notify('heijo:app-locked', { reason });
+    try {
+      await encryptionManager.lock();
+      encryptionManager.forgetKeys();
+    } catch (error) {
+      console.warn('Failed to clear encryption keys on lock:', error);
+    }
+  }
+
+  /**
+   * Start watching for inactivity and hidden tabs; returns a stop function
+   */
+  start(): () => void {
+    if (typeof window === 'undefined' || this.timer) return () => {};
+
+    this.lastActivity = Date.now();
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, this.handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.timer = setInterval(() => this.checkIdle(), CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, this.handleActivity));
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      if (this.timer) clearInterval(this.timer);
+      this.timer = null;
+    };
+  }
+
+  /**
+   * Lock if there has been no activity for the idle timeout
+   */
+  checkIdle(now: number = Date.now()): void {
+    const settings = this.getSettings();
+    if (!settings || this.isLocked()) return;
+    if (now - this.lastActivity >= settings.idleTimeoutMinutes * 60 * 1000) {
+      this.lock('idle');
+    }
+  }
+
+  /**
+   * Seconds until the next attempt is allowed (0 when allowed)
+   */
+  getCooldown(now: number = Date.now()): number {
+    const failures = this.getFailures();
+    return Math.max(0, Math.ceil((failures.until - now) / 1000));
+  }
+
+  private async verify(secret: string): Promise<AppLockSettings> {
+    const settings = this.getSettings();
+    if (!settings) {
+      throw new Error('App lock is not enabled');
+    }
+
+    const cooldown = this.getCooldown();
+    if (cooldown > 0) {
+      throw new AppLockCooldownError(cooldown);
+    }
+
+    const hash = await hashSecret(secret, base64ToBytes(settings.salt), settings.iterations);
+    if (hash !== settings.hash) {
+      this.recordFailure();
+      throw new WrongPassphraseError();
+    }
+
+    localStorage.removeItem(FAILURES_STORAGE_KEY);
+    return settings;
+  }
+
+  private markUnlocked(): void {
+    this.locked = false;
+    this.sessionChecked = true;
+    this.lastActivity = Date.now();
+    this.writeSession();
+  }
+
+  private writeSession(): void {
+    this.lastSessionWrite = Date.now();
+    try {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ lastActivity: this.lastActivity }));
+    } catch (error) {
+      console.warn('Failed to save app lock session:', error);
+    }
+  }
+
+  private resumeSession(settings: AppLockSettings): boolean {
+    try {
+      const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+      if (!stored) return false;
+      const { lastActivity } = JSON.parse(stored) as { lastActivity: number };
+      if (Date.now() - lastActivity >= settings.idleTimeoutMinutes * 60 * 1000) return false;
+      this.lastActivity = lastActivity;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getFailures(): FailureRecord {
+    try {
+      const stored = localStorage.getItem(FAILURES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : { count: 0, until: 0 };
+    } catch {
+      return { count: 0, until: 0 };
+    }
+  }
+
+  /**
+   * A few free attempts, then a cooldown that doubles with every failure.
+   * Kept in localStorage so reloading the page does not reset it.
+   */
+  private recordFailure(): void {
+    const count = this.getFailures().count + 1;
+    const cooldownSeconds = count < FREE_ATTEMPTS
+      ? 0
+      : Math.min(MAX_COOLDOWN_SECONDS, BASE_COOLDOWN_SECONDS * Math.pow(2, count - FREE_ATTEMPTS));
+    localStorage.setItem(FAILURES_STORAGE_KEY, JSON.stringify({ count, until: Date.now() + cooldownSeconds * 1000 }));
+  }
+
+  private validateTimeouts(timeouts: AppLockTimeouts): AppLockTimeouts {
+    const { idleTimeoutMinutes, hiddenTimeoutMinutes } = timeouts;
+    if (!(idleTimeoutMinutes > 0) || !(hiddenTimeoutMinutes >= 0)) {
+      throw new Error('Lock timeouts must be positive');
+    }
+    return { idleTimeoutMinutes, hiddenTimeoutMinutes };
+  }
+
+  private notify(type: string, detail?: { reason: AppLockReason }): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(type, { detail }));
+    }
+  }
+}
+
+async function hashSecret(secret: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> {
+  return bytesToBase64(await derivePassphraseBits(secret, salt, iterations));
+}
+
+export const appLock = AppLock.getInstance();
@@ -10,7 +10,7 @@ interface AuthContextType {
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string) => Promise<{ error: any }>;
-  signOut: () => Promise<void>;
+  signOut: () => Promise<{ error: any }>;
   signInWithMagicLink: (email: string) => Promise<{ error: any }>;
   resetPassword: (email: string) => Promise<{ error: any }>;
 }
@@ -105,7 +105,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
-    if (!supabase) return;
+    if (!supabase) return { error: new Error('Supabase not configured') };
     
     // Clear user-specific localStorage data on sign out
     // Entries remain intentionally because the key is already scoped as
@@ -128,7 +128,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.warn('Error clearing localStorage on sign out:', error);
     }
     
-    await supabase.auth.signOut();
+    const { error } = await supabase.auth.signOut();
+    if (error) return { error };
+
+    // Confirm the session is gone before callers act on it
+    const { data } = await supabase.auth.getSession();
+    return { error: data.session ? new Error('Still signed in') : null };
   };
 
   const resetPassword = async (email: string) => {
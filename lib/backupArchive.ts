@@ -0,0 +1,328 @@
+/**
+ * Encrypted backup archives (.heijo)
+ * A versioned container holding entries (live and trashed, exactly as stored,
+ * including sync status, versions and timestamps), settings, prompt history
+ * and tags. Everything but the key derivation parameters is encrypted with
+ * AES-GCM under a key derived (PBKDF2) from a password chosen for the backup.
+ * Sealed entries stay sealed: only their ciphertext is backed up.
+ */
+
+import { storage, StorageBackend, JournalEntry } from './store';
+import { PBKDF2_ITERATIONS, MIN_PASSPHRASE_LENGTH, derivePassphraseKey, bytesToBase64, base64ToBytes } from './encryption';
+import { getPromptHistory, restorePromptHistory, PromptHistory } from './pickPrompt';
+import { fingerprint } from './deletionReceipt';
+import { debugLog } from './logger';
+
+export const BACKUP_FORMAT = 'heijo-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.heijo';
+
+// The file as written. The header is bound to the ciphertext as AES-GCM additional data.
+export interface BackupContainer {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext of { manifest, contents }
+}
+
+export interface BackupCounts {
+  entries: number;
+  trashed: number; // Included in entries
+  settings: number;
+  promptHistory: number;
+  customTags: number;
+}
+
+export interface BackupManifest {
+  createdAt: string;
+  counts: BackupCounts;
+  checksum: string; // SHA-256 (hex) of the contents as serialized
+}
+
+export interface BackupPromptHistory {
+  served: Record<string, PromptHistory[]>; // By user id (see lib/pickPrompt)
+  lastShown: string | null;
+  lastReset: string | null;
+}
+
+export interface BackupContents {
+  entries: JournalEntry[];
+  settings: Record<string, string>; // Stored values by localStorage key
+  promptHistory: BackupPromptHistory;
+  // Tags are free text on entries, so they come back with them; listed for the preview
+  customTags: string[];
+}
+
+export interface BackupPreview {
+  manifest: BackupManifest;
+  contents: BackupContents;
+  newEntries: JournalEntry[];
+  duplicates: number; // Already here, by id or by content hash
+}
+
+export interface BackupRestoreResult {
+  imported: number;
+  skipped: number;
+  settings: number;
+  promptHistory: number;
+}
+
+// A key derived from a backup password, kept so scheduled backups can be
+// written without asking for it (see lib/scheduledBackups)
+export interface BackupKey {
+  key: CryptoKey;
+  salt: string; // Base64
+  iterations: number;
+}
+
+export class BackupPasswordError extends Error {
+  constructor() {
+    super('Wrong password, or the backup file was changed or damaged');
+    this.name = 'BackupPasswordError';
+  }
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Preferences worth carrying to a new device. Keys, lock and passphrase
+// settings are left out on purpose: they belong to the device.
+const SETTINGS_KEYS = [
+  'heijo-consent-settings',
+  'heijo_voice_settings',
+  'heijo-notification-preferences',
+  'heijo-trash-retention-days',
+  'heijo-saved-searches'
+];
+const LAST_BACKUP_KEY = 'heijo-last-backup-at';
+const PROMPT_SHOWN_KEY = 'heijo-prompt-shown';
+const PROMPT_RESET_KEY = 'heijo-prompt-reset';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Derive the key for a backup password. A new password gets a random salt;
+ * pass the salt and iterations of an existing backup to open it.
+ */
+export async function deriveBackupKey(password: string, salt?: string, iterations: number = PBKDF2_ITERATIONS): Promise<BackupKey> {
+  if (!salt && password.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const saltBytes = salt ? base64ToBytes(salt) : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    key: await deriveKey(password, saltBytes, iterations),
+    salt: bytesToBase64(saltBytes),
+    iterations
+  };
+}
+
+/**
+ * Build an encrypted backup of everything in the journal, with a password or
+ * a key from deriveBackupKey
+ */
+export async function createBackup(secret: string | BackupKey, source: StorageBackend = storage): Promise<string> {
+  const backupKey = typeof secret === 'string' ? await deriveBackupKey(secret) : secret;
+
+  const trash = await source.getTrash();
+  const entries = [...await source.getEntries(), ...trash];
+  const settings: Record<string, string> = {};
+  SETTINGS_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+  const served = getPromptHistory();
+  const contents: BackupContents = {
+    entries,
+    settings,
+    promptHistory: {
+      served,
+      lastShown: localStorage.getItem(PROMPT_SHOWN_KEY),
+      lastReset: localStorage.getItem(PROMPT_RESET_KEY)
+    },
+    customTags: collectTags(entries)
+  };
+
+  const serialized = JSON.stringify(contents);
+  const manifest: BackupManifest = {
+    createdAt: new Date().toISOString(),
+    counts: countContents(contents),
+    checksum: await fingerprint(serialized)
+  };
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', salt: backupKey.salt, iterations: backupKey.iterations },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) }
+  } as const;
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    backupKey.key,
+    new TextEncoder().encode(JSON.stringify({ manifest, contents: serialized }))
+  );
+
+  const container: BackupContainer = { ...header, data: bytesToBase64(new Uint8Array(ciphertext)) };
+  debugLog(`Created backup with ${entries.length} entries`);
+  return JSON.stringify(container);
+}
+
+/**
+ * Create a backup and save it as a .heijo file
+ */
+export async function downloadBackup(password: string): Promise<void> {
+  const backup = await createBackup(password);
+  markBackedUp();
+  const blob = new Blob([backup], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `heijo-backup-${new Date().toISOString().split('T')[0]}${BACKUP_FILE_EXTENSION}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * When the journal was last backed up (downloaded or scheduled), if ever
+ */
+export function getLastBackupAt(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(LAST_BACKUP_KEY);
+}
+
+export function markBackedUp(at: string = new Date().toISOString()): void {
+  localStorage.setItem(LAST_BACKUP_KEY, at);
+}
+
+/**
+ * Decrypt a backup, check its integrity and work out which entries are new.
+ * Nothing is written until restoreBackup.
+ */
+export async function previewBackup(text: string, secret: string | BackupKey, target: StorageBackend = storage): Promise<BackupPreview> {
+  const container = parseContainer(text);
+  const { data, ...header } = container;
+  let key: CryptoKey;
+  if (typeof secret === 'string') {
+    key = await deriveKey(secret, base64ToBytes(container.kdf.salt), container.kdf.iterations);
+  } else if (secret.salt === container.kdf.salt && secret.iterations === container.kdf.iterations) {
+    key = secret.key;
+  } else {
+    // Made with another password
+    throw new BackupPasswordError();
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(container.cipher.iv), additionalData: headerBytes(header) },
+      key,
+      base64ToBytes(data)
+    );
+  } catch {
+    throw new BackupPasswordError();
+  }
+
+  const { manifest, contents: serialized } = JSON.parse(new TextDecoder().decode(plaintext)) as { manifest: BackupManifest; contents: string };
+  if (manifest.checksum !== await fingerprint(serialized)) {
+    throw new BackupFormatError('The backup is incomplete: its checksum does not match');
+  }
+  const contents: BackupContents = JSON.parse(serialized);
+  if (JSON.stringify(countContents(contents)) !== JSON.stringify(manifest.counts)) {
+    throw new BackupFormatError('The backup is incomplete: its contents do not match the manifest');
+  }
+
+  const existing = [...await target.getEntries(), ...await target.getTrash()];
+  const existingIds = new Set(existing.map(entry => entry.id));
+  const existingHashes = new Set(await Promise.all(existing.map(contentHash)));
+  const newEntries: JournalEntry[] = [];
+  for (const entry of contents.entries) {
+    const hash = await contentHash(entry);
+    if (existingIds.has(entry.id) || existingHashes.has(hash)) continue;
+    // Also catches the same entry twice in one backup
+    existingIds.add(entry.id);
+    existingHashes.add(hash);
+    newEntries.push(entry);
+  }
+
+  return { manifest, contents, newEntries, duplicates: contents.entries.length - newEntries.length };
+}
+
+/**
+ * Write a previewed backup: new entries as they were, then settings (which
+ * replace this device's) and prompt history
+ */
+export async function restoreBackup(preview: BackupPreview, target: StorageBackend = storage): Promise<BackupRestoreResult> {
+  const { contents } = preview;
+  await target.importEntries(preview.newEntries);
+
+  const settingKeys = Object.keys(contents.settings).filter(key => SETTINGS_KEYS.indexOf(key) !== -1);
+  settingKeys.forEach(key => localStorage.setItem(key, contents.settings[key]));
+
+  const { served, lastShown, lastReset } = contents.promptHistory;
+  const promptHistory = restorePromptHistory(served);
+  if (lastShown && !localStorage.getItem(PROMPT_SHOWN_KEY)) localStorage.setItem(PROMPT_SHOWN_KEY, lastShown);
+  if (lastReset && !localStorage.getItem(PROMPT_RESET_KEY)) localStorage.setItem(PROMPT_RESET_KEY, lastReset);
+
+  debugLog(`Restored backup: ${preview.newEntries.length} entries imported, ${preview.duplicates} skipped`);
+  return {
+    imported: preview.newEntries.length,
+    skipped: preview.duplicates,
+    settings: settingKeys.length,
+    promptHistory
+  };
+}
+
+function parseContainer(text: string): BackupContainer {
+  let container: BackupContainer;
+  try {
+    container = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('This is not a Heijo backup file');
+  }
+  if (!container || container.format !== BACKUP_FORMAT || !container.kdf || !container.cipher || typeof container.data !== 'string') {
+    throw new BackupFormatError('This is not a Heijo backup file');
+  }
+  if (container.version > BACKUP_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of Heijo. Update the app to restore it.');
+  }
+  return container;
+}
+
+function countContents(contents: BackupContents): BackupCounts {
+  const served = contents.promptHistory.served;
+  return {
+    entries: contents.entries.length,
+    trashed: contents.entries.filter(entry => entry.deleted_at).length,
+    settings: Object.keys(contents.settings).length,
+    promptHistory: Object.keys(served).reduce((total, userId) => total + served[userId].length, 0),
+    customTags: contents.customTags.length
+  };
+}
+
+function collectTags(entries: JournalEntry[]): string[] {
+  const tags = new Set<string>();
+  entries.forEach(entry => entry.tags.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+}
+
+/**
+ * Same time, text and tags: the same entry, even if it was saved again under a new id
+ */
+function contentHash(entry: JournalEntry): Promise<string> {
+  return fingerprint(JSON.stringify([entry.created_at, entry.content, entry.tags, entry.sealed?.data ?? null]));
+}
+
+function headerBytes(header: Omit<BackupContainer, 'data'>): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify([header.format, header.version, header.kdf, header.cipher]));
+}
+
+function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  return derivePassphraseKey(password, salt, iterations, ['encrypt', 'decrypt']);
+}
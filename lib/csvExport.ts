@@ -1,42 +1,23 @@
 import { JournalEntry } from './store';
-
-/**
- * Format date as "Nov 5, 2025"
- */
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { 
-    month: 'short', 
-    day: 'numeric', 
-    year: 'numeric' 
-  });
-}
-
-/**
- * Format time as "9:02 PM"
- */
-function formatTime(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleTimeString('en-US', { 
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true 
-  });
-}
+import { sealedEntries, isLockedSealedEntry } from './sealedEntries';
+import { formatEntryDate, formatEntryTime } from './dateFormat';
 
 /**
  * Export journal entries as CSV
  * Columns: Date, Time, Content, Tags, Source
  * Filename: heijo-journal-YYYY-MM-DD.csv
+ * Sealed entries are only included if they were unlocked this session.
+ * Dates and times follow the user's locale unless one is given.
  */
-export function exportEntriesAsCSV(entries: JournalEntry[]): void {
+export function exportEntriesAsCSV(entries: JournalEntry[], locale?: string): void {
   // CSV Headers
   const headers = ['Date', 'Time', 'Content', 'Tags', 'Source'];
   
   // Convert entries to CSV rows
-  const rows = entries.map(entry => {
-    const date = formatDate(entry.created_at);
-    const time = formatTime(entry.created_at);
+  const exported = entries.map(entry => sealedEntries.reveal(entry)).filter(entry => !isLockedSealedEntry(entry));
+  const rows = exported.map(entry => {
+    const date = escapeCSV(formatEntryDate(entry.created_at, locale)); // May contain a comma, e.g. "Nov 5, 2025"
+    const time = escapeCSV(formatEntryTime(entry.created_at, locale));
     const content = escapeCSV(entry.content);
     const tags = entry.tags.join(', '); // Comma-separated tags
     const source = entry.source;
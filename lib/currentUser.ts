@@ -0,0 +1,71 @@
+/**
+ * Resolve which user the local journal belongs to
+ * Shared by the local storage backends so entries stay scoped per account
+ * even when Supabase is unreachable.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const SESSION_STORAGE_KEY = 'heijo_session';
+const LAST_USER_ID_STORAGE_KEY = 'heijo_last_user_id';
+
+/**
+ * Supabase user first, then the cached session, then the last user seen on this device
+ */
+export async function resolveCurrentUserId(
+  supabaseClient: SupabaseClient | null,
+  isSupabaseConfigured: () => boolean
+): Promise<string | undefined> {
+  try {
+    if (supabaseClient && isSupabaseConfigured()) {
+      const { data: { user } } = await supabaseClient.auth.getUser();
+      if (user?.id) {
+        rememberLastUserId(user.id);
+        return user.id;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to get current user ID:', error);
+  }
+
+  const sessionUserId = getSessionUserId();
+  if (sessionUserId) {
+    rememberLastUserId(sessionUserId);
+    return sessionUserId;
+  }
+
+  return getLastKnownUserId();
+}
+
+function getSessionUserId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    const rawSession = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!rawSession) return undefined;
+
+    const parsed = JSON.parse(rawSession);
+    const sessionUser = parsed?.user || parsed?.currentSession?.user || parsed?.session?.user;
+    const userId = sessionUser?.id;
+    return typeof userId === 'string' && userId ? userId : undefined;
+  } catch (error) {
+    console.warn('Failed to parse heijo_session for user ID:', error);
+    return undefined;
+  }
+}
+
+export function getLastKnownUserId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const lastUserId = localStorage.getItem(LAST_USER_ID_STORAGE_KEY);
+  return lastUserId || undefined;
+}
+
+export function rememberLastUserId(userId?: string): void {
+  if (typeof window === 'undefined') return;
+  if (!userId || userId === 'anonymous') return;
+  try {
+    localStorage.setItem(LAST_USER_ID_STORAGE_KEY, userId);
+  } catch (error) {
+    console.warn('Failed to persist last user ID:', error);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Entry dates and times for exports, in the user's locale (the browser's
+ * unless one is given)
+ */
+
+/**
+ * Format date, e.g. "Nov 5, 2025" in en-US or "5 Nov 2025" in en-GB
+ */
+export function formatEntryDate(dateString: string, locale?: string): string {
+  return new Date(dateString).toLocaleDateString(locale, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Format time, e.g. "9:02 PM" in en-US or "21:02" in de-DE
+ */
+export function formatEntryTime(dateString: string, locale?: string): string {
+  return new Date(dateString).toLocaleTimeString(locale, {
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Long form for headings, e.g. "Wednesday, November 5, 2025"
+ */
+export function formatEntryDay(dateString: string, locale?: string): string {
+  return new Date(dateString).toLocaleDateString(locale, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Month and year, e.g. "November 2025"
+ */
+export function formatEntryMonth(dateString: string, locale?: string): string {
+  return new Date(dateString).toLocaleDateString(locale, {
+    month: 'long',
+    year: 'numeric'
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * Deletion receipts
+ * A record the user can keep that entries were deleted by crypto-shredding:
+ * which entries, fingerprints of the keys that were destroyed, and whether
+ * the keys were confirmed gone afterwards. It holds no entry content.
+ * Deleting everything also removes the journal itself, which is not
+ * encrypted per entry on the device; those entries are listed separately.
+ * The digest only detects accidental edits; it is not a signature.
+ */
+
+export interface DeletionReceipt {
+  receiptId: string;
+  scope: 'entry' | 'all';
+  method: 'crypto-shredding' | 'removal'; // 'removal' for unencrypted storage, where there is no key to destroy
+  entryIds: string[];
+  entryKeyFingerprints: string[]; // SHA-256 (hex) of each destroyed entry key, as it was stored wrapped
+  dataKeyIds: string[]; // Device data keys destroyed as well (scope 'all')
+  removedEntryIds?: string[]; // Journal entries deleted outright, on the device and in the cloud (scope 'all')
+  verified: boolean; // Checked afterwards: nothing of the entries is left (keys, ciphertext, recordings) and their old ciphertext no longer decrypts
+  deletedAt: string;
+  digest: string; // SHA-256 (hex) of the other fields
+}
+
+const RECEIPTS_STORAGE_KEY = 'heijo-deletion-receipts';
+const MAX_STORED_RECEIPTS = 100;
+
+export async function createDeletionReceipt(
+  details: Omit<DeletionReceipt, 'receiptId' | 'deletedAt' | 'digest'>
+): Promise<DeletionReceipt> {
+  const unsigned = {
+    receiptId: crypto.randomUUID(),
+    deletedAt: new Date().toISOString(),
+    ...details
+  };
+  const receipt: DeletionReceipt = { ...unsigned, digest: await receiptDigest(unsigned) };
+  storeReceipt(receipt);
+  return receipt;
+}
+
+/**
+ * True if the receipt is unchanged since it was issued
+ */
+export async function verifyDeletionReceipt(receipt: DeletionReceipt): Promise<boolean> {
+  const { digest, ...unsigned } = receipt;
+  return digest === await receiptDigest(unsigned);
+}
+
+/**
+ * Receipts issued on this device, newest first
+ */
+export function getDeletionReceipts(): DeletionReceipt[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(RECEIPTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Failed to read deletion receipts:', error);
+    return [];
+  }
+}
+
+export function downloadDeletionReceipt(receipt: DeletionReceipt): void {
+  const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `heijo-deletion-receipt-${receipt.deletedAt.split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Hex SHA-256 fingerprint, e.g. of a wrapped key
+ */
+export async function fingerprint(value: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hash)).map(byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
+
+function receiptDigest(unsigned: Omit<DeletionReceipt, 'digest'>): Promise<string> {
+  // Fixed field order so the digest does not depend on how the JSON was built
+  return fingerprint(JSON.stringify([
+    unsigned.receiptId,
+    unsigned.scope,
+    unsigned.method,
+    unsigned.entryIds,
+    unsigned.entryKeyFingerprints,
+    unsigned.dataKeyIds,
+    unsigned.removedEntryIds ?? [],
+    unsigned.verified,
+    unsigned.deletedAt
+  ]));
+}
+
+function storeReceipt(receipt: DeletionReceipt): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const receipts = [receipt, ...getDeletionReceipts()].slice(0, MAX_STORED_RECEIPTS);
+    localStorage.setItem(RECEIPTS_STORAGE_KEY, JSON.stringify(receipts));
+  } catch (error) {
+    console.warn('Failed to store deletion receipt:', error);
+  }
+}
@@ -9,16 +9,181 @@ export interface EncryptedData {
   keyId: string; // Key identifier for rotation
 }
 
+export interface EncryptedBytes {
+  data: ArrayBuffer;
+  iv: string; // Base64 encoded initialization vector
+  keyId: string;
+}
+
 export interface DeviceKey {
   id: string;
+  version: number;
   key: CryptoKey;
   createdAt: number;
+  purpose?: KeyPurpose;
+}
+
+// 'sync': cloud sync key derived from the user's sync secret (not rotated)
+// 'recovery': key the recovery kit is encrypted with (derived from the recovery words)
+export type KeyPurpose = 'sync' | 'recovery';
+
+/**
+ * Raw key material, used to move a keyring between devices (recovery kit,
+ * device transfer). Only ever leaves this module encrypted.
+ */
+export interface ExportedKey {
+  id: string;
+  version: number;
+  purpose?: 'sync';
+  createdAt: number;
+  keyMaterial: string; // Base64
+}
+
+/**
+ * Passphrase mode: the data key is only stored wrapped (AES-GCM) with a key
+ * derived from the passphrase, so the device profile alone cannot read it
+ */
+export interface PassphraseKeyParams {
+  kdf: 'PBKDF2-SHA256';
+  salt: string; // Base64
+  iterations: number;
+  wrappedKey: string; // Base64 AES-GCM wrapped raw data key
+  iv: string; // Base64 wrapping IV
+  updatedAt: number;
+}
+
+export interface EncryptionStatus {
+  mode: 'device' | 'passphrase';
+  locked: boolean;
+}
+
+// One record per key version in the 'keys' store: raw key material in device
+// mode, wrapped key in passphrase mode
+interface StoredKeyRecord {
+  id: string;
+  version?: number; // Missing on the original single key (v1)
+  purpose?: KeyPurpose;
+  createdAt: number;
+  keyMaterial?: string;
+  passphrase?: PassphraseKeyParams;
+}
+
+interface WrappingKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('Journal is locked. Unlock it with your passphrase first.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class KeyConflictError extends Error {
+  constructor(public readonly keyIds: string[]) {
+    super(`This device already has different keys with the same ids: ${keyIds.join(', ')}`);
+    this.name = 'KeyConflictError';
+  }
+}
+
+/**
+ * Salt and iteration count for deriving a user's cloud sync key; stored
+ * server-side so every device derives the same key from the same secret
+ */
+export interface SyncKeyDerivation {
+  salt: string; // Base64
+  iterations: number;
+}
+
+export class SyncKeyMissingError extends Error {
+  constructor() {
+    super('Enter your sync secret on this device to sync encrypted entries.');
+    this.name = 'SyncKeyMissingError';
+  }
+}
+
+export const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const SALT_BYTES = 16;
+const KEY_ID_PREFIX = 'heijo-key-v';
+const SYNC_KEY_PREFIX = 'heijo-sync:';
+// keyId of ciphertexts uploaded by the cloud sync; the same on every device
+export const SYNC_KEY_ID = 'heijo-sync-v1';
+// Encrypted with the sync key and stored next to its salt so a wrong secret can be detected
+const SYNC_KEY_CHECK = 'heijo-sync-key-check';
+const RECOVERY_KEY_ID = 'heijo-recovery';
+// keyId of ciphertexts encrypted with a per-entry key (see createEntryKey)
+export const ENTRY_KEY_ID = 'heijo-entry-key';
+
+/**
+ * AES-GCM key derived (PBKDF2-SHA256) from a passphrase
+ */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+  usages: KeyUsage[],
+  extractable: boolean = false
+): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    await importPassphrase(passphrase, 'deriveKey'),
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    usages
+  );
+}
+
+/**
+ * 256 bits derived (PBKDF2-SHA256) from a passphrase, e.g. to store as its hash
+ */
+export async function derivePassphraseBits(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array<ArrayBuffer>> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    await importPassphrase(passphrase, 'deriveBits'),
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+function importPassphrase(passphrase: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [usage]);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
 }
 
 class EncryptionManager {
   private static instance: EncryptionManager;
-  private deviceKey: DeviceKey | null = null;
-  private readonly STORAGE_KEY = 'heijo-device-key';
+  // Every key version that can still decrypt, oldest first; null until loaded or while locked
+  private keyring: DeviceKey[] | null = null;
+  private keyLoading: Promise<DeviceKey[]> | null = null;
+  // Kept while unlocked in passphrase mode so rotated keys can be wrapped without re-prompting
+  private wrapping: WrappingKey | null = null;
+  private readonly DB_NAME = 'HeijoEncryption';
   private readonly KEY_ID = 'heijo-key-v1';
 
   private constructor() {}
@@ -31,32 +196,440 @@ class EncryptionManager {
   }
 
   /**
-   * Initialize or retrieve device encryption key
+   * Initialize or retrieve the newest device encryption key.
+   * Throws EncryptionLockedError in passphrase mode until unlock() is called.
    */
   async initializeKey(): Promise<CryptoKey> {
-    if (this.deviceKey) {
-      return this.deviceKey.key;
+    return (await this.getCurrentKey()).key;
+  }
+
+  private async getCurrentKey(): Promise<DeviceKey> {
+    const deviceKeys = (await this.loadKeyring()).filter(key => !key.purpose);
+    return deviceKeys[deviceKeys.length - 1];
+  }
+
+  private async loadKeyring(): Promise<DeviceKey[]> {
+    if (this.keyring) {
+      return this.keyring;
+    }
+    if (!this.keyLoading) {
+      this.keyLoading = this.loadOrCreateKeyring().finally(() => {
+        this.keyLoading = null;
+      });
+    }
+    return this.keyLoading;
+  }
+
+  private async loadOrCreateKeyring(): Promise<DeviceKey[]> {
+    const records = await this.readKeyRecords();
+    if (records.some(record => record.passphrase)) {
+      throw new EncryptionLockedError();
+    }
+
+    const keyring: DeviceKey[] = [];
+    for (const record of records) {
+      if (!record.keyMaterial) continue;
+      try {
+        const key = await this.importDataKey(base64ToBytes(record.keyMaterial));
+        keyring.push({ id: record.id, version: this.versionOf(record), key, createdAt: record.createdAt, purpose: record.purpose });
+      } catch (error) {
+        console.warn(`Failed to import stored key ${record.id}:`, error);
+      }
+    }
+
+    if (!keyring.some(key => !key.purpose)) {
+      // Generate new key
+      const key = await this.generateNewKey(1);
+      await this.storeKey(key);
+      keyring.push(key);
+    }
+
+    this.keyring = keyring;
+    return keyring;
+  }
+
+  async getStatus(): Promise<EncryptionStatus> {
+    const records = await this.readKeyRecords();
+    if (!records.some(record => record.passphrase)) {
+      return { mode: 'device', locked: false };
+    }
+    return { mode: 'passphrase', locked: this.keyring === null };
+  }
+
+  /**
+   * Ids of all stored key versions, oldest first (available while locked)
+   */
+  async getKeyIds(): Promise<string[]> {
+    return (await this.readKeyRecords()).filter(record => !record.purpose).map(record => record.id);
+  }
+
+  /**
+   * Id new ciphertexts are written under
+   */
+  async getCurrentKeyId(): Promise<string> {
+    return (await this.getCurrentKey()).id;
+  }
+
+  /**
+   * Add a new key version; new writes use it immediately. Existing data stays
+   * readable with the older keys until it is re-encrypted and they are retired.
+   */
+  async rotateKey(): Promise<string> {
+    const keyring = await this.loadKeyring();
+    const records = await this.readKeyRecords();
+    const current = await this.getCurrentKey();
+    const newest = Math.max(current.version, ...records.filter(record => !record.purpose).map(record => this.versionOf(record)));
+    const next = await this.generateNewKey(newest + 1);
+
+    await this.storeKeys([next], records);
+    this.keyring = [...keyring, next];
+    this.notifyKeyringChanged();
+    return next.id;
+  }
+
+  /**
+   * Delete every key version older than keyId. Only call this once nothing
+   * is encrypted under those keys any more; returns the retired ids.
+   */
+  async retireKeysBefore(keyId: string): Promise<string[]> {
+    const records = (await this.readKeyRecords()).filter(record => !record.purpose);
+    const keep = records.find(record => record.id === keyId);
+    if (!keep) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
     }
 
-    // Try to load existing key from IndexedDB
-    const existingKey = await this.loadStoredKey();
-    if (existingKey) {
-      this.deviceKey = existingKey;
-      return existingKey.key;
+    const retired = records
+      .filter(record => this.versionOf(record) < this.versionOf(keep))
+      .map(record => record.id);
+    if (retired.length === 0) return [];
+
+    await this.deleteKeyRecords(retired);
+    if (this.keyring) {
+      this.keyring = this.keyring.filter(key => !retired.includes(key.id));
     }
+    this.notifyKeyringChanged();
+    return retired;
+  }
+
+  /**
+   * Switch to passphrase mode. The existing data keys are kept, so nothing
+   * has to be re-encrypted; only the way they are stored changes.
+   */
+  async enablePassphrase(passphrase: string): Promise<void> {
+    this.assertPassphraseStrength(passphrase);
+    const records = await this.readKeyRecords();
+    if (records.some(record => record.passphrase)) {
+      throw new Error('A passphrase is already set');
+    }
+
+    const keyring = await this.loadKeyring();
+    const wrapping = await this.createWrappingKey(passphrase);
+    await this.writeKeyRecords(await this.wrapKeyring(keyring, wrapping));
+    this.wrapping = wrapping;
+    this.notifyLockChanged(false);
+  }
+
+  /**
+   * Unwrap the data keys with the passphrase. Throws WrongPassphraseError.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const records = await this.readPassphraseRecords();
+    const { keyring, wrapping } = await this.unwrapKeyring(records, passphrase);
+    this.keyring = keyring;
+    this.wrapping = wrapping;
+    this.notifyLockChanged(false);
+  }
+
+  /**
+   * Forget the data keys until the next unlock (passphrase mode only)
+   */
+  async lock(): Promise<void> {
+    const records = await this.readKeyRecords();
+    if (!records.some(record => record.passphrase)) return;
+    this.keyring = null;
+    this.wrapping = null;
+    this.notifyLockChanged(true);
+  }
+
+  /**
+   * Drop the keys held in memory. Device mode reloads them from IndexedDB on
+   * next use; passphrase mode stays locked until unlock().
+   */
+  forgetKeys(): void {
+    this.keyring = null;
+    this.wrapping = null;
+  }
+
+  /**
+   * Re-wrap the same data keys under a new passphrase (fresh salt)
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    this.assertPassphraseStrength(newPassphrase);
+    const records = await this.readPassphraseRecords();
+    const { keyring } = await this.unwrapKeyring(records, currentPassphrase);
+
+    const wrapping = await this.createWrappingKey(newPassphrase);
+    await this.writeKeyRecords(await this.wrapKeyring(keyring, wrapping));
+    this.keyring = keyring;
+    this.wrapping = wrapping;
+    this.notifyLockChanged(false);
+  }
+
+  /**
+   * Go back to storing the data keys on the device without a passphrase
+   */
+  async disablePassphrase(passphrase: string): Promise<void> {
+    const records = await this.readKeyRecords();
+    if (!records.some(record => record.passphrase)) return;
 
-    // Generate new key
-    const key = await this.generateNewKey();
-    this.deviceKey = key;
-    await this.storeKey(key);
-    return key.key;
+    const { keyring } = await this.unwrapKeyring(records, passphrase);
+    const deviceRecords: StoredKeyRecord[] = [];
+    for (const key of keyring) {
+      deviceRecords.push(await this.toDeviceRecord(key));
+    }
+    await this.writeKeyRecords(deviceRecords);
+    this.keyring = keyring;
+    this.wrapping = null;
+    this.notifyLockChanged(false);
   }
 
   /**
    * Encrypt data using AES-GCM
    */
   async encrypt(data: string): Promise<EncryptedData> {
-    const key = await this.initializeKey();
+    const current = await this.getCurrentKey();
+    return this.encryptWith(current.key, current.id, data);
+  }
+
+  /**
+   * Decrypt data using AES-GCM
+   */
+  async decrypt(encryptedData: EncryptedData): Promise<string> {
+    const keyring = await this.loadKeyring();
+    const keyId = encryptedData.keyId || this.KEY_ID;
+    const match = keyring.find(candidate => candidate.id === keyId && !candidate.purpose);
+    if (!match) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
+    }
+    return this.decryptWith(match.key, encryptedData);
+  }
+
+  /**
+   * Create a random key for a single entry. The raw key is returned wrapped
+   * with the current data key; destroying the wrapped copy makes anything
+   * encrypted with the entry key unrecoverable (crypto-shredding).
+   */
+  async createEntryKey(): Promise<{ key: CryptoKey; wrappedKey: EncryptedData }> {
+    const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const raw = await crypto.subtle.exportKey('raw', generated);
+    const wrappedKey = await this.encrypt(bytesToBase64(new Uint8Array(raw)));
+    return { key: await this.importEntryKey(bytesToBase64(new Uint8Array(raw))), wrappedKey };
+  }
+
+  async unwrapEntryKey(wrappedKey: EncryptedData): Promise<CryptoKey> {
+    return this.importEntryKey(await this.decrypt(wrappedKey));
+  }
+
+  /**
+   * Re-wrap an entry key with the current data key, e.g. after a rotation
+   */
+  async rewrapEntryKey(wrappedKey: EncryptedData): Promise<EncryptedData> {
+    return this.encrypt(await this.decrypt(wrappedKey));
+  }
+
+  async encryptWithEntryKey(key: CryptoKey, data: string): Promise<EncryptedData> {
+    return this.encryptWith(key, ENTRY_KEY_ID, data);
+  }
+
+  async decryptWithEntryKey(key: CryptoKey, encryptedData: EncryptedData): Promise<string> {
+    return this.decryptWith(key, encryptedData);
+  }
+
+  /**
+   * Binary variants for audio: the ciphertext stays an ArrayBuffer instead
+   * of growing by a third as base64
+   */
+  async encryptBytesWithEntryKey(key: CryptoKey, data: Uint8Array<ArrayBuffer>): Promise<EncryptedBytes> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { data: encrypted, iv: bytesToBase64(iv), keyId: ENTRY_KEY_ID };
+  }
+
+  async decryptBytesWithEntryKey(key: CryptoKey, encrypted: EncryptedBytes): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(encrypted.iv) }, key, encrypted.data);
+  }
+
+  /**
+   * Derive and store the cloud sync key for a user. Pass the stored key check
+   * to verify the secret (throws WrongPassphraseError); returns a fresh check
+   * to store when setting up sync for the first time.
+   */
+  async setSyncKey(userId: string, secret: string, derivation: SyncKeyDerivation, keyCheck?: EncryptedData): Promise<EncryptedData> {
+    const key = await derivePassphraseKey(
+      secret,
+      base64ToBytes(derivation.salt),
+      derivation.iterations,
+      ['encrypt', 'decrypt'],
+      true // extractable so it can be stored like the device keys
+    );
+
+    if (keyCheck) {
+      let check: string | null = null;
+      try {
+        check = await this.decryptWith(key, keyCheck);
+      } catch {
+        // Wrong secret: GCM authentication fails
+      }
+      if (check !== SYNC_KEY_CHECK) {
+        throw new WrongPassphraseError();
+      }
+    }
+
+    const syncKey: DeviceKey = { id: `${SYNC_KEY_PREFIX}${userId}`, version: 1, key, createdAt: Date.now(), purpose: 'sync' };
+    const keyring = await this.loadKeyring();
+    await this.storeKeys([syncKey], await this.readKeyRecords());
+
+    this.keyring = [...keyring.filter(existing => existing.id !== syncKey.id), syncKey];
+    this.notifyKeyringChanged();
+    return this.encryptWith(key, SYNC_KEY_ID, SYNC_KEY_CHECK);
+  }
+
+  async hasSyncKey(userId: string): Promise<boolean> {
+    const records = await this.readKeyRecords();
+    return records.some(record => record.id === `${SYNC_KEY_PREFIX}${userId}`);
+  }
+
+  async forgetSyncKey(userId: string): Promise<void> {
+    const id = `${SYNC_KEY_PREFIX}${userId}`;
+    await this.deleteKeyRecords([id]);
+    if (this.keyring) {
+      this.keyring = this.keyring.filter(key => key.id !== id);
+    }
+    this.notifyKeyringChanged();
+  }
+
+  /**
+   * Raw material of the data and sync keys, for the recovery kit and device
+   * transfer. Throws EncryptionLockedError while locked.
+   */
+  async exportKeys(): Promise<ExportedKey[]> {
+    const keyring = await this.loadKeyring();
+    const exported: ExportedKey[] = [];
+    for (const key of keyring) {
+      if (key.purpose === 'recovery') continue;
+      const record = await this.toDeviceRecord(key);
+      exported.push({
+        id: key.id,
+        version: key.version,
+        purpose: key.purpose,
+        createdAt: key.createdAt,
+        keyMaterial: record.keyMaterial!
+      });
+    }
+    return exported;
+  }
+
+  /**
+   * Add keys exported on another device (or from a recovery kit). Keys whose
+   * id is taken by different key material throw KeyConflictError unless
+   * replace is set; replace drops this device's own data keys, and on a
+   * locked passphrase device also the passphrase (for a forgotten passphrase).
+   * Returns the imported ids.
+   */
+  async importKeys(exported: ExportedKey[], options: { replace?: boolean } = {}): Promise<string[]> {
+    const incoming: DeviceKey[] = [];
+    for (const entry of exported) {
+      incoming.push({
+        id: entry.id,
+        version: entry.version,
+        key: await this.importDataKey(base64ToBytes(entry.keyMaterial)),
+        createdAt: entry.createdAt,
+        purpose: entry.purpose
+      });
+    }
+
+    if (!incoming.some(key => !key.purpose)) {
+      throw new Error('No data keys to import');
+    }
+
+    let records = await this.readKeyRecords();
+    const passphraseMode = records.some(record => record.passphrase);
+
+    if (options.replace) {
+      if (passphraseMode && !this.wrapping) {
+        // Locked and the passphrase is unknown: start over in device mode
+        await this.deleteKeyRecords(records.map(record => record.id));
+        records = [];
+        this.keyring = [];
+        this.notifyLockChanged(false);
+      } else {
+        const keyring = await this.loadKeyring();
+        await this.deleteKeyRecords(records.filter(record => !record.purpose).map(record => record.id));
+        records = records.filter(record => record.purpose);
+        this.keyring = keyring.filter(key => key.purpose);
+      }
+    } else {
+      const existing = await this.exportKeys();
+      const conflicts = exported
+        .filter(entry => existing.some(key => key.id === entry.id && key.keyMaterial !== entry.keyMaterial))
+        .map(entry => entry.id);
+      if (conflicts.length > 0) {
+        throw new KeyConflictError(conflicts);
+      }
+    }
+
+    await this.storeKeys(incoming, records);
+    const ids = incoming.map(key => key.id);
+    const keyring = this.keyring || [];
+    this.keyring = [...keyring.filter(key => !ids.includes(key.id)), ...incoming]
+      .sort((a, b) => a.version - b.version);
+    this.notifyKeyringChanged();
+    return ids;
+  }
+
+  /**
+   * Store the key the recovery kit is encrypted with, next to the data keys
+   */
+  async setRecoveryKey(key: CryptoKey): Promise<void> {
+    const keyring = await this.loadKeyring();
+    const recoveryKey: DeviceKey = { id: RECOVERY_KEY_ID, version: 1, key, createdAt: Date.now(), purpose: 'recovery' };
+    await this.storeKeys([recoveryKey], await this.readKeyRecords());
+    this.keyring = [...keyring.filter(existing => existing.id !== RECOVERY_KEY_ID), recoveryKey];
+  }
+
+  async getRecoveryKey(): Promise<CryptoKey | null> {
+    const match = (await this.loadKeyring()).find(key => key.id === RECOVERY_KEY_ID);
+    return match ? match.key : null;
+  }
+
+  async hasRecoveryKey(): Promise<boolean> {
+    return (await this.readKeyRecords()).some(record => record.id === RECOVERY_KEY_ID);
+  }
+
+  /**
+   * Encrypt data for the cloud with the user's sync key
+   */
+  async encryptForSync(userId: string, data: string): Promise<EncryptedData> {
+    return this.encryptWith(await this.getSyncKey(userId), SYNC_KEY_ID, data);
+  }
+
+  async decryptForSync(userId: string, encryptedData: EncryptedData): Promise<string> {
+    if (encryptedData.keyId !== SYNC_KEY_ID) {
+      throw new Error(`Unknown sync key: ${encryptedData.keyId}`);
+    }
+    return this.decryptWith(await this.getSyncKey(userId), encryptedData);
+  }
+
+  private async getSyncKey(userId: string): Promise<CryptoKey> {
+    const keyring = await this.loadKeyring();
+    const match = keyring.find(key => key.id === `${SYNC_KEY_PREFIX}${userId}`);
+    if (!match) {
+      throw new SyncKeyMissingError();
+    }
+    return match.key;
+  }
+
+  private async encryptWith(key: CryptoKey, keyId: string, data: string): Promise<EncryptedData> {
     const encoder = new TextEncoder();
     const dataBuffer = encoder.encode(data);
     
@@ -73,20 +646,15 @@ class EncryptionManager {
     );
 
     return {
-      data: this.arrayBufferToBase64(encryptedBuffer),
-      iv: this.arrayBufferToBase64(iv.buffer),
-      keyId: this.KEY_ID
+      data: bytesToBase64(new Uint8Array(encryptedBuffer)),
+      iv: bytesToBase64(iv),
+      keyId
     };
   }
 
-  /**
-   * Decrypt data using AES-GCM
-   */
-  async decrypt(encryptedData: EncryptedData): Promise<string> {
-    const key = await this.initializeKey();
-    
-    const dataBuffer = this.base64ToArrayBuffer(encryptedData.data);
-    const iv = this.base64ToArrayBuffer(encryptedData.iv);
+  private async decryptWith(key: CryptoKey, encryptedData: EncryptedData): Promise<string> {
+    const dataBuffer = base64ToBytes(encryptedData.data);
+    const iv = base64ToBytes(encryptedData.iv);
     
     const decryptedBuffer = await crypto.subtle.decrypt(
       {
@@ -104,7 +672,7 @@ class EncryptionManager {
   /**
    * Generate a new AES-GCM key
    */
-  private async generateNewKey(): Promise<DeviceKey> {
+  private async generateNewKey(version: number): Promise<DeviceKey> {
     const key = await crypto.subtle.generateKey(
       {
         name: 'AES-GCM',
@@ -115,111 +683,259 @@ class EncryptionManager {
     );
 
     return {
-      id: this.KEY_ID,
+      id: `${KEY_ID_PREFIX}${version}`,
+      version,
       key,
       createdAt: Date.now()
     };
   }
 
+  // Never extractable: entry keys only leave memory wrapped
+  private importEntryKey(rawBase64: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', base64ToBytes(rawBase64), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  }
+
+  private importDataKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  private versionOf(record: StoredKeyRecord): number {
+    if (record.version) return record.version;
+    const parsed = parseInt(record.id.slice(KEY_ID_PREFIX.length), 10);
+    return record.id.indexOf(KEY_ID_PREFIX) === 0 && parsed > 0 ? parsed : 1;
+  }
+
   /**
-   * Store key in IndexedDB
+   * Write keys the way the rest of the keyring is stored: wrapped with the
+   * passphrase in passphrase mode (must be unlocked), raw otherwise
    */
-  private async storeKey(keyData: DeviceKey): Promise<void> {
-    if (typeof window === 'undefined') return;
+  private async storeKeys(keys: DeviceKey[], records: StoredKeyRecord[]): Promise<void> {
+    if (records.some(record => record.passphrase)) {
+      if (!this.wrapping) {
+        throw new EncryptionLockedError();
+      }
+      await this.writeKeyRecords(await this.wrapKeyring(keys, this.wrapping));
+      return;
+    }
+
+    const deviceRecords: StoredKeyRecord[] = [];
+    for (const key of keys) {
+      deviceRecords.push(await this.toDeviceRecord(key));
+    }
+    await this.writeKeyRecords(deviceRecords);
+  }
+
+  private async toDeviceRecord(key: DeviceKey): Promise<StoredKeyRecord> {
+    const keyMaterial = await crypto.subtle.exportKey('raw', key.key);
+    return {
+      id: key.id,
+      version: key.version,
+      purpose: key.purpose,
+      createdAt: key.createdAt,
+      keyMaterial: bytesToBase64(new Uint8Array(keyMaterial))
+    };
+  }
+
+  private assertPassphraseStrength(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private deriveWrappingKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    return derivePassphraseKey(passphrase, salt, iterations, ['wrapKey', 'unwrapKey']);
+  }
+
+  private async createWrappingKey(passphrase: string): Promise<WrappingKey> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    return {
+      key: await this.deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS),
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS
+    };
+  }
+
+  private async wrapDataKey(key: CryptoKey, wrapping: WrappingKey): Promise<PassphraseKeyParams> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.wrapKey('raw', key, wrapping.key, { name: 'AES-GCM', iv });
 
+    return {
+      kdf: 'PBKDF2-SHA256',
+      salt: wrapping.salt,
+      iterations: wrapping.iterations,
+      wrappedKey: bytesToBase64(new Uint8Array(wrapped)),
+      iv: bytesToBase64(iv),
+      updatedAt: Date.now()
+    };
+  }
+
+  private async wrapKeyring(keyring: DeviceKey[], wrapping: WrappingKey): Promise<StoredKeyRecord[]> {
+    const records: StoredKeyRecord[] = [];
+    for (const key of keyring) {
+      records.push({
+        id: key.id,
+        version: key.version,
+        purpose: key.purpose,
+        createdAt: key.createdAt,
+        passphrase: await this.wrapDataKey(key.key, wrapping)
+      });
+    }
+    return records;
+  }
+
+  /**
+   * AES-GCM authenticates the wrapped key, so a wrong passphrase fails to
+   * unwrap instead of producing a bogus key
+   */
+  private async unwrapDataKey(params: PassphraseKeyParams, wrappingKey: CryptoKey): Promise<CryptoKey> {
     try {
-      const request = indexedDB.open('HeijoEncryption', 1);
-      
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+      return await crypto.subtle.unwrapKey(
+        'raw',
+        base64ToBytes(params.wrappedKey),
+        wrappingKey,
+        { name: 'AES-GCM', iv: base64ToBytes(params.iv) },
+        { name: 'AES-GCM' },
+        true, // extractable so the keys can be exported for recovery and device transfer
+        ['encrypt', 'decrypt']
+      );
+    } catch {
+      throw new WrongPassphraseError();
+    }
+  }
+
+  /**
+   * Unwrap every key version. All versions normally share one salt, so the
+   * (slow) derivation runs once per distinct salt rather than once per key.
+   */
+  private async unwrapKeyring(
+    records: StoredKeyRecord[],
+    passphrase: string
+  ): Promise<{ keyring: DeviceKey[]; wrapping: WrappingKey }> {
+    const derived = new Map<string, WrappingKey>();
+    const keyring: DeviceKey[] = [];
+    let wrapping: WrappingKey | null = null;
+
+    for (const record of records) {
+      const params = record.passphrase!;
+      const cacheKey = `${params.salt}:${params.iterations}`;
+      let recordWrapping = derived.get(cacheKey);
+      if (!recordWrapping) {
+        recordWrapping = {
+          key: await this.deriveWrappingKey(passphrase, base64ToBytes(params.salt), params.iterations),
+          salt: params.salt,
+          iterations: params.iterations
+        };
+        derived.set(cacheKey, recordWrapping);
+      }
+
+      const key = await this.unwrapDataKey(params, recordWrapping.key);
+      keyring.push({ id: record.id, version: this.versionOf(record), key, createdAt: record.createdAt, purpose: record.purpose });
+      wrapping = recordWrapping;
+    }
+
+    return { keyring, wrapping: wrapping! };
+  }
+
+  private async readPassphraseRecords(): Promise<StoredKeyRecord[]> {
+    const records = await this.readKeyRecords();
+    if (!records.some(record => record.passphrase)) {
+      throw new Error('No passphrase is set');
+    }
+    return records.filter(record => record.passphrase);
+  }
+
+  private notifyLockChanged(locked: boolean): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:encryption-lock-changed', { detail: { locked } }));
+    }
+  }
+
+  private notifyKeyringChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:keyring-changed'));
+    }
+  }
+
+  private openKeyDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
         if (!db.objectStoreNames.contains('keys')) {
           db.createObjectStore('keys', { keyPath: 'id' });
         }
       };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
 
-      request.onsuccess = async (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const transaction = db.transaction(['keys'], 'readwrite');
-        const store = transaction.objectStore('keys');
-        
-        // Store key material (extractable)
-        const keyMaterial = await crypto.subtle.exportKey('raw', keyData.key);
-        store.put({
-          id: keyData.id,
-          keyMaterial: this.arrayBufferToBase64(keyMaterial),
-          createdAt: keyData.createdAt
-        });
-      };
+  /**
+   * Store key in IndexedDB
+   */
+  private async storeKey(keyData: DeviceKey): Promise<void> {
+    try {
+      // Store key material (extractable)
+      await this.writeKeyRecords([await this.toDeviceRecord(keyData)]);
     } catch (error) {
       console.warn('Failed to store encryption key:', error);
     }
   }
 
+  private async writeKeyRecords(records: StoredKeyRecord[]): Promise<void> {
+    await this.updateKeyStore(store => {
+      for (const record of records) {
+        store.put(record);
+      }
+    });
+  }
+
+  private async deleteKeyRecords(ids: string[]): Promise<void> {
+    await this.updateKeyStore(store => {
+      for (const id of ids) {
+        store.delete(id);
+      }
+    });
+  }
+
+  private async updateKeyStore(update: (store: IDBObjectStore) => void): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    const db = await this.openKeyDatabase();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['keys'], 'readwrite');
+        update(transaction.objectStore('keys'));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+      });
+    } finally {
+      db.close();
+    }
+  }
+
   /**
-   * Load key from IndexedDB
+   * Load all key records from IndexedDB, oldest version first
    */
-  private async loadStoredKey(): Promise<DeviceKey | null> {
-    if (typeof window === 'undefined') return null;
+  private async readKeyRecords(): Promise<StoredKeyRecord[]> {
+    if (typeof window === 'undefined') return [];
 
     try {
-      return new Promise((resolve) => {
-        const request = indexedDB.open('HeijoEncryption', 1);
-        
-        request.onupgradeneeded = (event) => {
-          const db = (event.target as IDBOpenDBRequest).result;
-          if (!db.objectStoreNames.contains('keys')) {
-            db.createObjectStore('keys', { keyPath: 'id' });
-          }
-        };
-        
-        request.onsuccess = async (event) => {
-          const db = (event.target as IDBOpenDBRequest).result;
-          
-          // Check if the object store exists before trying to access it
-          if (!db.objectStoreNames.contains('keys')) {
-            console.warn('Keys object store does not exist in database');
-            resolve(null);
-            return;
-          }
-          
-          const transaction = db.transaction(['keys'], 'readonly');
-          const store = transaction.objectStore('keys');
-          const getRequest = store.get(this.KEY_ID);
-          
-          getRequest.onsuccess = async () => {
-            const result = getRequest.result;
-            if (result) {
-              try {
-                const keyMaterial = this.base64ToArrayBuffer(result.keyMaterial);
-                const key = await crypto.subtle.importKey(
-                  'raw',
-                  keyMaterial,
-                  { name: 'AES-GCM' },
-                  true,
-                  ['encrypt', 'decrypt']
-                );
-                resolve({
-                  id: result.id,
-                  key,
-                  createdAt: result.createdAt
-                });
-              } catch (error) {
-                console.warn('Failed to import stored key:', error);
-                resolve(null);
-              }
-            } else {
-              resolve(null);
-            }
-          };
-          
-          getRequest.onerror = () => resolve(null);
-        };
-        
-        request.onerror = () => resolve(null);
-      });
+      const db = await this.openKeyDatabase();
+      try {
+        const records = await new Promise<StoredKeyRecord[]>((resolve, reject) => {
+          const request = db.transaction(['keys'], 'readonly').objectStore('keys').getAll();
+          request.onsuccess = () => resolve(request.result || []);
+          request.onerror = () => reject(request.error);
+        });
+        return records.sort((a, b) => this.versionOf(a) - this.versionOf(b));
+      } finally {
+        db.close();
+      }
     } catch (error) {
       console.warn('Failed to load encryption key:', error);
-      return null;
+      return [];
     }
   }
 
@@ -229,11 +945,14 @@ class EncryptionManager {
   async clearAllData(): Promise<void> {
     if (typeof window === 'undefined') return;
 
+    this.keyring = null;
+    this.wrapping = null;
     try {
-      const request = indexedDB.deleteDatabase('HeijoEncryption');
-      request.onsuccess = () => {
-        this.deviceKey = null;
-      };
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(this.DB_NAME);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
     } catch (error) {
       console.warn('Failed to clear encryption data:', error);
     }
@@ -248,25 +967,6 @@ class EncryptionManager {
            'subtle' in window.crypto &&
            'indexedDB' in window;
   }
-
-  // Utility methods
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
-  private base64ToArrayBuffer(base64: string): ArrayBuffer {
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes.buffer;
-  }
 }
 
 export const encryptionManager = EncryptionManager.getInstance();
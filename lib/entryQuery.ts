@@ -0,0 +1,98 @@
+/**
+ * Paged entry queries
+ * Pages are ordered newest first (created_at, then id) and continue from an
+ * opaque keyset cursor, so entries saved while paging never shift a page.
+ */
+
+import type { JournalEntry } from './store';
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface EntryQuery {
+  cursor?: string | null; // nextCursor of the previous page
+  limit?: number;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, exclusive
+  tags?: string[]; // Entry must have every tag
+  source?: JournalEntry['source'];
+  text?: string; // Case-insensitive substring of the content
+}
+
+export interface EntryPage {
+  entries: JournalEntry[];
+  nextCursor: string | null; // null on the last page
+}
+
+export interface EntryCursor {
+  created_at: string;
+  id: string;
+}
+
+export function encodeCursor(entry: Pick<JournalEntry, 'created_at' | 'id'>): string {
+  return `${entry.created_at}|${entry.id}`;
+}
+
+export function decodeCursor(cursor: string): EntryCursor {
+  const separator = cursor.indexOf('|');
+  if (separator <= 0) throw new Error('Invalid page cursor');
+  return { created_at: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
+
+/**
+ * Newest first; ties on created_at are broken by id so the order is total
+ */
+export function compareNewestFirst(a: Pick<JournalEntry, 'created_at' | 'id'>, b: Pick<JournalEntry, 'created_at' | 'id'>): number {
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+/**
+ * Whether an entry sorts strictly after the cursor (i.e. belongs to a later page)
+ */
+export function isAfterCursor(entry: Pick<JournalEntry, 'created_at' | 'id'>, cursor: EntryCursor): boolean {
+  return compareNewestFirst(entry, cursor) > 0;
+}
+
+export function matchesEntryQuery(entry: JournalEntry, query: EntryQuery): boolean {
+  if (query.from && entry.created_at < query.from) return false;
+  if (query.to && entry.created_at >= query.to) return false;
+  if (query.source && entry.source !== query.source) return false;
+  if (query.tags && !query.tags.every(tag => entry.tags.includes(tag))) return false;
+  if (query.text && !entry.content.toLowerCase().includes(query.text.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * In-memory pagination for backends without an index to scan
+ */
+export function paginateEntries(entries: JournalEntry[], query: EntryQuery): EntryPage {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+  const matching = entries
+    .filter(entry => matchesEntryQuery(entry, query) && (!cursor || isAfterCursor(entry, cursor)))
+    .sort(compareNewestFirst);
+
+  return toPage(matching.slice(0, limit + 1), limit);
+}
+
+/**
+ * Build a page from up to limit + 1 rows; the extra row only signals that more exist
+ */
+export function toPage(rows: JournalEntry[], limit: number): EntryPage {
+  const entries = rows.slice(0, limit);
+  return {
+    entries,
+    nextCursor: rows.length > limit && entries.length > 0 ? encodeCursor(entries[entries.length - 1]) : null
+  };
+}
+
+/**
+ * Local midnight on the Sunday that starts the week containing `date`
+ */
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
@@ -0,0 +1,74 @@
+/**
+ * Record helpers shared by the local storage backends
+ */
+
+import type { JournalEntry, EntryRevision } from './store';
+
+/**
+ * Snapshot the current state of an entry before it is overwritten
+ */
+export function createRevision(entry: JournalEntry): EntryRevision {
+  return {
+    id: crypto.randomUUID(),
+    entry_id: entry.id,
+    user_id: entry.user_id,
+    content: entry.content,
+    tags: [...entry.tags],
+    source: entry.source,
+    created_at: entry.updated_at || entry.created_at
+  };
+}
+
+/**
+ * In the trash: hidden from the journal but still restorable
+ */
+export function isTrashed(entry: JournalEntry): boolean {
+  return !!entry.deleted_at && !entry.purged_at;
+}
+
+/**
+ * Content-free copy of an entry that records its permanent deletion for sync
+ */
+export function toTombstone(entry: JournalEntry, overrides: Partial<JournalEntry>): JournalEntry {
+  return {
+    id: entry.id,
+    created_at: entry.created_at,
+    source: entry.source,
+    user_id: entry.user_id,
+    content: '',
+    tags: [],
+    sync_status: entry.sync_status,
+    last_synced: entry.last_synced,
+    updated_at: entry.updated_at,
+    deleted_at: entry.deleted_at,
+    purged_at: entry.purged_at,
+    version: entry.version,
+    ...overrides
+  };
+}
+
+/**
+ * Tombstones written before the trash existed have no purged_at; they were
+ * permanent deletions all the same
+ */
+export function normalizeTombstone(tombstone: JournalEntry): JournalEntry {
+  return tombstone.purged_at ? tombstone : { ...tombstone, purged_at: tombstone.deleted_at };
+}
+
+export function sortTrash(entries: JournalEntry[]): JournalEntry[] {
+  return [...entries].sort((a, b) =>
+    new Date(b.deleted_at || 0).getTime() - new Date(a.deleted_at || 0).getTime()
+  );
+}
+
+export function sortRevisions(revisions: EntryRevision[]): EntryRevision[] {
+  return [...revisions].sort((a, b) =>
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+export function sortNewestFirst<T extends { created_at: string }>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
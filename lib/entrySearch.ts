@@ -0,0 +1,171 @@
+/**
+ * Journal search
+ * Keeps a SearchIndex in step with the local journal: built once from the
+ * entries on this device, then updated from 'heijo:entries-changed' events.
+ * The index holds decrypted text in memory only; it is never persisted or
+ * sent anywhere, so search works the same for encrypted entries. Sealed
+ * entries are only searchable while they are unlocked (see sealedEntries).
+ */
+
+import { storage, JournalEntry, EntriesChangedDetail } from './store';
+import { SearchIndex } from './searchIndex';
+import { SearchQuery, getTextClauses, matchesSearchQuery, parseSearchQuery } from './searchQuery';
+import { EntryQuery, compareNewestFirst, matchesEntryQuery } from './entryQuery';
+import { sealedEntries, isLockedSealedEntry } from './sealedEntries';
+import { debugLog } from './logger';
+
+export interface EntrySearchResult {
+  entry: JournalEntry;
+  score: number;
+}
+
+export interface EntrySearchOptions {
+  language?: string; // BCP-47 code used for stemming
+  filters?: EntryQuery; // Date, tag and source filters applied to the hits
+  limit?: number;
+}
+
+const BUILD_PAGE_SIZE = 500;
+
+class EntrySearch {
+  private index: SearchIndex | null = null;
+  private entries = new Map<string, JournalEntry>();
+  private building: Promise<SearchIndex> | null = null;
+  private buildingLanguage: string | null = null;
+  private pendingChanges: EntriesChangedDetail[] = [];
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('heijo:entries-changed', (event: Event) => {
+        this.handleChange((event as CustomEvent<EntriesChangedDetail>).detail);
+      });
+      // Decrypted text must not outlive the app lock; rebuilt on the next search
+      window.addEventListener('heijo:app-locked', () => this.clear());
+      // Sealed entries were unlocked, locked or opened
+      window.addEventListener('heijo:sealed-entries-changed', () => this.handleChange({ reset: true }));
+    }
+  }
+
+  clear(): void {
+    this.index = null;
+    this.entries = new Map();
+    this.building = null;
+    this.buildingLanguage = null;
+    this.pendingChanges = [];
+  }
+
+  /**
+   * Run a query from the search box (see searchQuery). A string is parsed
+   * first and may throw SearchQueryError.
+   */
+  async search(query: string | SearchQuery, options: EntrySearchOptions = {}): Promise<EntrySearchResult[]> {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    if (parsed.nodes.length === 0) return [];
+
+    const language = options.language ?? 'en-US';
+    const index = await this.getIndex(language);
+    const matches = (entry: JournalEntry) =>
+      matchesSearchQuery(entry, parsed, language) && (!options.filters || matchesEntryQuery(entry, options.filters));
+
+    const results: EntrySearchResult[] = [];
+    const clauses = getTextClauses(parsed);
+    if (clauses.length > 0) {
+      index.search(clauses).forEach(hit => {
+        const entry = this.entries.get(hit.id);
+        if (entry && matches(entry)) results.push({ entry, score: hit.score });
+      });
+    } else {
+      // Only filters and exclusions: nothing to rank, newest first
+      this.entries.forEach(entry => {
+        if (matches(entry)) results.push({ entry, score: 0 });
+      });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || compareNewestFirst(a.entry, b.entry))
+      .slice(0, options.limit ?? 100);
+  }
+
+  private getIndex(language: string): Promise<SearchIndex> {
+    if (this.building && this.buildingLanguage === language) {
+      return this.building;
+    }
+    if (this.index && this.index.language === language) {
+      return Promise.resolve(this.index);
+    }
+
+    this.buildingLanguage = language;
+    const building = this.build(language).finally(() => {
+      if (this.building === building) {
+        this.building = null;
+        this.buildingLanguage = null;
+      }
+    });
+    this.building = building;
+    return building;
+  }
+
+  private async build(language: string): Promise<SearchIndex> {
+    const index = new SearchIndex(language);
+    const entries = new Map<string, JournalEntry>();
+    this.index = null;
+    this.pendingChanges = [];
+
+    let cursor: string | null = null;
+    do {
+      const page = await storage.queryEntries({ cursor, limit: BUILD_PAGE_SIZE });
+      page.entries.forEach(stored => {
+        const entry = sealedEntries.reveal(stored);
+        if (isLockedSealedEntry(entry)) return;
+        entries.set(entry.id, entry);
+        index.add(entry.id, entry.content);
+      });
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    // Superseded by a build for another language
+    if (this.buildingLanguage !== language) return index;
+
+    this.index = index;
+    this.entries = entries;
+    debugLog(`Search index built: ${index.size} entries`);
+
+    // Apply saves and deletes that happened while the index was being built
+    const pending = this.pendingChanges;
+    this.pendingChanges = [];
+    pending.forEach(detail => this.handleChange(detail));
+    return this.index;
+  }
+
+  private handleChange(detail: EntriesChangedDetail): void {
+    if (this.building && !this.index) {
+      this.pendingChanges.push(detail);
+      return;
+    }
+    if (!this.index) return;
+
+    if (detail.reset) {
+      // Rebuilt lazily on the next search
+      this.index = null;
+      this.entries.clear();
+      return;
+    }
+
+    detail.upserted?.forEach(stored => {
+      const entry = sealedEntries.reveal(stored);
+      if (isLockedSealedEntry(entry)) {
+        this.entries.delete(entry.id);
+        this.index!.remove(entry.id);
+        return;
+      }
+      this.entries.set(entry.id, entry);
+      this.index!.add(entry.id, entry.content);
+    });
+    detail.deleted?.forEach(id => {
+      this.entries.delete(id);
+      this.index!.remove(id);
+    });
+  }
+}
+
+export const entrySearch = new EntrySearch();
@@ -3,8 +3,12 @@
  * Implements data export, deletion, and consent management
  */
 
-import { JournalEntry } from './store';
+import { JournalEntry, storage } from './store';
 import { secureStorage } from './secureStorage';
+import { scheduledBackups } from './scheduledBackups';
+import { DeletionReceipt } from './deletionReceipt';
+import { sealedEntries, isLockedSealedEntry } from './sealedEntries';
+import type { SkippedRow } from './importers';
 
 export interface ConsentSettings {
   microphone: boolean;
@@ -160,15 +164,18 @@ class GDPRManager {
   }
 
   /**
-   * Import data from a previously exported JSON file
+   * Import data from a previously exported JSON file. Entries that cannot be
+   * saved are returned with the reason (see lib/importers for other apps).
    */
-  async importFromJSON(file: File): Promise<{ imported: number }>{
+  async importFromJSON(file: File): Promise<{ imported: number; skipped: SkippedRow[] }>{
     const text = await file.text();
     const parsed = JSON.parse(text) as DataExport | { entries: JournalEntry[] };
     const entries: JournalEntry[] = (parsed as any).entries || [];
 
     let imported = 0;
-    for (const entry of entries) {
+    const skipped: SkippedRow[] = [];
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
       try {
         await secureStorage.saveEntry({
           content: entry.content,
@@ -180,9 +187,10 @@ class GDPRManager {
         imported++;
       } catch (e) {
         console.warn('Failed to import entry', entry.id, e);
+        skipped.push({ origin: `${file.name}, entry ${index + 1}`, reason: e instanceof Error ? e.message : String(e) });
       }
     }
-    return { imported };
+    return { imported, skipped };
   }
 
   /**
@@ -204,15 +212,25 @@ class GDPRManager {
   }
 
   /**
-   * Delete all user data
+   * Delete all user data: the journal (on this device and in the cloud,
+   * with its history and sync queue), the backup snapshots kept in this
+   * browser with their key, then everything in SecureLocalStorage
+   * by destroying its keys. Throws without destroying any keys if the
+   * journal could not be deleted. The receipt is kept on the device and can
+   * be downloaded.
    */
-  async deleteAllData(): Promise<void> {
-    await secureStorage.clearAllData();
+  async deleteAllData(): Promise<DeletionReceipt> {
+    const entryIds = await storage.deleteAllEntries();
+    // Checked before the keys go: reading after that would ask for the sync secret
+    const remaining = (await storage.exportEntries()).length + (await storage.getTrash()).length;
+    await scheduledBackups.disable();
+    const receipt = await secureStorage.clearAllData({ entryIds, verified: remaining === 0 });
     
     // Clear consent settings
     if (typeof window !== 'undefined') {
       localStorage.removeItem(this.CONSENT_KEY);
     }
+    return receipt;
   }
 
   /**
@@ -293,7 +311,9 @@ class GDPRManager {
    */
   private convertToCSV(entries: JournalEntry[]): string {
     const headers = ['ID', 'Created At', 'Content', 'Source', 'Tags', 'Sync Status'];
-    const rows = entries.map(entry => [
+    // Sealed entries are left out unless unlocked (see lib/sealedEntries)
+    const exported = entries.map(entry => sealedEntries.reveal(entry)).filter(entry => !isLockedSealedEntry(entry));
+    const rows = exported.map(entry => [
       entry.id,
       entry.created_at,
       `"${entry.content.replace(/"/g, '""')}"`, // Escape quotes
@@ -0,0 +1,111 @@
+import type { Importer, ImportFile, ParsedImport } from './types';
+import { decodeText, parseImportDate, splitTags } from './helpers';
+
+/**
+ * Any CSV file, with the columns chosen by the user (ImportOptions.csvMapping).
+ * Comma, semicolon and tab separated files are recognised.
+ */
+export const csvImporter: Importer = {
+  id: 'csv',
+  label: 'CSV',
+  description: 'Any spreadsheet export; you choose the columns',
+  accept: '.csv,.tsv,text/csv',
+  async parse(files, options) {
+    const mapping = options.csvMapping;
+    if (!mapping) throw new Error('Choose which columns hold the text and the date');
+    const result: ParsedImport = { entries: [], skipped: [] };
+
+    files.forEach(file => {
+      const [headers, ...rows] = parseCsv(decodeText(file.data));
+      const column = (name?: string): number => {
+        if (!name) return -1;
+        const index = (headers ?? []).indexOf(name);
+        if (index === -1) throw new Error(`${file.path} has no column "${name}"`);
+        return index;
+      };
+      const contentColumn = column(mapping.content);
+      const dateColumn = column(mapping.date);
+      const timeColumn = column(mapping.time);
+      const tagsColumn = column(mapping.tags);
+      const sourceColumn = column(mapping.source);
+
+      rows.forEach((row, index) => {
+        const origin = `${file.path}, row ${index + 2}`; // Row 1 is the header
+        if (row.every(cell => cell.trim() === '')) return;
+
+        const rawDate = timeColumn === -1 ? row[dateColumn] ?? '' : `${row[dateColumn] ?? ''} ${row[timeColumn] ?? ''}`;
+        const created_at = parseImportDate(rawDate, mapping.dateOrder);
+        if (!created_at) {
+          result.skipped.push({ origin, reason: `Unreadable date "${rawDate.trim()}"` });
+          return;
+        }
+        result.entries.push({
+          content: (row[contentColumn] ?? '').trim(),
+          created_at,
+          tags: tagsColumn === -1 ? [] : splitTags(row[tagsColumn] ?? ''),
+          source: sourceColumn !== -1 && /voice|audio/i.test(row[sourceColumn] ?? '') ? 'voice' : 'text',
+          origin
+        });
+      });
+    });
+
+    return result;
+  }
+};
+
+/**
+ * Column names of a CSV file, for choosing the mapping
+ */
+export function readCsvHeaders(file: ImportFile): string[] {
+  return parseCsv(decodeText(file.data))[0] ?? [];
+}
+
+/**
+ * Rows of a CSV file (RFC 4180: quoted fields may hold separators, quotes and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const separator = detectSeparator(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// The most frequent candidate in the header line
+function detectSeparator(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(separator => ({ separator, count: header.split(separator).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].separator;
+}
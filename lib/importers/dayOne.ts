@@ -0,0 +1,71 @@
+import type { Importer, ParsedImport } from './types';
+import { decodeText, expandZips, parseImportDate } from './helpers';
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  text?: string;
+  tags?: string[];
+}
+
+/**
+ * Day One: the JSON export, or the zip it comes in. Photos and other media
+ * are not imported; their placeholders are removed from the text.
+ */
+export const dayOneImporter: Importer = {
+  id: 'day-one',
+  label: 'Day One',
+  description: 'JSON export, or the zip it comes in',
+  accept: '.json,.zip',
+  async parse(files) {
+    const result: ParsedImport = { entries: [], skipped: [] };
+
+    for (const file of await expandZips(files)) {
+      if (!/\.json$/i.test(file.path)) {
+        result.skipped.push({ origin: file.path, reason: 'Media and other files are not imported' });
+        continue;
+      }
+
+      let journal: { entries?: DayOneEntry[] };
+      try {
+        journal = JSON.parse(decodeText(file.data));
+      } catch {
+        result.skipped.push({ origin: file.path, reason: 'Not valid JSON' });
+        continue;
+      }
+      if (!journal || !Array.isArray(journal.entries)) {
+        result.skipped.push({ origin: file.path, reason: 'Not a Day One export (no entries)' });
+        continue;
+      }
+
+      journal.entries.forEach((entry, index) => {
+        const origin = `${file.path}, entry ${index + 1}`;
+        const created_at = entry.creationDate ? parseImportDate(entry.creationDate) : null;
+        if (!created_at) {
+          result.skipped.push({ origin, reason: `Unreadable date "${entry.creationDate ?? ''}"` });
+          return;
+        }
+        result.entries.push({
+          content: dayOneText(entry.text ?? ''),
+          created_at,
+          tags: Array.isArray(entry.tags) ? entry.tags.filter(tag => typeof tag === 'string') : [],
+          source: 'text',
+          origin
+        });
+      });
+    }
+
+    return result;
+  }
+};
+
+/**
+ * Day One's Markdown without media placeholders and its backslash escapes
+ */
+function dayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,159 @@
+/**
+ * Parsing helpers shared by the importers
+ */
+
+import type { DateOrder, ImportFile } from './types';
+import { readZip } from '../zipArchive';
+
+export function decodeText(data: Uint8Array): string {
+  // TextDecoder drops a UTF-8 byte order mark by default
+  return new TextDecoder().decode(data);
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const NUMERIC_DATE = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[ ,T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?$/i;
+
+/**
+ * Read a date from another app as an ISO string, or null if it is not a date.
+ * Understands ISO 8601, Unix timestamps (seconds or milliseconds), numeric
+ * dates in the given order (03/04/2024) with an optional time, and anything
+ * Date.parse accepts. Dates without a time zone are taken as local time.
+ */
+export function parseImportDate(value: string | number, order: DateOrder = 'ymd'): string | null {
+  const text = String(value).trim();
+  if (text === '') return null;
+
+  if (/^\d{9,13}$/.test(text)) {
+    const timestamp = Number(text);
+    return new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp).toISOString();
+  }
+
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    if (iso[8]) {
+      const parsed = Date.parse(text.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+      return isNaN(parsed) ? null : new Date(parsed).toISOString();
+    }
+    return localDate(+iso[1], +iso[2], +iso[3], +(iso[4] || 0), +(iso[5] || 0), +(iso[6] || 0));
+  }
+
+  const numeric = NUMERIC_DATE.exec(text);
+  if (numeric) {
+    const [a, b, c] = [+numeric[1], +numeric[2], +numeric[3]];
+    const [year, month, day] = numeric[1].length === 4 || order === 'ymd'
+      ? [a, b, c]
+      : order === 'dmy' ? [c, b, a] : [c, a, b];
+    let hours = +(numeric[4] || 0);
+    const meridiem = numeric[7]?.toUpperCase();
+    if (meridiem === 'PM' && hours < 12) hours += 12;
+    if (meridiem === 'AM' && hours === 12) hours = 0;
+    return localDate(year < 100 ? 2000 + year : year, month, day, hours, +(numeric[5] || 0), +(numeric[6] || 0));
+  }
+
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function localDate(year: number, month: number, day: number, hours: number, minutes: number, seconds: number): string | null {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Rejects overflow such as 2024-02-31 instead of rolling into March
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Plain text from an HTML entry body, keeping paragraphs and line breaks
+ */
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ');
+  const text = new DOMParser().parseFromString(marked, 'text/html').body.textContent || '';
+  return text.replace(/\u00a0/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Tags from a comma- or semicolon-separated list, without leading #
+ */
+export function splitTags(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map(tag => tag.trim().replace(/^#+/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * YAML front matter of a Markdown file (scalars, [inline] lists and "- item"
+ * lists only) and the text after it
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(yamlScalar(item[1]));
+      return;
+    }
+    const pair = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!pair) return;
+    const [, key, value] = pair;
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value)) {
+      data[key] = value.slice(1, -1).split(',').map(yamlScalar).filter(Boolean);
+      listKey = null;
+    } else {
+      data[key] = yamlScalar(value);
+      listKey = null;
+    }
+  });
+  return { data, body: text.slice(match[0].length) };
+}
+
+function yamlScalar(value: string): string {
+  const trimmed = value.trim();
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  return trimmed;
+}
+
+/**
+ * Replace picked .zip files by the files inside them (paths prefixed with the
+ * zip's name). macOS resource forks are left out.
+ */
+export async function expandZips(files: ImportFile[]): Promise<ImportFile[]> {
+  const expanded: ImportFile[] = [];
+  for (const file of files) {
+    if (!/\.zip$/i.test(file.path)) {
+      expanded.push(file);
+      continue;
+    }
+    const inner = await readZip(file.data);
+    inner
+      .filter(zipped => !zipped.path.startsWith('__MACOSX/'))
+      .forEach(zipped => expanded.push({
+        path: `${file.path}/${zipped.path}`,
+        data: typeof zipped.content === 'string' ? new TextEncoder().encode(zipped.content) : zipped.content,
+        lastModified: zipped.modified?.getTime()
+      }));
+  }
+  return expanded;
+}
+
+export function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
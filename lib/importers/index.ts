@@ -0,0 +1,186 @@
+/**
+ * Importing from other journal apps
+ * Each app or format is an Importer adapter that only reads files into
+ * ImportedEntry rows. This pipeline then checks them, maps tags onto the ones
+ * already in the journal, detects duplicates and, after a dry-run preview,
+ * saves them. Every row that is not imported is listed in the report with
+ * the reason.
+ */
+
+import { storage, StorageBackend, JournalEntry } from '../store';
+import { isLockedSealedEntry } from '../sealedEntries';
+import { debugLog } from '../logger';
+import type { Importer, ImportFile, ImportOptions, ImportedEntry, SkippedRow } from './types';
+import { dayOneImporter } from './dayOne';
+import { journeyImporter } from './journey';
+import { csvImporter } from './csv';
+import { textFolderImporter } from './textFolder';
+
+export type { Importer, ImportFile, ImportOptions, ImportedEntry, SkippedRow, CsvColumnMapping, DateOrder } from './types';
+export { readCsvHeaders } from './csv';
+
+export interface ImportPreview {
+  importerId: string;
+  total: number; // Rows read, including skipped ones
+  entries: ImportedEntry[]; // Will be imported
+  skipped: SkippedRow[];
+}
+
+export interface ImportReport {
+  importer: string;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  imported: number;
+  skipped: SkippedRow[];
+}
+
+const importers = new Map<string, Importer>();
+
+export function registerImporter(importer: Importer): void {
+  importers.set(importer.id, importer);
+}
+
+export function getImporters(): Importer[] {
+  return Array.from(importers.values());
+}
+
+export function getImporter(id: string): Importer | undefined {
+  return importers.get(id);
+}
+
+[dayOneImporter, journeyImporter, csvImporter, textFolderImporter].forEach(registerImporter);
+
+/**
+ * Picked files (or a picked folder's files) as importer input
+ */
+export async function readImportFiles(files: File[]): Promise<ImportFile[]> {
+  return Promise.all(files.map(async file => ({
+    path: file.webkitRelativePath || file.name,
+    data: new Uint8Array(await file.arrayBuffer()),
+    lastModified: file.lastModified
+  })));
+}
+
+/**
+ * Dry run: read the files and work out what would be imported and what
+ * would be skipped. Nothing is saved.
+ */
+export async function previewImport(
+  importerId: string,
+  files: ImportFile[],
+  options: ImportOptions = {},
+  target: StorageBackend = storage
+): Promise<ImportPreview> {
+  const importer = getImporter(importerId);
+  if (!importer) throw new Error(`Unknown importer "${importerId}"`);
+
+  const parsed = await importer.parse(files, options);
+  const existing = [...await target.getEntries(), ...await target.getTrash()].filter(entry => !isLockedSealedEntry(entry));
+  const knownTags = new Map<string, string>();
+  existing.forEach(entry => entry.tags.forEach(tag => knownTags.set(tag.toLowerCase(), tag)));
+
+  const seen = new Map<string, string>(); // Duplicate key → origin of the first row with it
+  existing.forEach(entry => seen.set(duplicateKey(entry), ''));
+
+  const entries: ImportedEntry[] = [];
+  const skipped = [...parsed.skipped];
+  parsed.entries.forEach(entry => {
+    if (entry.content.trim() === '') {
+      skipped.push({ origin: entry.origin, reason: 'Empty entry' });
+      return;
+    }
+    const key = duplicateKey(entry);
+    const firstOrigin = seen.get(key);
+    if (firstOrigin !== undefined) {
+      skipped.push({ origin: entry.origin, reason: firstOrigin ? `Duplicate of ${firstOrigin}` : 'Already in your journal' });
+      return;
+    }
+    seen.set(key, entry.origin);
+    entries.push({ ...entry, tags: mapTags(entry.tags, knownTags) });
+  });
+
+  return { importerId, total: parsed.entries.length + parsed.skipped.length, entries, skipped };
+}
+
+/**
+ * Save the entries of a preview. Entries that fail to save are added to the
+ * report rather than stopping the import.
+ */
+export async function runImport(preview: ImportPreview, target: StorageBackend = storage): Promise<ImportReport> {
+  const startedAt = new Date().toISOString();
+  const skipped = [...preview.skipped];
+  let imported = 0;
+
+  for (const entry of preview.entries) {
+    try {
+      await target.saveEntry({
+        content: entry.content,
+        created_at: entry.created_at,
+        source: entry.source,
+        tags: entry.tags
+      });
+      imported++;
+    } catch (error) {
+      console.warn('Failed to import entry', entry.origin, error);
+      skipped.push({ origin: entry.origin, reason: `Could not be saved: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  debugLog(`Imported ${imported} of ${preview.total} rows with ${preview.importerId}`);
+  return {
+    importer: getImporter(preview.importerId)?.label ?? preview.importerId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    total: preview.total,
+    imported,
+    skipped
+  };
+}
+
+export function formatImportReport(report: ImportReport): string {
+  return [
+    `Heijō import report (${report.importer})`,
+    `Started: ${report.startedAt}`,
+    `Finished: ${report.finishedAt}`,
+    `Rows read: ${report.total}`,
+    `Imported: ${report.imported}`,
+    `Skipped: ${report.skipped.length}`,
+    '',
+    ...report.skipped.map(row => `- ${row.origin}: ${row.reason}`),
+    ''
+  ].join('\n');
+}
+
+export function downloadImportReport(report: ImportReport): void {
+  const blob = new Blob([formatImportReport(report)], { type: 'text/plain;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `heijo-import-report-${report.finishedAt.split('T')[0]}.txt`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Same text written in the same minute. Minutes, because other apps round
+ * times differently.
+ */
+function duplicateKey(entry: Pick<JournalEntry, 'content' | 'created_at'>): string {
+  const minute = Math.floor(new Date(entry.created_at).getTime() / 60000);
+  return `${minute}|${entry.content.trim()}`;
+}
+
+/**
+ * Use the journal's spelling of a tag when it only differs in case
+ */
+function mapTags(tags: string[], knownTags: Map<string, string>): string[] {
+  const mapped: string[] = [];
+  tags.forEach(tag => {
+    const name = knownTags.get(tag.trim().toLowerCase()) ?? tag.trim();
+    if (name && mapped.indexOf(name) === -1) mapped.push(name);
+  });
+  return mapped;
+}
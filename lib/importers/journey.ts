@@ -0,0 +1,58 @@
+import type { Importer, ParsedImport } from './types';
+import { decodeText, expandZips, htmlToText, parseImportDate } from './helpers';
+
+interface JourneyEntry {
+  id?: string;
+  date_journal?: number;
+  text?: string;
+  tags?: string[];
+}
+
+/**
+ * Journey: the zip export, which holds one JSON file per entry. Older
+ * versions store the text as HTML. Photos are not imported.
+ */
+export const journeyImporter: Importer = {
+  id: 'journey',
+  label: 'Journey',
+  description: 'Zip export (one JSON file per entry)',
+  accept: '.zip,.json',
+  multiple: true,
+  async parse(files) {
+    const result: ParsedImport = { entries: [], skipped: [] };
+
+    for (const file of await expandZips(files)) {
+      if (!/\.json$/i.test(file.path)) {
+        result.skipped.push({ origin: file.path, reason: 'Media and other files are not imported' });
+        continue;
+      }
+
+      let entry: JourneyEntry;
+      try {
+        entry = JSON.parse(decodeText(file.data));
+      } catch {
+        result.skipped.push({ origin: file.path, reason: 'Not valid JSON' });
+        continue;
+      }
+      if (!entry || typeof entry.text !== 'string' || entry.date_journal === undefined) {
+        result.skipped.push({ origin: file.path, reason: 'Not a Journey entry' });
+        continue;
+      }
+
+      const created_at = parseImportDate(entry.date_journal);
+      if (!created_at) {
+        result.skipped.push({ origin: file.path, reason: `Unreadable date "${entry.date_journal}"` });
+        continue;
+      }
+      result.entries.push({
+        content: /<\/?[a-z][^>]*>/i.test(entry.text) ? htmlToText(entry.text) : entry.text.trim(),
+        created_at,
+        tags: Array.isArray(entry.tags) ? entry.tags.filter(tag => typeof tag === 'string') : [],
+        source: 'text',
+        origin: file.path
+      });
+    }
+
+    return result;
+  }
+};
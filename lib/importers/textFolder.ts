@@ -0,0 +1,69 @@
+import type { Importer, ParsedImport } from './types';
+import { decodeText, expandZips, fileName, parseFrontMatter, parseImportDate, splitTags } from './helpers';
+
+const FILE_NAME_DATE = /(\d{4}-\d{2}-\d{2})(?:[ T_]?(\d{2})[:.h]?(\d{2}))?/;
+
+/**
+ * A folder of Markdown or text files (or a zip of one, such as an Obsidian
+ * vault), one entry per file. The date comes from YAML front matter
+ * (date/created), else from a date in the file name, else from the file's
+ * modification time. Notes exported by Heijō (lib/markdownExport) come back
+ * without the heading the export added.
+ */
+export const textFolderImporter: Importer = {
+  id: 'text-folder',
+  label: 'Markdown or text files',
+  description: 'A folder of .md/.txt files, or a zip of one',
+  accept: '.md,.markdown,.txt,.zip',
+  multiple: true,
+  async parse(files) {
+    const result: ParsedImport = { entries: [], skipped: [] };
+
+    for (const file of await expandZips(files)) {
+      // Hidden files and folders, e.g. .obsidian settings or .DS_Store
+      if (file.path.split('/').some(part => part.startsWith('.'))) continue;
+      if (!/\.(md|markdown|txt)$/i.test(file.path)) {
+        result.skipped.push({ origin: file.path, reason: 'Not a Markdown or text file' });
+        continue;
+      }
+
+      const { data, body } = parseFrontMatter(decodeText(file.data));
+      let content = body.trim();
+      if (typeof data.id === 'string' && typeof data.source === 'string') {
+        content = content.replace(/^# .*(\r?\n)*/, '').trim();
+      }
+      if (/\[\[/.test(content) && content.replace(/^(# .*|- .*\[\[.*\]\].*)$/gm, '').trim() === '') {
+        result.skipped.push({ origin: file.path, reason: 'Only links to other notes (e.g. a daily note)' });
+        continue;
+      }
+
+      const created_at = frontMatterDate(data) ?? fileNameDate(file.path) ?? (file.lastModified ? new Date(file.lastModified).toISOString() : null);
+      if (!created_at) {
+        result.skipped.push({ origin: file.path, reason: 'No date in the front matter or file name' });
+        continue;
+      }
+
+      const tags = Array.isArray(data.tags) ? data.tags : splitTags(data.tags ?? '');
+      result.entries.push({
+        content,
+        created_at,
+        tags: tags.map(tag => tag.replace(/^#+/, '')).filter(Boolean),
+        source: data.source === 'voice' ? 'voice' : 'text',
+        origin: file.path
+      });
+    }
+
+    return result;
+  }
+};
+
+function frontMatterDate(data: Record<string, string | string[]>): string | null {
+  const value = data.date ?? data.created ?? data.created_at;
+  return typeof value === 'string' ? parseImportDate(value) : null;
+}
+
+function fileNameDate(path: string): string | null {
+  const match = FILE_NAME_DATE.exec(fileName(path));
+  if (!match) return null;
+  return parseImportDate(match[2] ? `${match[1]} ${match[2]}:${match[3]}` : match[1]);
+}
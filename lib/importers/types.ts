@@ -0,0 +1,56 @@
+import type { JournalEntry } from '../store';
+
+// A file handed to an importer: a picked file, or one found inside a zip
+export interface ImportFile {
+  path: string; // Relative path within the picked folder or zip, or just the file name
+  data: Uint8Array;
+  lastModified?: number;
+}
+
+// An entry as read from another app, before it is checked and saved
+export interface ImportedEntry {
+  content: string;
+  created_at: string; // ISO 8601
+  tags: string[];
+  source: JournalEntry['source'];
+  origin: string; // Where it came from, for the report (e.g. "Journal.json, entry 12")
+}
+
+export interface SkippedRow {
+  origin: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  entries: ImportedEntry[];
+  skipped: SkippedRow[];
+}
+
+// Which CSV column holds what (by header name)
+export interface CsvColumnMapping {
+  content: string;
+  date: string;
+  time?: string; // When date and time are separate columns
+  tags?: string;
+  source?: string;
+  dateOrder?: DateOrder; // For dates like 03/04/2024; ISO dates are always understood
+}
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export interface ImportOptions {
+  csvMapping?: CsvColumnMapping;
+}
+
+/**
+ * An adapter for one app or file format. Adapters only read: checking,
+ * duplicate detection and saving are done by the import pipeline (see index).
+ */
+export interface Importer {
+  id: string;
+  label: string;
+  description: string;
+  accept: string; // For the file input
+  multiple?: boolean; // Several files or a whole folder
+  parse(files: ImportFile[], options: ImportOptions): Promise<ParsedImport>;
+}
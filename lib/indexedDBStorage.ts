@@ -0,0 +1,817 @@
+/**
+ * IndexedDB storage backend
+ * Stores each entry as its own record instead of one localStorage JSON blob,
+ * so the journal is no longer capped by the ~5MB localStorage quota and reads
+ * don't parse everything. Entries are indexed by account and created_at (also
+ * per source), and by tag.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalEntry, EntryRevision, EntryUpdate, LocalEntryUpdate, LocalBackend } from './store';
+import type { SealedEntryData } from './sealedEntries';
+import type { SyncConflict, SyncRecord } from './syncEngine';
+import type { OutboxOperation } from './outbox';
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { resolveCurrentUserId, rememberLastUserId } from './currentUser';
+import { createRevision, toTombstone, sortRevisions, sortNewestFirst, isTrashed, normalizeTombstone, sortTrash } from './entryRecords';
+import { incrementVector } from './versionVector';
+import { traceLog } from './logger';
+import {
+  EntryQuery,
+  EntryPage,
+  EntryCursor,
+  DEFAULT_PAGE_SIZE,
+  decodeCursor,
+  isAfterCursor,
+  matchesEntryQuery,
+  compareNewestFirst,
+  toPage
+} from './entryQuery';
+
+const DB_NAME = 'HeijoJournal';
+const DB_VERSION = 2; // v2 replaces the 'source' index with 'owner_source_created_at'
+const GUEST_OWNER = 'guest';
+
+// Entries and tombstones carry the account they belong to as an indexable field
+type OwnedRecord = JournalEntry & { owner: string };
+
+function ownerOf(userId?: string): string {
+  return userId && userId !== 'anonymous' ? userId : GUEST_OWNER;
+}
+
+function stripOwner(record: OwnedRecord): JournalEntry {
+  const { owner: _owner, ...entry } = record;
+  return entry;
+}
+
+// Every [owner, created_at] key for one account, oldest first
+function ownerRange(owner: string): IDBKeyRange {
+  return IDBKeyRange.bound([owner, ''], [owner, '\uffff']);
+}
+
+// Stored records are structured clones of what was put, so equal content serializes equally
+function sameRecord(a: object, b: object): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      const error = transaction.error;
+      if (error && error.name === 'QuotaExceededError') {
+        console.error('IndexedDB quota exceeded');
+        reject(new Error('Storage quota exceeded. Please free up space.'));
+      } else {
+        reject(error);
+      }
+    };
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+export function openJournalDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('entries')) {
+        const entries = db.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('created_at', 'created_at');
+        entries.createIndex('tags', 'tags', { multiEntry: true });
+        entries.createIndex('owner_created_at', ['owner', 'created_at']);
+      }
+      const entries = request.transaction!.objectStore('entries');
+      if (entries.indexNames.contains('source')) {
+        entries.deleteIndex('source'); // Not ordered by date, so pages could not be read from it
+      }
+      if (!entries.indexNames.contains('owner_source_created_at')) {
+        entries.createIndex('owner_source_created_at', ['owner', 'source', 'created_at']);
+      }
+      if (!db.objectStoreNames.contains('revisions')) {
+        const revisions = db.createObjectStore('revisions', { keyPath: 'id' });
+        revisions.createIndex('entry_id', 'entry_id');
+      }
+      if (!db.objectStoreNames.contains('tombstones')) {
+        const tombstones = db.createObjectStore('tombstones', { keyPath: 'id' });
+        tombstones.createIndex('owner', 'owner');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notifyStorageChanged(): void {
+  // Dispatch custom event for same-tab listeners (Settings metrics refresh)
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('heijo:storage-changed'));
+  }
+}
+
+export class IndexedDBStorage implements LocalBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly supabaseClient: SupabaseClient | null = supabase,
+    private readonly isSupabaseConfiguredFn: () => boolean = isSupabaseConfigured
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window && !!window.indexedDB;
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openJournalDatabase().catch(error => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private getCurrentUserId(): Promise<string | undefined> {
+    return resolveCurrentUserId(this.supabaseClient, this.isSupabaseConfiguredFn);
+  }
+
+  private async getOwnedEntries(owner: string): Promise<JournalEntry[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('entries', 'readonly').objectStore('entries').index('owner_created_at');
+    const records = await requestToPromise(index.getAll(ownerRange(owner)) as IDBRequest<OwnedRecord[]>);
+    return records.reverse().map(stripOwner);
+  }
+
+  /**
+   * Entries written before signing in belong to the first account that signs in
+   * on this device (same rule as the legacy localStorage key migration)
+   */
+  private async adoptGuestEntries(userId: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction('entries', 'readwrite');
+    const store = transaction.objectStore('entries');
+    const guestEntries = await requestToPromise(
+      store.index('owner_created_at').getAll(ownerRange(GUEST_OWNER)) as IDBRequest<OwnedRecord[]>
+    );
+    guestEntries.forEach(entry => store.put({ ...entry, user_id: userId, owner: userId }));
+    await transactionDone(transaction);
+    if (guestEntries.length > 0) {
+      notifyStorageChanged();
+    }
+  }
+
+  private async getOwnedTombstones(owner: string): Promise<JournalEntry[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('tombstones', 'readonly').objectStore('tombstones').index('owner');
+    const records = await requestToPromise(index.getAll(owner) as IDBRequest<OwnedRecord[]>);
+    return records.map(record => normalizeTombstone(stripOwner(record)));
+  }
+
+  // Live or trashed entry of the current account
+  private async getOwnedEntry(id: string): Promise<JournalEntry | null> {
+    const userId = await this.getCurrentUserId();
+    const db = await this.getDatabase();
+    const record = await requestToPromise(
+      db.transaction('entries', 'readonly').objectStore('entries').get(id) as IDBRequest<OwnedRecord | undefined>
+    );
+    if (!record || record.owner !== ownerOf(userId)) return null;
+    return stripOwner(record);
+  }
+
+  async saveEntry(entry: Omit<JournalEntry, 'id' | 'sync_status' | 'last_synced'> & { id?: string; sync_status?: JournalEntry['sync_status']; last_synced?: string }): Promise<JournalEntry> {
+    // Trace persistence (dev-only)
+    traceLog('[PERSIST TRACE]', {
+      source: entry.source,
+      contentLength: entry.content.length,
+      created_at: entry.created_at
+    });
+
+    const currentUserId = await this.getCurrentUserId();
+    const userId = currentUserId || (entry.user_id && entry.user_id !== 'anonymous' ? entry.user_id : undefined);
+    rememberLastUserId(userId);
+    if (userId) {
+      await this.adoptGuestEntries(userId);
+    }
+
+    const db = await this.getDatabase();
+    const transaction = db.transaction('entries', 'readwrite');
+    const store = transaction.objectStore('entries');
+    const existing = entry.id
+      ? await requestToPromise(store.get(entry.id) as IDBRequest<OwnedRecord | undefined>)
+      : undefined;
+
+    const saved: JournalEntry = existing
+      ? {
+          ...stripOwner(existing),
+          ...entry,
+          id: existing.id,
+          user_id: userId || entry.user_id,
+          sync_status: entry.sync_status || existing.sync_status,
+          last_synced: entry.last_synced || existing.last_synced
+        }
+      : {
+          ...entry,
+          version: entry.version || incrementVector({}),
+          id: entry.id || crypto.randomUUID(),
+          user_id: userId || entry.user_id,
+          sync_status: entry.sync_status || 'local_only',
+          last_synced: entry.last_synced || undefined
+        };
+
+    store.put({ ...saved, owner: ownerOf(userId) });
+    await transactionDone(transaction);
+    notifyStorageChanged();
+    return saved;
+  }
+
+  async getEntries(): Promise<JournalEntry[]> {
+    const userId = await this.getCurrentUserId();
+    if (userId) {
+      await this.adoptGuestEntries(userId);
+    }
+    return (await this.getOwnedEntries(ownerOf(userId))).filter(entry => !isTrashed(entry));
+  }
+
+  /**
+   * Tag queries read only the entries with the rarest of the tags (from the
+   * 'tags' index); the rest walk the [owner, created_at] index, or
+   * [owner, source, created_at] for one source, newest first from the cursor
+   */
+  async queryEntries(query: EntryQuery): Promise<EntryPage> {
+    const userId = await this.getCurrentUserId();
+    if (userId) {
+      await this.adoptGuestEntries(userId);
+    }
+    const owner = ownerOf(userId);
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    const rows = query.tags && query.tags.length > 0
+      ? await this.queryByTag(owner, query.tags, query, limit, cursor)
+      : await this.walkNewestFirst(owner, query, limit, cursor);
+    return toPage(rows, limit);
+  }
+
+  private async queryByTag(owner: string, tags: string[], query: EntryQuery, limit: number, cursor: EntryCursor | null): Promise<JournalEntry[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('entries', 'readonly').objectStore('entries').index('tags');
+    const counts = await Promise.all(tags.map(tag => requestToPromise(index.count(tag))));
+    const rarest = tags[counts.indexOf(Math.min(...counts))];
+
+    const records = await requestToPromise(index.getAll(rarest) as IDBRequest<OwnedRecord[]>);
+    return records
+      .filter(record => record.owner === owner)
+      .map(stripOwner)
+      .filter(entry => !isTrashed(entry) && (!cursor || isAfterCursor(entry, cursor)) && matchesEntryQuery(entry, query))
+      .sort(compareNewestFirst)
+      .slice(0, limit + 1);
+  }
+
+  /**
+   * Stops as soon as one row past the page has been found
+   */
+  private async walkNewestFirst(owner: string, query: EntryQuery, limit: number, cursor: EntryCursor | null): Promise<JournalEntry[]> {
+    const prefix: string[] = query.source ? [owner, query.source] : [owner];
+    const lower = prefix.concat(query.from ?? '');
+    const range = cursor
+      ? IDBKeyRange.bound(lower, prefix.concat(cursor.created_at))
+      : query.to
+        ? IDBKeyRange.bound(lower, prefix.concat(query.to), false, true)
+        : IDBKeyRange.bound(lower, prefix.concat('\uffff'));
+
+    const db = await this.getDatabase();
+    const index = db.transaction('entries', 'readonly').objectStore('entries')
+      .index(query.source ? 'owner_source_created_at' : 'owner_created_at');
+    const rows: JournalEntry[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const position = request.result;
+        if (!position) {
+          resolve();
+          return;
+        }
+        const entry = stripOwner(position.value as OwnedRecord);
+        if (!isTrashed(entry) && (!cursor || isAfterCursor(entry, cursor)) && matchesEntryQuery(entry, query)) {
+          rows.push(entry);
+        }
+        if (rows.length > limit) {
+          resolve();
+          return;
+        }
+        position.continue();
+      };
+    });
+
+    // Walking 'prev' visits equal timestamps by descending id, matching compareNewestFirst
+    return rows;
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | null> {
+    const entry = await this.getOwnedEntry(id);
+    return entry && !isTrashed(entry) ? entry : null;
+  }
+
+  async updateEntry(
+    id: string,
+    changes: LocalEntryUpdate,
+    options: { recordRevision?: boolean } = {}
+  ): Promise<JournalEntry> {
+    const { recordRevision = true } = options;
+    const current = await this.getEntry(id);
+    if (!current) {
+      throw new Error('Entry not found');
+    }
+
+    const contentChanged = changes.content !== undefined && changes.content !== current.content;
+    const tagsChanged = changes.tags !== undefined && JSON.stringify(changes.tags) !== JSON.stringify(current.tags);
+    const sealedChanged = changes.sealed !== undefined && (changes.sealed?.data ?? null) !== (current.sealed?.data ?? null);
+    const isEdit = contentChanged || tagsChanged || sealedChanged;
+
+    const updatedEntry: JournalEntry = {
+      ...current,
+      content: changes.content ?? current.content,
+      tags: changes.tags ?? current.tags,
+      sealed: changes.sealed === undefined ? current.sealed : changes.sealed ?? undefined,
+      // Local edits are unsynced until the sync engine pushes them
+      sync_status: changes.sync_status ?? (isEdit && current.sync_status === 'synced' ? 'local_only' : current.sync_status),
+      last_synced: changes.last_synced ?? current.last_synced,
+      updated_at: isEdit ? new Date().toISOString() : current.updated_at,
+      version: isEdit ? incrementVector(current.version) : current.version
+    };
+
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['entries', 'revisions'], 'readwrite');
+    transaction.objectStore('entries').put({ ...updatedEntry, owner: ownerOf(current.user_id) });
+    // Only real edits produce history; status-only updates (sync bookkeeping) do not
+    if (recordRevision && isEdit) {
+      transaction.objectStore('revisions').put(createRevision(current));
+    }
+    await transactionDone(transaction);
+    notifyStorageChanged();
+    return updatedEntry;
+  }
+
+  async getRevisions(entryId: string): Promise<EntryRevision[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('revisions', 'readonly').objectStore('revisions').index('entry_id');
+    return sortRevisions(await requestToPromise(index.getAll(entryId) as IDBRequest<EntryRevision[]>));
+  }
+
+  async sealEntry(id: string, sealed: SealedEntryData): Promise<JournalEntry> {
+    const entry = await this.updateEntry(id, { content: '', tags: [], sealed }, { recordRevision: false });
+    await this.deleteRevisions(id);
+    return entry;
+  }
+
+  async unsealEntry(id: string, payload: Required<EntryUpdate>): Promise<JournalEntry> {
+    return this.updateEntry(id, { ...payload, sealed: null }, { recordRevision: false });
+  }
+
+  private async deleteRevisions(entryId: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction('revisions', 'readwrite');
+    const revisions = transaction.objectStore('revisions');
+    const revisionKeys = await requestToPromise(revisions.index('entry_id').getAllKeys(entryId));
+    revisionKeys.forEach(key => revisions.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async restoreRevision(entryId: string, revisionId: string): Promise<JournalEntry> {
+    const revisions = await this.getRevisions(entryId);
+    const revision = revisions.find(r => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    return this.updateEntry(entryId, { content: revision.content, tags: revision.tags });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const current = await this.getEntry(id);
+    if (!current) return;
+
+    // Content and history stay until the entry is purged
+    await this.putEntry({
+      ...current,
+      deleted_at: new Date().toISOString(),
+      version: incrementVector(current.version),
+      sync_status: 'local_only'
+    });
+  }
+
+  async getTrash(): Promise<JournalEntry[]> {
+    const owner = ownerOf(await this.getCurrentUserId());
+    return sortTrash((await this.getOwnedEntries(owner)).filter(isTrashed));
+  }
+
+  async restoreEntry(id: string): Promise<JournalEntry> {
+    const trashed = await this.getOwnedEntry(id);
+    if (!trashed || !isTrashed(trashed)) {
+      throw new Error('Entry not found in trash');
+    }
+
+    const restored: JournalEntry = {
+      ...trashed,
+      deleted_at: undefined,
+      version: incrementVector(trashed.version),
+      sync_status: 'local_only'
+    };
+    await this.putEntry(restored);
+    return restored;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    const trashed = await this.getOwnedEntry(id);
+    if (!trashed || !isTrashed(trashed)) {
+      throw new Error('Entry not found in trash');
+    }
+    await this.purge([trashed]);
+  }
+
+  async emptyTrash(options: { olderThan?: string } = {}): Promise<string[]> {
+    const expired = (await this.getTrash()).filter(entry =>
+      !options.olderThan || entry.deleted_at! < options.olderThan
+    );
+    if (expired.length > 0) {
+      await this.purge(expired);
+    }
+    return expired.map(entry => entry.id);
+  }
+
+  private async putEntry(entry: JournalEntry): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction('entries', 'readwrite');
+    transaction.objectStore('entries').put({ ...entry, owner: ownerOf(entry.user_id) });
+    await transactionDone(transaction);
+    notifyStorageChanged();
+  }
+
+  /**
+   * Drop entries and their history, keeping only content-free tombstones so
+   * the purge reaches other devices
+   */
+  private async purge(purged: JournalEntry[]): Promise<void> {
+    const now = new Date().toISOString();
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['entries', 'revisions', 'tombstones'], 'readwrite');
+    const revisions = transaction.objectStore('revisions');
+
+    for (const entry of purged) {
+      transaction.objectStore('entries').delete(entry.id);
+      const revisionKeys = await requestToPromise(revisions.index('entry_id').getAllKeys(entry.id));
+      revisionKeys.forEach(key => revisions.delete(key));
+      transaction.objectStore('tombstones').put({
+        ...toTombstone(entry, {
+          purged_at: now,
+          version: incrementVector(entry.version),
+          sync_status: 'local_only'
+        }),
+        owner: ownerOf(entry.user_id)
+      });
+    }
+
+    await transactionDone(transaction);
+    notifyStorageChanged();
+  }
+
+  /**
+   * Delete every entry, revision and tombstone on this device, for every
+   * account, and any journal still left in localStorage. Returns the ids of
+   * the entries that were deleted.
+   */
+  async deleteAllEntries(): Promise<string[]> {
+    const db = await this.getDatabase();
+    const entryIds = await requestToPromise(db.transaction('entries', 'readonly').objectStore('entries').getAllKeys());
+    const transaction = db.transaction(['entries', 'revisions', 'tombstones'], 'readwrite');
+    transaction.objectStore('entries').clear();
+    transaction.objectStore('revisions').clear();
+    transaction.objectStore('tombstones').clear();
+    await transactionDone(transaction);
+
+    const ids = entryIds.map(String);
+    removeLocalStorageJournal().forEach(id => {
+      if (ids.indexOf(id) === -1) ids.push(id);
+    });
+    notifyStorageChanged();
+    return ids;
+  }
+
+  async exportEntries(): Promise<JournalEntry[]> {
+    return this.getEntries();
+  }
+
+  /**
+   * Entries from a backup belong to whoever restores it
+   */
+  async importEntries(entries: JournalEntry[]): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    await this.applySyncedRecords(entries.map(entry => ({ ...entry, user_id: userId })));
+  }
+
+  async syncLocalEntries(): Promise<void> {
+    // No-op for local-only storage
+  }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    return [];
+  }
+
+  async resolveSyncConflict(): Promise<void> {
+    // No-op for local-only storage
+  }
+
+  async getPendingOperations(): Promise<OutboxOperation[]> {
+    return [];
+  }
+
+  /**
+   * Live and trashed entries plus tombstones, as seen by the sync engine
+   */
+  async getSyncRecords(ids?: string[]): Promise<SyncRecord[]> {
+    const owner = ownerOf(await this.getCurrentUserId());
+    const records = [...await this.getOwnedEntries(owner), ...await this.getOwnedTombstones(owner)];
+    return ids ? records.filter(record => ids.includes(record.id)) : records;
+  }
+
+  /**
+   * Write records that came out of a sync round without touching their
+   * version or revision history. Tombstones remove the entry and its history.
+   */
+  /**
+   * Notifies listeners only when a record actually changed, so repeating a
+   * sync (or marking the same records as failed again) is silent
+   */
+  async applySyncedRecords(records: SyncRecord[]): Promise<void> {
+    const owner = ownerOf(await this.getCurrentUserId());
+    const db = await this.getDatabase();
+    const transaction = db.transaction(['entries', 'revisions', 'tombstones'], 'readwrite');
+    const entries = transaction.objectStore('entries');
+    const revisions = transaction.objectStore('revisions');
+    const tombstones = transaction.objectStore('tombstones');
+    let changed = false;
+
+    const deleteRevisions = async (entryId: string) => {
+      const revisionKeys = await requestToPromise(revisions.index('entry_id').getAllKeys(entryId));
+      revisionKeys.forEach(key => revisions.delete(key));
+      if (revisionKeys.length > 0) changed = true;
+    };
+
+    for (const record of records) {
+      const existing = await requestToPromise(entries.get(record.id) as IDBRequest<OwnedRecord | undefined>);
+      const tombstone = await requestToPromise(tombstones.get(record.id) as IDBRequest<OwnedRecord | undefined>);
+
+      if (record.purged_at) {
+        if (existing) {
+          entries.delete(record.id);
+          changed = true;
+        }
+        await deleteRevisions(record.id);
+        const next = { ...toTombstone(record, {}), owner };
+        if (!tombstone || !sameRecord(tombstone, next)) {
+          tombstones.put(next);
+          changed = true;
+        }
+        continue;
+      }
+
+      if (tombstone) {
+        tombstones.delete(record.id);
+        changed = true;
+      }
+      if (record.sealed) {
+        // Sealed on another device: local history would still hold the plaintext
+        await deleteRevisions(record.id);
+      }
+      // Trashed entries keep their deleted_at; restored ones clear it
+      const next = { ...(existing ? stripOwner(existing) : {}), ...record, deleted_at: record.deleted_at, purged_at: undefined, owner };
+      if (!existing || !sameRecord(existing, next)) {
+        entries.put(next);
+        changed = true;
+      }
+    }
+
+    await transactionDone(transaction);
+    if (changed) notifyStorageChanged();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// One-time migration from the localStorage blobs
+// ---------------------------------------------------------------------------
+
+export interface StorageMigrationState {
+  status: 'migrated' | 'rolled_back';
+  migrated_at: string;
+  rolled_back_at?: string;
+  entry_count: number;
+}
+
+const MIGRATION_STATE_KEY = 'heijo-storage-migration';
+const ENTRIES_KEY_PATTERN = /^heijo-journal-entries(?::(.+))?$/;
+const REVISIONS_KEY_PATTERN = /^heijo-entry-revisions(?::(.+))?$/;
+const TOMBSTONES_KEY_PATTERN = /^heijo-sync-tombstones(?::(.+))?$/;
+
+export function getMigrationState(): StorageMigrationState | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(MIGRATION_STATE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setMigrationState(state: StorageMigrationState): void {
+  localStorage.setItem(MIGRATION_STATE_KEY, JSON.stringify(state));
+}
+
+function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.warn(`Failed to parse ${key} during migration:`, error);
+    return fallback;
+  }
+}
+
+function getLocalStorageJournalKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && (ENTRIES_KEY_PATTERN.test(key) || REVISIONS_KEY_PATTERN.test(key) || TOMBSTONES_KEY_PATTERN.test(key))) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Remove the journal blobs kept in localStorage (before the migration, or
+ * instead of IndexedDB) for every account. Returns the ids of the entries
+ * they held.
+ */
+export function removeLocalStorageJournal(): string[] {
+  if (typeof window === 'undefined') return [];
+  const ids: string[] = [];
+  getLocalStorageJournalKeys().forEach(key => {
+    if (ENTRIES_KEY_PATTERN.test(key)) {
+      readJSON<JournalEntry[]>(key, []).forEach(entry => {
+        if (ids.indexOf(entry.id) === -1) ids.push(entry.id);
+      });
+    }
+    localStorage.removeItem(key);
+  });
+  return ids;
+}
+
+/**
+ * Copy every localStorage journal blob into IndexedDB, verify the copy and
+ * only then remove the blobs. On any failure localStorage is left untouched.
+ */
+export async function migrateFromLocalStorage(): Promise<StorageMigrationState> {
+  const existingState = getMigrationState();
+  if (existingState) return existingState;
+
+  const keys = getLocalStorageJournalKeys();
+
+  const entryIds = new Set<string>();
+  const db = await openJournalDatabase();
+  const transaction = db.transaction(['entries', 'revisions', 'tombstones'], 'readwrite');
+
+  keys.forEach(key => {
+    const entriesMatch = key.match(ENTRIES_KEY_PATTERN);
+    if (entriesMatch) {
+      const keyUserId = entriesMatch[1];
+      readJSON<JournalEntry[]>(key, []).forEach(entry => {
+        const userId = keyUserId || (entry.user_id !== 'anonymous' ? entry.user_id : undefined);
+        transaction.objectStore('entries').put({
+          ...entry,
+          user_id: userId,
+          sync_status: entry.sync_status || 'local_only',
+          owner: ownerOf(userId)
+        });
+        entryIds.add(entry.id);
+      });
+      return;
+    }
+
+    if (REVISIONS_KEY_PATTERN.test(key)) {
+      const revisionsByEntry = readJSON<Record<string, EntryRevision[]>>(key, {});
+      Object.values(revisionsByEntry).flat().forEach(revision => {
+        transaction.objectStore('revisions').put(revision);
+      });
+      return;
+    }
+
+    const tombstonesMatch = key.match(TOMBSTONES_KEY_PATTERN);
+    readJSON<JournalEntry[]>(key, []).forEach(tombstone => {
+      transaction.objectStore('tombstones').put({
+        ...tombstone,
+        owner: ownerOf(tombstonesMatch?.[1] || tombstone.user_id)
+      });
+    });
+  });
+
+  await transactionDone(transaction);
+
+  // Verify before deleting anything
+  const migratedCount = await requestToPromise(
+    db.transaction('entries', 'readonly').objectStore('entries').count()
+  );
+  if (migratedCount < entryIds.size) {
+    throw new Error(`Migration verification failed: expected ${entryIds.size} entries, found ${migratedCount}`);
+  }
+
+  const state: StorageMigrationState = {
+    status: 'migrated',
+    migrated_at: new Date().toISOString(),
+    entry_count: entryIds.size
+  };
+  setMigrationState(state);
+  keys.forEach(key => localStorage.removeItem(key));
+  notifyStorageChanged();
+  return state;
+}
+
+/**
+ * Move everything (including entries written since the migration) back into
+ * the localStorage blobs and stop using IndexedDB. IndexedDB is only cleared
+ * once every blob has been written.
+ */
+export async function rollbackMigration(): Promise<void> {
+  const state = getMigrationState();
+  if (!state || state.status !== 'migrated') return;
+
+  const db = await openJournalDatabase();
+  const transaction = db.transaction(['entries', 'revisions', 'tombstones'], 'readonly');
+  const [entries, revisions, tombstones] = await Promise.all([
+    requestToPromise(transaction.objectStore('entries').getAll() as IDBRequest<OwnedRecord[]>),
+    requestToPromise(transaction.objectStore('revisions').getAll() as IDBRequest<EntryRevision[]>),
+    requestToPromise(transaction.objectStore('tombstones').getAll() as IDBRequest<OwnedRecord[]>)
+  ]);
+
+  const suffix = (owner: string) => (owner === GUEST_OWNER ? '' : `:${owner}`);
+  const blobs = new Map<string, unknown>();
+
+  const entriesByOwner = new Map<string, JournalEntry[]>();
+  const ownerByEntryId = new Map<string, string>();
+  entries.forEach(record => {
+    entriesByOwner.set(record.owner, [...(entriesByOwner.get(record.owner) || []), stripOwner(record)]);
+    ownerByEntryId.set(record.id, record.owner);
+  });
+  entriesByOwner.forEach((ownedEntries, owner) => {
+    blobs.set(`heijo-journal-entries${suffix(owner)}`, sortNewestFirst(ownedEntries));
+  });
+
+  const revisionsByOwner = new Map<string, Record<string, EntryRevision[]>>();
+  revisions.forEach(revision => {
+    const owner = ownerByEntryId.get(revision.entry_id) || ownerOf(revision.user_id);
+    const byEntry = revisionsByOwner.get(owner) || {};
+    byEntry[revision.entry_id] = [...(byEntry[revision.entry_id] || []), revision];
+    revisionsByOwner.set(owner, byEntry);
+  });
+  revisionsByOwner.forEach((byEntry, owner) => {
+    blobs.set(`heijo-entry-revisions${suffix(owner)}`, byEntry);
+  });
+
+  const tombstonesByOwner = new Map<string, JournalEntry[]>();
+  tombstones.forEach(record => {
+    tombstonesByOwner.set(record.owner, [...(tombstonesByOwner.get(record.owner) || []), stripOwner(record)]);
+  });
+  tombstonesByOwner.forEach((ownedTombstones, owner) => {
+    blobs.set(`heijo-sync-tombstones${suffix(owner)}`, ownedTombstones);
+  });
+
+  const written: string[] = [];
+  try {
+    blobs.forEach((value, key) => {
+      localStorage.setItem(key, JSON.stringify(value));
+      written.push(key);
+    });
+  } catch (error) {
+    written.forEach(key => localStorage.removeItem(key));
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error('Not enough localStorage space to roll back. Export your entries first.');
+    }
+    throw error;
+  }
+
+  const clear = db.transaction(['entries', 'revisions', 'tombstones'], 'readwrite');
+  clear.objectStore('entries').clear();
+  clear.objectStore('revisions').clear();
+  clear.objectStore('tombstones').clear();
+  await transactionDone(clear);
+
+  setMigrationState({ ...state, status: 'rolled_back', rolled_back_at: new Date().toISOString() });
+  notifyStorageChanged();
+}
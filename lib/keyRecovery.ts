@@ -0,0 +1,281 @@
+/**
+ * Recovery key and device-to-device key transfer
+ * Both move the keyring without a server: the recovery kit is the keyring
+ * encrypted with a key derived from 18 printable words, and a device transfer
+ * is the keyring encrypted with a short one-time code, shown as a QR code or
+ * text on the old device and opened on the new one.
+ */
+
+import { encryptionManager, ExportedKey, PBKDF2_ITERATIONS, derivePassphraseKey, bytesToBase64, base64ToBytes } from './encryption';
+import { RECOVERY_WORDS } from './recoveryWords';
+
+export interface DeviceTransfer {
+  code: string; // XXXXX-XXXXX, typed on the receiving device
+  payload: string; // Shown as QR code or copied as text
+  checksum: string; // Compared on both screens before importing
+  expiresAt: number;
+}
+
+export interface OpenedTransfer {
+  keys: ExportedKey[];
+  checksum: string;
+  expiresAt: number;
+}
+
+const RECOVERY_ENTROPY_BYTES = 16;
+const RECOVERY_CHECKSUM_BYTES = 2;
+export const RECOVERY_WORD_COUNT = RECOVERY_ENTROPY_BYTES + RECOVERY_CHECKSUM_BYTES;
+const RECOVERY_KIT_PREFIX = 'heijo-recovery:1:';
+const RECOVERY_KIT_STORAGE_KEY = 'heijo-recovery-kit-keys';
+
+const TRANSFER_PREFIX = 'heijo-transfer:1:';
+const TRANSFER_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford base32
+const TRANSFER_CODE_LENGTH = 10;
+const TRANSFER_TTL_MS = 10 * 60 * 1000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Create a new recovery key. The words are only returned here: the device
+ * keeps the derived key so the kit can be reprinted after key rotation.
+ */
+export async function createRecoveryKey(): Promise<string[]> {
+  const entropy = crypto.getRandomValues(new Uint8Array(RECOVERY_ENTROPY_BYTES));
+  await encryptionManager.setRecoveryKey(await deriveRecoveryKey(entropy));
+  localStorage.removeItem(RECOVERY_KIT_STORAGE_KEY);
+
+  const checksum = await recoveryChecksum(entropy);
+  return Array.from(entropy).concat(checksum).map(byte => RECOVERY_WORDS[byte]);
+}
+
+/**
+ * Parse recovery words (full words or their first four letters). Throws on
+ * unknown words, a wrong count, or a checksum mismatch (likely a typo).
+ */
+export async function parseRecoveryWords(input: string): Promise<Uint8Array<ArrayBuffer>> {
+  const words = input.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  if (words.length !== RECOVERY_WORD_COUNT) {
+    throw new Error(`A recovery key has ${RECOVERY_WORD_COUNT} words, got ${words.length}`);
+  }
+
+  const bytes = words.map(word => {
+    const index = RECOVERY_WORDS.findIndex(candidate => candidate.slice(0, 4) === word.slice(0, 4));
+    if (index === -1) {
+      throw new Error(`"${word}" is not a recovery word`);
+    }
+    return index;
+  });
+
+  const entropy = new Uint8Array(bytes.slice(0, RECOVERY_ENTROPY_BYTES));
+  const expected = await recoveryChecksum(entropy);
+  if (expected.some((byte, i) => byte !== bytes[RECOVERY_ENTROPY_BYTES + i])) {
+    throw new Error('These words are not a valid recovery key. Check them for typos.');
+  }
+  return entropy;
+}
+
+/**
+ * Current keyring encrypted with the recovery key, to print or save next to
+ * the words. Requires createRecoveryKey() first and an unlocked journal.
+ */
+export async function getRecoveryKit(): Promise<string> {
+  const recoveryKey = await encryptionManager.getRecoveryKey();
+  if (!recoveryKey) {
+    throw new Error('Create a recovery key first');
+  }
+
+  const keys = await encryptionManager.exportKeys();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    recoveryKey,
+    new TextEncoder().encode(JSON.stringify({ keys }))
+  );
+  return RECOVERY_KIT_PREFIX + bytesToBase64Url(concatBytes(iv, new Uint8Array(sealed)));
+}
+
+/**
+ * Remember which keys the saved kit covers, so a rotation can prompt a reprint
+ */
+export async function markRecoveryKitSaved(): Promise<void> {
+  localStorage.setItem(RECOVERY_KIT_STORAGE_KEY, JSON.stringify(await encryptionManager.getKeyIds()));
+}
+
+/**
+ * False once keys were added or retired since the kit was last saved
+ */
+export async function isRecoveryKitCurrent(): Promise<boolean> {
+  const saved = localStorage.getItem(RECOVERY_KIT_STORAGE_KEY);
+  if (!saved) return false;
+  return saved === JSON.stringify(await encryptionManager.getKeyIds());
+}
+
+/**
+ * Restore the keyring from the recovery words and kit. Replaces this
+ * device's keys (and a forgotten passphrase); returns the restored key ids.
+ */
+export async function restoreFromRecoveryKey(words: string, kit: string): Promise<string[]> {
+  const recoveryKey = await deriveRecoveryKey(await parseRecoveryWords(words));
+  const sealed = parseEnvelope(kit, RECOVERY_KIT_PREFIX, 'recovery kit');
+
+  let keys: ExportedKey[];
+  try {
+    const opened = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(0, IV_BYTES) },
+      recoveryKey,
+      sealed.slice(IV_BYTES)
+    );
+    keys = JSON.parse(new TextDecoder().decode(opened)).keys;
+  } catch {
+    throw new Error('These recovery words do not belong to this recovery kit');
+  }
+
+  const restored = await encryptionManager.importKeys(keys, { replace: true });
+  await encryptionManager.setRecoveryKey(recoveryKey);
+  await markRecoveryKitSaved();
+  return restored;
+}
+
+/**
+ * Package this device's keys for another device. The payload is useless
+ * without the code, so the two can travel separately.
+ */
+export async function createDeviceTransfer(): Promise<DeviceTransfer> {
+  const keys = await encryptionManager.exportKeys();
+  const expiresAt = Date.now() + TRANSFER_TTL_MS;
+
+  const codeBytes = crypto.getRandomValues(new Uint8Array(TRANSFER_CODE_LENGTH));
+  // 256 is a multiple of 32, so masking keeps every character equally likely
+  const rawCode = Array.from(codeBytes).map(byte => TRANSFER_CODE_ALPHABET[byte & 31]).join('');
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await deriveTransferKey(rawCode, salt),
+    new TextEncoder().encode(JSON.stringify({ keys, expiresAt }))
+  );
+
+  return {
+    code: `${rawCode.slice(0, 5)}-${rawCode.slice(5)}`,
+    payload: TRANSFER_PREFIX + bytesToBase64Url(concatBytes(salt, iv, new Uint8Array(sealed))),
+    checksum: await keyChecksum(keys),
+    expiresAt
+  };
+}
+
+/**
+ * Decrypt a transfer on the receiving device. Nothing is imported yet: show
+ * the checksum, and pass the keys to encryptionManager.importKeys() once the
+ * user confirms it matches the other screen.
+ */
+export async function openDeviceTransfer(payload: string, code: string): Promise<OpenedTransfer> {
+  const sealed = parseEnvelope(payload, TRANSFER_PREFIX, 'transfer');
+  const rawCode = normalizeTransferCode(code);
+  if (rawCode.length !== TRANSFER_CODE_LENGTH) {
+    throw new Error(`The transfer code has ${TRANSFER_CODE_LENGTH} characters`);
+  }
+
+  let contents: { keys: ExportedKey[]; expiresAt: number };
+  try {
+    const opened = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(SALT_BYTES, SALT_BYTES + IV_BYTES) },
+      await deriveTransferKey(rawCode, sealed.slice(0, SALT_BYTES)),
+      sealed.slice(SALT_BYTES + IV_BYTES)
+    );
+    contents = JSON.parse(new TextDecoder().decode(opened));
+  } catch {
+    throw new Error('Wrong transfer code');
+  }
+
+  if (contents.expiresAt < Date.now()) {
+    throw new Error('This transfer has expired. Start a new one on the other device.');
+  }
+
+  return { keys: contents.keys, checksum: await keyChecksum(contents.keys), expiresAt: contents.expiresAt };
+}
+
+/**
+ * Six digits derived from the key material; equal on both devices only if
+ * the keys arrived intact
+ */
+export async function keyChecksum(keys: ExportedKey[]): Promise<string> {
+  const canonical = keys
+    .map(key => `${key.id}:${key.keyMaterial}`)
+    .sort()
+    .join('\n');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)));
+  const value = ((digest[0] << 24) >>> 0) + (digest[1] << 16) + (digest[2] << 8) + digest[3];
+  const digits = String(value % 1000000);
+  const padded = '000000'.slice(digits.length) + digits;
+  return `${padded.slice(0, 3)} ${padded.slice(3)}`;
+}
+
+async function recoveryChecksum(entropy: Uint8Array<ArrayBuffer>): Promise<number[]> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', entropy));
+  return Array.from(digest.slice(0, RECOVERY_CHECKSUM_BYTES));
+}
+
+/**
+ * The words carry 128 random bits, so a fast KDF is enough (no PBKDF2)
+ */
+async function deriveRecoveryKey(entropy: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', entropy, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode('heijo-recovery-v1'),
+      info: new TextEncoder().encode('recovery kit')
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    true, // extractable so it can be stored like the device keys
+    ['encrypt', 'decrypt']
+  );
+}
+
+function deriveTransferKey(rawCode: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return derivePassphraseKey(rawCode, salt, PBKDF2_ITERATIONS, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Uppercase, drop separators, and read the look-alikes Crockford base32 allows
+ */
+function normalizeTransferCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+function parseEnvelope(text: string, prefix: string, label: string): Uint8Array<ArrayBuffer> {
+  const trimmed = text.replace(/\s/g, '');
+  if (trimmed.indexOf(prefix) !== 0) {
+    throw new Error(`This is not a Heijo ${label}`);
+  }
+  try {
+    return base64UrlToBytes(trimmed.slice(prefix.length));
+  } catch {
+    throw new Error(`This ${label} is damaged or incomplete`);
+  }
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(text: string): Uint8Array<ArrayBuffer> {
+  return base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+}
@@ -0,0 +1,140 @@
+import { JournalEntry } from './store';
+import { sealedEntries, isLockedSealedEntry } from './sealedEntries';
+import { formatEntryDay, formatEntryTime } from './dateFormat';
+import { createZip, ZipFile } from './zipArchive';
+
+export interface MarkdownExportOptions {
+  dailyNotes?: boolean; // Also write one note per day linking to that day's entries
+  locale?: string; // For headings; the user's locale by default
+}
+
+const VAULT_FOLDER = 'Heijo';
+const DAILY_NOTES_FOLDER = 'Daily';
+const TITLE_WORDS = 6;
+
+/**
+ * Obsidian-ready Markdown files, one per entry, in year/month folders:
+ * Heijo/2026/01/2026-01-05 0930 First words.md
+ * Each note starts with YAML front matter (id, date, tags, source).
+ * Sealed entries are only included if they were unlocked this session.
+ */
+export function buildMarkdownVault(entries: JournalEntry[], options: MarkdownExportOptions = {}): ZipFile[] {
+  const exported = entries
+    .map(entry => sealedEntries.reveal(entry))
+    .filter(entry => !isLockedSealedEntry(entry))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const usedPaths = new Set<string>();
+  const notes = exported.map(entry => {
+    const parts = localDateParts(entry.created_at);
+    const title = noteTitle(entry.content);
+    const base = `${VAULT_FOLDER}/${parts.year}/${parts.month}/${parts.day} ${parts.hours}${parts.minutes}${title ? ` ${title}` : ''}`;
+    // Two entries in the same minute with the same opening words
+    const notePath = usedPaths.has(base) ? `${base} (${entry.id.slice(0, 8)})` : base;
+    usedPaths.add(notePath);
+    return { entry, notePath, title, day: parts.day };
+  });
+
+  const files: ZipFile[] = notes.map(({ entry, notePath }) => ({
+    path: `${notePath}.md`,
+    content: entryNote(entry, options.locale),
+    modified: new Date(entry.updated_at ?? entry.created_at)
+  }));
+
+  if (options.dailyNotes) {
+    const days = new Map<string, typeof notes>();
+    notes.forEach(note => days.set(note.day, [...(days.get(note.day) ?? []), note]));
+    days.forEach((dayNotes, day) => {
+      const links = dayNotes.map(({ entry, notePath, title }) =>
+        `- ${formatEntryTime(entry.created_at, options.locale)} [[${notePath.slice(VAULT_FOLDER.length + 1)}|${title || 'Entry'}]]`
+      );
+      files.push({
+        path: `${VAULT_FOLDER}/${DAILY_NOTES_FOLDER}/${day}.md`,
+        content: [
+          '---',
+          `date: ${day}`,
+          '---',
+          '',
+          `# ${formatEntryDay(dayNotes[0].entry.created_at, options.locale)}`,
+          '',
+          ...links,
+          ''
+        ].join('\n')
+      });
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Export journal entries as a zipped Markdown vault
+ * Filename: heijo-vault-YYYY-MM-DD.zip
+ */
+export function exportEntriesAsMarkdown(entries: JournalEntry[], options: MarkdownExportOptions = {}): void {
+  const zip = createZip(buildMarkdownVault(entries, options));
+  const blob = new Blob([zip], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `heijo-vault-${new Date().toISOString().split('T')[0]}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function entryNote(entry: JournalEntry, locale?: string): string {
+  const tags = entry.tags.map(toObsidianTag).filter(Boolean);
+  return [
+    '---',
+    `id: ${yamlString(entry.id)}`,
+    `date: ${entry.created_at}`,
+    tags.length > 0 ? ['tags:', ...tags.map(tag => `  - ${yamlString(tag)}`)].join('\n') : 'tags: []',
+    `source: ${entry.source}`,
+    '---',
+    '',
+    `# ${formatEntryDay(entry.created_at, locale)}, ${formatEntryTime(entry.created_at, locale)}`,
+    '',
+    entry.content,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Year, month, day ("2026-01-05") and time in the user's time zone
+ */
+function localDateParts(dateString: string): { year: string; month: string; day: string; hours: string; minutes: string } {
+  const date = new Date(dateString);
+  const year = String(date.getFullYear());
+  const month = ('0' + (date.getMonth() + 1)).slice(-2);
+  return {
+    year,
+    month,
+    day: `${year}-${month}-${('0' + date.getDate()).slice(-2)}`,
+    hours: ('0' + date.getHours()).slice(-2),
+    minutes: ('0' + date.getMinutes()).slice(-2)
+  };
+}
+
+/**
+ * First few words of the entry, without characters file names and wiki links cannot hold
+ */
+function noteTitle(content: string): string {
+  return content
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, TITLE_WORDS)
+    .join(' ');
+}
+
+// Obsidian tags cannot contain spaces
+function toObsidianTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+}
+
+// JSON strings are valid double-quoted YAML scalars
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,267 @@
+/**
+ * Durable outbox for cloud writes
+ * Every create/update/delete that has to reach Supabase is queued here first
+ * (persisted in localStorage, so it survives reloads) and replayed with
+ * exponential backoff until it succeeds. Replays go through the sync engine,
+ * which upserts by entry id, so retrying never creates duplicates.
+ */
+
+import { debugLog } from './logger';
+
+export type OutboxOperationType = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+export type OutboxOperationStatus = 'pending' | 'in_flight' | 'failed';
+
+export interface OutboxOperation {
+  id: string;
+  user_id: string;
+  entry_id: string;
+  type: OutboxOperationType;
+  status: OutboxOperationStatus;
+  attempts: number;
+  created_at: string;
+  next_attempt_at: number; // epoch ms
+  last_error?: string;
+}
+
+export interface OutboxOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  failedAfterAttempts?: number; // Reported as 'failed' (still retried on triggers)
+  now?: () => number;
+  random?: () => number;
+}
+
+// Pushes the given entries for a user; must be idempotent
+export type OutboxProcessor = (userId: string, entryIds: string[]) => Promise<void>;
+
+const OUTBOX_STORAGE_KEY = 'heijo-sync-outbox';
+export const OUTBOX_SYNC_TAG = 'sync-journal-entries';
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped, with up to 20% jitter
+ */
+export function computeBackoff(
+  attempts: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(exponential * (1 + random() * 0.2));
+}
+
+/**
+ * A later operation on the same entry replaces the earlier one:
+ * create + update stays a create, anything followed by delete or purge becomes that
+ */
+function coalesceType(previous: OutboxOperationType, next: OutboxOperationType): OutboxOperationType {
+  if (next === 'delete' || next === 'purge') return next;
+  if (previous === 'create') return 'create';
+  return next;
+}
+
+export class Outbox {
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly failedAfterAttempts: number;
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private replaying: Promise<OutboxOperation[]> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly processor: OutboxProcessor,
+    options: OutboxOptions = {},
+    private readonly storageKey: string = OUTBOX_STORAGE_KEY
+  ) {
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+    this.failedAfterAttempts = options.failedAfterAttempts ?? 5;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+
+    // Anything still marked in flight was interrupted by a reload
+    const operations = this.load();
+    if (operations.some(op => op.status === 'in_flight')) {
+      this.save(operations.map(op => op.status === 'in_flight' ? { ...op, status: 'pending' as const } : op));
+    }
+  }
+
+  /**
+   * Queue an operation, merging it with any pending one for the same entry
+   */
+  enqueue(userId: string, entryId: string, type: OutboxOperationType): OutboxOperation {
+    const operations = this.load();
+    const existing = operations.find(op => op.user_id === userId && op.entry_id === entryId);
+
+    const operation: OutboxOperation = existing
+      ? { ...existing, type: coalesceType(existing.type, type), status: 'pending', next_attempt_at: this.now() }
+      : {
+          id: crypto.randomUUID(),
+          user_id: userId,
+          entry_id: entryId,
+          type,
+          status: 'pending',
+          attempts: 0,
+          created_at: new Date(this.now()).toISOString(),
+          next_attempt_at: this.now()
+        };
+
+    this.save([...operations.filter(op => op.id !== operation.id), operation]);
+    this.requestBackgroundSync();
+    return operation;
+  }
+
+  getOperations(userId?: string): OutboxOperation[] {
+    const operations = this.load();
+    return userId ? operations.filter(op => op.user_id === userId) : operations;
+  }
+
+  /**
+   * Drop every queued operation, for all users (e.g. when all data is deleted)
+   */
+  clear(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.save([]);
+  }
+
+  /**
+   * Process due operations for a user. `force` ignores backoff timers
+   * (used when connectivity returns or the app regains focus).
+   */
+  replay(userId: string, options: { force?: boolean } = {}): Promise<OutboxOperation[]> {
+    if (this.replaying) {
+      return this.replaying.then(() => this.replay(userId, options));
+    }
+    this.replaying = this.runReplay(userId, options.force === true).finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  private async runReplay(userId: string, force: boolean): Promise<OutboxOperation[]> {
+    const now = this.now();
+    const due = this.load().filter(op =>
+      op.user_id === userId && op.status !== 'in_flight' && (force || op.next_attempt_at <= now)
+    );
+    if (due.length === 0) return this.getOperations(userId);
+
+    const dueIds = new Set(due.map(op => op.id));
+    this.save(this.load().map(op => dueIds.has(op.id) ? { ...op, status: 'in_flight' as const } : op));
+
+    try {
+      await this.processor(userId, due.map(op => op.entry_id));
+      // Drop only what was sent; operations queued meanwhile stay (they are 'pending')
+      this.save(this.load().filter(op => !(dueIds.has(op.id) && op.status === 'in_flight')));
+      debugLog(`Outbox replayed ${due.length} operations`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.save(this.load().map(op => {
+        if (!dueIds.has(op.id) || op.status !== 'in_flight') return op;
+        const attempts = op.attempts + 1;
+        return {
+          ...op,
+          attempts,
+          status: attempts >= this.failedAfterAttempts ? 'failed' as const : 'pending' as const,
+          next_attempt_at: this.now() + computeBackoff(attempts, this.baseDelayMs, this.maxDelayMs, this.random),
+          last_error: message
+        };
+      }));
+      console.warn('Outbox replay failed, will retry:', error);
+    }
+
+    this.scheduleNext(userId);
+    return this.getOperations(userId);
+  }
+
+  /**
+   * Wake up for the earliest pending retry while the app is open
+   */
+  private scheduleNext(userId: string): void {
+    if (typeof window === 'undefined') return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const pending = this.getOperations(userId).filter(op => op.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAt = Math.min(...pending.map(op => op.next_attempt_at));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.replay(userId).catch(error => console.warn('Scheduled outbox replay failed:', error));
+    }, Math.max(0, nextAt - this.now()));
+  }
+
+  /**
+   * Replay on connectivity/focus changes and when the service worker fires a
+   * background sync. Returns a cleanup function.
+   */
+  startAutoReplay(getUserId: () => Promise<string | null>): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const trigger = (force: boolean) => {
+      getUserId()
+        .then(userId => (userId ? this.replay(userId, { force }) : undefined))
+        .catch(error => console.warn('Outbox replay failed:', error));
+    };
+    const handleOnline = () => trigger(true);
+    const handleFocus = () => trigger(true);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') trigger(true);
+    };
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'heijo:outbox-replay') trigger(true);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleVisibility);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      if ('serviceWorker' in navigator) {
+        navigator.serviceWorker.removeEventListener('message', handleWorkerMessage);
+      }
+    };
+  }
+
+  /**
+   * Ask the service worker to wake us when connectivity returns, even if the tab is in the background
+   */
+  private requestBackgroundSync(): void {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.getRegistration()
+      .then(registration => {
+        const syncManager = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+        return syncManager?.register(OUTBOX_SYNC_TAG);
+      })
+      .catch(error => debugLog('Background sync unavailable:', error));
+  }
+
+  private load(): OutboxOperation[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to parse sync outbox:', error);
+      return [];
+    }
+  }
+
+  private save(operations: OutboxOperation[]): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(operations));
+      window.dispatchEvent(new CustomEvent('heijo:outbox-changed', { detail: { count: operations.length } }));
+    } catch (error) {
+      console.warn('Failed to persist sync outbox:', error);
+    }
+  }
+}
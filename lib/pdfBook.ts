@@ -0,0 +1,299 @@
+import { JournalEntry } from './store';
+import { sealedEntries, isLockedSealedEntry } from './sealedEntries';
+import { formatEntryDate, formatEntryDay, formatEntryMonth, formatEntryTime } from './dateFormat';
+import { PdfDocument, PdfColor, PdfTextStyle, PAGE_SIZES } from './pdfDocument';
+import { TrueTypeFont } from './trueType';
+import { loadPdfFonts } from './pdfFonts';
+
+export interface JournalBookOptions {
+  from?: string; // First day, YYYY-MM-DD in the user's time zone; the first entry by default
+  to?: string; // Last day, inclusive
+  title?: string;
+  pageSize?: keyof typeof PAGE_SIZES; // A5 by default
+  locale?: string; // For dates; the user's locale by default
+}
+
+export interface JournalBook {
+  pdf: Uint8Array<ArrayBuffer>;
+  pages: number;
+  entries: number;
+  unsupportedCharacters: number; // Not in any of the fonts, printed as "?
+}
+
+const DEFAULT_TITLE = 'Heijō Journal';
+
+// App colours: heijo-text, graphite, text-caption, soft-silver
+const TEXT: PdfColor = [26, 26, 26];
+const GRAPHITE: PdfColor = [90, 90, 90];
+const CAPTION: PdfColor = [154, 154, 154];
+const SILVER: PdfColor = [217, 217, 220];
+
+// Type scale, after the brand-hero, body-text and section heading styles
+const TITLE_STYLE: PdfTextStyle = { size: 24, color: TEXT, tracking: 1.2 };
+const MONTH_STYLE: PdfTextStyle = { size: 18, color: TEXT, tracking: 0.9 };
+const LABEL_STYLE: PdfTextStyle = { font: 'bold', size: 8, color: GRAPHITE, tracking: 1.1 };
+const DAY_STYLE: PdfTextStyle = { font: 'bold', size: 10, color: TEXT };
+const TIME_STYLE: PdfTextStyle = { size: 9, color: CAPTION };
+const BODY_STYLE: PdfTextStyle = { size: 10.5, color: TEXT };
+const BADGE_STYLE: PdfTextStyle = { size: 7.5, color: [106, 106, 106] };
+const CAPTION_STYLE: PdfTextStyle = { size: 9, color: CAPTION };
+const TOC_STYLE: PdfTextStyle = { size: 11, color: TEXT };
+
+const MARGIN = 48;
+const BOTTOM_MARGIN = 60;
+const BODY_LEADING = BODY_STYLE.size * 1.6;
+const TOC_ROW = 22;
+const TOC_HEADING = 44;
+const BADGE_HEIGHT = 13;
+const ENTRY_GAP = 14;
+
+interface MonthSection {
+  label: string;
+  entries: JournalEntry[];
+  page: number;
+}
+
+/**
+ * A typeset journal book: a cover, a table of contents by month and every
+ * entry in the date range, oldest first, each month starting on a new page.
+ * Entries show their tags and a voice badge. Sealed entries are only included
+ * if they were unlocked this session. Text is set in the given fonts (see
+ * lib/pdfFonts).
+ */
+export function buildJournalBook(entries: JournalEntry[], fonts: TrueTypeFont[], options: JournalBookOptions = {}): JournalBook {
+  const { locale } = options;
+  const included = entries
+    .map(entry => sealedEntries.reveal(entry))
+    .filter(entry => !isLockedSealedEntry(entry))
+    .filter(entry => {
+      const day = localDay(entry.created_at);
+      return (!options.from || day >= options.from) && (!options.to || day <= options.to);
+    })
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const months: MonthSection[] = [];
+  included.forEach(entry => {
+    const label = formatEntryMonth(entry.created_at, locale);
+    const last = months[months.length - 1];
+    if (last && last.label === label) {
+      last.entries.push(entry);
+    } else {
+      months.push({ label, entries: [entry], page: -1 });
+    }
+  });
+
+  const doc = new PdfDocument(fonts, PAGE_SIZES[options.pageSize ?? 'a5']);
+  const contentWidth = doc.width - MARGIN * 2;
+  const contentBottom = doc.height - BOTTOM_MARGIN;
+  const title = options.title?.trim() || DEFAULT_TITLE;
+
+  drawCover(doc, title, coverRange(included, options), included.length);
+
+  // Contents pages are reserved now and filled in once the month pages are known
+  const firstPageRows = Math.floor((contentBottom - MARGIN - TOC_HEADING) / TOC_ROW);
+  const otherPageRows = Math.floor((contentBottom - MARGIN) / TOC_ROW);
+  const tocPages: number[] = [doc.addPage()];
+  for (let rows = firstPageRows; rows < months.length; rows += otherPageRows) {
+    tocPages.push(doc.addPage());
+  }
+
+  let y = MARGIN;
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  months.forEach(month => {
+    month.page = doc.addPage();
+    y = MARGIN;
+    doc.text(MARGIN, y + MONTH_STYLE.size, month.label, MONTH_STYLE);
+    y += MONTH_STYLE.size + 10;
+    doc.text(MARGIN, y + CAPTION_STYLE.size, entryCount(month.entries.length), CAPTION_STYLE);
+    y += CAPTION_STYLE.size + 12;
+    doc.line(MARGIN, y, MARGIN + contentWidth, y, SILVER);
+    y += 20;
+
+    month.entries.forEach((entry, index) => {
+      const badges = entryBadges(entry);
+      const badgeRows = layoutBadges(doc, badges, contentWidth);
+      const headerHeight = 16 + badgeRows.length * (BADGE_HEIGHT + 5) + 6;
+      const lines = doc.wrap(entry.content.trim(), BODY_STYLE, contentWidth);
+
+      // Keep the date with at least the first two lines of text
+      if (index > 0) {
+        ensureSpace(ENTRY_GAP * 2 + headerHeight + BODY_LEADING * Math.min(lines.length, 2));
+        if (y > MARGIN) {
+          y += ENTRY_GAP;
+          doc.line(MARGIN, y, MARGIN + contentWidth, y, SILVER);
+          y += ENTRY_GAP;
+        }
+      } else {
+        ensureSpace(headerHeight + BODY_LEADING * Math.min(lines.length, 2));
+      }
+
+      const day = formatEntryDay(entry.created_at, locale);
+      doc.text(MARGIN, y + DAY_STYLE.size, day, DAY_STYLE);
+      doc.text(MARGIN + doc.measure(`${day}  `, DAY_STYLE), y + DAY_STYLE.size, formatEntryTime(entry.created_at, locale), TIME_STYLE);
+      y += 16;
+
+      badgeRows.forEach(row => {
+        let x = MARGIN;
+        row.forEach(badge => {
+          doc.rect(x, y, badge.width, BADGE_HEIGHT, SILVER, BADGE_HEIGHT / 2);
+          doc.text(x + 6, y + 9.2, badge.label, badge.style);
+          x += badge.width + 4;
+        });
+        y += BADGE_HEIGHT + 5;
+      });
+      y += 6;
+
+      lines.forEach(line => {
+        ensureSpace(BODY_LEADING);
+        if (line) doc.text(MARGIN, y + BODY_LEADING * 0.75, line, BODY_STYLE);
+        y += BODY_LEADING;
+      });
+    });
+  });
+
+  drawContents(doc, tocPages, months, firstPageRows, otherPageRows);
+
+  // Page numbers on every page but the cover
+  for (let page = 1; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    const label = String(page + 1);
+    doc.text((doc.width - doc.measure(label, CAPTION_STYLE)) / 2, doc.height - BOTTOM_MARGIN / 2, label, CAPTION_STYLE);
+  }
+
+  return {
+    pdf: doc.toBytes({ title }),
+    pages: doc.pageCount,
+    entries: included.length,
+    unsupportedCharacters: doc.unsupportedCharacters
+  };
+}
+
+/**
+ * Load the fonts, build the book and download it. Nothing is downloaded when
+ * no entries fall in the range; check the returned entry count.
+ * Filename: heijo-journal-YYYY-MM-DD-to-YYYY-MM-DD.pdf
+ */
+export async function exportJournalBook(entries: JournalEntry[], options: JournalBookOptions = {}): Promise<JournalBook> {
+  const book = buildJournalBook(entries, await loadPdfFonts(), options);
+  if (book.entries === 0) return book;
+
+  const today = new Date().toISOString().split('T')[0];
+  const blob = new Blob([book.pdf], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `heijo-journal-${options.from ?? 'start'}-to-${options.to ?? today}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+  return book;
+}
+
+function drawCover(doc: PdfDocument, title: string, range: string, count: number): void {
+  doc.addPage();
+  const centre = doc.width / 2;
+  let y = doc.height * 0.4;
+  doc.wrap(title, TITLE_STYLE, doc.width - MARGIN * 2).forEach(line => {
+    doc.text(centre - doc.measure(line, TITLE_STYLE) / 2, y, line, TITLE_STYLE);
+    y += TITLE_STYLE.size * 1.3;
+  });
+  y += 4;
+  doc.line(centre - 20, y, centre + 20, y, CAPTION);
+  y += 24;
+  const rangeStyle: PdfTextStyle = { size: 11, color: GRAPHITE };
+  doc.text(centre - doc.measure(range, rangeStyle) / 2, y, range, rangeStyle);
+  y += 18;
+  const countLabel = entryCount(count);
+  doc.text(centre - doc.measure(countLabel, CAPTION_STYLE) / 2, y, countLabel, CAPTION_STYLE);
+}
+
+function drawContents(doc: PdfDocument, tocPages: number[], months: MonthSection[], firstPageRows: number, otherPageRows: number): void {
+  const right = doc.width - MARGIN;
+  let monthIndex = 0;
+  tocPages.forEach((page, pageIndex) => {
+    doc.setPage(page);
+    let y = MARGIN;
+    if (pageIndex === 0) {
+      doc.text(MARGIN, y + LABEL_STYLE.size, 'CONTENTS', LABEL_STYLE);
+      y += TOC_HEADING;
+    }
+    const rows = pageIndex === 0 ? firstPageRows : otherPageRows;
+    months.slice(monthIndex, monthIndex + rows).forEach(month => {
+      const baseline = y + TOC_ROW * 0.7;
+      const pageLabel = String(month.page + 1);
+      doc.text(MARGIN, baseline, month.label, TOC_STYLE);
+      const countLabel = entryCount(month.entries.length);
+      doc.text(MARGIN + doc.measure(`${month.label}   `, TOC_STYLE), baseline, countLabel, CAPTION_STYLE);
+      doc.text(right - doc.measure(pageLabel, TOC_STYLE), baseline, pageLabel, TOC_STYLE);
+      doc.link(MARGIN, y, right - MARGIN, TOC_ROW, month.page);
+      y += TOC_ROW;
+    });
+    monthIndex += rows;
+  });
+}
+
+interface Badge {
+  label: string;
+  style: PdfTextStyle;
+  width: number;
+}
+
+function entryBadges(entry: JournalEntry): Omit<Badge, 'width'>[] {
+  const badges: Omit<Badge, 'width'>[] = [];
+  if (entry.source === 'voice') {
+    badges.push({ label: 'VOICE', style: { ...BADGE_STYLE, font: 'bold', tracking: 0.6 } });
+  }
+  entry.tags.forEach(tag => badges.push({ label: tag, style: BADGE_STYLE }));
+  return badges;
+}
+
+/**
+ * Badges in rows that fit the text width
+ */
+function layoutBadges(doc: PdfDocument, badges: Omit<Badge, 'width'>[], maxWidth: number): Badge[][] {
+  const rows: Badge[][] = [];
+  let rowWidth = 0;
+  badges.forEach(badge => {
+    const width = Math.min(doc.measure(badge.label, badge.style) + 12, maxWidth);
+    if (rows.length === 0 || rowWidth + width > maxWidth) {
+      rows.push([]);
+      rowWidth = 0;
+    }
+    rows[rows.length - 1].push({ ...badge, width });
+    rowWidth += width + 4;
+  });
+  return rows;
+}
+
+function coverRange(entries: JournalEntry[], options: JournalBookOptions): string {
+  const first = options.from ? dayStart(options.from) : entries[0]?.created_at;
+  const last = options.to ? dayStart(options.to) : entries[entries.length - 1]?.created_at;
+  if (!first || !last) return '';
+  const from = formatEntryDate(first, options.locale);
+  const to = formatEntryDate(last, options.locale);
+  return from === to ? from : `${from} – ${to}`;
+}
+
+function entryCount(count: number): string {
+  return count === 1 ? '1 entry' : `${count} entries`;
+}
+
+/**
+ * Calendar day ("2026-01-05") in the user's time zone
+ */
+function localDay(dateString: string): string {
+  const date = new Date(dateString);
+  return `${date.getFullYear()}-${('0' + (date.getMonth() + 1)).slice(-2)}-${('0' + date.getDate()).slice(-2)}`;
+}
+
+function dayStart(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toISOString();
+}
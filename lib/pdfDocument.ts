@@ -0,0 +1,399 @@
+/**
+ * Minimal PDF writer
+ * Just enough of PDF 1.4 for text documents built in the browser: pages,
+ * text, lines, filled rectangles and internal links. Text is set in the
+ * TrueType fonts given, each character in the first one that has it; every
+ * font used is embedded as a subset (Type0 with Identity-H glyph codes and
+ * a ToUnicode map, so text can be searched and copied). Bold and italic are
+ * drawn from the same outlines. Characters none of the fonts have are
+ * printed as "?".
+ * Coordinates are in points from the top-left corner of the page.
+ */
+
+import { TrueTypeFont } from './trueType';
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number]; // 0-255
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size: number;
+  color?: PdfColor;
+  tracking?: number; // Extra space after each character, in points
+}
+
+export const PAGE_SIZES = {
+  a5: { width: 420, height: 595 },
+  a4: { width: 595, height: 842 },
+  letter: { width: 612, height: 792 }
+};
+
+const BOLD_STROKE = 0.03; // Outline stroke for bold, in em
+const ITALIC_SKEW = 0.2; // About 11 degrees
+
+interface PdfGlyph {
+  font: number; // Index into the document's fonts
+  glyph: number;
+}
+
+interface FontUsage {
+  glyphs: Map<number, string>; // Glyph id → the text it stands for
+}
+
+interface PdfLink {
+  rect: [number, number, number, number]; // x, y, width, height from the top left
+  page: number; // Target page index
+}
+
+interface PdfPage {
+  operations: string[];
+  links: PdfLink[];
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: PdfPage[] = [];
+  private current = -1;
+  private unsupported = 0;
+  private readonly fonts: TrueTypeFont[];
+  private readonly usage: FontUsage[];
+
+  /**
+   * @param fonts TrueType fonts in order of preference; at least one
+   */
+  constructor(fonts: TrueTypeFont[], size: { width: number; height: number } = PAGE_SIZES.a5) {
+    if (fonts.length === 0) throw new Error('A PDF needs at least one font');
+    this.fonts = fonts;
+    this.usage = fonts.map(() => ({ glyphs: new Map<number, string>() }));
+    this.width = size.width;
+    this.height = size.height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get currentPage(): number {
+    return this.current;
+  }
+
+  /**
+   * Characters that could not be shown (replaced by "?") so far
+   */
+  get unsupportedCharacters(): number {
+    return this.unsupported;
+  }
+
+  /**
+   * Start a new page and draw on it; returns its index
+   */
+  addPage(): number {
+    this.pages.push({ operations: [], links: [] });
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  /**
+   * Draw on an earlier page, e.g. a table of contents reserved up front
+   */
+  setPage(index: number): void {
+    if (!this.pages[index]) throw new Error(`No page ${index}`);
+    this.current = index;
+  }
+
+  /**
+   * Draw text with its baseline at y
+   */
+  text(x: number, y: number, text: string, style: PdfTextStyle): void {
+    const { font = 'regular', size, color = [26, 26, 26], tracking = 0 } = style;
+    const glyphs = this.shape(text, true);
+    if (glyphs.length === 0) return;
+
+    // Text rendering mode and stroke width outlast ET, so they are always set
+    const render = font === 'bold' ? `${rgb(color)} RG ${num(size * BOLD_STROKE)} w 2 Tr` : '0 Tr';
+    const skew = font === 'italic' ? ITALIC_SKEW : 0;
+    const runs: string[] = [];
+    glyphs.forEach((glyph, index) => {
+      if (index === 0 || glyph.font !== glyphs[index - 1].font) {
+        runs.push(`/F${glyph.font + 1} ${num(size)} Tf <`);
+      }
+      runs[runs.length - 1] += hex4(glyph.glyph);
+    });
+    this.page().operations.push(
+      `BT ${rgb(color)} rg ${render} ${num(tracking)} Tc 1 0 ${skew} 1 ${num(x)} ${num(this.height - y)} Tm ${runs.map(run => `${run}> Tj`).join(' ')} ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [217, 217, 217], width = 0.5): void {
+    this.page().operations.push(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor, radius = 0): void {
+    const bottom = this.height - y - height;
+    if (radius <= 0) {
+      this.page().operations.push(`${rgb(fill)} rg ${num(x)} ${num(bottom)} ${num(width)} ${num(height)} re f`);
+      return;
+    }
+    // Corners are Bézier quarter circles
+    const r = Math.min(radius, width / 2, height / 2);
+    const k = r * 0.5523;
+    const left = x;
+    const right = x + width;
+    const top = bottom + height;
+    const path = [
+      `${num(left + r)} ${num(bottom)} m`,
+      `${num(right - r)} ${num(bottom)} l`,
+      `${num(right - r + k)} ${num(bottom)} ${num(right)} ${num(bottom + r - k)} ${num(right)} ${num(bottom + r)} c`,
+      `${num(right)} ${num(top - r)} l`,
+      `${num(right)} ${num(top - r + k)} ${num(right - r + k)} ${num(top)} ${num(right - r)} ${num(top)} c`,
+      `${num(left + r)} ${num(top)} l`,
+      `${num(left + r - k)} ${num(top)} ${num(left)} ${num(top - r + k)} ${num(left)} ${num(top - r)} c`,
+      `${num(left)} ${num(bottom + r)} l`,
+      `${num(left)} ${num(bottom + r - k)} ${num(left + r - k)} ${num(bottom)} ${num(left + r)} ${num(bottom)} c`
+    ];
+    this.page().operations.push(`${rgb(fill)} rg ${path.join(' ')} h f`);
+  }
+
+  /**
+   * Make an area of the current page jump to another page
+   */
+  link(x: number, y: number, width: number, height: number, page: number): void {
+    this.page().links.push({ rect: [x, y, width, height], page });
+  }
+
+  /**
+   * Width of text in points
+   */
+  measure(text: string, style: PdfTextStyle): number {
+    const glyphs = this.shape(text, false);
+    let units = 0;
+    glyphs.forEach(({ font, glyph }) => {
+      units += this.fonts[font].advanceWidth(glyph);
+    });
+    return (units * style.size) / 1000 + glyphs.length * (style.tracking ?? 0);
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth. Line breaks in the text are
+   * kept; an empty string stands for an empty line.
+   */
+  wrap(text: string, style: PdfTextStyle, maxWidth: number): string[] {
+    const lines: string[] = [];
+    text.split(/\r?\n/).forEach(paragraph => {
+      let line = '';
+      paragraph.split(/[ \t]+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.measure(candidate, style) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        // Words wider than a line (e.g. links, or scripts without spaces) are broken anywhere
+        line = '';
+        for (const char of Array.from(word)) {
+          if (line && this.measure(line + char, style) > maxWidth) {
+            lines.push(line);
+            line = '';
+          }
+          line += char;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  toBytes(info: { title?: string; author?: string } = {}): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const add = (body: string): number => {
+      objects.push(body);
+      return objects.length; // Object numbers start at 1
+    };
+
+    const catalog = add('');
+    const pagesRoot = add('');
+    const fonts = this.usage
+      .map((usage, index) => ({ usage, index }))
+      .filter(({ usage }) => usage.glyphs.size > 0)
+      .map(({ usage, index }) => ({ name: `F${index + 1}`, ref: this.addFont(add, index, usage) }));
+    const resources = `<< /Font << ${fonts.map(font => `/${font.name} ${font.ref} 0 R`).join(' ')} >> >>`;
+
+    // Page objects are numbered up front so links can point at pages not written yet
+    const firstPage = objects.length + 1;
+    const pageRef = (index: number) => firstPage + index * 2;
+    this.pages.forEach((page, index) => {
+      const content = page.operations.join('\n');
+      const annotations = page.links.map(link => {
+        const [x, y, width, height] = link.rect;
+        const rect = [x, this.height - y - height, x + width, this.height - y].map(num).join(' ');
+        return `<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /Dest [${pageRef(link.page)} 0 R /Fit] >>`;
+      });
+      add(`<< /Type /Page /Parent ${pagesRoot} 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources ${resources} /Contents ${pageRef(index) + 1} 0 R${annotations.length > 0 ? ` /Annots [${annotations.join(' ')}]` : ''} >>`);
+      add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRoot} 0 R >>`;
+    objects[pagesRoot - 1] = `<< /Type /Pages /Kids [${this.pages.map((_, index) => `${pageRef(index)} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    const infoEntries = [
+      info.title ? `/Title ${textString(info.title)}` : '',
+      info.author ? `/Author ${textString(info.author)}` : '',
+      '/Producer (Heijo)'
+    ].filter(Boolean);
+    const infoRef = add(`<< ${infoEntries.join(' ')} >>`);
+
+    let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(file.length);
+      file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      file += `${('000000000' + offset).slice(-10)} 00000 n \n`;
+    });
+    file += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${infoRef} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every character is a single byte (text is hex, font files are binary strings)
+    const bytes = new Uint8Array(file.length);
+    for (let i = 0; i < file.length; i++) {
+      bytes[i] = file.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private page(): PdfPage {
+    if (this.current < 0) this.addPage();
+    return this.pages[this.current];
+  }
+
+  /**
+   * The glyph for each character, from the first font that has it. When
+   * drawing, glyphs are recorded for the subsets and missing characters
+   * counted.
+   */
+  private shape(text: string, draw: boolean): PdfGlyph[] {
+    const glyphs: PdfGlyph[] = [];
+    for (const char of Array.from(text.replace(/\t/g, ' '))) {
+      if (char < ' ') continue;
+      let found = this.findGlyph(char);
+      // e.g. "ō" → "o" when no font has the accented letter
+      const base = char.normalize('NFD').charAt(0);
+      if (!found && base !== char) found = this.findGlyph(base);
+      if (!found) {
+        found = this.findGlyph('?') ?? { font: 0, glyph: 0 };
+        if (draw) this.unsupported++;
+      }
+      if (draw && !this.usage[found.font].glyphs.has(found.glyph)) {
+        this.usage[found.font].glyphs.set(found.glyph, char);
+      }
+      glyphs.push(found);
+    }
+    return glyphs;
+  }
+
+  private findGlyph(char: string): PdfGlyph | null {
+    const codePoint = char.codePointAt(0)!;
+    for (let font = 0; font < this.fonts.length; font++) {
+      const glyph = this.fonts[font].glyphId(codePoint);
+      if (glyph !== 0) return { font, glyph };
+    }
+    return null;
+  }
+
+  /**
+   * Write one font's subset and the objects describing it; returns the
+   * Type0 font object
+   */
+  private addFont(add: (body: string) => number, index: number, usage: FontUsage): number {
+    const font = this.fonts[index];
+    const name = `${subsetTag(index)}+${font.postScriptName}`;
+    const glyphs = Array.from(usage.glyphs.keys()).sort((a, b) => a - b);
+
+    const subset = font.subset(glyphs);
+    let fontFile = '';
+    subset.forEach(byte => {
+      fontFile += String.fromCharCode(byte);
+    });
+    const fontFileRef = add(`<< /Length ${subset.length} /Length1 ${subset.length} >>\nstream\n${fontFile}\nendstream`);
+
+    // Flags: symbolic, as the glyphs are addressed by id rather than a standard encoding
+    const descriptor = add(
+      `<< /Type /FontDescriptor /FontName /${name} /Flags 4 /FontBBox [${font.bbox.join(' ')}] /ItalicAngle ${num(font.italicAngle)} ` +
+      `/Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.capHeight} /StemV 80 /FontFile2 ${fontFileRef} 0 R >>`
+    );
+    const widths = glyphs.map(glyph => `${glyph} [${font.advanceWidth(glyph)}]`).join(' ');
+    const cidFont = add(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+      `/FontDescriptor ${descriptor} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`
+    );
+
+    const toUnicode = toUnicodeCMap(glyphs.map(glyph => [glyph, usage.glyphs.get(glyph)!] as [number, string]));
+    const toUnicodeRef = add(`<< /Length ${toUnicode.length} >>\nstream\n${toUnicode}\nendstream`);
+
+    return add(`<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicodeRef} 0 R >>`);
+  }
+}
+
+/**
+ * CMap from glyph ids to the text they show, for search and copy
+ */
+function toUnicodeCMap(glyphs: Array<[number, string]>): string {
+  const blocks: string[] = [];
+  // At most 100 mappings per block
+  for (let i = 0; i < glyphs.length; i += 100) {
+    const block = glyphs.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.map(([glyph, text]) => `<${hex4(glyph)}> <${utf16Hex(text)}>`).join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CIDInit /ProcSet findresource /defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+}
+
+/**
+ * Text string in the document information, as UTF-16BE so any script fits
+ */
+function textString(text: string): string {
+  return `<FEFF${utf16Hex(text)}>`;
+}
+
+function utf16Hex(text: string): string {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) {
+    hex += hex4(text.charCodeAt(i));
+  }
+  return hex;
+}
+
+function hex4(value: number): string {
+  return ('000' + value.toString(16).toUpperCase()).slice(-4);
+}
+
+// Six capital letters naming a subset, unique within the document
+function subsetTag(index: number): string {
+  return `HEIJO${String.fromCharCode(65 + (index % 26))}`;
+}
+
+function rgb(color: PdfColor): string {
+  return color.map(channel => num(channel / 255)).join(' ');
+}
+
+// Numbers without exponents or long fractions
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
@@ -0,0 +1,49 @@
+import { TrueTypeFont } from './trueType';
+
+/**
+ * Fonts for PDF exports
+ * TrueType (.ttf) files listed in NEXT_PUBLIC_PDF_FONTS (comma-separated
+ * URLs), each character set in the first one that has it. The default is the
+ * bundled Noto Sans, which covers Latin scripts; to print others, add a font
+ * for them (e.g. Noto Sans JP as .ttf in public/fonts/pdf) to the list.
+ * Loaded once per session.
+ */
+
+const DEFAULT_FONTS = ['/fonts/pdf/NotoSans-Regular.ttf'];
+
+let loading: Promise<TrueTypeFont[]> | null = null;
+
+export function getPdfFontUrls(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_PDF_FONTS || '').split(',').map(url => url.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_FONTS;
+}
+
+/**
+ * Fonts that failed to load are skipped; throws if none loaded
+ */
+export function loadPdfFonts(): Promise<TrueTypeFont[]> {
+  if (!loading) {
+    loading = fetchFonts(getPdfFontUrls());
+    loading.catch(() => {
+      loading = null; // Try again next time
+    });
+  }
+  return loading;
+}
+
+async function fetchFonts(urls: string[]): Promise<TrueTypeFont[]> {
+  const fonts: TrueTypeFont[] = [];
+  for (const url of urls) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      fonts.push(new TrueTypeFont(new Uint8Array(await response.arrayBuffer())));
+    } catch (error) {
+      console.warn(`Failed to load PDF font ${url}:`, error);
+    }
+  }
+  if (fonts.length === 0) {
+    throw new Error('Could not load the fonts for the PDF. Please check your connection and try again.');
+  }
+  return fonts;
+}
@@ -117,3 +117,27 @@ export function logPromptHistory(userId: string, promptId: string): void {
 
 
 
+
+/**
+ * Served prompts per user, for backups (see lib/backupArchive)
+ */
+export function getPromptHistory(): Record<string, PromptHistory[]> {
+  return JSON.parse(JSON.stringify(promptHistory));
+}
+
+/**
+ * Merge served prompts from a backup, skipping ones already recorded
+ */
+export function restorePromptHistory(history: Record<string, PromptHistory[]>): number {
+  let restored = 0;
+  Object.keys(history).forEach(userId => {
+    const userHistory = promptHistory[userId] || (promptHistory[userId] = []);
+    history[userId].forEach(served => {
+      if (!userHistory.some(entry => entry.id === served.id && entry.servedAt === served.servedAt)) {
+        userHistory.push({ id: served.id, servedAt: served.servedAt });
+        restored++;
+      }
+    });
+  });
+  return restored;
+}
@@ -0,0 +1,34 @@
+/**
+ * Word list for recovery keys: 256 words, one byte each.
+ * Every word has a unique four-letter prefix, so a recovery key can be typed
+ * using just the first four letters of each word.
+ */
+
+export const RECOVERY_WORDS: readonly string[] = [
+  'acid', 'acorn', 'actor', 'adapt', 'admit', 'adult', 'again', 'agent', 'alarm', 'album', 'alert',
+  'alley', 'amber', 'angle', 'ankle', 'apple', 'apron', 'arena', 'argue', 'armor', 'arrow',
+  'atlas', 'attic', 'audio', 'autumn', 'avoid', 'awake', 'badge', 'baker', 'balmy', 'bamboo',
+  'banjo', 'barn', 'basin', 'beach', 'beard', 'beetle', 'bench', 'berry', 'bike', 'bird', 'blank',
+  'blaze', 'blend', 'bloom', 'board', 'boat', 'bonus', 'boot', 'border', 'bottle', 'bounce',
+  'brain', 'brass', 'bread', 'brick', 'bridge', 'brisk', 'brook', 'brush', 'bubble', 'bucket',
+  'bugle', 'bunny', 'butter', 'cabin', 'cactus', 'camel', 'canal', 'candle', 'canoe', 'canvas',
+  'carbon', 'cargo', 'carpet', 'castle', 'cedar', 'chalk', 'charm', 'cherry', 'chess', 'chief',
+  'cider', 'cinema', 'circle', 'citrus', 'claim', 'clay', 'cliff', 'cloud', 'clover', 'coast',
+  'cobalt', 'cocoa', 'comet', 'coral', 'cotton', 'cradle', 'crane', 'crater', 'cream', 'crisp',
+  'crown', 'crystal', 'cube', 'cupid', 'curtain', 'cycle', 'daisy', 'dance', 'dawn', 'delta',
+  'denim', 'desert', 'diary', 'dinner', 'dock', 'dolphin', 'donkey', 'door', 'dragon', 'dream',
+  'drift', 'drum', 'duck', 'dune', 'eagle', 'earth', 'easel', 'echo', 'elbow', 'ember', 'empire',
+  'engine', 'entry', 'equal', 'error', 'essay', 'event', 'fable', 'fabric', 'falcon', 'feast',
+  'fence', 'ferry', 'fiber', 'field', 'finch', 'flame', 'flute', 'foam', 'forest', 'fossil', 'fox',
+  'frame', 'frost', 'fruit', 'galaxy', 'garden', 'garlic', 'gate', 'gem', 'giant', 'ginger',
+  'glacier', 'glove', 'goat', 'gold', 'gravel', 'guitar', 'habit', 'harbor', 'harvest', 'hazel',
+  'helmet', 'herb', 'hero', 'honey', 'horizon', 'hotel', 'husky', 'igloo', 'index', 'ink',
+  'island', 'ivory', 'jacket', 'jaguar', 'jelly', 'jewel', 'judge', 'juice', 'jungle', 'kayak',
+  'kettle', 'kiwi', 'koala', 'label', 'ladder', 'lagoon', 'lamp', 'lantern', 'laser', 'lava',
+  'lemon', 'letter', 'lilac', 'linen', 'lion', 'lobster', 'locket', 'lotus', 'lunar', 'magnet',
+  'mango', 'maple', 'marble', 'meadow', 'melon', 'mint', 'mirror', 'mosaic', 'motor', 'muffin',
+  'museum', 'nectar', 'needle', 'nest', 'noble', 'north', 'novel', 'nutmeg', 'oasis', 'ocean',
+  'olive', 'onion', 'opal', 'orbit', 'orchid', 'otter', 'oyster', 'paddle', 'palace', 'panda',
+  'paper', 'parrot', 'pearl', 'pebble', 'pencil', 'pepper', 'piano', 'pillow', 'pilot', 'pine',
+  'planet', 'plum'
+];
@@ -0,0 +1,51 @@
+/**
+ * Saved searches
+ * Named drawer queries kept on this device. Only the query text is stored,
+ * never entry content.
+ */
+
+import { parseSearchQuery } from './searchQuery';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  created_at: string;
+}
+
+const STORAGE_KEY = 'heijo-saved-searches';
+
+export function getSavedSearches(): SavedSearch[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Failed to parse saved searches:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a query under a name, replacing any view with the same name.
+ * Throws SearchQueryError if the query does not parse.
+ */
+export function saveSearch(name: string, query: string): SavedSearch {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('A saved search needs a name');
+  parseSearchQuery(query);
+
+  const saved: SavedSearch = {
+    id: crypto.randomUUID(),
+    name: trimmedName,
+    query: query.trim(),
+    created_at: new Date().toISOString()
+  };
+  const others = getSavedSearches().filter(view => view.name.toLowerCase() !== trimmedName.toLowerCase());
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, saved]));
+  return saved;
+}
+
+export function deleteSavedSearch(id: string): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(getSavedSearches().filter(view => view.id !== id)));
+}
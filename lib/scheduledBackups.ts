@@ -0,0 +1,461 @@
+/**
+ * Scheduled backups
+ * Writes an encrypted .heijo snapshot (lib/backupArchive) daily or weekly
+ * while the journal is open, keeps the last few in IndexedDB and, where the
+ * File System Access API is available, also saves them to a folder the user
+ * picked. The backup password is asked for once; the key derived from it is
+ * stored as a non-extractable CryptoKey, so snapshots can be written and
+ * restored on this device without it, and opened elsewhere with it.
+ *
+ * So the snapshots kept in this browser are protected by the device only,
+ * not by the password: anyone who can use this browser profile can restore
+ * them. They are deleted with the key when backups are turned off or all
+ * data is deleted (gdprManager.deleteAllData).
+ */
+
+import { StorageBackend, storage } from './store';
+import {
+  BackupKey,
+  BackupPreview,
+  BACKUP_FILE_EXTENSION,
+  createBackup,
+  deriveBackupKey,
+  previewBackup,
+  getLastBackupAt,
+  markBackedUp
+} from './backupArchive';
+import { debugLog } from './logger';
+
+export type BackupFrequency = 'daily' | 'weekly';
+
+export interface ScheduledBackupSettings {
+  enabled: boolean;
+  frequency: BackupFrequency;
+  keep: number; // Snapshots kept, in IndexedDB and in the folder
+  folderName: string | null;
+  lastError: string | null; // From the last scheduled run
+}
+
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string;
+  bytes: number;
+}
+
+export interface BackupStatus {
+  enabled: boolean;
+  lastBackupAt: string | null; // Scheduled or downloaded
+  nextBackupAt: string | null;
+  stale: boolean;
+}
+
+export const DEFAULT_KEEP = 7;
+export const MAX_KEEP = 30;
+
+const SETTINGS_STORAGE_KEY = 'heijo-scheduled-backups';
+const DB_NAME = 'HeijoBackups';
+const DB_VERSION = 1;
+const KEY_RECORD = 'key';
+const FOLDER_RECORD = 'folder';
+const FOLDER_FILE_PREFIX = 'heijo-auto-backup-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVALS: Record<BackupFrequency, number> = { daily: DAY_MS, weekly: 7 * DAY_MS };
+// Without a schedule, a backup older than this is stale
+const MANUAL_STALE_MS = 14 * DAY_MS;
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+const DEFAULT_SETTINGS: ScheduledBackupSettings = {
+  enabled: false,
+  frequency: 'daily',
+  keep: DEFAULT_KEEP,
+  folderName: null,
+  lastError: null
+};
+
+interface StoredSnapshot extends BackupSnapshot {
+  data: string; // The .heijo file
+}
+
+// File System Access members that TypeScript's DOM types leave out
+interface BackupFolderHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  keys(): { next(): Promise<{ done?: boolean; value: string }> };
+}
+
+type DirectoryPicker = (options: { id?: string; mode: 'readwrite' }) => Promise<BackupFolderHandle>;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openBackupDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('snapshots')) {
+        db.createObjectStore('snapshots', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      // The backup key and the folder handle, which only IndexedDB can hold
+      if (!db.objectStoreNames.contains('handles')) {
+        db.createObjectStore('handles');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class ScheduledBackups {
+  private static instance: ScheduledBackups;
+  private running: Promise<BackupSnapshot | null> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly handleVisibilityChange = () => {
+    // Timers are throttled in background tabs, so check on return
+    if (document.visibilityState === 'visible') this.runIfDue();
+  };
+
+  private constructor() {}
+
+  static getInstance(): ScheduledBackups {
+    if (!ScheduledBackups.instance) {
+      ScheduledBackups.instance = new ScheduledBackups();
+    }
+    return ScheduledBackups.instance;
+  }
+
+  getSettings(): ScheduledBackupSettings {
+    if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.warn('Failed to read scheduled backup settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * Turn scheduled backups on with a backup password, and take the first
+   * snapshot now
+   */
+  async enable(password: string, frequency: BackupFrequency, keep: number = DEFAULT_KEEP, source: StorageBackend = storage): Promise<BackupSnapshot | null> {
+    const backupKey = await deriveBackupKey(password);
+    await this.putHandle(KEY_RECORD, backupKey);
+    this.saveSettings({ ...this.getSettings(), enabled: true, frequency, keep: clampKeep(keep), lastError: null });
+    debugLog(`Scheduled backups enabled (${frequency})`);
+    return this.runBackup(source);
+  }
+
+  async updateSchedule(frequency: BackupFrequency, keep: number): Promise<void> {
+    this.saveSettings({ ...this.getSettings(), frequency, keep: clampKeep(keep) });
+    await this.rotate();
+  }
+
+  /**
+   * Turn scheduled backups off and delete the snapshots kept in this
+   * browser. Files already saved to a folder are left there.
+   */
+  async disable(): Promise<void> {
+    const db = await openBackupDatabase();
+    const transaction = db.transaction(['snapshots', 'handles'], 'readwrite');
+    transaction.objectStore('snapshots').clear();
+    transaction.objectStore('handles').clear();
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    db.close();
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    debugLog('Scheduled backups disabled');
+  }
+
+  isFolderSupported(): boolean {
+    return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+  }
+
+  /**
+   * Ask for a folder to save snapshots to as well (needs a user gesture)
+   */
+  async chooseFolder(): Promise<string> {
+    const handle = await (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker({ id: 'heijo-backups', mode: 'readwrite' });
+    await this.putHandle(FOLDER_RECORD, handle);
+    this.saveSettings({ ...this.getSettings(), folderName: handle.name, lastError: null });
+    return handle.name;
+  }
+
+  async forgetFolder(): Promise<void> {
+    await this.deleteHandle(FOLDER_RECORD);
+    this.saveSettings({ ...this.getSettings(), folderName: null, lastError: null });
+  }
+
+  /**
+   * Browsers forget folder permission between visits; asking again needs a
+   * user gesture. Returns whether snapshots can be written to the folder.
+   */
+  async reconnectFolder(): Promise<boolean> {
+    const handle = await this.getHandle<BackupFolderHandle>(FOLDER_RECORD);
+    if (!handle) return false;
+    return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+  }
+
+  async folderNeedsPermission(): Promise<boolean> {
+    const handle = await this.getHandle<BackupFolderHandle>(FOLDER_RECORD);
+    return !!handle && (await handle.queryPermission({ mode: 'readwrite' })) !== 'granted';
+  }
+
+  getStatus(now: number = Date.now()): BackupStatus {
+    const settings = this.getSettings();
+    const lastBackupAt = getLastBackupAt();
+    const last = lastBackupAt ? new Date(lastBackupAt).getTime() : null;
+    const interval = INTERVALS[settings.frequency];
+    // A missed run or two is normal when the journal is not opened every day
+    const staleAfter = settings.enabled ? interval * 2 : MANUAL_STALE_MS;
+    return {
+      enabled: settings.enabled,
+      lastBackupAt,
+      nextBackupAt: settings.enabled ? new Date(last === null ? now : Math.max(now, last + interval)).toISOString() : null,
+      stale: last === null || now - last > staleAfter
+    };
+  }
+
+  isDue(now: number = Date.now()): boolean {
+    const settings = this.getSettings();
+    if (!settings.enabled) return false;
+    const lastBackupAt = getLastBackupAt();
+    return !lastBackupAt || now - new Date(lastBackupAt).getTime() >= INTERVALS[settings.frequency];
+  }
+
+  /**
+   * Take a snapshot now. Returns null when scheduled backups are off. A
+   * folder that cannot be written to is recorded in lastError; the snapshot
+   * is still kept in IndexedDB.
+   */
+  runBackup(source: StorageBackend = storage): Promise<BackupSnapshot | null> {
+    if (!this.running) {
+      this.running = this.backup(source).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Snapshots kept in this browser, newest first
+   */
+  async listSnapshots(): Promise<BackupSnapshot[]> {
+    const snapshots = await this.getSnapshots();
+    return snapshots.reverse().map(({ id, createdAt, bytes }) => ({ id, createdAt, bytes }));
+  }
+
+  /**
+   * Open a snapshot for restoreBackup, with the stored key unless a
+   * password is given
+   */
+  async previewSnapshot(id: string, password?: string, target: StorageBackend = storage): Promise<BackupPreview> {
+    const snapshot = await this.getSnapshot(id);
+    const backupKey = await this.getHandle<BackupKey>(KEY_RECORD);
+    return previewBackup(snapshot.data, password ?? backupKey ?? '', target);
+  }
+
+  async downloadSnapshot(id: string): Promise<void> {
+    const snapshot = await this.getSnapshot(id);
+    const blob = new Blob([snapshot.data], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = snapshotFileName(snapshot.createdAt);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Back up whenever one is due while the journal is open; returns a stop
+   * function
+   */
+  start(): () => void {
+    if (typeof window === 'undefined' || this.timer) return () => {};
+
+    this.runIfDue();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.timer = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+
+    return () => {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      if (this.timer) clearInterval(this.timer);
+      this.timer = null;
+    };
+  }
+
+  private runIfDue(): void {
+    if (!this.isDue()) return;
+    this.runBackup().catch(error => {
+      console.warn('Scheduled backup failed:', error);
+    });
+  }
+
+  private async backup(source: StorageBackend): Promise<BackupSnapshot | null> {
+    const settings = this.getSettings();
+    if (!settings.enabled) return null;
+    const backupKey = await this.getHandle<BackupKey>(KEY_RECORD);
+    if (!backupKey) {
+      this.saveSettings({ ...settings, lastError: 'The backup key is missing. Turn scheduled backups off and on again.' });
+      return null;
+    }
+
+    let data: string;
+    try {
+      data = await createBackup(backupKey, source);
+    } catch (error) {
+      this.saveSettings({ ...settings, lastError: `Backup failed: ${error instanceof Error ? error.message : String(error)}` });
+      throw error;
+    }
+
+    const createdAt = new Date().toISOString();
+    const snapshot: StoredSnapshot = { id: createdAt, createdAt, bytes: data.length, data };
+    const db = await openBackupDatabase();
+    try {
+      await requestToPromise(db.transaction('snapshots', 'readwrite').objectStore('snapshots').put(snapshot));
+    } finally {
+      db.close();
+    }
+    markBackedUp(createdAt);
+    await this.rotate();
+
+    let lastError: string | null = null;
+    if (settings.folderName) {
+      try {
+        await this.writeToFolder(snapshot, settings.keep);
+      } catch (error) {
+        console.warn('Failed to save backup to folder:', error);
+        lastError = error instanceof Error ? error.message : `Could not save to ${settings.folderName}`;
+      }
+    }
+    this.saveSettings({ ...this.getSettings(), lastError });
+
+    debugLog(`Scheduled backup saved (${snapshot.bytes} bytes)`);
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:backup-completed', { detail: { createdAt } }));
+    }
+    return { id: snapshot.id, createdAt, bytes: snapshot.bytes };
+  }
+
+  /**
+   * Delete all but the newest snapshots
+   */
+  private async rotate(): Promise<void> {
+    const { keep } = this.getSettings();
+    const snapshots = await this.getSnapshots();
+    const expired = snapshots.slice(0, Math.max(0, snapshots.length - keep));
+    if (expired.length === 0) return;
+
+    const db = await openBackupDatabase();
+    try {
+      const store = db.transaction('snapshots', 'readwrite').objectStore('snapshots');
+      await Promise.all(expired.map(snapshot => requestToPromise(store.delete(snapshot.id))));
+    } finally {
+      db.close();
+    }
+  }
+
+  private async writeToFolder(snapshot: StoredSnapshot, keep: number): Promise<void> {
+    const handle = await this.getHandle<BackupFolderHandle>(FOLDER_RECORD);
+    if (!handle) return;
+    if ((await handle.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+      throw new Error(`Allow access to ${handle.name} again to save backups there`);
+    }
+
+    const file = await handle.getFileHandle(snapshotFileName(snapshot.createdAt), { create: true });
+    const writable = await file.createWritable();
+    await writable.write(snapshot.data);
+    await writable.close();
+
+    // Only this scheduler's files are rotated, never other files in the folder
+    const names: string[] = [];
+    const iterator = handle.keys();
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      if (next.value.indexOf(FOLDER_FILE_PREFIX) === 0 && next.value.slice(-BACKUP_FILE_EXTENSION.length) === BACKUP_FILE_EXTENSION) {
+        names.push(next.value);
+      }
+    }
+    names.sort();
+    for (const name of names.slice(0, Math.max(0, names.length - keep))) {
+      await handle.removeEntry(name);
+    }
+  }
+
+  // Oldest first
+  private async getSnapshots(): Promise<StoredSnapshot[]> {
+    const db = await openBackupDatabase();
+    try {
+      const index = db.transaction('snapshots', 'readonly').objectStore('snapshots').index('createdAt');
+      return await requestToPromise(index.getAll() as IDBRequest<StoredSnapshot[]>);
+    } finally {
+      db.close();
+    }
+  }
+
+  private async getSnapshot(id: string): Promise<StoredSnapshot> {
+    const db = await openBackupDatabase();
+    try {
+      const snapshot = await requestToPromise(db.transaction('snapshots', 'readonly').objectStore('snapshots').get(id) as IDBRequest<StoredSnapshot | undefined>);
+      if (!snapshot) throw new Error('This snapshot no longer exists');
+      return snapshot;
+    } finally {
+      db.close();
+    }
+  }
+
+  private async getHandle<T>(name: string): Promise<T | undefined> {
+    const db = await openBackupDatabase();
+    try {
+      return await requestToPromise(db.transaction('handles', 'readonly').objectStore('handles').get(name) as IDBRequest<T | undefined>);
+    } finally {
+      db.close();
+    }
+  }
+
+  private async putHandle(name: string, value: unknown): Promise<void> {
+    const db = await openBackupDatabase();
+    try {
+      await requestToPromise(db.transaction('handles', 'readwrite').objectStore('handles').put(value, name));
+    } finally {
+      db.close();
+    }
+  }
+
+  private async deleteHandle(name: string): Promise<void> {
+    const db = await openBackupDatabase();
+    try {
+      await requestToPromise(db.transaction('handles', 'readwrite').objectStore('handles').delete(name));
+    } finally {
+      db.close();
+    }
+  }
+
+  private saveSettings(settings: ScheduledBackupSettings): void {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+}
+
+function clampKeep(keep: number): number {
+  return Math.min(MAX_KEEP, Math.max(1, Math.round(keep) || DEFAULT_KEEP));
+}
+
+/**
+ * heijo-auto-backup-2026-01-05-0930.heijo, in local time so names sort by date
+ */
+function snapshotFileName(createdAt: string): string {
+  const date = new Date(createdAt);
+  const pad = (value: number) => ('0' + value).slice(-2);
+  return `${FOLDER_FILE_PREFIX}${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${BACKUP_FILE_EXTENSION}`;
+}
+
+export const scheduledBackups = ScheduledBackups.getInstance();
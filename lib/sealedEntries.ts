@@ -0,0 +1,269 @@
+/**
+ * Sealed entries
+ * An entry can be sealed with a second passphrase on top of the journal's
+ * own encryption. Its text and tags are replaced by ciphertext (and its edit
+ * history is deleted), so it only shows as a locked placeholder until the
+ * passphrase is entered. Search, CSV export and the like only see sealed
+ * entries that were opened in this session (see reveal).
+ * Opened entries live in memory only and are dropped on lock or app lock.
+ */
+
+import { useEffect, useState } from 'react';
+import type { JournalEntry, EntryUpdate } from './store';
+import {
+  PBKDF2_ITERATIONS,
+  MIN_PASSPHRASE_LENGTH,
+  WrongPassphraseError,
+  derivePassphraseKey,
+  bytesToBase64,
+  base64ToBytes
+} from './encryption';
+import { debugLog } from './logger';
+
+// Stored in JournalEntry.sealed (synced as-is: it is already ciphertext)
+export interface SealedEntryData {
+  salt: string; // Base64 PBKDF2 salt of the passphrase key
+  iterations: number;
+  iv: string; // Base64
+  data: string; // Base64 AES-GCM ciphertext of { content, tags }
+}
+
+export type SealedPayload = Required<EntryUpdate>;
+
+interface SealParams {
+  salt: string;
+  iterations: number;
+  check: SealedEntryData; // Encrypts CHECK_TEXT, to tell a wrong passphrase apart
+}
+
+export class SealedEntriesLockedError extends Error {
+  constructor() {
+    super('Sealed entries are locked. Enter the passphrase for sealed entries first.');
+    this.name = 'SealedEntriesLockedError';
+  }
+}
+
+const PARAMS_STORAGE_KEY = 'heijo-seal-params';
+const CHECK_TEXT = 'heijo-sealed-entries';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * True for a sealed entry that has not been opened: content and tags are empty
+ */
+export function isLockedSealedEntry(entry: JournalEntry): boolean {
+  return !!entry.sealed && entry.content === '' && entry.tags.length === 0;
+}
+
+class SealedEntries {
+  private static instance: SealedEntries;
+  private keys = new Map<string, CryptoKey>(); // By salt; entries sealed on other devices may use another one
+  private opened = new Map<string, { data: string; payload: SealedPayload }>(); // By entry id
+  private opening = new Set<string>(); // Being opened in the background by reveal
+  private unlocked = false;
+
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('heijo:app-locked', () => this.lock());
+    }
+  }
+
+  static getInstance(): SealedEntries {
+    if (!SealedEntries.instance) {
+      SealedEntries.instance = new SealedEntries();
+    }
+    return SealedEntries.instance;
+  }
+
+  /**
+   * False until a passphrase was chosen (or first entered) on this device
+   */
+  hasPassphrase(): boolean {
+    return this.getParams() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.unlocked;
+  }
+
+  /**
+   * Unlock with the passphrase for sealed entries and open every sealed
+   * entry given. On first use the passphrase is checked against an entry
+   * sealed on another device if there is one, otherwise it becomes the
+   * passphrase for this device.
+   */
+  async unlock(passphrase: string, entries: JournalEntry[]): Promise<void> {
+    const sealed = entries.filter(entry => entry.sealed);
+    let params = this.getParams();
+
+    if (params) {
+      const key = await this.getKey(passphrase, params.salt, params.iterations);
+      if (!(await this.tryDecrypt(key, params.check))) throw new WrongPassphraseError();
+    } else {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      }
+      const existing = sealed[0]?.sealed;
+      if (existing) {
+        const key = await this.getKey(passphrase, existing.salt, existing.iterations);
+        if (!(await this.tryDecrypt(key, existing))) throw new WrongPassphraseError();
+      }
+      const salt = existing?.salt ?? bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+      const iterations = existing?.iterations ?? PBKDF2_ITERATIONS;
+      const key = await this.getKey(passphrase, salt, iterations);
+      params = { salt, iterations, check: await encryptText(key, salt, iterations, CHECK_TEXT) };
+      localStorage.setItem(PARAMS_STORAGE_KEY, JSON.stringify(params));
+    }
+
+    // Derive the keys for salts used by other devices while the passphrase is at hand
+    const salts = new Map<string, number>();
+    sealed.forEach(entry => salts.set(entry.sealed!.salt, entry.sealed!.iterations));
+    for (const [salt, iterations] of Array.from(salts)) {
+      await this.getKey(passphrase, salt, iterations);
+    }
+
+    this.unlocked = true;
+    for (const entry of sealed) {
+      try {
+        await this.open(entry);
+      } catch (error) {
+        // Sealed with a different passphrase elsewhere; stays a placeholder
+        console.warn('Failed to open sealed entry:', error);
+      }
+    }
+    debugLog(`Unlocked sealed entries: ${this.opened.size} opened`);
+    this.notifyChanged();
+  }
+
+  /**
+   * Forget the passphrase keys and every opened entry
+   */
+  lock(): void {
+    if (!this.unlocked && this.opened.size === 0) return;
+    this.keys.clear();
+    this.opened.clear();
+    this.opening.clear();
+    this.unlocked = false;
+    this.notifyChanged();
+  }
+
+  /**
+   * Encrypt an entry's text and tags for JournalEntry.sealed
+   */
+  async seal(entry: JournalEntry): Promise<SealedEntryData> {
+    const params = this.getParams();
+    const key = params && this.keys.get(params.salt);
+    if (!this.unlocked || !params || !key) throw new SealedEntriesLockedError();
+    if (entry.sealed) throw new Error('Entry is already sealed');
+    if (entry.content.trim() === '') throw new Error('Nothing to seal');
+
+    const payload: SealedPayload = { content: entry.content, tags: entry.tags };
+    const sealed = await encryptText(key, params.salt, params.iterations, JSON.stringify(payload));
+    this.opened.set(entry.id, { data: sealed.data, payload });
+    return sealed;
+  }
+
+  /**
+   * Decrypt a sealed entry's text and tags
+   */
+  async open(entry: JournalEntry): Promise<SealedPayload> {
+    if (!entry.sealed) return { content: entry.content, tags: entry.tags };
+    const cached = this.opened.get(entry.id);
+    if (cached && cached.data === entry.sealed.data) return cached.payload;
+
+    const key = this.keys.get(entry.sealed.salt);
+    if (!this.unlocked || !key) throw new SealedEntriesLockedError();
+    const text = await this.tryDecrypt(key, entry.sealed);
+    if (text === null) throw new WrongPassphraseError();
+
+    const payload: SealedPayload = JSON.parse(text);
+    this.opened.set(entry.id, { data: entry.sealed.data, payload });
+    return payload;
+  }
+
+  /**
+   * The entry with its sealed text filled in if it was opened this session,
+   * otherwise the entry as is (a locked placeholder). Entries sealed since the
+   * unlock are opened in the background and announced with
+   * 'heijo:sealed-entries-changed'.
+   */
+  reveal<T extends JournalEntry>(entry: T): T {
+    if (!entry.sealed) return entry;
+    const cached = this.opened.get(entry.id);
+    if (cached && cached.data === entry.sealed.data) {
+      return { ...entry, ...cached.payload };
+    }
+
+    if (this.unlocked && this.keys.has(entry.sealed.salt) && !this.opening.has(entry.id)) {
+      // Left in opening on failure so it is not retried on every render
+      this.opening.add(entry.id);
+      this.open(entry)
+        .then(() => {
+          this.opening.delete(entry.id);
+          this.notifyChanged();
+        })
+        .catch(error => console.warn('Failed to open sealed entry:', error));
+    }
+    return entry;
+  }
+
+  private getParams(): SealParams | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const stored = localStorage.getItem(PARAMS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to read sealed entry settings:', error);
+      return null;
+    }
+  }
+
+  private async getKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const key = await derivePassphraseKey(passphrase, base64ToBytes(salt), iterations, ['encrypt', 'decrypt']);
+    this.keys.set(salt, key);
+    return key;
+  }
+
+  private async tryDecrypt(key: CryptoKey, sealed: SealedEntryData): Promise<string | null> {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(sealed.iv) },
+        key,
+        base64ToBytes(sealed.data)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      return null;
+    }
+  }
+
+  private notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:sealed-entries-changed'));
+    }
+  }
+}
+
+async function encryptText(key: CryptoKey, salt: string, iterations: number, text: string): Promise<SealedEntryData> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { salt, iterations, iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+export const sealedEntries = SealedEntries.getInstance();
+
+/**
+ * sealedEntries, re-rendering the component whenever sealed entries are
+ * unlocked, locked or opened
+ */
+export function useSealedEntries(): SealedEntries {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const update = () => setVersion(version => version + 1);
+    window.addEventListener('heijo:sealed-entries-changed', update);
+    return () => window.removeEventListener('heijo:sealed-entries-changed', update);
+  }, []);
+
+  return sealedEntries;
+}
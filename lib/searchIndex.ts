@@ -0,0 +1,352 @@
+/**
+ * Full-text search index for journal entries
+ * Inverted index from stemmed terms to entry positions, with prefix and
+ * phrase matching, BM25 ranking and match highlighting. Pure and in-memory:
+ * see entrySearch for how it is kept up to date and searchQuery for the
+ * syntax that produces SearchClauses.
+ */
+
+import { stem } from './stemmers';
+
+export interface Token {
+  term: string; // Stemmed, used for matching
+  surface: string; // Normalized word as written, used for prefix matching
+  start: number;
+  end: number;
+  position: number;
+}
+
+export interface SearchClause {
+  kind: 'term' | 'phrase';
+  text: string;
+  prefix?: boolean; // Last word matches any word starting with it
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Unicode property escapes need the 'u' flag, which the es5 compile target rejects in literals
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}\\p{M}]+(?:['’][\\p{L}\\p{M}]+)*", 'gu');
+const CJK_PATTERN = new RegExp('[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]', 'u');
+const LATIN_PATTERN = new RegExp('^[\\p{Script=Latin}\\p{N}\\p{M}]+$', 'u');
+const COMBINING_MARKS = new RegExp('\\p{M}', 'gu');
+
+// BM25 parameters and boosts
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BOOST = 1.5;
+const PREFIX_WEIGHT = 0.8;
+
+function normalizeWord(word: string): string {
+  const lower = word.toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+  // Fold accents for Latin script only; Devanagari vowel signs carry meaning
+  return LATIN_PATTERN.test(lower)
+    ? lower.normalize('NFKD').replace(COMBINING_MARKS, '')
+    : lower.normalize('NFC');
+}
+
+/**
+ * Japanese and Chinese have no spaces, so runs are indexed as overlapping
+ * character bigrams. A query for 東京 then matches 東京都 without a dictionary.
+ */
+function pushCjkTokens(run: string, offset: number, tokens: Token[]): void {
+  const chars = Array.from(run);
+  const starts: number[] = [];
+  let index = 0;
+  chars.forEach(char => {
+    starts.push(index);
+    index += char.length;
+  });
+
+  const push = (from: number, to: number) => {
+    const end = to < chars.length ? starts[to] : run.length;
+    const surface = run.slice(starts[from], end).toLowerCase();
+    tokens.push({ term: surface, surface, start: offset + starts[from], end: offset + end, position: tokens.length });
+  };
+
+  if (chars.length === 1) {
+    push(0, 1);
+    return;
+  }
+  for (let i = 0; i < chars.length - 1; i++) {
+    push(i, i + 2);
+  }
+}
+
+export function tokenize(text: string, language: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(WORD_PATTERN.source, WORD_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0];
+    const start = match.index;
+    if (CJK_PATTERN.test(word)) {
+      pushCjkTokens(word, start, tokens);
+      continue;
+    }
+    const surface = normalizeWord(word);
+    if (!surface) continue;
+    tokens.push({ term: stem(surface, language), surface, start, end: start + word.length, position: tokens.length });
+  }
+  return tokens;
+}
+
+// One word of a clause: the index terms that satisfy it, with their weight
+type Step = Map<string, number>;
+
+export class SearchIndex {
+  private postings = new Map<string, Map<string, number[]>>();
+  private surfaces = new Map<string, Set<string>>();
+  private docTerms = new Map<string, string[]>();
+  private docSurfaces = new Map<string, string[]>();
+  private docLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(readonly language: string) {}
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  has(id: string): boolean {
+    return this.docLengths.has(id);
+  }
+
+  add(id: string, text: string): void {
+    if (this.has(id)) this.remove(id);
+
+    const tokens = tokenize(text, this.language);
+    tokens.forEach(token => {
+      let docs = this.postings.get(token.term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(token.term, docs);
+      }
+      const positions = docs.get(id);
+      if (positions) positions.push(token.position);
+      else docs.set(id, [token.position]);
+
+      let terms = this.surfaces.get(token.surface);
+      if (!terms) {
+        terms = new Set();
+        this.surfaces.set(token.surface, terms);
+      }
+      terms.add(token.term);
+    });
+
+    this.docTerms.set(id, Array.from(new Set(tokens.map(token => token.term))));
+    this.docSurfaces.set(id, Array.from(new Set(tokens.map(token => token.surface))));
+    this.docLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    terms.forEach(term => {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) this.postings.delete(term);
+    });
+    // Surfaces only lead to terms some entry still has
+    this.docSurfaces.get(id)?.forEach(surface => {
+      const surfaceTerms = this.surfaces.get(surface);
+      surfaceTerms?.forEach(term => {
+        if (!this.postings.has(term)) surfaceTerms.delete(term);
+      });
+      if (surfaceTerms && surfaceTerms.size === 0) this.surfaces.delete(surface);
+    });
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docTerms.delete(id);
+    this.docSurfaces.delete(id);
+    this.docLengths.delete(id);
+  }
+
+  /**
+   * Entries matching every clause, best first
+   */
+  search(clauses: SearchClause[]): SearchHit[] {
+    if (clauses.length === 0 || this.size === 0) return [];
+
+    // Clauses with no indexable words (e.g. punctuation) don't constrain the result
+    const compiled = clauses.map(clause => this.compile(clause)).filter(steps => steps.length > 0);
+    if (compiled.length === 0) return [];
+    let scores: Map<string, number> | null = null;
+
+    for (const steps of compiled) {
+      const clauseScores = this.scoreClause(steps, scores ? new Set(scores.keys()) : null);
+      if (scores) {
+        const merged = new Map<string, number>();
+        clauseScores.forEach((score, id) => {
+          const previous = scores!.get(id);
+          if (previous !== undefined) merged.set(id, previous + score);
+        });
+        scores = merged;
+      } else {
+        scores = clauseScores;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private compile(clause: SearchClause): Step[] {
+    const tokens = tokenize(clause.text, this.language);
+    return tokens.map((token, i) => {
+      const step: Step = new Map([[token.term, 1]]);
+      const isPrefix = clause.kind === 'term' && clause.prefix && i === tokens.length - 1;
+      if (isPrefix) {
+        this.surfaces.forEach((terms, surface) => {
+          if (surface.startsWith(token.surface)) {
+            terms.forEach(term => {
+              if (!step.has(term)) step.set(term, PREFIX_WEIGHT);
+            });
+          }
+        });
+      }
+      return step;
+    });
+  }
+
+  private scoreClause(steps: Step[], candidates: Set<string> | null): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (steps.length === 0) return scores;
+
+    const docCount = this.size;
+    const averageLength = this.totalLength / docCount || 1;
+
+    const stepScore = (step: Step, id: string): number => {
+      let best = 0;
+      step.forEach((weight, term) => {
+        const docs = this.postings.get(term);
+        const positions = docs?.get(id);
+        if (!docs || !positions) return;
+        const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+        const length = this.docLengths.get(id) || 0;
+        const tf = positions.length;
+        const score = weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+        best = Math.max(best, score);
+      });
+      return best;
+    };
+
+    const firstDocs = new Set<string>();
+    steps[0].forEach((_weight, term) => {
+      this.postings.get(term)?.forEach((_positions, id) => {
+        if (!candidates || candidates.has(id)) firstDocs.add(id);
+      });
+    });
+
+    firstDocs.forEach(id => {
+      if (steps.length > 1 && !this.hasSequence(steps, id)) return;
+      const total = steps.reduce((sum, step) => sum + stepScore(step, id), 0);
+      scores.set(id, steps.length > 1 ? total * PHRASE_BOOST : total);
+    });
+    return scores;
+  }
+
+  private positionsFor(step: Step, id: string): Set<number> {
+    const positions = new Set<number>();
+    step.forEach((_weight, term) => {
+      this.postings.get(term)?.get(id)?.forEach(position => positions.add(position));
+    });
+    return positions;
+  }
+
+  // Words of a phrase must appear at consecutive positions
+  private hasSequence(steps: Step[], id: string): boolean {
+    const stepPositions = steps.map(step => this.positionsFor(step, id));
+    return Array.from(stepPositions[0]).some(start =>
+      stepPositions.every((positions, offset) => positions.has(start + offset))
+    );
+  }
+}
+
+/**
+ * Character ranges of `text` matched by the clauses, merged and in order
+ */
+function findMatchRanges(text: string, clauses: SearchClause[], language: string): Array<[number, number]> {
+  const tokens = tokenize(text, language);
+  const ranges: Array<[number, number]> = [];
+
+  clauses.forEach(clause => {
+    const queryTokens = tokenize(clause.text, language);
+    if (queryTokens.length === 0) return;
+    const matchesAt = (token: Token, i: number) => {
+      const query = queryTokens[i];
+      const isPrefix = clause.kind === 'term' && clause.prefix && i === queryTokens.length - 1;
+      return token.term === query.term || (isPrefix === true && token.surface.startsWith(query.surface));
+    };
+
+    for (let start = 0; start + queryTokens.length <= tokens.length; start++) {
+      if (queryTokens.every((_query, i) => matchesAt(tokens[start + i], i))) {
+        ranges.push([tokens[start].start, tokens[start + queryTokens.length - 1].end]);
+      }
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  });
+  return merged;
+}
+
+function toSegments(text: string, ranges: Array<[number, number]>, from: number, to: number): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = from;
+  ranges.forEach(([start, end]) => {
+    const clippedStart = Math.max(start, from);
+    const clippedEnd = Math.min(end, to);
+    if (clippedStart >= clippedEnd) return;
+    if (clippedStart > cursor) segments.push({ text: text.slice(cursor, clippedStart), match: false });
+    segments.push({ text: text.slice(clippedStart, clippedEnd), match: true });
+    cursor = clippedEnd;
+  });
+  if (cursor < to) segments.push({ text: text.slice(cursor, to), match: false });
+  return segments;
+}
+
+/**
+ * Whether a single clause matches `text`, without building an index
+ */
+export function matchesClause(text: string, clause: SearchClause, language: string): boolean {
+  return findMatchRanges(text, [clause], language).length > 0;
+}
+
+export function highlightMatches(text: string, clauses: SearchClause[], language: string): HighlightSegment[] {
+  return toSegments(text, findMatchRanges(text, clauses, language), 0, text.length);
+}
+
+/**
+ * A window of roughly `maxLength` characters around the first match
+ */
+export function highlightSnippet(text: string, clauses: SearchClause[], language: string, maxLength = 160): HighlightSegment[] {
+  const ranges = findMatchRanges(text, clauses, language);
+  if (text.length <= maxLength) return toSegments(text, ranges, 0, text.length);
+
+  const firstMatch = ranges[0]?.[0] ?? 0;
+  let from = Math.max(0, firstMatch - Math.floor(maxLength / 4));
+  const space = text.lastIndexOf(' ', from);
+  if (from > 0 && space !== -1 && firstMatch - space < maxLength / 2) from = space + 1;
+  const to = Math.min(text.length, from + maxLength);
+
+  const segments = toSegments(text, ranges, from, to);
+  if (from > 0) segments.unshift({ text: '…', match: false });
+  if (to < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
@@ -0,0 +1,200 @@
+/**
+ * Search query language for the history drawer
+ * `tag:gratitude source:voice after:2026-01-01 "exact phrase" -work` parses
+ * into a flat list of nodes that must all match (negated nodes must not).
+ * Words and phrases go to the full-text index; fields are checked against
+ * the JournalEntry itself.
+ */
+
+import { JournalEntry } from './store';
+import { SearchClause, matchesClause } from './searchIndex';
+
+export type DateFilter = 'after' | 'before' | 'on';
+
+export type SearchNode =
+  | { type: 'term'; text: string; prefix: boolean; negated: boolean }
+  | { type: 'phrase'; text: string; negated: boolean }
+  | { type: 'tag'; tag: string; negated: boolean }
+  | { type: 'source'; source: JournalEntry['source']; negated: boolean }
+  | { type: 'date'; filter: DateFilter; date: string; negated: boolean }; // date is YYYY-MM-DD, local time
+
+export interface SearchQuery {
+  nodes: SearchNode[];
+}
+
+/**
+ * Thrown by parseSearchQuery; `position` is the offset in the input the
+ * message refers to, so the UI can point at it.
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const FIELDS = ['tag', 'source', 'after', 'before', 'on'];
+const FIELD_LIST = 'tag:, source:, after:, before: or on:';
+const SOURCES: Array<JournalEntry['source']> = ['text', 'voice'];
+const FIELD_PATTERN = /^([a-zA-Z]+):/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function isSpace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char);
+}
+
+// Local midnight of a YYYY-MM-DD day, or null if it is not a real date
+function parseDay(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): SearchQuery {
+    const nodes: SearchNode[] = [];
+    while (this.skipSpace()) {
+      const node = this.parseNode();
+      if (node) nodes.push(node);
+    }
+    return { nodes };
+  }
+
+  private skipSpace(): boolean {
+    while (isSpace(this.input[this.pos])) this.pos++;
+    return this.pos < this.input.length;
+  }
+
+  private parseNode(): SearchNode | null {
+    const start = this.pos;
+    const negated = this.input[this.pos] === '-';
+    if (negated) {
+      this.pos++;
+      if (this.pos >= this.input.length || isSpace(this.input[this.pos])) {
+        throw new SearchQueryError('Nothing to exclude after "-". Write -word, -"a phrase" or -tag:name', start);
+      }
+    }
+
+    if (this.input[this.pos] === '"') {
+      const text = this.readQuoted();
+      if (!text) throw new SearchQueryError('Empty phrase "". Put some words between the quotes', start);
+      return { type: 'phrase', text, negated };
+    }
+
+    const field = FIELD_PATTERN.exec(this.input.slice(this.pos));
+    if (field) {
+      const name = field[1].toLowerCase();
+      const valueStart = this.pos + field[0].length;
+      const hasValue = valueStart < this.input.length && !isSpace(this.input[valueStart]);
+      if (FIELDS.indexOf(name) !== -1) {
+        this.pos = valueStart;
+        if (!hasValue) throw new SearchQueryError(`Missing value after ${name}:`, start);
+        return this.parseField(name, negated, valueStart);
+      }
+      if (hasValue) {
+        throw new SearchQueryError(`Unknown filter "${field[1]}:". Use ${FIELD_LIST}, or put the text in quotes`, start);
+      }
+    }
+
+    const word = this.readWord();
+    const explicitPrefix = word.endsWith('*');
+    const text = explicitPrefix ? word.slice(0, -1) : word;
+    if (!text) return null;
+    // The word still being typed matches as a prefix
+    return { type: 'term', text, prefix: explicitPrefix || this.pos === this.input.length, negated };
+  }
+
+  private parseField(name: string, negated: boolean, valueStart: number): SearchNode {
+    const value = this.input[this.pos] === '"' ? this.readQuoted() : this.readWord();
+    if (!value) throw new SearchQueryError(`Missing value after ${name}:`, valueStart);
+
+    switch (name) {
+      case 'tag':
+        return { type: 'tag', tag: value, negated };
+      case 'source': {
+        const source = value.toLowerCase() as JournalEntry['source'];
+        if (SOURCES.indexOf(source) === -1) {
+          throw new SearchQueryError(`Unknown source "${value}". Use source:text or source:voice`, valueStart);
+        }
+        return { type: 'source', source, negated };
+      }
+      default:
+        if (!parseDay(value)) {
+          throw new SearchQueryError(`Invalid date "${value}" in ${name}:. Use YYYY-MM-DD, e.g. ${name}:2026-01-31`, valueStart);
+        }
+        return { type: 'date', filter: name as DateFilter, date: value, negated };
+    }
+  }
+
+  private readQuoted(): string {
+    const open = this.pos;
+    const close = this.input.indexOf('"', open + 1);
+    if (close === -1) {
+      throw new SearchQueryError('Missing closing quote (")', open);
+    }
+    this.pos = close + 1;
+    return this.input.slice(open + 1, close).trim();
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (this.pos < this.input.length && !isSpace(this.input[this.pos])) this.pos++;
+    return this.input.slice(start, this.pos);
+  }
+}
+
+/**
+ * Parse the drawer search box. Throws SearchQueryError with a message meant
+ * for the user.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  return new Parser(input).parse();
+}
+
+/**
+ * Positive words and phrases, for the full-text index and highlighting
+ */
+export function getTextClauses(query: SearchQuery): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  query.nodes.forEach(node => {
+    if (node.negated) return;
+    if (node.type === 'term') clauses.push({ kind: 'term', text: node.text, prefix: node.prefix });
+    if (node.type === 'phrase') clauses.push({ kind: 'phrase', text: node.text });
+  });
+  return clauses;
+}
+
+function matchesNode(entry: JournalEntry, node: SearchNode, language: string): boolean {
+  switch (node.type) {
+    case 'term':
+      return matchesClause(entry.content, { kind: 'term', text: node.text, prefix: node.prefix }, language);
+    case 'phrase':
+      return matchesClause(entry.content, { kind: 'phrase', text: node.text }, language);
+    case 'tag':
+      return entry.tags.some(tag => tag.toLowerCase() === node.tag.toLowerCase());
+    case 'source':
+      return entry.source === node.source;
+    case 'date': {
+      const day = parseDay(node.date)!;
+      const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+      const created = new Date(entry.created_at).getTime();
+      if (node.filter === 'after') return created >= nextDay.getTime();
+      if (node.filter === 'before') return created < day.getTime();
+      return created >= day.getTime() && created < nextDay.getTime();
+    }
+  }
+}
+
+/**
+ * Whether an entry satisfies every node of the query
+ */
+export function matchesSearchQuery(entry: JournalEntry, query: SearchQuery, language: string): boolean {
+  return query.nodes.every(node => matchesNode(entry, node, language) !== node.negated);
+}
@@ -1,36 +1,116 @@
 /**
  * Secure local storage with encryption and privacy controls
  * Implements local-first data storage with AES-GCM encryption
+ *
+ * Each entry is encrypted with its own key, stored wrapped with the device
+ * data key in a separate 'entryKeys' store. Deleting an entry destroys its
+ * key (crypto-shredding), so copies of the ciphertext left in backups or
+ * caches can no longer be decrypted, and issues a DeletionReceipt.
+ *
+ * Voice recordings kept with entries live here too, encrypted the same way
+ * with a key per recording. Their metadata ('recordings') is kept apart from
+ * the audio ('recordingAudio') so listing and metrics do not read the audio.
  */
 
-import { encryptionManager, EncryptedData, EncryptionManager } from './encryption';
-import { JournalEntry } from './store';
+import { encryptionManager, EncryptedData, EncryptedBytes, EncryptionManager, ENTRY_KEY_ID } from './encryption';
+import type { JournalEntry } from './store';
+import type { SttWord } from './stt/types';
+import { DeletionReceipt, createDeletionReceipt, fingerprint } from './deletionReceipt';
 
 export interface SecureStorageConfig {
   encryptData: boolean;
   autoDeleteAfterDays?: number;
   maxStorageSize?: number; // in MB
+  maxRecordingStorage?: number; // in bytes
 }
 
 export interface StorageMetrics {
   totalEntries: number;
-  totalSize: number; // in bytes
+  totalSize: number; // in bytes, entries only
   oldestEntry?: Date;
   newestEntry?: Date;
+  recordingCount: number;
+  recordingSize: number; // in bytes
+  recordingQuota: number; // in bytes; new recordings are refused beyond it
+}
+
+// A voice recording kept with an entry (the audio itself is read separately)
+export interface EntryRecording {
+  id: string;
+  entryId: string;
+  mimeType: string;
+  durationMs: number;
+  size: number; // in bytes, before encryption
+  createdAt: string;
+}
+
+interface StoredRecording extends EntryRecording {
+  wrappedKey: EncryptedData; // The recording's key, wrapped with a device data key
+  words?: EncryptedData; // Word timing of the transcript (SttWord[] as JSON), encrypted with the recording's key
+}
+
+export class RecordingQuotaError extends Error {
+  constructor() {
+    super('There is no room for more voice recordings. Delete some recordings to keep new ones.');
+    this.name = 'RecordingQuotaError';
+  }
+}
+
+export interface ReencryptionProgress {
+  targetKeyId: string;
+  processed: number;
+  total: number;
+  done: boolean;
+  retiredKeyIds: string[];
+}
+
+// Persisted after every batch so an interrupted job resumes where it stopped
+export interface ReencryptionCheckpoint {
+  targetKeyId: string;
+  lastId?: string;
+  processed: number;
+  startedAt: string;
+}
+
+const REENCRYPTION_BATCH_SIZE = 25;
+const DB_NAME = 'HeijoSecureStorage';
+const DB_VERSION = 3; // v2 adds the 'entryKeys' store, v3 'recordings' and 'recordingAudio'
+const DEFAULT_RECORDING_QUOTA = 200 * 1024 * 1024;
+
+interface ShredResult {
+  entryIds: string[];
+  entryKeyFingerprints: string[];
+  ciphertexts: Array<{ id: string; data: EncryptedData }>; // As stored before the shredding
+  recordingIds: string[];
 }
 
 class SecureLocalStorage {
   private config: SecureStorageConfig;
   private readonly STORAGE_KEY = 'heijo-secure-entries';
   private readonly METADATA_KEY = 'heijo-storage-metadata';
+  private readonly REENCRYPTION_KEY = 'heijo-reencryption-job';
   private readonly MAX_STORAGE_SIZE = 50 * 1024 * 1024; // 50MB default
+  private reencryption: Promise<ReencryptionProgress> | null = null;
 
   constructor(config: SecureStorageConfig = { encryptData: true }) {
     this.config = {
       autoDeleteAfterDays: 365, // 1 year default
       maxStorageSize: this.MAX_STORAGE_SIZE,
+      maxRecordingStorage: DEFAULT_RECORDING_QUOTA,
       ...config
     };
+
+    if (typeof window !== 'undefined') {
+      // A locked keyring stops the job; pick it up again once unlocked
+      window.addEventListener('heijo:encryption-lock-changed', (event: Event) => {
+        if (!(event as CustomEvent<{ locked: boolean }>).detail?.locked) {
+          this.resumeReencryptionInBackground();
+        }
+      });
+      if (this.getReencryptionCheckpoint()) {
+        setTimeout(() => this.resumeReencryptionInBackground(), 0);
+      }
+    }
   }
 
   /**
@@ -48,8 +128,9 @@ class SecureLocalStorage {
       const serializedEntry = JSON.stringify(newEntry);
       
       if (this.config.encryptData && EncryptionManager.isSupported()) {
-        const encryptedData = await encryptionManager.encrypt(serializedEntry);
-        await this.storeEncryptedEntry(newEntry.id, encryptedData);
+        const { key, wrappedKey } = await encryptionManager.createEntryKey();
+        const encryptedData = await encryptionManager.encryptWithEntryKey(key, serializedEntry);
+        await this.storeEncryptedEntry(newEntry.id, encryptedData, wrappedKey);
       } else {
         await this.storePlainEntry(newEntry.id, serializedEntry);
       }
@@ -105,7 +186,7 @@ class SecureLocalStorage {
         const encryptedData = await this.getEncryptedEntry(id);
         if (!encryptedData) return null;
         
-        const decryptedJson = await encryptionManager.decrypt(encryptedData);
+        const decryptedJson = await this.decryptEntry(id, encryptedData);
         return JSON.parse(decryptedJson);
       } else {
         const plainData = await this.getPlainEntry(id);
@@ -119,18 +200,31 @@ class SecureLocalStorage {
   }
 
   /**
-   * Delete a journal entry
+   * Delete a journal entry, destroying its key
    */
-  async deleteEntry(id: string): Promise<void> {
+  async deleteEntry(id: string): Promise<DeletionReceipt> {
     try {
+      let receipt: DeletionReceipt;
       if (this.config.encryptData && EncryptionManager.isSupported()) {
-        await this.deleteEncryptedEntry(id);
+        const shredded = await this.shredEntries([id]);
+        const verified = await this.verifyShredded(shredded);
+        receipt = await createDeletionReceipt({
+          scope: 'entry',
+          method: 'crypto-shredding',
+          entryIds: [id],
+          entryKeyFingerprints: shredded.entryKeyFingerprints,
+          dataKeyIds: [],
+          verified
+        });
       } else {
         await this.deletePlainEntry(id);
+        const verified = (await this.getPlainEntry(id)) === null;
+        receipt = await createDeletionReceipt({ scope: 'entry', method: 'removal', entryIds: [id], entryKeyFingerprints: [], dataKeyIds: [], verified });
       }
 
       // Update metadata
       await this.updateMetadata();
+      return receipt;
     } catch (error) {
       console.error(`Failed to delete entry ${id}:`, error);
       throw new Error('Failed to delete journal entry');
@@ -145,20 +239,49 @@ class SecureLocalStorage {
   }
 
   /**
-   * Clear all data
+   * Clear all data. Entry keys are destroyed first, then the device data
+   * keys that wrapped them. Journal entries the caller already deleted
+   * outright (see gdprManager.deleteAllData) are put on the receipt too.
    */
-  async clearAllData(): Promise<void> {
+  async clearAllData(journal: { entryIds: string[]; verified: boolean } = { entryIds: [], verified: true }): Promise<DeletionReceipt> {
     try {
-      if (this.config.encryptData && EncryptionManager.isSupported()) {
+      const encrypted = this.config.encryptData && EncryptionManager.isSupported();
+      const entryIds = await this.getAllEntryIds();
+      let entryKeyFingerprints: string[] = [];
+      let shredVerified = true;
+      let dataKeyIds: string[] = [];
+      if (encrypted) {
+        const shredded = await this.shredEntries(entryIds);
+        entryKeyFingerprints = shredded.entryKeyFingerprints;
+        dataKeyIds = await encryptionManager.getKeyIds();
         await encryptionManager.clearAllData();
+        // Entries from before per-entry keys are only unreadable once the data keys are gone
+        shredVerified = await this.verifyShredded(shredded);
+      } else {
+        for (const id of entryIds) {
+          await this.deletePlainEntry(id);
+        }
       }
+      localStorage.removeItem(this.REENCRYPTION_KEY);
+      localStorage.removeItem(this.METADATA_KEY);
       
       // Clear IndexedDB
-      const request = indexedDB.deleteDatabase('HeijoSecureStorage');
+      const request = indexedDB.deleteDatabase(DB_NAME);
       await new Promise<void>((resolve, reject) => {
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       });
+
+      const verified = journal.verified && shredVerified && (!encrypted || (await encryptionManager.getKeyIds()).length === 0);
+      return await createDeletionReceipt({
+        scope: 'all',
+        method: encrypted ? 'crypto-shredding' : 'removal',
+        entryIds,
+        entryKeyFingerprints,
+        dataKeyIds,
+        removedEntryIds: journal.entryIds,
+        verified
+      });
     } catch (error) {
       console.error('Failed to clear all data:', error);
       throw new Error('Failed to clear journal data');
@@ -171,100 +294,602 @@ class SecureLocalStorage {
   async getStorageMetrics(): Promise<StorageMetrics> {
     const entries = await this.getEntries();
     const totalSize = await this.calculateStorageSize();
+    const recordings = await this.getAllRecordings();
     
     return {
       totalEntries: entries.length,
       totalSize,
       oldestEntry: entries.length > 0 ? new Date(entries[entries.length - 1].created_at) : undefined,
-      newestEntry: entries.length > 0 ? new Date(entries[0].created_at) : undefined
+      newestEntry: entries.length > 0 ? new Date(entries[0].created_at) : undefined,
+      recordingCount: recordings.length,
+      recordingSize: recordings.reduce((size, recording) => size + recording.size, 0),
+      recordingQuota: this.config.maxRecordingStorage || DEFAULT_RECORDING_QUOTA
     };
   }
 
   /**
-   * Check if storage is available
+   * Keep the audio of a voice entry, encrypted with its own key, with the
+   * word timing of its transcript if the provider gave one. Only available
+   * with encryption; throws RecordingQuotaError when the audio does not fit
+   * in the recording quota.
    */
-  static isSupported(): boolean {
-    return typeof window !== 'undefined' && 'indexedDB' in window;
+  async saveRecording(entryId: string, audio: Blob, durationMs: number, words?: SttWord[]): Promise<EntryRecording> {
+    if (!this.config.encryptData || !EncryptionManager.isSupported()) {
+      throw new Error('Voice recordings are only kept when encryption is available');
+    }
+    const recordingSize = (await this.getAllRecordings()).reduce((size, recording) => size + recording.size, 0);
+    if (recordingSize + audio.size > (this.config.maxRecordingStorage || DEFAULT_RECORDING_QUOTA)) {
+      throw new RecordingQuotaError();
+    }
+
+    const { key, wrappedKey } = await encryptionManager.createEntryKey();
+    const encrypted = await encryptionManager.encryptBytesWithEntryKey(key, await this.readBlob(audio));
+    const encryptedWords = words && words.length > 0
+      ? await encryptionManager.encryptWithEntryKey(key, JSON.stringify(words))
+      : undefined;
+    const recording: EntryRecording = {
+      id: crypto.randomUUID(),
+      entryId,
+      mimeType: audio.type || 'audio/webm',
+      durationMs: Math.round(durationMs),
+      size: audio.size,
+      createdAt: new Date().toISOString()
+    };
+
+    const db = await this.openEntriesDatabase();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['recordings', 'recordingAudio'], 'readwrite');
+        transaction.objectStore('recordings').put({ ...recording, wrappedKey, words: encryptedWords } as StoredRecording);
+        transaction.objectStore('recordingAudio').put({ id: recording.id, ...encrypted });
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+    this.notifyRecordingsChanged();
+    return recording;
   }
 
-  // Private methods for encrypted storage
-  private async storeEncryptedEntry(id: string, encryptedData: EncryptedData): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open('HeijoSecureStorage', 1);
-      
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains('entries')) {
-          db.createObjectStore('entries', { keyPath: 'id' });
-        }
-      };
+  /**
+   * Recordings kept with an entry, oldest first
+   */
+  async getRecordings(entryId: string): Promise<EntryRecording[]> {
+    const recordings = await this.getAllRecordings();
+    return recordings
+      .filter(recording => recording.entryId === entryId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(({ wrappedKey, words, ...recording }) => recording);
+  }
 
-      request.onsuccess = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const transaction = db.transaction(['entries'], 'readwrite');
-        const store = transaction.objectStore('entries');
-        
-        store.put({
-          id,
-          ...encryptedData,
-          createdAt: Date.now()
+  /**
+   * The word timing of a recording's transcript; empty when the provider
+   * gave none or the recording was deleted
+   */
+  async getRecordingWords(id: string): Promise<SttWord[]> {
+    const db = await this.openEntriesDatabase();
+    let stored: StoredRecording | undefined;
+    try {
+      stored = await new Promise<StoredRecording | undefined>((resolve, reject) => {
+        const request = db.transaction(['recordings'], 'readonly').objectStore('recordings').get(id);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+    if (!stored || !stored.words) return [];
+
+    const key = await encryptionManager.unwrapEntryKey(stored.wrappedKey);
+    return JSON.parse(await encryptionManager.decryptWithEntryKey(key, stored.words));
+  }
+
+  /**
+   * Decrypt a recording's audio; null when it was deleted
+   */
+  async getRecordingAudio(id: string): Promise<Blob | null> {
+    const db = await this.openEntriesDatabase();
+    let stored: StoredRecording | undefined;
+    let audio: EncryptedBytes | undefined;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['recordings', 'recordingAudio'], 'readonly');
+        const recordingRequest = transaction.objectStore('recordings').get(id);
+        const audioRequest = transaction.objectStore('recordingAudio').get(id);
+        transaction.oncomplete = () => {
+          stored = recordingRequest.result;
+          audio = audioRequest.result;
+          resolve();
+        };
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+    if (!stored || !audio) return null;
+
+    const key = await encryptionManager.unwrapEntryKey(stored.wrappedKey);
+    const data = await encryptionManager.decryptBytesWithEntryKey(key, audio);
+    return new Blob([data], { type: stored.mimeType });
+  }
+
+  /**
+   * Delete recordings by id; the entries' text is kept. Returns how many
+   * were deleted.
+   */
+  async deleteRecordings(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const db = await this.openEntriesDatabase();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['recordings', 'recordingAudio'], 'readwrite');
+        ids.forEach(id => {
+          transaction.objectStore('recordings').delete(id);
+          transaction.objectStore('recordingAudio').delete(id);
         });
-        
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
-      };
-      
-      request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+    this.notifyRecordingsChanged();
+    return ids.length;
+  }
+
+  /**
+   * Delete the recordings of the given entries, e.g. when they are purged
+   */
+  async deleteRecordingsForEntries(entryIds: string[]): Promise<number> {
+    const recordings = await this.getAllRecordings();
+    return this.deleteRecordings(
+      recordings.filter(recording => entryIds.indexOf(recording.entryId) !== -1).map(recording => recording.id)
+    );
+  }
+
+  async deleteAllRecordings(): Promise<number> {
+    const recordings = await this.getAllRecordings();
+    return this.deleteRecordings(recordings.map(recording => recording.id));
+  }
+
+  /**
+   * Rotate to a new encryption key and re-encrypt every entry with it.
+   * Old keys are retired once nothing is encrypted under them any more.
+   */
+  async rotateKey(): Promise<ReencryptionProgress> {
+    if (!this.config.encryptData || !EncryptionManager.isSupported()) {
+      throw new Error('Encryption is not enabled');
+    }
+    if (this.reencryption || this.getReencryptionCheckpoint()) {
+      throw new Error('Key rotation is already in progress');
+    }
+
+    const targetKeyId = await encryptionManager.rotateKey();
+    this.saveReencryptionCheckpoint({ targetKeyId, processed: 0, startedAt: new Date().toISOString() });
+    const progress = await this.resumeReencryption();
+    return progress!;
+  }
+
+  /**
+   * Continue an interrupted re-encryption job; null when there is none
+   */
+  async resumeReencryption(): Promise<ReencryptionProgress | null> {
+    if (this.reencryption) return this.reencryption;
+
+    const checkpoint = this.getReencryptionCheckpoint();
+    if (!checkpoint) return null;
+
+    this.reencryption = this.runReencryption(checkpoint).finally(() => {
+      this.reencryption = null;
     });
+    return this.reencryption;
   }
 
-  private async getEncryptedEntry(id: string): Promise<EncryptedData | null> {
+  getReencryptionCheckpoint(): ReencryptionCheckpoint | null {
+    if (typeof window === 'undefined') return null;
+    const stored = localStorage.getItem(this.REENCRYPTION_KEY);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  }
+
+  private resumeReencryptionInBackground(): void {
+    this.resumeReencryption().catch(error => {
+      console.warn('Re-encryption paused:', error);
+    });
+  }
+
+  private saveReencryptionCheckpoint(checkpoint: ReencryptionCheckpoint): void {
+    localStorage.setItem(this.REENCRYPTION_KEY, JSON.stringify(checkpoint));
+  }
+
+  private async runReencryption(checkpoint: ReencryptionCheckpoint): Promise<ReencryptionProgress> {
+    const { targetKeyId } = checkpoint;
+    const ids = (await this.getAllEntryIds()).sort();
+    const total = ids.length;
+    let { processed } = checkpoint;
+
+    const remaining = checkpoint.lastId ? ids.filter(id => id > checkpoint.lastId!) : ids;
+    for (let i = 0; i < remaining.length; i += REENCRYPTION_BATCH_SIZE) {
+      const batch = remaining.slice(i, i + REENCRYPTION_BATCH_SIZE);
+      for (const id of batch) {
+        await this.reencryptEntry(id, targetKeyId);
+        processed++;
+      }
+
+      checkpoint = { ...checkpoint, lastId: batch[batch.length - 1], processed };
+      this.saveReencryptionCheckpoint(checkpoint);
+      this.notifyReencryptionProgress({ targetKeyId, processed, total, done: false, retiredKeyIds: [] });
+
+      // Let the UI breathe between batches
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    // Entries saved since the rotation are already on the new key; anything
+    // else still on an old key means the scan missed it, so start over
+    const stale = await this.getEntryIdsNotOnKey(targetKeyId);
+    if (stale.length > 0) {
+      this.saveReencryptionCheckpoint({ ...checkpoint, lastId: undefined, processed: 0 });
+      throw new Error(`${stale.length} entries are still on an old key`);
+    }
+
+    await this.rewrapRecordingKeys(targetKeyId);
+
+    const retiredKeyIds = await encryptionManager.retireKeysBefore(targetKeyId);
+    localStorage.removeItem(this.REENCRYPTION_KEY);
+
+    const progress = { targetKeyId, processed, total, done: true, retiredKeyIds };
+    this.notifyReencryptionProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Entry keys only need re-wrapping with the new data key. Entries from
+   * before per-entry keys are moved onto one.
+   */
+  private async reencryptEntry(id: string, targetKeyId: string): Promise<void> {
+    const current = await this.getEncryptedEntry(id);
+    if (!current) return;
+
+    if (current.keyId === ENTRY_KEY_ID) {
+      const wrappedKey = await this.getEntryKey(id);
+      if (!wrappedKey || wrappedKey.keyId === targetKeyId) return;
+
+      const rewrapped = await encryptionManager.rewrapEntryKey(wrappedKey);
+      this.assertOnKey(rewrapped, targetKeyId);
+      // Only replace the key we read, so a concurrent delete is not undone
+      await this.replaceRecords(id, { entryKeys: [wrappedKey, rewrapped] });
+      return;
+    }
+
+    const { key, wrappedKey } = await encryptionManager.createEntryKey();
+    this.assertOnKey(wrappedKey, targetKeyId);
+    const reencrypted = await encryptionManager.encryptWithEntryKey(key, await encryptionManager.decrypt(current));
+    await this.replaceRecords(id, { entries: [current, reencrypted], entryKeys: [null, wrappedKey] });
+  }
+
+  /**
+   * Recording keys are re-wrapped like entry keys; the audio is untouched
+   */
+  private async rewrapRecordingKeys(targetKeyId: string): Promise<void> {
+    const recordings = await this.getAllRecordings();
+    for (const recording of recordings) {
+      if (recording.wrappedKey.keyId === targetKeyId) continue;
+      const rewrapped = await encryptionManager.rewrapEntryKey(recording.wrappedKey);
+      this.assertOnKey(rewrapped, targetKeyId);
+
+      const db = await this.openEntriesDatabase();
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const transaction = db.transaction(['recordings'], 'readwrite');
+          const store = transaction.objectStore('recordings');
+          const request = store.get(recording.id);
+          request.onsuccess = () => {
+            // Deleted in the meantime: nothing to re-wrap
+            if (request.result) {
+              store.put({ ...request.result, wrappedKey: rewrapped });
+            }
+          };
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } finally {
+        db.close();
+      }
+    }
+  }
+
+  /**
+   * FileReader rather than Blob.arrayBuffer(), which older Safari lacks
+   */
+  private readBlob(blob: Blob): Promise<Uint8Array<ArrayBuffer>> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('HeijoSecureStorage', 1);
-      
-      request.onsuccess = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const transaction = db.transaction(['entries'], 'readonly');
-        const store = transaction.objectStore('entries');
-        const getRequest = store.get(id);
-        
-        getRequest.onsuccess = () => {
-          const result = getRequest.result;
-          if (result) {
-            resolve({
-              data: result.data,
-              iv: result.iv,
-              keyId: result.keyId
-            });
-          } else {
-            resolve(null);
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+
+  private assertOnKey(encrypted: EncryptedData, targetKeyId: string): void {
+    if (encrypted.keyId !== targetKeyId) {
+      throw new Error(`Expected new writes to use ${targetKeyId}, got ${encrypted.keyId}`);
+    }
+  }
+
+  /**
+   * Write [expected, replacement] pairs per store in one transaction, only if
+   * the entry still holds the expected data (null: nothing stored yet)
+   */
+  private async replaceRecords(
+    id: string,
+    changes: { entries?: [EncryptedData, EncryptedData]; entryKeys?: [EncryptedData | null, EncryptedData] }
+  ): Promise<void> {
+    const db = await this.openEntriesDatabase();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['entries', 'entryKeys'], 'readwrite');
+        const entryRequest = transaction.objectStore('entries').get(id);
+        const keyRequest = transaction.objectStore('entryKeys').get(id);
+        keyRequest.onsuccess = () => {
+          const storedEntry = entryRequest.result;
+          const storedKey = keyRequest.result;
+          const matches = (stored: EncryptedData | undefined, expected: EncryptedData | null) =>
+            expected ? stored?.data === expected.data : !stored;
+          if (!storedEntry) return;
+          if (changes.entries && !matches(storedEntry, changes.entries[0])) return;
+          if (changes.entryKeys && !matches(storedKey, changes.entryKeys[0])) return;
+
+          if (changes.entries) {
+            transaction.objectStore('entries').put({ ...storedEntry, ...changes.entries[1] });
+          }
+          if (changes.entryKeys) {
+            transaction.objectStore('entryKeys').put({ id, ...changes.entryKeys[1], createdAt: storedKey?.createdAt ?? Date.now() });
           }
         };
-        
-        getRequest.onerror = () => reject(getRequest.error);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Entries that are not on a per-entry key wrapped with keyId
+   */
+  private async getEntryIdsNotOnKey(keyId: string): Promise<string[]> {
+    const db = await this.openEntriesDatabase();
+    try {
+      return await new Promise<string[]>((resolve, reject) => {
+        const transaction = db.transaction(['entries', 'entryKeys'], 'readonly');
+        const entriesRequest = transaction.objectStore('entries').getAll();
+        const keysRequest = transaction.objectStore('entryKeys').getAll();
+        transaction.oncomplete = () => {
+          const wrappedWith = new Map(
+            (keysRequest.result as Array<{ id: string; keyId: string }>).map(record => [record.id, record.keyId])
+          );
+          resolve(
+            (entriesRequest.result as Array<{ id: string; keyId: string }>)
+              .filter(record => record.keyId !== ENTRY_KEY_ID || (wrappedWith.has(record.id) && wrappedWith.get(record.id) !== keyId))
+              .map(record => record.id)
+          );
+        };
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private openEntriesDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('entries')) {
+          db.createObjectStore('entries', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('entryKeys')) {
+          db.createObjectStore('entryKeys', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('recordings')) {
+          db.createObjectStore('recordings', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('recordingAudio')) {
+          db.createObjectStore('recordingAudio', { keyPath: 'id' });
+        }
       };
-      
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  private async deleteEncryptedEntry(id: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open('HeijoSecureStorage', 1);
-      
-      request.onsuccess = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const transaction = db.transaction(['entries'], 'readwrite');
-        const store = transaction.objectStore('entries');
-        
-        store.delete(id);
-        
+  private async decryptEntry(id: string, encryptedData: EncryptedData): Promise<string> {
+    if (encryptedData.keyId !== ENTRY_KEY_ID) {
+      // Written before per-entry keys
+      return encryptionManager.decrypt(encryptedData);
+    }
+    const wrappedKey = await this.getEntryKey(id);
+    if (!wrappedKey) {
+      throw new Error('The key of this entry was destroyed');
+    }
+    return encryptionManager.decryptWithEntryKey(await encryptionManager.unwrapEntryKey(wrappedKey), encryptedData);
+  }
+
+  /**
+   * Destroy the keys of the given entries together with their ciphertext and
+   * voice recordings, in one transaction
+   */
+  private async shredEntries(ids: string[]): Promise<ShredResult> {
+    const db = await this.openEntriesDatabase();
+    let shredded: { wrappedKeys: EncryptedData[]; ciphertexts: ShredResult['ciphertexts']; recordingIds: string[] };
+    try {
+      shredded = await new Promise((resolve, reject) => {
+        const transaction = db.transaction(['entries', 'entryKeys', 'recordings', 'recordingAudio'], 'readwrite');
+        const entries = transaction.objectStore('entries');
+        const entryKeys = transaction.objectStore('entryKeys');
+        const result: typeof shredded = { wrappedKeys: [], ciphertexts: [], recordingIds: [] };
+        ids.forEach(id => {
+          const keyRequest = entryKeys.get(id);
+          keyRequest.onsuccess = () => {
+            if (keyRequest.result) result.wrappedKeys.push(keyRequest.result);
+          };
+          const entryRequest = entries.get(id);
+          entryRequest.onsuccess = () => {
+            const stored = entryRequest.result;
+            if (stored) result.ciphertexts.push({ id, data: { data: stored.data, iv: stored.iv, keyId: stored.keyId } });
+          };
+          entryKeys.delete(id);
+          entries.delete(id);
+        });
+        const recordingsRequest = transaction.objectStore('recordings').getAll();
+        recordingsRequest.onsuccess = () => {
+          (recordingsRequest.result as StoredRecording[])
+            .filter(recording => ids.indexOf(recording.entryId) !== -1)
+            .forEach(recording => {
+              result.recordingIds.push(recording.id);
+              transaction.objectStore('recordings').delete(recording.id);
+              transaction.objectStore('recordingAudio').delete(recording.id);
+            });
+        };
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+    if (shredded.recordingIds.length > 0) this.notifyRecordingsChanged();
+
+    const entryKeyFingerprints: string[] = [];
+    for (const wrappedKey of shredded.wrappedKeys) {
+      entryKeyFingerprints.push(await fingerprint(wrappedKey.data));
+    }
+    return { entryIds: ids, entryKeyFingerprints, ciphertexts: shredded.ciphertexts, recordingIds: shredded.recordingIds };
+  }
+
+  /**
+   * Check a shredding from the outside: no entry, key, recording or audio row
+   * is left for the entries, and none of their old ciphertext decrypts any more
+   */
+  private async verifyShredded(shredded: ShredResult): Promise<boolean> {
+    const db = await this.openEntriesDatabase();
+    let remaining: number;
+    try {
+      remaining = await new Promise<number>((resolve, reject) => {
+        const transaction = db.transaction(['entries', 'entryKeys', 'recordings', 'recordingAudio'], 'readonly');
+        let count = 0;
+        const countKeys = (storeName: string, keys: string[]) => {
+          keys.forEach(key => {
+            const request = transaction.objectStore(storeName).count(key);
+            request.onsuccess = () => {
+              count += request.result;
+            };
+          });
+        };
+        countKeys('entries', shredded.entryIds);
+        countKeys('entryKeys', shredded.entryIds);
+        countKeys('recordingAudio', shredded.recordingIds);
+        const recordingsRequest = transaction.objectStore('recordings').getAll();
+        recordingsRequest.onsuccess = () => {
+          count += (recordingsRequest.result as StoredRecording[]).filter(recording => shredded.entryIds.indexOf(recording.entryId) !== -1).length;
+        };
+        transaction.oncomplete = () => resolve(count);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+    if (remaining > 0) return false;
+
+    for (const { id, data } of shredded.ciphertexts) {
+      try {
+        await this.decryptEntry(id, data);
+        return false;
+      } catch {
+        // Expected: nothing can read it any more
+      }
+    }
+    return true;
+  }
+
+  private async getAllRecordings(): Promise<StoredRecording[]> {
+    if (!this.config.encryptData || !EncryptionManager.isSupported()) return [];
+    const db = await this.openEntriesDatabase();
+    try {
+      return await new Promise<StoredRecording[]>((resolve, reject) => {
+        const request = db.transaction(['recordings'], 'readonly').objectStore('recordings').getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private notifyRecordingsChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:recordings-changed'));
+    }
+  }
+
+  private notifyReencryptionProgress(progress: ReencryptionProgress): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:reencryption-progress', { detail: progress }));
+    }
+  }
+
+  /**
+   * Check if storage is available
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  // Private methods for encrypted storage
+  private async storeEncryptedEntry(id: string, encryptedData: EncryptedData, wrappedKey: EncryptedData): Promise<void> {
+    const db = await this.openEntriesDatabase();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['entries', 'entryKeys'], 'readwrite');
+        const createdAt = Date.now();
+        transaction.objectStore('entryKeys').put({ id, ...wrappedKey, createdAt });
+        transaction.objectStore('entries').put({ id, ...encryptedData, createdAt });
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
-      };
-      
-      request.onerror = () => reject(request.error);
-    });
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private getEncryptedEntry(id: string): Promise<EncryptedData | null> {
+    return this.getEncryptedRecord('entries', id);
+  }
+
+  // The entry's key, wrapped with a device data key
+  private getEntryKey(id: string): Promise<EncryptedData | null> {
+    return this.getEncryptedRecord('entryKeys', id);
+  }
+
+  private async getEncryptedRecord(storeName: 'entries' | 'entryKeys', id: string): Promise<EncryptedData | null> {
+    const db = await this.openEntriesDatabase();
+    try {
+      return await new Promise<EncryptedData | null>((resolve, reject) => {
+        const getRequest = db.transaction([storeName], 'readonly').objectStore(storeName).get(id);
+        getRequest.onsuccess = () => {
+          const result = getRequest.result;
+          resolve(result ? { data: result.data, iv: result.iv, keyId: result.keyId } : null);
+        };
+        getRequest.onerror = () => reject(getRequest.error);
+      });
+    } finally {
+      db.close();
+    }
   }
 
   // Private methods for plain storage (fallback)
@@ -305,22 +930,19 @@ class SecureLocalStorage {
     // Get from IndexedDB if using encryption
     if (this.config.encryptData && EncryptionManager.isSupported()) {
       try {
-        const request = indexedDB.open('HeijoSecureStorage', 1);
-        await new Promise<void>((resolve, reject) => {
-          request.onsuccess = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-            const transaction = db.transaction(['entries'], 'readonly');
-            const store = transaction.objectStore('entries');
-            const getAllRequest = store.getAllKeys();
-            
+        const db = await this.openEntriesDatabase();
+        try {
+          await new Promise<void>((resolve, reject) => {
+            const getAllRequest = db.transaction(['entries'], 'readonly').objectStore('entries').getAllKeys();
             getAllRequest.onsuccess = () => {
               ids.push(...(getAllRequest.result as string[]));
               resolve();
             };
             getAllRequest.onerror = () => reject(getAllRequest.error);
-          };
-          request.onerror = () => reject(request.error);
-        });
+          });
+        } finally {
+          db.close();
+        }
       } catch (error) {
         console.warn('Failed to get entry IDs from IndexedDB:', error);
       }
@@ -0,0 +1,91 @@
+/**
+ * Light stemmers for the journal languages (see SUPPORTED_LANGUAGES)
+ * Suffix stripping only: good enough to match "walked" with "walking" or
+ * "caminando" with "caminar" in search, without shipping full Snowball rules.
+ * Latin-script words arrive with diacritics already folded (see searchIndex).
+ * Japanese and Chinese are not inflected this way and are left as-is.
+ */
+
+type Stemmer = (word: string) => string;
+
+// Longest suffix first; a suffix is only removed if enough of the word remains
+function suffixStemmer(suffixes: string[], minStem: number): Stemmer {
+  const ordered = [...suffixes].sort((a, b) => b.length - a.length);
+  return (word: string) => {
+    for (const suffix of ordered) {
+      if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  };
+}
+
+const ENGLISH_DOUBLE_CONSONANT = /([bdfgmnprt])\1$/;
+
+function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+  let stem = word;
+
+  if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('ies') && stem.length > 4) stem = `${stem.slice(0, -3)}y`;
+  else if (stem.endsWith('s') && !stem.endsWith('ss') && !stem.endsWith('us') && !stem.endsWith('is')) stem = stem.slice(0, -1);
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      if (ENGLISH_DOUBLE_CONSONANT.test(stem)) stem = stem.slice(0, -1);
+      break;
+    }
+  }
+
+  stem = suffixStemmer(['fulness', 'iveness', 'ousness', 'ational', 'ness', 'ment', 'ful', 'ly'], 4)(stem);
+
+  // "love", "loved" and "loving" all end up as "lov"
+  if (stem.endsWith('e') && stem.length > 3) stem = stem.slice(0, -1);
+  if (stem.endsWith('y') && stem.length > 3) stem = `${stem.slice(0, -1)}i`;
+  return stem;
+}
+
+const stemSpanish = suffixStemmer([
+  'amientos', 'imientos', 'amiento', 'imiento', 'aciones', 'uciones', 'acion', 'ucion',
+  'mente', 'ando', 'iendo', 'aron', 'ieron', 'abamos', 'aban', 'aba', 'ados', 'idos', 'adas', 'idas',
+  'ado', 'ido', 'ada', 'ida', 'ar', 'er', 'ir', 'es', 'os', 'as', 'o', 'a', 'e', 's'
+], 3);
+
+const stemPortuguese = suffixStemmer([
+  'amentos', 'imentos', 'amento', 'imento', 'acoes', 'acao', 'mente', 'ando', 'endo', 'indo',
+  'aram', 'eram', 'iram', 'avamos', 'avam', 'ava', 'ados', 'idos', 'adas', 'idas', 'ado', 'ido',
+  'ada', 'ida', 'oes', 'ar', 'er', 'ir', 'es', 'os', 'as', 'o', 'a', 'e', 's'
+], 3);
+
+const stemFrench = suffixStemmer([
+  'issements', 'issement', 'ements', 'ement', 'ations', 'ation', 'euses', 'euse', 'ences', 'ence', 'ites',
+  'ite', 'ives', 'ive', 'eux', 'ees', 'ee', 'es', 'er', 'ir', 'ant', 'ent', 'e', 's', 'x'
+], 3);
+
+const stemGerman = suffixStemmer([
+  'ungen', 'heiten', 'keiten', 'ung', 'heit', 'keit', 'lich', 'isch', 'chen', 'ern', 'em', 'en', 'er', 'es', 'e', 's', 'n'
+], 3);
+
+const stemHindi = suffixStemmer([
+  'ियों', 'ाओं', 'ाएं', 'ाएँ', 'ुओं', 'ताएं', 'ों', 'ें', 'ां', 'ता', 'ती', 'ते', 'ना', 'नी', 'ने', 'कर',
+  'ा', 'ी', 'े', 'ो', 'ि', 'ु', 'ू'
+], 2);
+
+const STEMMERS: Record<string, Stemmer> = {
+  en: stemEnglish,
+  es: stemSpanish,
+  pt: stemPortuguese,
+  fr: stemFrench,
+  de: stemGerman,
+  hi: stemHindi
+};
+
+/**
+ * Stem a normalized (lowercased) word for a BCP-47 language code such as 'es-ES'
+ */
+export function stem(word: string, language: string): string {
+  const stemmer = STEMMERS[language.split('-')[0].toLowerCase()];
+  return stemmer ? stemmer(word) : word;
+}
@@ -2,6 +2,18 @@ import type { SupabaseClient } from '@supabase/supabase-js'
 
 import { supabase, isSupabaseConfigured } from './supabaseClient'
 import { traceLog, debugLog } from './logger'
+import { SyncEngine, createSupabaseRemote, SyncConflict, SyncRecord, ConflictChoice, SyncLocalStore, SyncResult, SyncRemote } from './syncEngine'
+import { VersionVector, incrementVector } from './versionVector'
+import { Outbox, OutboxOperation, OutboxOperationType } from './outbox'
+import { resolveCurrentUserId, getLastKnownUserId, rememberLastUserId } from './currentUser'
+import { createRevision, toTombstone, sortRevisions, isTrashed, normalizeTombstone, sortTrash } from './entryRecords'
+import { IndexedDBStorage, getMigrationState, migrateFromLocalStorage, removeLocalStorageJournal } from './indexedDBStorage'
+import { EntryQuery, EntryPage, DEFAULT_PAGE_SIZE, decodeCursor, paginateEntries, toPage } from './entryQuery'
+import { getTrashCutoff } from './trash'
+import { encryptionManager, SyncKeyMissingError } from './encryption'
+import { encryptedSyncCodec, isPlaintextMigrationDone, migratePlaintextRows, openRevision, sealRevision } from './syncEncryption'
+import type { SealedEntryData } from './sealedEntries'
+import { secureStorage } from './secureStorage'
 
 export interface JournalEntry {
   id: string;
@@ -12,21 +24,204 @@ export interface JournalEntry {
   user_id?: string;
   sync_status: 'synced' | 'local_only' | 'syncing' | 'error' | 'failed';
   last_synced?: string;
+  updated_at?: string;
+  version?: VersionVector; // Per-device edit counters used by the sync engine
+  deleted_at?: string; // Moved to the trash (see lib/trash)
+  purged_at?: string; // Permanently deleted: content-free tombstone kept for sync
+  sealed?: SealedEntryData | null; // Sealed with a second passphrase: content and tags are empty (see lib/sealedEntries)
+}
+
+// Immutable snapshot of an entry as it was before an edit
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  user_id?: string;
+  content: string;
+  tags: string[];
+  source: JournalEntry['source'];
+  created_at: string; // When this version of the entry was written
+}
+
+export type EntryUpdate = Partial<Pick<JournalEntry, 'content' | 'tags'>>;
+
+// Detail of the 'heijo:entries-changed' event (consumed by the search index)
+export interface EntriesChangedDetail {
+  upserted?: JournalEntry[];
+  deleted?: string[];
+  reset?: boolean; // Many entries may have changed (e.g. pulled by sync)
 }
 
 export interface StorageBackend {
   saveEntry(entry: Omit<JournalEntry, 'id' | 'sync_status' | 'last_synced'> & { sync_status?: JournalEntry['sync_status']; last_synced?: string; id?: string }): Promise<JournalEntry>;
   getEntries(): Promise<JournalEntry[]>;
+  queryEntries(query: EntryQuery): Promise<EntryPage>;
   getEntry(id: string): Promise<JournalEntry | null>;
-  deleteEntry(id: string): Promise<void>;
+  updateEntry(id: string, changes: EntryUpdate): Promise<JournalEntry>;
+  getRevisions(entryId: string): Promise<EntryRevision[]>;
+  restoreRevision(entryId: string, revisionId: string): Promise<JournalEntry>;
+  sealEntry(id: string, sealed: SealedEntryData): Promise<JournalEntry>; // Also deletes the entry's history
+  unsealEntry(id: string, payload: Required<EntryUpdate>): Promise<JournalEntry>;
+  deleteEntry(id: string): Promise<void>; // Moves the entry to the trash
+  getTrash(): Promise<JournalEntry[]>;
+  restoreEntry(id: string): Promise<JournalEntry>;
+  purgeEntry(id: string): Promise<void>;
+  emptyTrash(options?: { olderThan?: string }): Promise<string[]>; // Ids purged
+  deleteAllEntries(): Promise<string[]>; // Permanently, with their history; ids deleted
   exportEntries(): Promise<JournalEntry[]>;
+  importEntries(entries: JournalEntry[]): Promise<void>; // Written as they are (ids, timestamps, sync status), e.g. from a backup
   syncLocalEntries(): Promise<void>;
+  getSyncConflicts(): Promise<SyncConflict[]>;
+  resolveSyncConflict(entryId: string, choice: ConflictChoice): Promise<void>;
+  getPendingOperations(): Promise<OutboxOperation[]>;
+}
+
+// On-device store used by HybridStorage (IndexedDB, or localStorage where unavailable)
+export interface LocalBackend extends StorageBackend, SyncLocalStore {
+  updateEntry(
+    id: string,
+    changes: LocalEntryUpdate,
+    options?: { recordRevision?: boolean }
+  ): Promise<JournalEntry>;
+}
+
+export type LocalEntryUpdate = EntryUpdate & {
+  sealed?: SealedEntryData | null;
+  sync_status?: JournalEntry['sync_status'];
+  last_synced?: string;
+};
+
+/**
+ * IndexedDB when the browser supports it, migrating the old localStorage
+ * blobs once. Falls back to localStorage if the migration fails or was rolled back.
+ */
+async function selectLocalBackend(): Promise<LocalBackend> {
+  if (!IndexedDBStorage.isSupported()) return new LocalStorage();
+
+  const state = getMigrationState();
+  if (state?.status === 'rolled_back') return new LocalStorage();
+
+  if (!state) {
+    try {
+      const migrated = await migrateFromLocalStorage();
+      debugLog(`Migrated ${migrated.entry_count} entries to IndexedDB`);
+    } catch (error) {
+      console.warn('IndexedDB migration failed, staying on localStorage:', error);
+      return new LocalStorage();
+    }
+  }
+
+  return new IndexedDBStorage();
 }
 
+const BACKGROUND_SYNC_INTERVAL_MS = 60 * 1000;
+
 // Hybrid storage with Supabase + localStorage fallback
 class HybridStorage implements StorageBackend {
-  private localStorage = new LocalStorage();
-  private supabaseStorage = supabase && isSupabaseConfigured() ? new SupabaseStorage() : null;
+  private localBackend: Promise<LocalBackend> | null = null;
+  // Entry text and tags are sealed with the user's sync key (see lib/syncEncryption)
+  private remote: SyncRemote | null = supabase && isSupabaseConfigured()
+    ? createSupabaseRemote(supabase, encryptedSyncCodec)
+    : null;
+  private syncEngine = this.remote
+    ? new SyncEngine({
+        getSyncRecords: async ids => (await this.getLocal()).getSyncRecords(ids),
+        applySyncedRecords: async records => (await this.getLocal()).applySyncedRecords(records)
+      }, this.remote)
+    : null;
+  private outbox = this.syncEngine
+    ? new Outbox(async (userId, ids) => {
+        await this.runSync(userId, ids);
+      })
+    : null;
+
+  // The sync in progress, shared by everyone who asks for one meanwhile
+  private syncing: Promise<void> | null = null;
+  private lastSyncStartedAt = 0;
+
+  constructor() {
+    this.outbox?.startAutoReplay(() => this.getPremiumUserId().catch(() => null));
+    this.startBackgroundSync();
+  }
+
+  /**
+   * Reads never sync. Other devices' changes are pulled when the app is opened
+   * or signed into (see app/journal), from the Sync buttons in Settings, and
+   * here whenever the app comes back into view or online, at most once per
+   * BACKGROUND_SYNC_INTERVAL_MS.
+   */
+  private startBackgroundSync(): void {
+    if (typeof window === 'undefined' || !this.syncEngine) return;
+
+    const trigger = () => {
+      if (Date.now() - this.lastSyncStartedAt < BACKGROUND_SYNC_INTERVAL_MS) return;
+      this.syncLocalEntries();
+    };
+    window.addEventListener('online', trigger);
+    window.addEventListener('focus', trigger);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') trigger();
+    });
+  }
+
+  private getLocal(): Promise<LocalBackend> {
+    if (!this.localBackend) {
+      this.localBackend = selectLocalBackend();
+      // Once per session, as soon as the local store is ready
+      this.localBackend
+        .then(() => this.purgeExpiredTrash())
+        .catch(error => console.warn('Failed to purge expired trash:', error));
+    }
+    return this.localBackend;
+  }
+
+  private notifyEntriesChanged(detail: EntriesChangedDetail): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent<EntriesChangedDetail>('heijo:entries-changed', { detail }));
+    }
+  }
+
+  private async runSync(userId: string, ids?: string[]): Promise<SyncResult> {
+    // Nothing leaves the device unencrypted: wait until the sync secret is entered here
+    if (!(await encryptionManager.hasSyncKey(userId))) {
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('heijo:sync-key-required'));
+      }
+      throw new SyncKeyMissingError();
+    }
+
+    const result = await this.syncEngine!.sync(userId, ids);
+    if (result.pulled > 0 || result.conflicts.length > 0) {
+      this.notifyEntriesChanged({ reset: true });
+    }
+    return result;
+  }
+
+  /**
+   * Premium users are the only ones whose entries leave the device
+   */
+  private async getPremiumUserId(): Promise<string | null> {
+    if (!supabase || !isSupabaseConfigured()) return null;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+    return user.user_metadata?.premium === true ? user.id : null;
+  }
+
+  /**
+   * Queue a local change for the cloud and try to send it right away.
+   * If that fails the outbox keeps retrying with backoff.
+   */
+  private async queueSync(entryId: string, type: OutboxOperationType): Promise<void> {
+    if (!this.outbox) return;
+    try {
+      const userId = await this.getPremiumUserId();
+      if (userId) {
+        this.outbox.enqueue(userId, entryId, type);
+        await this.outbox.replay(userId);
+      }
+    } catch (error) {
+      console.warn('Failed to sync to Supabase, keeping local only:', error);
+    }
+  }
 
   async saveEntry(entry: Omit<JournalEntry, 'id' | 'sync_status' | 'last_synced'>): Promise<JournalEntry> {
     // Trace persistence (dev-only)
@@ -35,67 +230,22 @@ class HybridStorage implements StorageBackend {
       contentLength: entry.content.length,
       created_at: entry.created_at
     });
-    
-    const newEntry: JournalEntry = {
-      ...entry,
-      id: crypto.randomUUID(),
-      sync_status: 'syncing',
-      last_synced: undefined
-    };
 
-    // Always save to localStorage first for immediate feedback
-    const localEntry = await this.localStorage.saveEntry(entry);
+    // Always save locally first for immediate feedback
+    const local = await this.getLocal();
+    const localEntry = await local.saveEntry(entry);
+    this.notifyEntriesChanged({ upserted: [localEntry] });
 
-    // Try to save to Supabase only if user has premium and is authenticated
-    if (supabase && isSupabaseConfigured()) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          // Check premium status
-          const premium = user.user_metadata?.premium;
-          if (premium === true) {
-            const { data, error } = await supabase
-              .from('journal_entries')
-              .insert([{ 
-                ...entry, 
-                user_id: user.id,
-                sync_status: 'synced',
-                last_synced: new Date().toISOString()
-              }])
-              .select()
-              .single();
-            
-            if (!error && data) {
-              // Update localStorage with synced version (use existing ID to update, not create new)
-              await this.localStorage.saveEntry({
-                ...data,
-                id: data.id, // Include ID so it updates instead of creating new
-                sync_status: 'synced',
-                last_synced: new Date().toISOString()
-              });
-              return data;
-            } else if (error) {
-              // Check for specific conflict errors
-              if (error.code === '23505' || error.message.includes('duplicate key')) {
-                console.warn('Supabase conflict detected (duplicate key), keeping local entry:', error);
-              } else {
-                console.warn('Supabase insert failed:', error);
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to sync to Supabase, keeping local only:', error);
-      }
-    }
+    // Push to Supabase only if user has premium and is authenticated
+    await this.queueSync(localEntry.id, 'create');
 
-    // Return local entry if Supabase fails or not premium
-    return localEntry;
+    return (await local.getEntry(localEntry.id)) || localEntry;
   }
 
   async getEntries(): Promise<JournalEntry[]> {
-    // Always prioritize localStorage first (local-first approach)
-    const localEntries = await this.localStorage.getEntries();
+    // Always read from the local store (local-first approach)
+    const local = await this.getLocal();
+    const localEntries = await local.getEntries();
     
     // Get current user ID for filtering
     let currentUserId: string | undefined;
@@ -112,167 +262,345 @@ class HybridStorage implements StorageBackend {
     // Do NOT show entries without user_id to logged-in users (security: prevents cross-account leakage)
     const isGuestEntry = (entry: JournalEntry) => !entry.user_id || entry.user_id === 'anonymous';
 
-    const filteredLocalEntries = currentUserId
+    return currentUserId
       ? localEntries.filter(entry => entry.user_id === currentUserId) // STRICT: Only exact matches
       : localEntries.filter(isGuestEntry); // Treat legacy 'anonymous' entries as guest data
+  }
+
+  async queryEntries(query: EntryQuery): Promise<EntryPage> {
+    return (await this.getLocal()).queryEntries(query);
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | null> {
+    const local = await this.getLocal();
+    const localEntry = await local.getEntry(id);
+    if (localEntry) return localEntry;
 
-    // Try to get from Supabase only if user has premium and is authenticated
     try {
-      if (supabase && isSupabaseConfigured() && currentUserId) {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          // Check premium status
-          const premium = user.user_metadata?.premium;
-          if (premium === true) {
-            const { data, error } = await supabase
-              .from('journal_entries')
-              .select('*')
-              .eq('user_id', user.id)
-              .order('created_at', { ascending: false });
-            
-            if (!error && data && data.length > 0) {
-              // Merge Supabase and localStorage entries
-              // Combine both sources, removing duplicates by id
-              const mergedEntries = new Map<string, JournalEntry>();
-              
-              // Add local entries first (prioritize local)
-              filteredLocalEntries.forEach(entry => {
-                // Double-check user_id matches
-                if (!entry.user_id || entry.user_id === currentUserId) {
-                  mergedEntries.set(entry.id, entry);
-                }
-              });
-              
-              // Add Supabase entries (will overwrite local if same id, but prefer local)
-              // Filter to ensure user_id matches
-              data
-                .filter(entry => entry.user_id === currentUserId)
-                .forEach(entry => {
-                  if (!mergedEntries.has(entry.id)) {
-                    mergedEntries.set(entry.id, entry);
-                  }
-                });
-              
-              // Sync local-only entries to Supabase
-              await this.syncLocalEntries();
-              
-              return Array.from(mergedEntries.values()).sort((a, b) => 
-                new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-              );
-            }
-          }
-        }
-      }
+      return await this.fetchRemoteEntry(id);
     } catch (error) {
-      console.warn('Failed to load from Supabase, using localStorage:', error);
+      console.warn('Failed to get entry from Supabase:', error);
     }
 
-    // Return filtered localStorage entries (always available)
-    return filteredLocalEntries;
+    return null;
   }
 
-  async getEntry(id: string): Promise<JournalEntry | null> {
+  /**
+   * Read one entry straight from the cloud (decrypted), e.g. when it has not been pulled yet
+   */
+  private async fetchRemoteEntry(id: string): Promise<JournalEntry | null> {
+    const userId = await this.getPremiumUserId();
+    if (!this.remote || !userId) return null;
+    const [record] = await this.remote.pull(userId, [id]);
+    return record && !record.deleted_at ? record : null;
+  }
+
+  async updateEntry(id: string, changes: EntryUpdate): Promise<JournalEntry> {
+    // Apply the edit locally first so it is never lost if the network is down
+    const local = await this.getLocal();
+    let localEntry: JournalEntry;
     try {
-      if (supabase && isSupabaseConfigured()) {
+      localEntry = await local.updateEntry(id, changes);
+    } catch (error) {
+      // Entry may only exist remotely - cache it locally, then edit
+      const remoteEntry = await this.fetchRemoteEntry(id);
+      if (!remoteEntry) throw error;
+      await local.applySyncedRecords([remoteEntry]);
+      localEntry = await local.updateEntry(id, changes);
+    }
+    this.notifyEntriesChanged({ upserted: [localEntry] });
+
+    await this.queueSync(id, 'update');
+    await this.pushLatestRevision(id);
+
+    return (await local.getEntry(id)) || localEntry;
+  }
+
+  /**
+   * Revisions are immutable, so they are simply copied up once
+   */
+  private async pushLatestRevision(entryId: string): Promise<void> {
+    try {
+      const userId = await this.getPremiumUserId();
+      if (!supabase || !userId) return;
+
+      const local = await this.getLocal();
+      const [revision] = await local.getRevisions(entryId);
+      if (!revision) return;
+
+      const { error } = await supabase
+        .from('journal_entry_revisions')
+        .upsert([await sealRevision(userId, { ...revision, user_id: userId })], { onConflict: 'id', ignoreDuplicates: true });
+      if (error) {
+        console.warn('Failed to sync entry revision:', error);
+      }
+    } catch (error) {
+      console.warn('Failed to sync entry revision:', error);
+    }
+  }
+
+  async getRevisions(entryId: string): Promise<EntryRevision[]> {
+    const local = await this.getLocal();
+    const localRevisions = await local.getRevisions(entryId);
+
+    try {
+      const userId = await this.getPremiumUserId();
+      if (supabase && userId) {
         const { data, error } = await supabase
-          .from('journal_entries')
+          .from('journal_entry_revisions')
           .select('*')
-          .eq('id', id)
-          .single();
-        
-        if (!error && data) return data;
+          .eq('entry_id', entryId)
+          .eq('user_id', userId);
+
+        if (!error && data) {
+          // Revisions are immutable, so merging by id is enough
+          const merged = new Map<string, EntryRevision>();
+          localRevisions.forEach(revision => merged.set(revision.id, revision));
+          for (const row of data) {
+            if (!merged.has(row.id)) merged.set(row.id, await openRevision(userId, row));
+          }
+          return sortRevisions(Array.from(merged.values()));
+        }
       }
     } catch (error) {
-      console.warn('Failed to get entry from Supabase, trying localStorage:', error);
+      console.warn('Failed to load revisions from Supabase, using local history:', error);
     }
 
-    return this.localStorage.getEntry(id);
+    return localRevisions;
+  }
+
+  async restoreRevision(entryId: string, revisionId: string): Promise<JournalEntry> {
+    const revisions = await this.getRevisions(entryId);
+    const revision = revisions.find(r => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    // Restoring is just another edit, so the version being replaced is kept too
+    return this.updateEntry(entryId, { content: revision.content, tags: revision.tags });
+  }
+
+  /**
+   * Replace an entry's text and tags with the ciphertext from
+   * sealedEntries.seal. Earlier versions would still hold the plaintext, so
+   * the entry's history is deleted here and in the cloud, and so are its
+   * voice recordings.
+   */
+  async sealEntry(id: string, sealed: SealedEntryData): Promise<JournalEntry> {
+    const entry = await (await this.getLocal()).sealEntry(id, sealed);
+    this.notifyEntriesChanged({ upserted: [entry] });
+    await this.deleteRecordings([id]);
+
+    await this.queueSync(id, 'update');
+    await this.deleteRemoteRevisions([id]);
+    return entry;
+  }
+
+  /**
+   * Store an opened sealed entry as a normal entry again
+   */
+  async unsealEntry(id: string, payload: Required<EntryUpdate>): Promise<JournalEntry> {
+    const entry = await (await this.getLocal()).unsealEntry(id, payload);
+    this.notifyEntriesChanged({ upserted: [entry] });
+
+    await this.queueSync(id, 'update');
+    return entry;
   }
 
   async deleteEntry(id: string): Promise<void> {
+    // Moves the entry to the trash; syncing carries deleted_at to other devices
+    await (await this.getLocal()).deleteEntry(id);
+    this.notifyEntriesChanged({ deleted: [id] });
+    await this.queueSync(id, 'delete');
+  }
+
+  async getTrash(): Promise<JournalEntry[]> {
+    return (await this.getLocal()).getTrash();
+  }
+
+  async restoreEntry(id: string): Promise<JournalEntry> {
+    const restored = await (await this.getLocal()).restoreEntry(id);
+    this.notifyEntriesChanged({ upserted: [restored] });
+    await this.queueSync(id, 'restore');
+    return restored;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    await (await this.getLocal()).purgeEntry(id);
+    await this.afterPurge([id]);
+  }
+
+  async emptyTrash(options: { olderThan?: string } = {}): Promise<string[]> {
+    const purged = await (await this.getLocal()).emptyTrash(options);
+    await this.afterPurge(purged);
+    return purged;
+  }
+
+  /**
+   * Remove expired entries from the trash (see lib/trash for the retention setting)
+   */
+  async purgeExpiredTrash(): Promise<string[]> {
+    const purged = await this.emptyTrash({ olderThan: getTrashCutoff() });
+    if (purged.length > 0) {
+      debugLog(`Purged ${purged.length} expired entries from the trash`);
+    }
+    return purged;
+  }
+
+  /**
+   * Purge tombstones go through the outbox like any other change. Revision
+   * copies in the cloud are deleted directly since they are never synced back.
+   */
+  private async afterPurge(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.deleteRecordings(ids);
+    for (const id of ids) {
+      await this.queueSync(id, 'purge');
+    }
+    await this.deleteRemoteRevisions(ids);
+  }
+
+  // Voice recordings are kept on this device only (see secureStorage)
+  private async deleteRecordings(entryIds: string[]): Promise<void> {
     try {
-      if (supabase && isSupabaseConfigured()) {
-        const { error } = await supabase
-          .from('journal_entries')
-          .delete()
-          .eq('id', id);
-        
-        if (!error) {
-          // Also delete from localStorage
-          await this.localStorage.deleteEntry(id);
-          return;
-        }
+      await secureStorage.deleteRecordingsForEntries(entryIds);
+    } catch (error) {
+      console.warn('Failed to delete voice recordings:', error);
+    }
+  }
+
+  private async deleteRemoteRevisions(entryIds: string[]): Promise<void> {
+    try {
+      const userId = await this.getPremiumUserId();
+      if (!supabase || !userId) return;
+      const { error } = await supabase
+        .from('journal_entry_revisions')
+        .delete()
+        .eq('user_id', userId)
+        .in('entry_id', entryIds);
+      if (error) {
+        console.warn('Failed to delete revisions from Supabase:', error);
       }
     } catch (error) {
-      console.warn('Failed to delete from Supabase, deleting locally:', error);
+      console.warn('Failed to delete revisions from Supabase:', error);
+    }
+  }
+
+  /**
+   * Delete the whole journal: the signed-in user's rows and revisions in the
+   * cloud, queued sync operations and conflicts, and every entry on this
+   * device. The cloud goes first: if it cannot be reached nothing local is
+   * deleted, so the user can try again.
+   */
+  async deleteAllEntries(): Promise<string[]> {
+    this.outbox?.clear();
+
+    if (supabase && isSupabaseConfigured()) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        for (const table of ['journal_entry_revisions', 'journal_entries']) {
+          const { error } = await supabase.from(table).delete().eq('user_id', user.id);
+          if (error) {
+            console.error(`Failed to delete ${table} from Supabase:`, error);
+            throw new Error('Could not delete your entries from the cloud. Nothing was deleted; please try again.');
+          }
+        }
+      }
     }
 
-    // Fallback to localStorage
-    await this.localStorage.deleteEntry(id);
+    this.syncEngine?.clearConflicts();
+    const ids = await (await this.getLocal()).deleteAllEntries();
+    this.notifyEntriesChanged({ reset: true });
+    return ids;
   }
 
   async exportEntries(): Promise<JournalEntry[]> {
     return this.getEntries();
   }
 
-  async syncLocalEntries(): Promise<void> {
-    try {
-      if (!supabase || !isSupabaseConfigured()) return;
+  /**
+   * Restore entries from a backup (see lib/backupArchive). They keep their
+   * ids and versions, so entries the cloud already has are not duplicated.
+   */
+  async importEntries(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await (await this.getLocal()).importEntries(entries);
+    this.notifyEntriesChanged({ reset: true });
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        console.warn('No authenticated user for sync');
-        return;
+    if (!this.outbox) return;
+    try {
+      const userId = await this.getPremiumUserId();
+      if (userId) {
+        // One sync round for the whole backup rather than one per entry
+        entries.forEach(entry => this.outbox!.enqueue(userId, entry.id, 'create'));
+        await this.outbox.replay(userId);
       }
+    } catch (error) {
+      console.warn('Failed to sync imported entries, keeping local only:', error);
+    }
+  }
 
-      // Check premium status
-      const premium = user.user_metadata?.premium;
-      if (premium !== true) {
+  /**
+   * Flush the outbox, then push and pull everything. Never throws; pulled
+   * changes are announced with heijo:entries-changed.
+   */
+  async syncLocalEntries(): Promise<void> {
+    if (!this.syncEngine) return;
+    if (!this.syncing) {
+      this.lastSyncStartedAt = Date.now();
+      this.syncing = this.syncAll().then(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async syncAll(): Promise<void> {
+    try {
+      const userId = await this.getPremiumUserId();
+      if (!userId) {
         debugLog('User does not have premium, skipping Supabase sync');
         return;
       }
 
-      const localEntries = await this.localStorage.getEntries();
-      const localOnlyEntries = localEntries.filter(entry => entry.sync_status === 'local_only');
-
-      debugLog(`Syncing ${localOnlyEntries.length} local entries for user ${user.id}`);
+      // Flush queued operations first so their status is reported accurately
+      await this.outbox?.replay(userId, { force: true });
+      const result = await this.runSync(userId);
+      if (result.conflicts.length > 0) {
+        console.warn(`Sync found ${result.conflicts.length} conflicting edits`);
+      }
 
-      for (const entry of localOnlyEntries) {
-        try {
-          // Ensure entry has proper user_id before syncing
-          const entryToSync = {
-            ...entry,
-            user_id: user.id,
-            sync_status: 'synced' as const,
-            last_synced: new Date().toISOString()
-          };
-
-          const { data, error } = await supabase
-            .from('journal_entries')
-            .insert([entryToSync])
-            .select()
-            .single();
-          
-          if (!error && data) {
-            // Update localStorage with synced version (use existing ID to update, not create new)
-            await this.localStorage.saveEntry({
-              ...data,
-              id: data.id, // Include ID so it updates instead of creating new
-              sync_status: 'synced',
-              last_synced: new Date().toISOString()
-            });
-            debugLog(`Successfully synced entry ${entry.id}`);
-          } else {
-            console.warn(`Failed to sync entry ${entry.id}:`, error);
-          }
-        } catch (error) {
-          console.warn('Failed to sync entry:', entry.id, error);
-        }
+      if (!isPlaintextMigrationDone(userId) && supabase && this.remote) {
+        const migrated = await migratePlaintextRows(supabase, this.remote, userId);
+        debugLog(`Encrypted ${migrated.entries} plaintext entries and ${migrated.revisions} revisions in the cloud`);
       }
     } catch (error) {
       console.warn('Failed to sync local entries:', error);
     }
   }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    if (!this.syncEngine) return [];
+    const userId = await this.getPremiumUserId();
+    return userId ? this.syncEngine.getConflicts(userId) : [];
+  }
+
+  async getPendingOperations(): Promise<OutboxOperation[]> {
+    if (!this.outbox) return [];
+    const userId = await this.getPremiumUserId();
+    return userId ? this.outbox.getOperations(userId) : [];
+  }
+
+  async resolveSyncConflict(entryId: string, choice: ConflictChoice): Promise<void> {
+    if (!this.syncEngine) return;
+    const userId = await this.getPremiumUserId();
+    if (!userId) throw new Error('Sync is only available for premium users');
+    const resolved = await this.syncEngine.resolveConflict(userId, entryId, choice);
+    this.notifyEntriesChanged(resolved.deleted_at || resolved.purged_at ? { deleted: [entryId] } : { upserted: [resolved] });
+  }
+}
+
+// Matches the text literally, like matchesEntryQuery does
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
 }
 
 // Supabase backend (for direct use)
@@ -310,12 +638,46 @@ class SupabaseStorage implements StorageBackend {
       .from('journal_entries')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
     
     if (error) throw error;
     return data || [];
   }
 
+  async queryEntries(query: EntryQuery): Promise<EntryPage> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    let request = supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (query.from) request = request.gte('created_at', query.from);
+    if (query.to) request = request.lt('created_at', query.to);
+    if (query.source) request = request.eq('source', query.source);
+    if (query.tags && query.tags.length > 0) request = request.contains('tags', query.tags);
+    if (query.text) request = request.ilike('content', `%${escapeLikePattern(query.text)}%`);
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      request = request.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`
+      );
+    }
+
+    // One extra row tells us whether there is another page
+    const { data, error } = await request.range(0, limit);
+    if (error) throw error;
+    return toPage(data || [], limit);
+  }
+
   async getEntry(id: string): Promise<JournalEntry | null> {
     if (!supabase) throw new Error('Supabase not configured');
     
@@ -323,42 +685,244 @@ class SupabaseStorage implements StorageBackend {
       .from('journal_entries')
       .select('*')
       .eq('id', id)
+      .is('deleted_at', null)
       .single();
     
     if (error) return null;
     return data;
   }
 
+  async updateEntry(id: string, changes: EntryUpdate): Promise<JournalEntry> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const current = await this.getEntry(id);
+    if (!current) throw new Error('Entry not found');
+
+    const { error: revisionError } = await supabase
+      .from('journal_entry_revisions')
+      .insert([{ ...createRevision(current), user_id: user.id }]);
+    if (revisionError) throw revisionError;
+
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .update({
+        content: changes.content ?? current.content,
+        tags: changes.tags ?? current.tags,
+        updated_at: new Date().toISOString(),
+        last_synced: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getRevisions(entryId: string): Promise<EntryRevision[]> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data, error } = await supabase
+      .from('journal_entry_revisions')
+      .select('*')
+      .eq('entry_id', entryId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async restoreRevision(entryId: string, revisionId: string): Promise<JournalEntry> {
+    const revisions = await this.getRevisions(entryId);
+    const revision = revisions.find(r => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    return this.updateEntry(entryId, { content: revision.content, tags: revision.tags });
+  }
+
+  async sealEntry(id: string, sealed: SealedEntryData): Promise<JournalEntry> {
+    const entry = await this.setSealed(id, { content: '', tags: [], sealed });
+
+    const { error } = await supabase!
+      .from('journal_entry_revisions')
+      .delete()
+      .eq('entry_id', id);
+    if (error) throw error;
+    return entry;
+  }
+
+  async unsealEntry(id: string, payload: Required<EntryUpdate>): Promise<JournalEntry> {
+    return this.setSealed(id, { ...payload, sealed: null });
+  }
+
+  private async setSealed(id: string, changes: Required<EntryUpdate> & { sealed: SealedEntryData | null }): Promise<JournalEntry> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .update({
+        ...changes,
+        updated_at: new Date().toISOString(),
+        last_synced: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   async deleteEntry(id: string): Promise<void> {
     if (!supabase) throw new Error('Supabase not configured');
     
     const { error } = await supabase
       .from('journal_entries')
-      .delete()
-      .eq('id', id);
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null);
     
     if (error) throw error;
   }
 
+  async getTrash(): Promise<JournalEntry[]> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', user.id)
+      .not('deleted_at', 'is', null)
+      .is('purged_at', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async restoreEntry(id: string): Promise<JournalEntry> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .update({ deleted_at: null, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('purged_at', null)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    // Leave a tombstone so devices that still hold the entry learn about the purge
+    const { error } = await supabase
+      .from('journal_entries')
+      .update({ content: '', tags: [], purged_at: new Date().toISOString() })
+      .eq('id', id)
+      .not('deleted_at', 'is', null);
+    if (error) throw error;
+
+    const { error: revisionError } = await supabase
+      .from('journal_entry_revisions')
+      .delete()
+      .eq('entry_id', id);
+    if (revisionError) throw revisionError;
+  }
+
+  async emptyTrash(options: { olderThan?: string } = {}): Promise<string[]> {
+    const trash = await this.getTrash();
+    const expired = trash.filter(entry => !options.olderThan || entry.deleted_at! < options.olderThan);
+    for (const entry of expired) {
+      await this.purgeEntry(entry.id);
+    }
+    return expired.map(entry => entry.id);
+  }
+
+  async deleteAllEntries(): Promise<string[]> {
+    if (!supabase) throw new Error('Supabase not configured');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error: revisionError } = await supabase
+      .from('journal_entry_revisions')
+      .delete()
+      .eq('user_id', user.id);
+    if (revisionError) throw revisionError;
+
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .delete()
+      .eq('user_id', user.id)
+      .select('id');
+    if (error) throw error;
+    return (data || []).map((row: { id: string }) => row.id);
+  }
+
   async exportEntries(): Promise<JournalEntry[]> {
     return this.getEntries();
   }
 
+  async importEntries(entries: JournalEntry[]): Promise<void> {
+    if (!supabase) throw new Error('Supabase not configured');
+    if (entries.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('journal_entries')
+      .upsert(entries.map(entry => ({ ...entry, user_id: user.id })), { onConflict: 'id' });
+    if (error) throw error;
+  }
+
   async syncLocalEntries(): Promise<void> {
     // No-op for direct Supabase storage
   }
-}
 
-const SESSION_STORAGE_KEY = 'heijo_session';
-const LAST_USER_ID_STORAGE_KEY = 'heijo_last_user_id';
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    return [];
+  }
+
+  async resolveSyncConflict(): Promise<void> {
+    // Nothing to resolve: Supabase is the only copy
+  }
+
+  async getPendingOperations(): Promise<OutboxOperation[]> {
+    return [];
+  }
+}
 
 // Local storage backend
-export class LocalStorage implements StorageBackend {
+export class LocalStorage implements LocalBackend {
   constructor(
     private readonly supabaseClient: SupabaseClient | null = supabase,
     private readonly isSupabaseConfiguredFn: () => boolean = isSupabaseConfigured
   ) {}
 
+  private getTombstonesKey(userId?: string): string {
+    return userId ? `heijo-sync-tombstones:${userId}` : 'heijo-sync-tombstones';
+  }
+
+  private getRevisionsKey(userId?: string): string {
+    return userId ? `heijo-entry-revisions:${userId}` : 'heijo-entry-revisions';
+  }
+
   private getStorageKey(userId?: string): string {
     // Scope localStorage by userId to prevent cross-account data leakage
     if (userId) {
@@ -368,59 +932,8 @@ export class LocalStorage implements StorageBackend {
     return 'heijo-journal-entries';
   }
 
-  private async getCurrentUserId(): Promise<string | undefined> {
-    try {
-      if (this.supabaseClient && this.isSupabaseConfiguredFn()) {
-        const { data: { user } } = await this.supabaseClient.auth.getUser();
-        if (user?.id) {
-          this.rememberLastUserId(user.id);
-          return user.id;
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to get current user ID:', error);
-    }
-
-    const sessionUserId = this.getSessionUserId();
-    if (sessionUserId) {
-      this.rememberLastUserId(sessionUserId);
-      return sessionUserId;
-    }
-
-    return this.getLastKnownUserId();
-  }
-
-  private getSessionUserId(): string | undefined {
-    if (typeof window === 'undefined') return undefined;
-
-    try {
-      const rawSession = localStorage.getItem(SESSION_STORAGE_KEY);
-      if (!rawSession) return undefined;
-
-      const parsed = JSON.parse(rawSession);
-      const sessionUser = parsed?.user || parsed?.currentSession?.user || parsed?.session?.user;
-      const userId = sessionUser?.id;
-      return typeof userId === 'string' && userId ? userId : undefined;
-    } catch (error) {
-      console.warn('Failed to parse heijo_session for user ID:', error);
-      return undefined;
-    }
-  }
-
-  private getLastKnownUserId(): string | undefined {
-    if (typeof window === 'undefined') return undefined;
-    const lastUserId = localStorage.getItem(LAST_USER_ID_STORAGE_KEY);
-    return lastUserId || undefined;
-  }
-
-  private rememberLastUserId(userId?: string): void {
-    if (typeof window === 'undefined') return;
-    if (!userId || userId === 'anonymous') return;
-    try {
-      localStorage.setItem(LAST_USER_ID_STORAGE_KEY, userId);
-    } catch (error) {
-      console.warn('Failed to persist last user ID:', error);
-    }
+  private getCurrentUserId(): Promise<string | undefined> {
+    return resolveCurrentUserId(this.supabaseClient, this.isSupabaseConfiguredFn);
   }
 
   async saveEntry(entry: Omit<JournalEntry, 'id' | 'sync_status' | 'last_synced'> & { id?: string; sync_status?: JournalEntry['sync_status']; last_synced?: string }): Promise<JournalEntry> {
@@ -436,7 +949,7 @@ export class LocalStorage implements StorageBackend {
     const currentUserId = await this.getCurrentUserId();
     const userId = currentUserId || (entry.user_id && entry.user_id !== 'anonymous' ? entry.user_id : undefined);
     const storageKey = this.getStorageKey(userId);
-    this.rememberLastUserId(userId);
+    rememberLastUserId(userId);
     const existing = this.getStoredEntries(userId);
     
     // If entry has an ID, check if it already exists and update it
@@ -473,6 +986,7 @@ export class LocalStorage implements StorageBackend {
     // Create new entry
     const newEntry: JournalEntry = {
       ...entry,
+      version: entry.version || incrementVector({}),
       id: entry.id || crypto.randomUUID(),
       user_id: userId || entry.user_id,
       sync_status: entry.sync_status || 'local_only',
@@ -552,22 +1066,309 @@ export class LocalStorage implements StorageBackend {
 
   async getEntries(): Promise<JournalEntry[]> {
     const userId = await this.getCurrentUserId();
-    return this.getStoredEntries(userId);
+    return this.getLiveEntries(userId);
+  }
+
+  async queryEntries(query: EntryQuery): Promise<EntryPage> {
+    const userId = await this.getCurrentUserId();
+    return paginateEntries(this.getLiveEntries(userId), query);
   }
 
   async getEntry(id: string): Promise<JournalEntry | null> {
+    const userId = await this.getCurrentUserId();
+    return this.getLiveEntries(userId).find(entry => entry.id === id) || null;
+  }
+
+  async updateEntry(
+    id: string,
+    changes: LocalEntryUpdate,
+    options: { recordRevision?: boolean } = {}
+  ): Promise<JournalEntry> {
+    const { recordRevision = true } = options;
     const userId = await this.getCurrentUserId();
     const entries = this.getStoredEntries(userId);
-    return entries.find(entry => entry.id === id) || null;
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index === -1 || isTrashed(entries[index])) {
+      throw new Error('Entry not found');
+    }
+
+    const current = entries[index];
+    const contentChanged = changes.content !== undefined && changes.content !== current.content;
+    const tagsChanged = changes.tags !== undefined && JSON.stringify(changes.tags) !== JSON.stringify(current.tags);
+    const sealedChanged = changes.sealed !== undefined && (changes.sealed?.data ?? null) !== (current.sealed?.data ?? null);
+    const isEdit = contentChanged || tagsChanged || sealedChanged;
+
+    const updatedEntry: JournalEntry = {
+      ...current,
+      content: changes.content ?? current.content,
+      tags: changes.tags ?? current.tags,
+      sealed: changes.sealed === undefined ? current.sealed : changes.sealed ?? undefined,
+      // Local edits are unsynced until the sync engine pushes them
+      sync_status: changes.sync_status ?? (isEdit && current.sync_status === 'synced' ? 'local_only' : current.sync_status),
+      last_synced: changes.last_synced ?? current.last_synced,
+      updated_at: isEdit ? new Date().toISOString() : current.updated_at,
+      version: isEdit ? incrementVector(current.version) : current.version
+    };
+    entries[index] = updatedEntry;
+
+    // Only real edits produce history; status-only updates (sync bookkeeping) do not
+    if (recordRevision && isEdit) {
+      const revisions = this.getStoredRevisions(userId);
+      revisions[id] = [createRevision(current), ...(revisions[id] || [])];
+      this.writeStorage(this.getRevisionsKey(userId), revisions);
+    }
+
+    this.writeStorage(this.getStorageKey(userId), entries);
+    return updatedEntry;
+  }
+
+  async getRevisions(entryId: string): Promise<EntryRevision[]> {
+    const userId = await this.getCurrentUserId();
+    return sortRevisions(this.getStoredRevisions(userId)[entryId] || []);
+  }
+
+  async sealEntry(id: string, sealed: SealedEntryData): Promise<JournalEntry> {
+    const entry = await this.updateEntry(id, { content: '', tags: [], sealed }, { recordRevision: false });
+    await this.deleteRevisions(id);
+    return entry;
+  }
+
+  async unsealEntry(id: string, payload: Required<EntryUpdate>): Promise<JournalEntry> {
+    return this.updateEntry(id, { ...payload, sealed: null }, { recordRevision: false });
+  }
+
+  private async deleteRevisions(entryId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const revisions = this.getStoredRevisions(userId);
+    if (!revisions[entryId]) return;
+    delete revisions[entryId];
+    this.writeStorage(this.getRevisionsKey(userId), revisions);
+  }
+
+  async restoreRevision(entryId: string, revisionId: string): Promise<JournalEntry> {
+    const revisions = await this.getRevisions(entryId);
+    const revision = revisions.find(r => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    return this.updateEntry(entryId, { content: revision.content, tags: revision.tags });
   }
 
   async deleteEntry(id: string): Promise<void> {
     const userId = await this.getCurrentUserId();
-    const storageKey = this.getStorageKey(userId);
     const entries = this.getStoredEntries(userId);
-    const updated = entries.filter(entry => entry.id !== id);
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index === -1 || isTrashed(entries[index])) return;
+
+    // Content and history stay until the entry is purged
+    const current = entries[index];
+    entries[index] = {
+      ...current,
+      deleted_at: new Date().toISOString(),
+      version: incrementVector(current.version),
+      sync_status: 'local_only'
+    };
+    this.writeStorage(this.getStorageKey(userId), entries);
+  }
+
+  async getTrash(): Promise<JournalEntry[]> {
+    const userId = await this.getCurrentUserId();
+    return sortTrash(this.getStoredEntries(userId).filter(isTrashed));
+  }
+
+  async restoreEntry(id: string): Promise<JournalEntry> {
+    const userId = await this.getCurrentUserId();
+    const entries = this.getStoredEntries(userId);
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index === -1 || !isTrashed(entries[index])) {
+      throw new Error('Entry not found in trash');
+    }
+
+    const restored: JournalEntry = {
+      ...entries[index],
+      deleted_at: undefined,
+      version: incrementVector(entries[index].version),
+      sync_status: 'local_only'
+    };
+    entries[index] = restored;
+    this.writeStorage(this.getStorageKey(userId), entries);
+    return restored;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const entry = this.getStoredEntries(userId).find(e => e.id === id);
+    if (!entry || !isTrashed(entry)) {
+      throw new Error('Entry not found in trash');
+    }
+    this.purge(userId, [entry]);
+  }
+
+  async emptyTrash(options: { olderThan?: string } = {}): Promise<string[]> {
+    const userId = await this.getCurrentUserId();
+    const expired = this.getStoredEntries(userId).filter(entry =>
+      isTrashed(entry) && (!options.olderThan || entry.deleted_at! < options.olderThan)
+    );
+    if (expired.length > 0) {
+      this.purge(userId, expired);
+    }
+    return expired.map(entry => entry.id);
+  }
+
+  /**
+   * Drop entries and their history, keeping only content-free tombstones so
+   * the purge reaches other devices
+   */
+  private purge(userId: string | undefined, purged: JournalEntry[]): void {
+    const ids = new Set(purged.map(entry => entry.id));
+    const now = new Date().toISOString();
+
+    const revisions = this.getStoredRevisions(userId);
+    ids.forEach(id => delete revisions[id]);
+    this.writeStorage(this.getRevisionsKey(userId), revisions);
+
+    const tombstones = this.getStoredTombstones(userId).filter(t => !ids.has(t.id));
+    purged.forEach(entry => tombstones.push(toTombstone(entry, {
+      purged_at: now,
+      version: incrementVector(entry.version),
+      sync_status: 'local_only'
+    })));
+    this.writeStorage(this.getTombstonesKey(userId), tombstones);
+
+    this.writeStorage(this.getStorageKey(userId), this.getStoredEntries(userId).filter(entry => !ids.has(entry.id)));
+  }
+
+  /**
+   * Delete every account's entries, history and tombstones on this device
+   */
+  async deleteAllEntries(): Promise<string[]> {
+    const ids = removeLocalStorageJournal();
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('heijo:storage-changed'));
+    }
+    return ids;
+  }
+
+  async exportEntries(): Promise<JournalEntry[]> {
+    const userId = await this.getCurrentUserId();
+    return this.getLiveEntries(userId);
+  }
+
+  /**
+   * Entries from a backup belong to whoever restores it
+   */
+  async importEntries(entries: JournalEntry[]): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    await this.applySyncedRecords(entries.map(entry => ({ ...entry, user_id: userId })));
+  }
+
+  async syncLocalEntries(): Promise<void> {
+    // No-op for localStorage only
+  }
+
+  /**
+   * Live and trashed entries plus tombstones, as seen by the sync engine
+   */
+  async getSyncRecords(ids?: string[]): Promise<SyncRecord[]> {
+    const userId = await this.getCurrentUserId();
+    const records = [...this.getStoredEntries(userId), ...this.getStoredTombstones(userId)];
+    return ids ? records.filter(record => ids.includes(record.id)) : records;
+  }
+
+  /**
+   * Write records that came out of a sync round without touching their
+   * version or revision history. Tombstones remove the entry and its history.
+   */
+  async applySyncedRecords(records: SyncRecord[]): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const entries = this.getStoredEntries(userId);
+    const tombstones = this.getStoredTombstones(userId);
+    const revisions = this.getStoredRevisions(userId);
+    const entryIndex = new Map(entries.map((entry, index) => [entry.id, index]));
+
+    const removedIds = new Set<string>();
+    const keptTombstones = new Map(tombstones.map(t => [t.id, t]));
+
+    records.forEach(record => {
+      if (record.purged_at) {
+        removedIds.add(record.id);
+        delete revisions[record.id];
+        keptTombstones.set(record.id, toTombstone(record, {}));
+        return;
+      }
+
+      keptTombstones.delete(record.id);
+      if (record.sealed) {
+        // Sealed on another device: local history would still hold the plaintext
+        delete revisions[record.id];
+      }
+      const index = entryIndex.get(record.id);
+      // Trashed entries keep their deleted_at; restored ones clear it
+      const applied = { ...record, deleted_at: record.deleted_at, purged_at: undefined };
+      if (index !== undefined) {
+        entries[index] = { ...entries[index], ...applied };
+      } else {
+        entryIndex.set(record.id, entries.length);
+        entries.push(applied);
+      }
+    });
+
+    const liveEntries = entries
+      .filter(entry => !removedIds.has(entry.id))
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+    // Unchanged keys are not rewritten, so repeating a sync does not fire heijo:storage-changed
+    this.writeStorageIfChanged(this.getStorageKey(userId), liveEntries);
+    this.writeStorageIfChanged(this.getTombstonesKey(userId), Array.from(keptTombstones.values()));
+    this.writeStorageIfChanged(this.getRevisionsKey(userId), revisions);
+  }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    return [];
+  }
+
+  async resolveSyncConflict(): Promise<void> {
+    // No-op for localStorage only
+  }
+
+  async getPendingOperations(): Promise<OutboxOperation[]> {
+    return [];
+  }
+
+  private getStoredTombstones(userId?: string): SyncRecord[] {
+    if (typeof window === 'undefined') return [];
+
+    const stored = localStorage.getItem(this.getTombstonesKey(userId));
+    if (!stored) return [];
+
     try {
-      localStorage.setItem(storageKey, JSON.stringify(updated));
+      return (JSON.parse(stored) as SyncRecord[]).map(normalizeTombstone);
+    } catch (e) {
+      console.warn('Failed to parse sync tombstones:', e);
+      return [];
+    }
+  }
+
+  private getLiveEntries(userId?: string): JournalEntry[] {
+    return this.getStoredEntries(userId).filter(entry => !isTrashed(entry));
+  }
+
+  private getStoredRevisions(userId?: string): Record<string, EntryRevision[]> {
+    if (typeof window === 'undefined') return {};
+
+    const stored = localStorage.getItem(this.getRevisionsKey(userId));
+    if (!stored) return {};
+
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.warn('Failed to parse stored revisions:', e);
+      return {};
+    }
+  }
+
+  private writeStorage(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
       // Dispatch custom event for same-tab listeners (Settings metrics refresh)
       if (typeof window !== 'undefined') {
         window.dispatchEvent(new CustomEvent('heijo:storage-changed'));
@@ -581,13 +1382,9 @@ export class LocalStorage implements StorageBackend {
     }
   }
 
-  async exportEntries(): Promise<JournalEntry[]> {
-    const userId = await this.getCurrentUserId();
-    return this.getStoredEntries(userId);
-  }
-
-  async syncLocalEntries(): Promise<void> {
-    // No-op for localStorage only
+  private writeStorageIfChanged(key: string, value: unknown): void {
+    if (typeof window !== 'undefined' && localStorage.getItem(key) === JSON.stringify(value)) return;
+    this.writeStorage(key, value);
   }
 
   private getStoredEntries(userId?: string, options: { skipLastKnownFallback?: boolean } = {}): JournalEntry[] {
@@ -599,7 +1396,7 @@ export class LocalStorage implements StorageBackend {
     const stored = localStorage.getItem(storageKey);
     if (!stored) {
       if (!userId && !skipLastKnownFallback) {
-        const lastKnownUserId = this.getLastKnownUserId();
+        const lastKnownUserId = getLastKnownUserId();
         if (lastKnownUserId) {
           return this.getStoredEntries(lastKnownUserId, { skipLastKnownFallback: true });
         }
@@ -651,7 +1448,7 @@ export class LocalStorage implements StorageBackend {
                   localStorage.setItem(legacyKey, JSON.stringify(remainingEntries));
                 }
                 
-                this.rememberLastUserId(userId);
+                rememberLastUserId(userId);
                 return migratedEntries;
               } catch (error) {
                 if (error instanceof DOMException && error.name === 'QuotaExceededError') {
@@ -666,7 +1463,7 @@ export class LocalStorage implements StorageBackend {
                   sync_status: entry.sync_status || 'local_only',
                   last_synced: entry.last_synced || undefined
                 }));
-                this.rememberLastUserId(userId);
+                rememberLastUserId(userId);
                 return migratedEntries;
               }
             }
@@ -702,7 +1499,7 @@ export class LocalStorage implements StorageBackend {
         : entriesWithUserId.filter((entry: any) => !entry.user_id || entry.user_id === 'anonymous');
 
       if (userId) {
-        this.rememberLastUserId(userId);
+        rememberLastUserId(userId);
       }
 
       return userEntries;
@@ -0,0 +1,89 @@
+/**
+ * What went wrong with a transcription, in terms the client can act on.
+ * Safe to import in the browser (no environment access).
+ */
+export type SttErrorCategory =
+  | 'auth' // The provider rejected our credentials
+  | 'quota' // Rate limited or out of credit
+  | 'unsupported_format' // The audio could not be decoded (or was too large)
+  | 'timeout'
+  | 'unavailable' // Network error, 5xx, or the provider's circuit is open
+  | 'not_configured' // No provider in the chain is set up on the server
+  | 'unknown';
+
+export class SttError extends Error {
+  constructor(
+    message: string,
+    public readonly category: SttErrorCategory,
+    public readonly status?: number // HTTP status from the provider
+  ) {
+    super(message);
+    this.name = 'SttError';
+  }
+}
+
+// Shown by BackendSTTEngine. Auth and configuration problems are the
+// server's, so the user is not asked to fix them.
+export const STT_ERROR_MESSAGES: Record<SttErrorCategory, string> = {
+  auth: 'Voice transcription is not available right now. Please type your entry or try again later.',
+  quota: 'Voice transcription is busy right now. Please wait a minute and try again.',
+  unsupported_format: 'Your recording could not be processed. Try a shorter recording, or another browser.',
+  timeout: 'Transcription took too long. Try a shorter recording.',
+  unavailable: 'The transcription service could not be reached. Check your connection and try again.',
+  not_configured: 'Voice transcription is not set up on this server. Please type your entry instead.',
+  unknown: 'There was a problem transcribing your audio. Please try again.'
+};
+
+// Where the route response says which category applies
+export const STT_ERROR_STATUS: Record<SttErrorCategory, number> = {
+  auth: 502,
+  quota: 429,
+  unsupported_format: 415,
+  timeout: 504,
+  unavailable: 503,
+  not_configured: 503,
+  unknown: 500
+};
+
+export function isSttErrorCategory(value: unknown): value is SttErrorCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STT_ERROR_MESSAGES, value);
+}
+
+/**
+ * Classify a provider's error response
+ */
+export function sttErrorFromResponse(serviceName: string, status: number, body: string): SttError {
+  const message = `${serviceName} error: ${status} ${body}`;
+  if (status === 401 || status === 403 || /api key|unauthori[sz]ed|invalid_api_key/i.test(body)) {
+    return new SttError(message, 'auth', status);
+  }
+  if (status === 402 || status === 429 || /quota|rate limit/i.test(body)) {
+    return new SttError(message, 'quota', status);
+  }
+  if (status === 413 || status === 415 || (status === 400 && /format|codec|decod|encoding|invalid file|unsupported/i.test(body))) {
+    return new SttError(message, 'unsupported_format', status);
+  }
+  if (status === 408 || status === 504) {
+    return new SttError(message, 'timeout', status);
+  }
+  if (status >= 500) {
+    return new SttError(message, 'unavailable', status);
+  }
+  return new SttError(message, 'unknown', status);
+}
+
+/**
+ * Any error thrown while calling a provider, as an SttError
+ */
+export function toSttError(error: unknown): SttError {
+  if (error instanceof SttError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new SttError(message, 'timeout');
+  }
+  // fetch rejects with a TypeError when the network fails
+  if (error instanceof TypeError) {
+    return new SttError(message, 'unavailable');
+  }
+  return new SttError(message, 'unknown');
+}
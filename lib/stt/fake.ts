@@ -0,0 +1,23 @@
+import type { SttProvider } from './types';
+import { SttError } from './errors';
+
+/**
+ * Deterministic provider for tests: no network, and the same audio and
+ * language always give the same text. Only available when NODE_ENV is
+ * "test" or STT_FAKE_PROVIDER=1.
+ * STT_FAKE_TRANSCRIPT (optional) replaces the generated text
+ */
+export const fakeProvider: SttProvider = {
+  id: 'fake',
+  label: 'Fake (tests)',
+  isConfigured() {
+    return process.env.NODE_ENV === 'test' || process.env.STT_FAKE_PROVIDER === '1';
+  },
+  async transcribe(request) {
+    if (!fakeProvider.isConfigured()) {
+      throw new SttError('Fake STT is only available in tests. Set STT_FAKE_PROVIDER=1 to enable it.', 'not_configured');
+    }
+    const text = process.env.STT_FAKE_TRANSCRIPT || `Test transcript (${request.language}, ${request.audio.size} bytes)`;
+    return { text };
+  }
+};
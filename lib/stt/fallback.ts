@@ -0,0 +1,115 @@
+/**
+ * Ordered provider fallback for /api/stt
+ * Providers are tried in order (see getSttFallbackChain), so one of them
+ * being down, out of quota or slow does not lose the recording. Each attempt
+ * has a timeout and goes through the circuit breaker in ./health.
+ */
+
+import type { SttProvider, SttProviderId, SttWord, TranscriptionRequest } from './types';
+import { SttError, SttErrorCategory, toSttError } from './errors';
+import { SttHealthTracker, sttHealth } from './health';
+
+export interface SttAttempt {
+  provider: SttProviderId;
+  ok: boolean;
+  skipped?: boolean; // Circuit open: no request was made
+  category?: SttErrorCategory;
+  message?: string;
+}
+
+export interface FallbackTranscription {
+  text: string;
+  words?: SttWord[];
+  provider: SttProviderId;
+  attempts: SttAttempt[];
+}
+
+export interface FallbackOptions {
+  timeoutMs?: number;
+  health?: SttHealthTracker;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Thrown when every provider in the chain failed or was skipped. The
+ * category is that of the first provider that was actually tried, or of
+ * the first skipped one if none was.
+ */
+export class SttFallbackError extends SttError {
+  constructor(message: string, category: SttErrorCategory, public readonly attempts: SttAttempt[]) {
+    super(message, category);
+    this.name = 'SttFallbackError';
+  }
+}
+
+export function getSttTimeoutMs(): number {
+  const configured = Number(process.env.STT_TIMEOUT_MS);
+  return configured > 0 ? configured : DEFAULT_TIMEOUT_MS;
+}
+
+async function withTimeout(provider: SttProvider, request: TranscriptionRequest, timeoutMs: number) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject first so the race reports a timeout, not the adapter's abort error
+      reject(new SttError(`${provider.label} did not answer within ${timeoutMs} ms`, 'timeout'));
+      controller.abort();
+    }, timeoutMs);
+  });
+  try {
+    // Adapters that ignore the signal still lose the race
+    return await Promise.race([provider.transcribe({ ...request, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Transcribe with the first provider in the chain that succeeds
+ */
+export async function transcribeWithFallback(
+  request: TranscriptionRequest,
+  chain: SttProvider[],
+  options: FallbackOptions = {}
+): Promise<FallbackTranscription> {
+  const health = options.health || sttHealth;
+  const timeoutMs = options.timeoutMs || getSttTimeoutMs();
+  const attempts: SttAttempt[] = [];
+
+  if (chain.length === 0) {
+    throw new SttFallbackError('No speech-to-text provider is configured', 'not_configured', attempts);
+  }
+
+  for (const provider of chain) {
+    const id = provider.id as SttProviderId;
+    if (!health.canAttempt(id)) {
+      // Report why the circuit opened, so a provider out of quota still reads as quota
+      const category = health.getHealth(id).lastFailureCategory || 'unavailable';
+      attempts.push({ provider: id, ok: false, skipped: true, category, message: `${provider.label} is paused after failing (${category})` });
+      continue;
+    }
+
+    try {
+      const { text, words } = await withTimeout(provider, request, timeoutMs);
+      health.recordSuccess(id);
+      attempts.push({ provider: id, ok: true });
+      return { text, words, provider: id, attempts };
+    } catch (error) {
+      const sttError = toSttError(error);
+      health.recordFailure(id, sttError.category);
+      attempts.push({ provider: id, ok: false, category: sttError.category, message: sttError.message });
+      console.warn(`STT provider ${id} failed (${sttError.category}):`, sttError.message);
+    }
+  }
+
+  let first = attempts[0];
+  for (const attempt of attempts) {
+    if (!attempt.skipped) {
+      first = attempt;
+      break;
+    }
+  }
+  throw new SttFallbackError(first.message || 'Transcription failed', first.category || 'unknown', attempts);
+}
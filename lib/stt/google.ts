@@ -0,0 +1,87 @@
+import type { SttProvider, SttWord } from './types';
+import { SttError, sttErrorFromResponse } from './errors';
+
+interface GoogleWordInfo {
+  word: string;
+  startTime?: string; // Duration, e.g. "1.300s"
+  endTime?: string;
+  confidence?: number;
+}
+
+function parseGoogleWords(words: GoogleWordInfo[] | undefined): SttWord[] {
+  return (words || []).map(word => ({
+    text: word.word,
+    start: parseFloat(word.startTime || '0') || 0,
+    end: parseFloat(word.endTime || '0') || 0,
+    // Google reports 0 when it has no estimate
+    confidence: word.confidence ? word.confidence : undefined,
+  }));
+}
+
+/**
+ * Google Cloud Speech-to-Text API
+ * GOOGLE_STT_KEY
+ */
+export const googleProvider: SttProvider = {
+  id: 'google',
+  label: 'Google Speech-to-Text',
+  isConfigured() {
+    return !!process.env.GOOGLE_STT_KEY;
+  },
+  async transcribe(request) {
+    const apiKey = process.env.GOOGLE_STT_KEY;
+
+    if (!apiKey) {
+      throw new SttError('Google STT API key not configured. Set GOOGLE_STT_KEY environment variable.', 'not_configured');
+    }
+
+    // Convert audio file to base64
+    const arrayBuffer = await request.audio.arrayBuffer();
+    const base64Audio = Buffer.from(arrayBuffer).toString('base64');
+
+    const requestBody = {
+      config: {
+        encoding: 'WEBM_OPUS', // Adjust based on actual audio format
+        sampleRateHertz: 16000,
+        languageCode: request.language,
+        alternativeLanguageCodes: [],
+        model: 'default',
+        useEnhanced: true,
+        enableWordTimeOffsets: true,
+        enableWordConfidence: true,
+      },
+      audio: {
+        content: base64Audio,
+      },
+    };
+
+    const response = await fetch(
+      `https://speech.googleapis.com/v1/speech:recognize?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+        signal: request.signal,
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw sttErrorFromResponse('Google STT API', response.status, errorText);
+    }
+
+    const data = await response.json();
+
+    if (data.results && data.results.length > 0) {
+      const alternative = data.results[0].alternatives[0];
+      const words = parseGoogleWords(alternative.words);
+      return words.length > 0
+        ? { text: alternative.transcript || '', words }
+        : { text: alternative.transcript || '' };
+    }
+
+    return { text: '' };
+  }
+};
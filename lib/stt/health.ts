@@ -0,0 +1,129 @@
+/**
+ * Per-provider circuit breaker for /api/stt
+ * A provider that keeps failing is skipped for a cooldown instead of making
+ * every recording wait for it. After the cooldown one trial request is let
+ * through (half-open): success closes the circuit, failure opens it again
+ * for twice as long.
+ */
+
+import type { SttErrorCategory } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureCategory: SttErrorCategory | null;
+  openUntil: number | null; // ms timestamp
+}
+
+export interface SttHealthOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number;
+  maxCooldownMs: number;
+}
+
+interface CircuitRecord {
+  consecutiveFailures: number;
+  lastFailureCategory: SttErrorCategory | null;
+  openUntil: number | null;
+  cooldownMs: number;
+  trialInFlight: boolean;
+}
+
+const DEFAULT_OPTIONS: SttHealthOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30 * 1000,
+  maxCooldownMs: 5 * 60 * 1000
+};
+
+// Failures that will not go away on retry: open the circuit at once
+const IMMEDIATE_OPEN: SttErrorCategory[] = ['auth', 'quota', 'not_configured'];
+
+// The audio's fault, not the provider's
+const NOT_COUNTED: SttErrorCategory[] = ['unsupported_format'];
+
+export class SttHealthTracker {
+  private options: SttHealthOptions;
+  private circuits = new Map<string, CircuitRecord>();
+
+  constructor(options: Partial<SttHealthOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  private getRecord(id: string): CircuitRecord {
+    let record = this.circuits.get(id);
+    if (!record) {
+      record = {
+        consecutiveFailures: 0,
+        lastFailureCategory: null,
+        openUntil: null,
+        cooldownMs: this.options.cooldownMs,
+        trialInFlight: false
+      };
+      this.circuits.set(id, record);
+    }
+    return record;
+  }
+
+  private stateOf(record: CircuitRecord, now: number): CircuitState {
+    if (record.openUntil === null) return 'closed';
+    return now < record.openUntil ? 'open' : 'half-open';
+  }
+
+  getHealth(id: string, now = Date.now()): ProviderHealth {
+    const record = this.getRecord(id);
+    return {
+      state: this.stateOf(record, now),
+      consecutiveFailures: record.consecutiveFailures,
+      lastFailureCategory: record.lastFailureCategory,
+      openUntil: record.openUntil
+    };
+  }
+
+  /**
+   * Whether a request may go to the provider now. In the half-open state
+   * only one trial is allowed until it is recorded.
+   */
+  canAttempt(id: string, now = Date.now()): boolean {
+    const record = this.getRecord(id);
+    const state = this.stateOf(record, now);
+    if (state === 'closed') return true;
+    if (state === 'open' || record.trialInFlight) return false;
+    record.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(id: string): void {
+    const record = this.getRecord(id);
+    record.consecutiveFailures = 0;
+    record.lastFailureCategory = null;
+    record.openUntil = null;
+    record.cooldownMs = this.options.cooldownMs;
+    record.trialInFlight = false;
+  }
+
+  recordFailure(id: string, category: SttErrorCategory, now = Date.now()): void {
+    const record = this.getRecord(id);
+    const wasTrial = record.trialInFlight;
+    record.trialInFlight = false;
+    if (NOT_COUNTED.indexOf(category) !== -1) return;
+
+    record.consecutiveFailures++;
+    record.lastFailureCategory = category;
+
+    if (wasTrial) {
+      record.cooldownMs = Math.min(record.cooldownMs * 2, this.options.maxCooldownMs);
+      record.openUntil = now + record.cooldownMs;
+    } else if (IMMEDIATE_OPEN.indexOf(category) !== -1 || record.consecutiveFailures >= this.options.failureThreshold) {
+      record.openUntil = now + record.cooldownMs;
+    }
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
+
+// Shared by all requests handled by this server instance
+export const sttHealth = new SttHealthTracker();
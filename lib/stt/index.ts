@@ -0,0 +1,79 @@
+/**
+ * Speech-to-text provider registry for /api/stt
+ * Each transcription service is an SttProvider adapter; the route looks the
+ * requested one up here instead of knowing about any of them. Server-only:
+ * adapters read API keys from the environment.
+ */
+
+import type { SttProvider, SttProviderId } from './types';
+import { whisperProvider } from './whisper';
+import { googleProvider } from './google';
+import { selfHostedProvider } from './selfHosted';
+import { fakeProvider } from './fake';
+
+export type { SttProvider, SttProviderId, TranscriptionRequest, Transcription, SttWord, SttStreamEvent } from './types';
+export { STT_PROVIDER_IDS, isSttProviderId, isSttLanguageCode } from './types';
+export * from './errors';
+export { SttHealthTracker, sttHealth } from './health';
+export type { CircuitState, ProviderHealth, SttHealthOptions } from './health';
+export { transcribeWithFallback, getSttTimeoutMs, SttFallbackError } from './fallback';
+export type { SttAttempt, FallbackTranscription, FallbackOptions } from './fallback';
+export {
+  SttStreamSession,
+  createSttStream,
+  getSttStream,
+  encodeSseEvent,
+  isSttStreamingEnabled,
+  MAX_STREAM_BYTES,
+  MAX_PARTIAL_BYTES
+} from './streaming';
+export type { SttStreamOptions } from './streaming';
+
+const providers = new Map<string, SttProvider>();
+
+export function registerSttProvider(provider: SttProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getSttProviders(): SttProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getSttProvider(id: string): SttProvider | undefined {
+  return providers.get(id);
+}
+
+[whisperProvider, googleProvider, selfHostedProvider, fakeProvider].forEach(registerSttProvider);
+
+/**
+ * The provider used when a request does not name one: STT_DEFAULT_PROVIDER,
+ * else Whisper
+ */
+export function getDefaultSttProviderId(): SttProviderId {
+  const configured = process.env.STT_DEFAULT_PROVIDER;
+  return configured && providers.has(configured) ? configured as SttProviderId : 'whisper';
+}
+
+const DEFAULT_FALLBACK_CHAIN = 'whisper,self-hosted,google';
+
+/**
+ * The providers to try, in order: the requested one, then the configured
+ * ones from STT_FALLBACK_CHAIN (default whisper, self-hosted, google).
+ * Unknown and unconfigured ids are left out.
+ */
+export function getSttFallbackChain(requested?: SttProviderId): SttProvider[] {
+  const ids = (process.env.STT_FALLBACK_CHAIN || DEFAULT_FALLBACK_CHAIN)
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  if (requested) ids.unshift(requested);
+
+  const chain: SttProvider[] = [];
+  ids.forEach(id => {
+    const provider = providers.get(id);
+    if (provider && provider.isConfigured() && chain.indexOf(provider) === -1) {
+      chain.push(provider);
+    }
+  });
+  return chain;
+}
@@ -0,0 +1,81 @@
+import type { TranscriptionRequest, Transcription, SttWord } from './types';
+import { sttErrorFromResponse } from './errors';
+
+export interface OpenAiCompatibleOptions {
+  baseUrl: string; // Up to and including /v1
+  apiKey?: string;
+  model: string;
+  serviceName: string; // For error messages
+}
+
+interface VerboseSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+}
+
+/**
+ * Words from a verbose_json response. Whisper gives words no confidence of
+ * their own, so each takes that of its segment (from the segment's average
+ * log probability). Servers that only return segments get segment timing.
+ */
+function parseVerboseWords(data: { words?: { word: string; start: number; end: number }[]; segments?: VerboseSegment[] }): SttWord[] {
+  const segments = data.segments || [];
+  const confidenceOf = (segment: VerboseSegment | undefined) =>
+    segment && typeof segment.avg_logprob === 'number' ? Math.min(1, Math.exp(segment.avg_logprob)) : undefined;
+
+  if (!data.words || data.words.length === 0) {
+    return segments
+      .filter(segment => segment.text.trim())
+      .map(segment => ({ text: segment.text.trim(), start: segment.start, end: segment.end, confidence: confidenceOf(segment) }));
+  }
+
+  return data.words
+    .filter(word => word.word.trim())
+    .map(word => {
+      const middle = (word.start + word.end) / 2;
+      let segment: VerboseSegment | undefined;
+      for (const candidate of segments) {
+        if (middle >= candidate.start && middle <= candidate.end) {
+          segment = candidate;
+          break;
+        }
+      }
+      return { text: word.word.trim(), start: word.start, end: word.end, confidence: confidenceOf(segment) };
+    });
+}
+
+/**
+ * POST /audio/transcriptions as defined by the OpenAI API, which
+ * self-hosted servers (whisper.cpp, faster-whisper) implement too.
+ * Asks for verbose_json with word and segment timestamps.
+ */
+export async function transcribeOpenAiCompatible(
+  request: TranscriptionRequest,
+  options: OpenAiCompatibleOptions
+): Promise<Transcription> {
+  const formData = new FormData();
+  formData.append('file', request.audio, 'recording.webm');
+  formData.append('model', options.model);
+  formData.append('language', request.language.split('-')[0]); // Convert en-US to en
+  formData.append('response_format', 'verbose_json');
+  formData.append('timestamp_granularities[]', 'word');
+  formData.append('timestamp_granularities[]', 'segment');
+
+  const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+    method: 'POST',
+    headers: options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {},
+    body: formData,
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw sttErrorFromResponse(options.serviceName, response.status, errorText);
+  }
+
+  const data = await response.json();
+  const words = parseVerboseWords(data);
+  return words.length > 0 ? { text: data.text || '', words } : { text: data.text || '' };
+}
@@ -0,0 +1,31 @@
+import type { SttProvider } from './types';
+import { transcribeOpenAiCompatible } from './openAiCompatible';
+import { SttError } from './errors';
+
+/**
+ * A self-hosted server with an OpenAI-compatible transcription endpoint,
+ * e.g. whisper.cpp's server or faster-whisper-server, so audio never leaves
+ * your own machines.
+ * STT_SELF_HOSTED_URL (base URL including /v1, e.g. http://localhost:8000/v1)
+ * STT_SELF_HOSTED_MODEL (optional, default whisper-1)
+ * STT_SELF_HOSTED_API_KEY (optional)
+ */
+export const selfHostedProvider: SttProvider = {
+  id: 'self-hosted',
+  label: 'Self-hosted Whisper',
+  isConfigured() {
+    return !!process.env.STT_SELF_HOSTED_URL;
+  },
+  async transcribe(request) {
+    const baseUrl = process.env.STT_SELF_HOSTED_URL;
+    if (!baseUrl) {
+      throw new SttError('Self-hosted STT not configured. Set STT_SELF_HOSTED_URL environment variable.', 'not_configured');
+    }
+    return transcribeOpenAiCompatible(request, {
+      baseUrl,
+      apiKey: process.env.STT_SELF_HOSTED_API_KEY || undefined,
+      model: process.env.STT_SELF_HOSTED_MODEL || 'whisper-1',
+      serviceName: 'Self-hosted STT'
+    });
+  }
+};
@@ -0,0 +1,242 @@
+/**
+ * Streaming transcription sessions for /api/stt/stream
+ * The client uploads timesliced audio chunks as it records and listens for
+ * Server-Sent Events. Providers only transcribe whole files (later chunks
+ * cannot be decoded without the first), so a partial is the transcript of
+ * all audio received so far. To keep the cost in check, at most one partial
+ * is in flight, they are spaced STT_STREAM_PARTIAL_INTERVAL_MS apart, and
+ * there are none once the recording passes MAX_PARTIAL_BYTES; the final
+ * transcript still covers everything. Partials have their own circuit
+ * breaker, so a failed partial never makes the final transcript skip a
+ * provider.
+ *
+ * Sessions live in this server instance's memory: the chunk uploads, the
+ * event stream and the final upload must all reach the same instance. That
+ * holds for one long-running `next start` server but not for serverless
+ * deploys such as Vercel, so streaming is off unless STT_STREAMING=1. The
+ * number of open sessions is capped (STT_STREAM_MAX_SESSIONS) and idle ones
+ * are pruned on a timer.
+ */
+
+import type { SttProvider, SttStreamEvent } from './types';
+import { SttError, toSttError } from './errors';
+import { transcribeWithFallback, FallbackOptions } from './fallback';
+import { SttHealthTracker } from './health';
+
+type StreamListener = (event: SttStreamEvent) => void;
+
+export interface SttStreamOptions extends FallbackOptions {
+  partialHealth?: SttHealthTracker; // Circuit breaker for partials (default: one shared by all sessions)
+  partialIntervalMs?: number;
+}
+
+export const MAX_STREAM_BYTES = 25 * 1024 * 1024; // Whisper's upload limit
+export const MAX_PARTIAL_BYTES = 2 * 1024 * 1024; // A few minutes of Opus audio
+const DEFAULT_PARTIAL_INTERVAL_MS = 5 * 1000;
+const DEFAULT_MAX_SESSIONS = 10;
+const IDLE_EXPIRY_MS = 5 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+const partialHealth = new SttHealthTracker();
+
+export function isSttStreamingEnabled(): boolean {
+  return process.env.STT_STREAMING === '1';
+}
+
+function getPartialIntervalMs(): number {
+  const configured = Number(process.env.STT_STREAM_PARTIAL_INTERVAL_MS);
+  return configured >= 0 && process.env.STT_STREAM_PARTIAL_INTERVAL_MS ? configured : DEFAULT_PARTIAL_INTERVAL_MS;
+}
+
+function getMaxSessions(): number {
+  const configured = Number(process.env.STT_STREAM_MAX_SESSIONS);
+  return configured > 0 ? configured : DEFAULT_MAX_SESSIONS;
+}
+
+export class SttStreamSession {
+  private chunks: Blob[] = [];
+  private bytes = 0;
+  private nextSeq = 0;
+  private partialChunks = 0; // Chunks covered by the last partial
+  private partialInFlight: Promise<void> | null = null;
+  private partialTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPartialAt = 0;
+  private finishing: Promise<void> | null = null;
+  private latest: SttStreamEvent | null = null;
+  private listeners = new Set<StreamListener>();
+  lastActivity = Date.now();
+
+  constructor(
+    readonly id: string,
+    private readonly language: string,
+    private readonly chain: SttProvider[],
+    private readonly options: SttStreamOptions = {}
+  ) {}
+
+  get isDone(): boolean {
+    return this.latest !== null && this.latest.type !== 'partial';
+  }
+
+  /**
+   * Add the next chunk. Chunks must arrive in order: concatenated, they
+   * are the recording file.
+   */
+  append(seq: number, chunk: Blob): void {
+    if (this.finishing) {
+      throw new SttError('The stream has already finished', 'unknown');
+    }
+    if (seq !== this.nextSeq) {
+      throw new SttError(`Expected chunk ${this.nextSeq}, got ${seq}`, 'unknown');
+    }
+    if (this.bytes + chunk.size > MAX_STREAM_BYTES) {
+      throw new SttError('The recording is too large to transcribe', 'unsupported_format');
+    }
+    this.nextSeq++;
+    this.lastActivity = Date.now();
+    if (chunk.size === 0) return;
+    this.chunks.push(chunk);
+    this.bytes += chunk.size;
+    this.schedulePartial();
+  }
+
+  /**
+   * No more audio: transcribe all of it and emit the final (or failed)
+   * event. Resolves once it has been emitted.
+   */
+  finish(): Promise<void> {
+    if (!this.finishing) {
+      this.lastActivity = Date.now();
+      if (this.partialTimer) {
+        clearTimeout(this.partialTimer);
+        this.partialTimer = null;
+      }
+      this.finishing = this.transcribeFinal();
+    }
+    return this.finishing;
+  }
+
+  /**
+   * Listen for events. The latest one is replayed at once, so a client that
+   * connects (or reconnects) late still sees where the transcript is.
+   */
+  subscribe(listener: StreamListener): () => void {
+    if (this.latest) listener(this.latest);
+    if (!this.isDone) this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SttStreamEvent): void {
+    this.latest = event;
+    this.listeners.forEach(listener => listener(event));
+    if (this.isDone) {
+      this.listeners.clear();
+      this.chunks = []; // Only the last event is replayed
+    }
+  }
+
+  private audio(chunkCount = this.chunks.length): Blob {
+    return new Blob(this.chunks.slice(0, chunkCount), { type: this.chunks[0] ? this.chunks[0].type : 'audio/webm' });
+  }
+
+  private schedulePartial(): void {
+    if (this.partialInFlight || this.partialTimer || this.finishing || this.chunks.length === this.partialChunks) return;
+    if (this.bytes > MAX_PARTIAL_BYTES) return;
+
+    const interval = this.options.partialIntervalMs !== undefined ? this.options.partialIntervalMs : getPartialIntervalMs();
+    const wait = this.lastPartialAt + interval - Date.now();
+    if (wait > 0) {
+      this.partialTimer = setTimeout(() => {
+        this.partialTimer = null;
+        this.schedulePartial();
+      }, wait);
+      return;
+    }
+    this.lastPartialAt = Date.now();
+
+    const chunkCount = this.chunks.length;
+    const options = { ...this.options, health: this.options.partialHealth || partialHealth };
+    this.partialInFlight = transcribeWithFallback({ audio: this.audio(chunkCount), language: this.language }, this.chain, options)
+      .then(result => {
+        if (!this.finishing && result.text.trim()) {
+          this.emit({ type: 'partial', text: result.text.trim() });
+        }
+      })
+      .catch(error => {
+        // Only the final transcript has to succeed
+        console.warn('STT stream: partial transcript failed:', toSttError(error).message);
+      })
+      .then(() => {
+        this.partialChunks = chunkCount;
+        this.partialInFlight = null;
+        this.schedulePartial();
+      });
+  }
+
+  private async transcribeFinal(): Promise<void> {
+    if (this.partialInFlight) {
+      await this.partialInFlight;
+    }
+    if (this.bytes === 0) {
+      this.emit({ type: 'failed', error: 'No audio was received', category: 'unsupported_format' });
+      return;
+    }
+    try {
+      const result = await transcribeWithFallback({ audio: this.audio(), language: this.language }, this.chain, this.options);
+      this.emit({ type: 'final', text: result.text, provider: result.provider, words: result.words });
+    } catch (error) {
+      const sttError = toSttError(error);
+      this.emit({ type: 'failed', error: `Transcription failed: ${sttError.message}`, category: sttError.category });
+    }
+  }
+}
+
+const sessions = new Map<string, SttStreamSession>();
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+function pruneSessions(now: number): void {
+  sessions.forEach((session, id) => {
+    if (now - session.lastActivity > IDLE_EXPIRY_MS) {
+      sessions.delete(id);
+    }
+  });
+  if (sessions.size === 0 && pruneTimer) {
+    clearInterval(pruneTimer);
+    pruneTimer = null;
+  }
+}
+
+function startPruning(): void {
+  if (pruneTimer) return;
+  pruneTimer = setInterval(() => pruneSessions(Date.now()), PRUNE_INTERVAL_MS);
+  // Don't keep the server process alive just for this
+  (pruneTimer as unknown as { unref?: () => void }).unref?.();
+}
+
+/**
+ * Start a session. Throws an 'unavailable' SttError when too many are open
+ * on this instance; the client then uploads the recording in one piece.
+ */
+export function createSttStream(language: string, chain: SttProvider[], options?: SttStreamOptions): SttStreamSession {
+  pruneSessions(Date.now());
+  if (sessions.size >= getMaxSessions()) {
+    throw new SttError('Too many streaming transcriptions are in progress', 'unavailable');
+  }
+  const session = new SttStreamSession(crypto.randomUUID(), language, chain, options);
+  sessions.set(session.id, session);
+  startPruning();
+  return session;
+}
+
+export function getSttStream(id: string): SttStreamSession | undefined {
+  return sessions.get(id);
+}
+
+/**
+ * One event in the text/event-stream format
+ */
+export function encodeSseEvent(event: SttStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,62 @@
+import type { SttErrorCategory } from './errors';
+
+// Backend speech-to-text providers. The ids are shared with the client
+// (VoiceProvider in lib/voiceToText and lib/voiceSettings).
+export const STT_PROVIDER_IDS = ['whisper', 'google', 'self-hosted', 'fake'] as const;
+
+export type SttProviderId = typeof STT_PROVIDER_IDS[number];
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  language: string; // BCP 47, e.g. "en-US"
+  signal?: AbortSignal; // Aborted when the attempt times out
+}
+
+/**
+ * A word (or, from services without word timing, a segment) of a
+ * transcript, with its position in the audio in seconds. Confidence is 0-1
+ * where the service reports it.
+ */
+export interface SttWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface Transcription {
+  text: string;
+  words?: SttWord[]; // In spoken order, where the service provides timing
+}
+
+/**
+ * An adapter for one transcription service. Adapters read their settings
+ * from environment variables when called, so they stay unconfigured (and
+ * are left out of the fallback chain) until those are set. Failures are
+ * thrown as SttError (see errors) so the chain can tell them apart.
+ */
+export interface SttProvider {
+  id: SttProviderId;
+  label: string;
+  isConfigured(): boolean;
+  transcribe(request: TranscriptionRequest): Promise<Transcription>;
+}
+
+export function isSttProviderId(value: unknown): value is SttProviderId {
+  return typeof value === 'string' && (STT_PROVIDER_IDS as readonly string[]).indexOf(value) !== -1;
+}
+
+// BCP 47 language and region, e.g. "en-US"
+export function isSttLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z]{2}-[A-Z]{2}$/.test(value);
+}
+
+/**
+ * Server-Sent Events from /api/stt/stream/[id] (the SSE event name is
+ * `type`). Partials are the transcript of the audio received so far; a
+ * stream ends with exactly one final or failed event.
+ */
+export type SttStreamEvent =
+  | { type: 'partial'; text: string }
+  | { type: 'final'; text: string; provider: SttProviderId; words?: SttWord[] }
+  | { type: 'failed'; error: string; category: SttErrorCategory };
@@ -0,0 +1,27 @@
+import type { SttProvider } from './types';
+import { transcribeOpenAiCompatible } from './openAiCompatible';
+import { SttError } from './errors';
+
+/**
+ * OpenAI Whisper API
+ * WHISPER_API_KEY or OPENAI_API_KEY
+ */
+export const whisperProvider: SttProvider = {
+  id: 'whisper',
+  label: 'OpenAI Whisper',
+  isConfigured() {
+    return !!(process.env.WHISPER_API_KEY || process.env.OPENAI_API_KEY);
+  },
+  async transcribe(request) {
+    const apiKey = process.env.WHISPER_API_KEY || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new SttError('Whisper API key not configured. Set WHISPER_API_KEY or OPENAI_API_KEY environment variable.', 'not_configured');
+    }
+    return transcribeOpenAiCompatible(request, {
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey,
+      model: 'whisper-1',
+      serviceName: 'Whisper API'
+    });
+  }
+};
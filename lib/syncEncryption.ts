@@ -0,0 +1,153 @@
+/**
+ * End-to-end encrypted cloud sync
+ * Entry text and tags are sealed with a key derived from the user's sync
+ * secret before they reach Supabase. The server only keeps ids, timestamps,
+ * version vectors, trash state and the entry source.
+ * Rows uploaded before encryption was added are re-uploaded sealed by
+ * migratePlaintextRows().
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { encryptionManager, EncryptedData, MIN_PASSPHRASE_LENGTH, PBKDF2_ITERATIONS, bytesToBase64 } from './encryption';
+import type { EntryPayload, SealedPayload, SyncPayloadCodec, SyncRemote } from './syncEngine';
+import type { EntryRevision } from './store';
+
+// Row in user_sync_keys (sql/add-encrypted-sync.sql); nothing in it reveals the key
+export interface SyncKeyParams {
+  user_id: string;
+  kdf: 'PBKDF2-SHA256';
+  salt: string;
+  iterations: number;
+  key_check: EncryptedData;
+}
+
+export interface PlaintextMigrationResult {
+  entries: number;
+  revisions: number;
+}
+
+const MIGRATION_STORAGE_KEY = 'heijo-e2ee-migrated';
+const MIGRATION_BATCH_SIZE = 100;
+
+export const encryptedSyncCodec: SyncPayloadCodec = {
+  async seal(userId, payload) {
+    const encrypted_payload = await encryptionManager.encryptForSync(
+      userId,
+      JSON.stringify({ content: payload.content, tags: payload.tags })
+    );
+    return { content: '', tags: [], encrypted_payload };
+  },
+
+  async open(userId, row) {
+    // Not migrated yet: still plaintext
+    if (!row.encrypted_payload) {
+      return { content: row.content ?? '', tags: row.tags ?? [] };
+    }
+    const payload: EntryPayload = JSON.parse(await encryptionManager.decryptForSync(userId, row.encrypted_payload));
+    return { content: payload.content, tags: payload.tags };
+  }
+};
+
+export async function getSyncKeyParams(client: SupabaseClient, userId: string): Promise<SyncKeyParams | null> {
+  const { data, error } = await client
+    .from('user_sync_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Set up encrypted sync on this device. The first device picks the salt and
+ * stores it with a key check; every other device has to enter the same
+ * secret (WrongPassphraseError otherwise).
+ */
+export async function unlockSyncKey(client: SupabaseClient, userId: string, secret: string): Promise<'created' | 'unlocked'> {
+  const params = await getSyncKeyParams(client, userId);
+  if (params) {
+    await encryptionManager.setSyncKey(userId, secret, params, params.key_check);
+    notifySyncKeyChanged();
+    return 'unlocked';
+  }
+
+  if (secret.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Sync secret must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key_check = await encryptionManager.setSyncKey(userId, secret, { salt, iterations: PBKDF2_ITERATIONS });
+  const { error } = await client
+    .from('user_sync_keys')
+    .insert([{ user_id: userId, kdf: 'PBKDF2-SHA256', salt, iterations: PBKDF2_ITERATIONS, key_check }]);
+  if (error) {
+    // Another device may have set up sync first; its secret wins
+    await encryptionManager.forgetSyncKey(userId);
+    throw error;
+  }
+
+  notifySyncKeyChanged();
+  return 'created';
+}
+
+export async function sealRevision(userId: string, revision: EntryRevision): Promise<EntryRevision & SealedPayload> {
+  return { ...revision, ...(await encryptedSyncCodec.seal(userId, revision)) };
+}
+
+export async function openRevision(userId: string, row: EntryRevision & Partial<SealedPayload>): Promise<EntryRevision> {
+  const { encrypted_payload, ...revision } = row;
+  return { ...revision, ...(await encryptedSyncCodec.open(userId, { ...revision, encrypted_payload })) };
+}
+
+export function isPlaintextMigrationDone(userId: string): boolean {
+  if (typeof window === 'undefined') return true;
+  return localStorage.getItem(`${MIGRATION_STORAGE_KEY}:${userId}`) !== null;
+}
+
+/**
+ * Re-upload entries and revisions still stored as plaintext, sealed.
+ * Versions are left alone since the text does not change; safe to retry.
+ */
+export async function migratePlaintextRows(client: SupabaseClient, remote: SyncRemote, userId: string): Promise<PlaintextMigrationResult> {
+  const { data: entryRows, error: entryError } = await client
+    .from('journal_entries')
+    .select('id')
+    .eq('user_id', userId)
+    .is('encrypted_payload', null)
+    .is('purged_at', null);
+  if (entryError) throw entryError;
+
+  const ids = (entryRows || []).map((row: { id: string }) => row.id);
+  for (let i = 0; i < ids.length; i += MIGRATION_BATCH_SIZE) {
+    const records = await remote.pull(userId, ids.slice(i, i + MIGRATION_BATCH_SIZE));
+    await remote.push(userId, records);
+  }
+
+  const { data: revisionRows, error: revisionError } = await client
+    .from('journal_entry_revisions')
+    .select('*')
+    .eq('user_id', userId)
+    .is('encrypted_payload', null);
+  if (revisionError) throw revisionError;
+
+  const revisions = (revisionRows || []) as EntryRevision[];
+  for (let i = 0; i < revisions.length; i += MIGRATION_BATCH_SIZE) {
+    const sealed = [];
+    for (const revision of revisions.slice(i, i + MIGRATION_BATCH_SIZE)) {
+      sealed.push(await sealRevision(userId, revision));
+    }
+    const { error } = await client
+      .from('journal_entry_revisions')
+      .upsert(sealed, { onConflict: 'id' });
+    if (error) throw error;
+  }
+
+  localStorage.setItem(`${MIGRATION_STORAGE_KEY}:${userId}`, new Date().toISOString());
+  return { entries: ids.length, revisions: revisions.length };
+}
+
+function notifySyncKeyChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('heijo:sync-key-changed'));
+  }
+}
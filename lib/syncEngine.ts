@@ -0,0 +1,366 @@
+/**
+ * Bidirectional multi-device sync for journal entries
+ * Merges local and Supabase copies using per-entry version vectors,
+ * carries trash state and purges (as tombstones) and queues real conflicts
+ * for the user.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalEntry } from './store';
+import type { EncryptedData } from './encryption';
+import { compareVectors, incrementVector, mergeVectors, getDeviceId } from './versionVector';
+import { debugLog } from './logger';
+
+// A record is a live entry, a trashed one (deleted_at set) or a tombstone (purged_at set, content cleared)
+export type SyncRecord = JournalEntry;
+
+export interface SyncConflict {
+  entry_id: string;
+  local: SyncRecord;
+  remote: SyncRecord;
+  detected_at: string;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Local side of the sync (implemented by LocalStorage)
+ */
+export interface SyncLocalStore {
+  getSyncRecords(ids?: string[]): Promise<SyncRecord[]>;
+  applySyncedRecords(records: SyncRecord[]): Promise<void>;
+}
+
+/**
+ * Remote side of the sync (Supabase in production, in-memory in tests)
+ */
+export interface SyncRemote {
+  pull(userId: string, ids?: string[]): Promise<SyncRecord[]>;
+  push(userId: string, records: SyncRecord[]): Promise<void>;
+}
+
+/**
+ * Turns entry text and tags into what is stored remotely and back
+ * (lib/syncEncryption seals them so the server only sees ciphertext)
+ */
+export interface SyncPayloadCodec {
+  seal(userId: string, payload: EntryPayload): Promise<SealedPayload>;
+  open(userId: string, row: EntryPayload & Partial<SealedPayload>): Promise<EntryPayload>;
+}
+
+export type EntryPayload = Pick<JournalEntry, 'content' | 'tags'>;
+
+// Remote columns for a sealed payload: text columns are left empty
+export interface SealedPayload extends EntryPayload {
+  encrypted_payload: EncryptedData | null;
+}
+
+interface MergeOutcome {
+  record: SyncRecord;
+  conflict?: SyncConflict;
+}
+
+const CONFLICTS_STORAGE_KEY = 'heijo-sync-conflicts';
+
+/**
+ * Deterministic winner between two concurrent versions: the most recently
+ * written one, ties broken by content so every device picks the same side
+ */
+function pickProvisionalWinner(a: SyncRecord, b: SyncRecord): SyncRecord {
+  const aTime = new Date(a.updated_at || a.created_at).getTime();
+  const bTime = new Date(b.updated_at || b.created_at).getTime();
+  if (aTime !== bTime) return aTime > bTime ? a : b;
+  return a.content >= b.content ? a : b;
+}
+
+function earliest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a || b;
+  return a < b ? a : b;
+}
+
+/**
+ * Merge rules for two versions of the same entry edited concurrently
+ * 1. Both purged: keep the earliest purge
+ * 2. Purge vs trashed: the purge wins (both sides wanted it gone)
+ * 3. Purge vs live edit: the edit wins (never lose text silently)
+ * 4. Trash is kept if either side trashed it; the text is still restorable
+ * 5. Same content, different tags: union of tags
+ * 6. Different content: provisional winner + conflict for the user
+ */
+export function mergeConcurrent(local: SyncRecord, remote: SyncRecord): MergeOutcome {
+  const version = mergeVectors(local.version, remote.version);
+
+  if (local.purged_at && remote.purged_at) {
+    return { record: { ...local, purged_at: earliest(local.purged_at, remote.purged_at), version } };
+  }
+
+  if (local.purged_at || remote.purged_at) {
+    const [purged, other] = local.purged_at ? [local, remote] : [remote, local];
+    if (other.deleted_at) {
+      return { record: { ...purged, version } };
+    }
+    return { record: { ...other, deleted_at: undefined, purged_at: undefined, version } };
+  }
+
+  const deleted_at = earliest(local.deleted_at, remote.deleted_at);
+
+  // Sealed text is compared as ciphertext: equal only if it is the same sealing
+  if (local.content === remote.content && local.sealed?.data === remote.sealed?.data) {
+    const tags = Array.from(new Set([...local.tags, ...remote.tags]));
+    const base = pickProvisionalWinner(local, remote);
+    return { record: { ...base, tags, deleted_at, version } };
+  }
+
+  const winner = pickProvisionalWinner(local, remote);
+  return {
+    record: { ...winner, deleted_at, version },
+    conflict: {
+      entry_id: local.id,
+      local,
+      remote,
+      detected_at: new Date().toISOString()
+    }
+  };
+}
+
+export class SyncEngine {
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly local: SyncLocalStore,
+    private readonly remote: SyncRemote,
+    private readonly deviceId: string = getDeviceId()
+  ) {}
+
+  /**
+   * Pull remote changes, push local ones and merge. Pass `ids` to limit the
+   * round trip to specific entries (e.g. right after a save).
+   * Calls are serialized so two syncs never interleave.
+   */
+  sync(userId: string, ids?: string[]): Promise<SyncResult> {
+    const next = this.running.catch(() => undefined).then(() => this.runSync(userId, ids));
+    this.running = next;
+    return next;
+  }
+
+  private async runSync(userId: string, ids?: string[]): Promise<SyncResult> {
+    const [localRecords, remoteRecords] = await Promise.all([
+      this.local.getSyncRecords(ids),
+      this.remote.pull(userId, ids)
+    ]);
+
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const remoteById = new Map(remoteRecords.map(record => [record.id, record]));
+    const allIds = new Set([...Array.from(localById.keys()), ...Array.from(remoteById.keys())]);
+
+    const toPush: SyncRecord[] = [];
+    const toApply: SyncRecord[] = [];
+    const conflicts: SyncConflict[] = [];
+
+    allIds.forEach(id => {
+      const local = localById.get(id);
+      const remote = remoteById.get(id);
+
+      if (local && !remote) {
+        toPush.push(local);
+        return;
+      }
+      if (remote && !local) {
+        toApply.push(remote);
+        return;
+      }
+      if (!local || !remote) return;
+
+      const order = compareVectors(local.version, remote.version);
+      const sameState = local.content === remote.content &&
+        local.sealed?.data === remote.sealed?.data &&
+        JSON.stringify(local.tags) === JSON.stringify(remote.tags) &&
+        !!local.deleted_at === !!remote.deleted_at &&
+        !!local.purged_at === !!remote.purged_at;
+
+      if (order === 'after') {
+        toPush.push(local);
+      } else if (order === 'before') {
+        toApply.push(remote);
+      } else if (order === 'equal' && sameState) {
+        if (local.sync_status !== 'synced') toApply.push(local);
+      } else {
+        const outcome = mergeConcurrent(local, remote);
+        toPush.push(outcome.record);
+        if (outcome.conflict) conflicts.push(outcome.conflict);
+      }
+    });
+
+    if (toPush.length > 0) {
+      try {
+        await this.remote.push(userId, toPush);
+      } catch (error) {
+        await this.local.applySyncedRecords(toPush.map(record => ({ ...record, sync_status: 'error' as const })));
+        throw error;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const synced = [...toApply, ...toPush].map(record => ({
+      ...record,
+      user_id: userId,
+      sync_status: 'synced' as const,
+      last_synced: now
+    }));
+    if (synced.length > 0) {
+      await this.local.applySyncedRecords(synced);
+    }
+
+    if (conflicts.length > 0) {
+      this.saveConflicts(userId, [
+        ...this.getConflicts(userId).filter(existing => !conflicts.some(c => c.entry_id === existing.entry_id)),
+        ...conflicts
+      ]);
+    }
+
+    debugLog(`Sync complete: pulled ${toApply.length}, pushed ${toPush.length}, conflicts ${conflicts.length}`);
+    return { pulled: toApply.length, pushed: toPush.length, conflicts };
+  }
+
+  /**
+   * Conflicts waiting for the user to pick a version
+   */
+  getConflicts(userId: string): SyncConflict[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(`${CONFLICTS_STORAGE_KEY}:${userId}`);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to parse sync conflicts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Apply the user's choice everywhere. The chosen version gets a vector that
+   * dominates both sides, so every device converges on it.
+   */
+  async resolveConflict(userId: string, entryId: string, choice: ConflictChoice): Promise<SyncRecord> {
+    const conflicts = this.getConflicts(userId);
+    const conflict = conflicts.find(c => c.entry_id === entryId);
+    if (!conflict) throw new Error('Conflict not found');
+
+    const [current] = await this.local.getSyncRecords([entryId]);
+    const chosen = conflict[choice];
+    const version = incrementVector(
+      mergeVectors(mergeVectors(conflict.local.version, conflict.remote.version), current?.version),
+      this.deviceId
+    );
+    const resolved: SyncRecord = {
+      ...chosen,
+      version,
+      updated_at: new Date().toISOString()
+    };
+
+    await this.remote.push(userId, [resolved]);
+    await this.local.applySyncedRecords([{
+      ...resolved,
+      user_id: userId,
+      sync_status: 'synced',
+      last_synced: new Date().toISOString()
+    }]);
+
+    this.saveConflicts(userId, conflicts.filter(c => c.entry_id !== entryId));
+    return resolved;
+  }
+
+  /**
+   * Forget every stored conflict on this device, for all users. Conflicts
+   * hold copies of both versions, so they go when all data is deleted.
+   */
+  clearConflicts(): void {
+    if (typeof window === 'undefined') return;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.indexOf(`${CONFLICTS_STORAGE_KEY}:`) === 0) keys.push(key);
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+    window.dispatchEvent(new CustomEvent('heijo:sync-conflicts', { detail: { count: 0 } }));
+  }
+
+  private saveConflicts(userId: string, conflicts: SyncConflict[]): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(`${CONFLICTS_STORAGE_KEY}:${userId}`, JSON.stringify(conflicts));
+      window.dispatchEvent(new CustomEvent('heijo:sync-conflicts', { detail: { count: conflicts.length } }));
+    } catch (error) {
+      console.warn('Failed to persist sync conflicts:', error);
+    }
+  }
+}
+
+/**
+ * Supabase-backed remote. Trashed entries are rows with deleted_at set;
+ * purge tombstones also have purged_at set and no content.
+ * With a codec, content and tags are stored sealed instead of as plaintext.
+ */
+export function createSupabaseRemote(client: SupabaseClient, codec?: SyncPayloadCodec): SyncRemote {
+  return {
+    async pull(userId, ids) {
+      let query = client
+        .from('journal_entries')
+        .select('*')
+        .eq('user_id', userId);
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const rows = (data || []) as Array<SyncRecord & Partial<SealedPayload>>;
+      if (!codec) return rows;
+
+      const records: SyncRecord[] = [];
+      for (const { encrypted_payload, ...row } of rows) {
+        const payload = row.purged_at ? { content: '', tags: [] } : await codec.open(userId, { ...row, encrypted_payload });
+        records.push({ ...row, ...payload });
+      }
+      return records;
+    },
+
+    async push(userId, records) {
+      const now = new Date().toISOString();
+      const rows = [];
+      for (const record of records) {
+        const payload: EntryPayload = record.purged_at
+          ? { content: '', tags: [] }
+          : { content: record.content, tags: record.tags };
+        let columns: EntryPayload | SealedPayload = payload;
+        if (codec) {
+          columns = record.purged_at ? { ...payload, encrypted_payload: null } : await codec.seal(userId, payload);
+        }
+        rows.push({
+          id: record.id,
+          user_id: userId,
+          created_at: record.created_at,
+          ...columns,
+          source: record.source,
+          updated_at: record.updated_at ?? null,
+          deleted_at: record.deleted_at ?? null,
+          purged_at: record.purged_at ?? null,
+          sealed: record.purged_at ? null : record.sealed ?? null,
+          version: record.version ?? {},
+          sync_status: 'synced',
+          last_synced: now
+        });
+      }
+
+      const { error } = await client
+        .from('journal_entries')
+        .upsert(rows, { onConflict: 'id' });
+      if (error) throw error;
+    }
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Trash retention
+ * Deleted entries stay in the trash (deleted_at set, content kept) until the
+ * user purges them or they are older than the retention period, after which
+ * only a content-free tombstone is left for sync.
+ */
+
+import type { JournalEntry } from './store';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+
+const RETENTION_STORAGE_KEY = 'heijo-trash-retention-days';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getTrashRetentionDays(): number {
+  if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+  const stored = Number(localStorage.getItem(RETENTION_STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error('Trash retention must be a whole number of days');
+  }
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+}
+
+/**
+ * Entries moved to the trash before this moment are due for purging
+ */
+export function getTrashCutoff(retentionDays: number = getTrashRetentionDays(), now: number = Date.now()): string {
+  return new Date(now - retentionDays * DAY_MS).toISOString();
+}
+
+/**
+ * Whole days left before a trashed entry is purged automatically (0 = next purge)
+ */
+export function daysUntilPurge(entry: JournalEntry, retentionDays: number = getTrashRetentionDays(), now: number = Date.now()): number {
+  if (!entry.deleted_at) return retentionDays;
+  const purgeAt = new Date(entry.deleted_at).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+}
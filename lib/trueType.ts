@@ -0,0 +1,346 @@
+/**
+ * TrueType font reader for PDF embedding
+ * Reads what is needed to lay out text (character map, advance widths,
+ * metrics) and writes subsets: the font keeps its glyph ids, so PDFs can use
+ * them directly as character codes, but the outlines of glyphs that are not
+ * used are left out and the glyph list ends at the last one used.
+ * Only TrueType outlines (.ttf) are supported, not CFF (.otf) or collections.
+ */
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// Tables a PDF viewer needs to render an embedded TrueType font
+const SUBSET_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf', 'cvt ', 'fpgm', 'prep'];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+export class TrueTypeFont {
+  readonly postScriptName: string;
+  readonly unitsPerEm: number;
+  readonly numGlyphs: number;
+  // In 1/1000 em, as PDF font descriptors expect
+  readonly ascent: number;
+  readonly descent: number;
+  readonly capHeight: number;
+  readonly bbox: [number, number, number, number];
+  readonly italicAngle: number;
+
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly tables: Record<string, TableRecord> = {};
+  private readonly characters = new Map<number, number>(); // Code point → glyph id
+  private readonly advances: number[] = [];
+  private readonly glyphOffsets: number[] = []; // Into glyf, numGlyphs + 1 entries
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const version = this.view.getUint32(0);
+    if (version === 0x4f54544f) throw new Error('CFF (.otf) fonts are not supported; use a TrueType (.ttf) font');
+    if (version === 0x74746366) throw new Error('Font collections (.ttc) are not supported; use a single TrueType (.ttf) font');
+    if (version !== 0x00010000 && version !== 0x74727565) throw new Error('Not a TrueType font');
+
+    const numTables = this.view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      this.tables[this.tag(record)] = { offset: this.view.getUint32(record + 8), length: this.view.getUint32(record + 12) };
+    }
+    ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf'].forEach(tag => {
+      if (!this.tables[tag]) throw new Error(`Font has no ${tag.trim()} table`);
+    });
+
+    const head = this.tables.head.offset;
+    this.unitsPerEm = this.view.getUint16(head + 18);
+    this.bbox = [
+      this.scale(this.view.getInt16(head + 36)),
+      this.scale(this.view.getInt16(head + 38)),
+      this.scale(this.view.getInt16(head + 40)),
+      this.scale(this.view.getInt16(head + 42))
+    ];
+    const longOffsets = this.view.getInt16(head + 50) === 1;
+
+    const hhea = this.tables.hhea.offset;
+    this.ascent = this.scale(this.view.getInt16(hhea + 4));
+    this.descent = this.scale(this.view.getInt16(hhea + 6));
+    const numberOfHMetrics = this.view.getUint16(hhea + 34);
+
+    this.numGlyphs = this.view.getUint16(this.tables.maxp.offset + 4);
+
+    const os2 = this.tables['OS/2'];
+    this.capHeight = os2 && os2.length >= 90 && this.view.getUint16(os2.offset) >= 2
+      ? this.scale(this.view.getInt16(os2.offset + 88))
+      : this.ascent;
+    this.italicAngle = this.tables.post ? this.view.getInt32(this.tables.post.offset + 4) / 65536 : 0;
+
+    const hmtx = this.tables.hmtx.offset;
+    for (let glyph = 0; glyph < this.numGlyphs; glyph++) {
+      // Glyphs past the last metric share its advance
+      this.advances.push(this.view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4));
+    }
+
+    const loca = this.tables.loca.offset;
+    for (let glyph = 0; glyph <= this.numGlyphs; glyph++) {
+      this.glyphOffsets.push(longOffsets ? this.view.getUint32(loca + glyph * 4) : this.view.getUint16(loca + glyph * 2) * 2);
+    }
+
+    this.readCharacterMap();
+    this.postScriptName = this.readPostScriptName();
+  }
+
+  /**
+   * Glyph for a Unicode code point; 0 (.notdef) when the font has none
+   */
+  glyphId(codePoint: number): number {
+    return this.characters.get(codePoint) ?? 0;
+  }
+
+  /**
+   * Advance width of a glyph in 1/1000 em
+   */
+  advanceWidth(glyph: number): number {
+    return this.scale(this.advances[glyph] ?? 0);
+  }
+
+  /**
+   * The font with only these glyphs (and .notdef, and the parts of composite
+   * glyphs) drawn. Glyph ids are unchanged.
+   */
+  subset(glyphs: Iterable<number>): Uint8Array<ArrayBuffer> {
+    const used = new Set<number>([0]);
+    const pending = [0, ...Array.from(glyphs)];
+    while (pending.length > 0) {
+      const glyph = pending.pop()!;
+      if (glyph >= this.numGlyphs) continue;
+      used.add(glyph);
+      this.componentsOf(glyph).forEach(component => {
+        if (!used.has(component)) pending.push(component);
+      });
+    }
+    const numGlyphs = Math.max(...Array.from(used)) + 1;
+
+    const glyfParts: Uint8Array[] = [];
+    const loca = new Uint8Array((numGlyphs + 1) * 4);
+    const locaView = new DataView(loca.buffer);
+    let glyfLength = 0;
+    for (let glyph = 0; glyph < numGlyphs; glyph++) {
+      locaView.setUint32(glyph * 4, glyfLength);
+      if (!used.has(glyph)) continue;
+      const data = this.glyphData(glyph);
+      const padded = new Uint8Array((data.length + 3) & ~3);
+      padded.set(data);
+      glyfParts.push(padded);
+      glyfLength += padded.length;
+    }
+    locaView.setUint32(numGlyphs * 4, glyfLength);
+
+    const glyf = new Uint8Array(glyfLength);
+    let position = 0;
+    glyfParts.forEach(part => {
+      glyf.set(part, position);
+      position += part.length;
+    });
+
+    // Full metrics (advance, left side bearing) come first, then bearings
+    // only; both lists are cut at the last glyph kept
+    const sourceMetrics = this.view.getUint16(this.tables.hhea.offset + 34);
+    const numberOfHMetrics = Math.min(sourceMetrics, numGlyphs);
+    const hhea = this.copyTable('hhea');
+    new DataView(hhea.buffer).setUint16(34, numberOfHMetrics);
+    const hmtxStart = this.tables.hmtx.offset;
+    const hmtx = this.bytes.slice(hmtxStart, hmtxStart + numberOfHMetrics * 4 + (numGlyphs - numberOfHMetrics) * 2);
+
+    const maxp = this.copyTable('maxp');
+    new DataView(maxp.buffer).setUint16(4, numGlyphs);
+
+    const head = this.copyTable('head');
+    const headView = new DataView(head.buffer);
+    headView.setUint32(8, 0); // checkSumAdjustment, set once the file is written
+    headView.setInt16(50, 1); // Long loca offsets
+
+    const tables: Record<string, Uint8Array> = { head, hhea, maxp, hmtx, loca, glyf };
+    SUBSET_TABLES.forEach(tag => {
+      if (!tables[tag] && this.tables[tag]) tables[tag] = this.copyTable(tag);
+    });
+    return writeFont(tables);
+  }
+
+  private componentsOf(glyph: number): number[] {
+    const data = this.glyphData(glyph);
+    if (data.length < 10) return [];
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (view.getInt16(0) >= 0) return []; // Simple glyph
+
+    const components: number[] = [];
+    let position = 10;
+    let flags: number;
+    do {
+      flags = view.getUint16(position);
+      components.push(view.getUint16(position + 2));
+      position += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) position += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) position += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) position += 8;
+    } while (flags & MORE_COMPONENTS);
+    return components;
+  }
+
+  private glyphData(glyph: number): Uint8Array {
+    const glyf = this.tables.glyf.offset;
+    return this.bytes.subarray(glyf + this.glyphOffsets[glyph], glyf + this.glyphOffsets[glyph + 1]);
+  }
+
+  private copyTable(tag: string): Uint8Array<ArrayBuffer> {
+    const { offset, length } = this.tables[tag];
+    return new Uint8Array(this.bytes.subarray(offset, offset + length));
+  }
+
+  /**
+   * Unicode mappings from the cmap table: the full-repertoire format 12
+   * subtable if there is one, otherwise the format 4 (BMP) one
+   */
+  private readCharacterMap(): void {
+    const cmap = this.tables.cmap;
+    if (!cmap) return; // e.g. a subset read back
+
+    const subtables: Record<number, number> = {};
+    const count = this.view.getUint16(cmap.offset + 2);
+    for (let i = 0; i < count; i++) {
+      const record = cmap.offset + 4 + i * 8;
+      const platform = this.view.getUint16(record);
+      const encoding = this.view.getUint16(record + 2);
+      const offset = cmap.offset + this.view.getUint32(record + 4);
+      const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+      const format = this.view.getUint16(offset);
+      if (isUnicode && (format === 4 || format === 12) && subtables[format] === undefined) {
+        subtables[format] = offset;
+      }
+    }
+
+    if (subtables[12] !== undefined) {
+      const offset = subtables[12];
+      const groups = this.view.getUint32(offset + 12);
+      for (let i = 0; i < groups; i++) {
+        const group = offset + 16 + i * 12;
+        const start = this.view.getUint32(group);
+        const end = this.view.getUint32(group + 4);
+        const glyph = this.view.getUint32(group + 8);
+        for (let code = start; code <= end; code++) {
+          this.characters.set(code, glyph + code - start);
+        }
+      }
+    } else if (subtables[4] !== undefined) {
+      const offset = subtables[4];
+      const segments = this.view.getUint16(offset + 6) / 2;
+      const ends = offset + 14;
+      const starts = ends + segments * 2 + 2;
+      const deltas = starts + segments * 2;
+      const rangeOffsets = deltas + segments * 2;
+      for (let i = 0; i < segments; i++) {
+        const start = this.view.getUint16(starts + i * 2);
+        const end = this.view.getUint16(ends + i * 2);
+        const delta = this.view.getInt16(deltas + i * 2);
+        const rangeOffset = this.view.getUint16(rangeOffsets + i * 2);
+        for (let code = start; code <= end && code !== 0xffff; code++) {
+          let glyph: number;
+          if (rangeOffset === 0) {
+            glyph = (code + delta) & 0xffff;
+          } else {
+            const index = this.view.getUint16(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+            glyph = index === 0 ? 0 : (index + delta) & 0xffff;
+          }
+          if (glyph !== 0) this.characters.set(code, glyph);
+        }
+      }
+    }
+  }
+
+  private readPostScriptName(): string {
+    const name = this.tables.name;
+    if (name) {
+      const count = this.view.getUint16(name.offset + 2);
+      const strings = name.offset + this.view.getUint16(name.offset + 4);
+      for (let i = 0; i < count; i++) {
+        const record = name.offset + 6 + i * 12;
+        if (this.view.getUint16(record + 6) !== 6) continue;
+        const platform = this.view.getUint16(record);
+        const length = this.view.getUint16(record + 8);
+        const start = strings + this.view.getUint16(record + 10);
+        let value = '';
+        // Windows names are UTF-16BE, Macintosh ones single bytes
+        const step = platform === 3 ? 2 : 1;
+        for (let j = 0; j < length; j += step) {
+          value += String.fromCharCode(step === 2 ? this.view.getUint16(start + j) : this.view.getUint8(start + j));
+        }
+        value = value.replace(/[^A-Za-z0-9-]/g, '');
+        if (value) return value;
+      }
+    }
+    return 'Font';
+  }
+
+  private tag(offset: number): string {
+    return String.fromCharCode(this.bytes[offset], this.bytes[offset + 1], this.bytes[offset + 2], this.bytes[offset + 3]);
+  }
+
+  private scale(units: number): number {
+    return Math.round((units * 1000) / this.unitsPerEm);
+  }
+}
+
+/**
+ * Assemble a font file from its tables, with checksums
+ */
+function writeFont(tables: Record<string, Uint8Array>): Uint8Array<ArrayBuffer> {
+  const tags = Object.keys(tables).sort();
+  const headerLength = 12 + tags.length * 16;
+  let length = headerLength;
+  tags.forEach(tag => {
+    length += (tables[tag].length + 3) & ~3;
+  });
+
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  const entrySelector = Math.floor(Math.log(tags.length) / Math.LN2);
+  const searchRange = Math.pow(2, entrySelector) * 16;
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tags.length);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tags.length * 16 - searchRange);
+
+  let offset = headerLength;
+  let headOffset = 0;
+  tags.forEach((tag, index) => {
+    const table = tables[tag];
+    bytes.set(table, offset);
+    const record = 12 + index * 16;
+    for (let i = 0; i < 4; i++) bytes[record + i] = tag.charCodeAt(i);
+    view.setUint32(record + 4, checksum(bytes, offset, table.length));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, table.length);
+    if (tag === 'head') headOffset = offset;
+    offset += (table.length + 3) & ~3;
+  });
+
+  view.setUint32(headOffset + 8, (0xb1b0afba - checksum(bytes, 0, bytes.length)) >>> 0);
+  return bytes;
+}
+
+// Sum of the data as big-endian 32-bit words, zero-padded
+function checksum(bytes: Uint8Array, offset: number, length: number): number {
+  let sum = 0;
+  for (let i = 0; i < length; i += 4) {
+    const word = ((bytes[offset + i] << 24) | ((bytes[offset + i + 1] ?? 0) << 16) | ((bytes[offset + i + 2] ?? 0) << 8) | (bytes[offset + i + 3] ?? 0)) >>> 0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
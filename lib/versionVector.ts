@@ -0,0 +1,77 @@
+/**
+ * Per-entry version vectors for multi-device sync
+ * Each device bumps its own counter when it changes an entry, which lets the
+ * sync engine tell "newer" apart from "changed concurrently on two devices"
+ * without trusting wall clocks.
+ */
+
+export type VersionVector = Record<string, number>;
+
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+const DEVICE_ID_KEY = 'heijo-device-id';
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Stable identifier for this browser profile
+ */
+export function getDeviceId(): string {
+  if (cachedDeviceId) return cachedDeviceId;
+  if (typeof window === 'undefined') return 'server';
+
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+    const deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    cachedDeviceId = deviceId;
+    return deviceId;
+  } catch (error) {
+    console.warn('Failed to persist device ID:', error);
+    cachedDeviceId = crypto.randomUUID();
+    return cachedDeviceId;
+  }
+}
+
+/**
+ * Compare two vectors: 'after' means `a` has seen everything `b` has and more
+ */
+export function compareVectors(a: VersionVector = {}, b: VersionVector = {}): VectorOrder {
+  let aAhead = false;
+  let bAhead = false;
+
+  const devices = new Set([...Object.keys(a), ...Object.keys(b)]);
+  devices.forEach(device => {
+    const aCount = a[device] || 0;
+    const bCount = b[device] || 0;
+    if (aCount > bCount) aAhead = true;
+    if (bCount > aCount) bAhead = true;
+  });
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Pointwise maximum of two vectors
+ */
+export function mergeVectors(a: VersionVector = {}, b: VersionVector = {}): VersionVector {
+  const merged: VersionVector = { ...a };
+  Object.keys(b).forEach(device => {
+    merged[device] = Math.max(merged[device] || 0, b[device]);
+  });
+  return merged;
+}
+
+/**
+ * Record one more local change on `deviceId`
+ */
+export function incrementVector(vector: VersionVector = {}, deviceId: string = getDeviceId()): VersionVector {
+  return { ...vector, [deviceId]: (vector[deviceId] || 0) + 1 };
+}
@@ -1,8 +1,12 @@
 'use client';
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { STT_PROVIDER_IDS, SttProviderId } from './stt/types';
 
-export type VoiceProvider = 'webspeech' | 'whisper' | 'google';
+// WebSpeech runs in the browser; the others are /api/stt providers (lib/stt)
+export type VoiceProvider = 'webspeech' | SttProviderId;
+
+export const VOICE_PROVIDERS: VoiceProvider[] = ['webspeech', ...STT_PROVIDER_IDS];
 
 export interface VoiceLanguage {
   code: string;
@@ -25,8 +29,10 @@ interface VoiceSettingsContextType {
   selectedLanguage: string;
   availableLanguages: VoiceLanguage[];
   provider: VoiceProvider;
+  keepRecordings: boolean; // Keep the audio of voice entries (backend STT only)
   setLanguage: (langCode: string) => void;
   setProvider: (provider: VoiceProvider) => void;
+  setKeepRecordings: (keep: boolean) => void;
 }
 
 const VoiceSettingsContext = createContext<VoiceSettingsContextType | undefined>(undefined);
@@ -61,6 +67,7 @@ function getDefaultLanguage(): string {
 export function VoiceSettingsProvider({ children }: { children: ReactNode }) {
   const [selectedLanguage, setSelectedLanguageState] = useState<string>(() => getDefaultLanguage());
   const [provider, setProviderState] = useState<VoiceProvider>('webspeech');
+  const [keepRecordings, setKeepRecordingsState] = useState(false);
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -73,9 +80,12 @@ export function VoiceSettingsProvider({ children }: { children: ReactNode }) {
         if (parsed.language && SUPPORTED_LANGUAGES.some(lang => lang.code === parsed.language)) {
           setSelectedLanguageState(parsed.language);
         }
-        if (parsed.provider && ['webspeech', 'whisper', 'google'].includes(parsed.provider)) {
+        if (parsed.provider && VOICE_PROVIDERS.indexOf(parsed.provider) !== -1) {
           setProviderState(parsed.provider as VoiceProvider);
         }
+        if (parsed.keepRecordings === true) {
+          setKeepRecordingsState(true);
+        }
       }
     } catch (e) {
       console.warn('Failed to load voice settings from localStorage:', e);
@@ -119,14 +129,32 @@ export function VoiceSettingsProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const setKeepRecordings = useCallback((keep: boolean) => {
+    setKeepRecordingsState(keep);
+
+    // Persist to localStorage
+    try {
+      const current = localStorage.getItem(STORAGE_KEY);
+      const parsed = current ? JSON.parse(current) : {};
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        ...parsed,
+        keepRecordings: keep
+      }));
+    } catch (e) {
+      console.warn('Failed to save recording setting to localStorage:', e);
+    }
+  }, []);
+
   return (
     <VoiceSettingsContext.Provider
       value={{
         selectedLanguage,
         availableLanguages: SUPPORTED_LANGUAGES,
         provider,
+        keepRecordings,
         setLanguage,
         setProvider,
+        setKeepRecordings,
       }}
     >
       {children}
@@ -4,6 +4,8 @@
  */
 
 import { debugLog } from './logger';
+import type { SttProviderId, SttStreamEvent, SttWord } from './stt/types';
+import { STT_ERROR_MESSAGES, SttErrorCategory, isSttErrorCategory } from './stt/errors';
 
 // Speech Recognition interfaces
 interface SpeechRecognition extends EventTarget {
@@ -63,7 +65,9 @@ declare global {
   }
 }
 
-export type VoiceProvider = 'webspeech' | 'whisper' | 'google';
+// WebSpeech runs in the browser; the others are /api/stt providers (lib/stt)
+export type BackendVoiceProvider = SttProviderId;
+export type VoiceProvider = 'webspeech' | BackendVoiceProvider;
 
 export interface VoiceConfig {
   language: string;
@@ -82,6 +86,13 @@ export interface TranscriptionResult {
   confidence: number;
   isFinal: boolean;
   timestamp: number;
+  recording?: VoiceRecording; // Backend STT final results: the audio that was transcribed
+}
+
+export interface VoiceRecording {
+  audio: Blob;
+  durationMs: number;
+  words?: SttWord[]; // Timing of the transcript in this audio, where the provider gave it
 }
 
 export interface VoiceMetrics {
@@ -513,9 +524,25 @@ class VoiceToTextEngine {
   }
 }
 
+// A streaming transcription session (/api/stt/stream) for one recording
+interface StreamingUpload {
+  id: string;
+  events: EventSource;
+  uploads: Promise<void>; // Chunk uploads, in order
+  nextSeq: number;
+  failed: boolean; // An upload failed: send the whole recording on stop instead
+  result: Promise<SttStreamEvent | null>; // The final or failed event; null if the event stream broke
+}
+
+// How long to wait for the final event once the last upload has returned
+const STREAM_RESULT_GRACE_MS = 5000;
+
 /**
  * Backend STT Engine using API route
- * Records audio and sends to backend for transcription
+ * Records audio in one-second slices and streams them to the backend, which
+ * sends back partial transcripts while recording. Falls back to uploading
+ * the whole recording on stop where streaming is not available. When
+ * transcription fails, the audio is kept so it can be sent again.
  */
 class BackendSTTEngine {
   private mediaRecorder: MediaRecorder | null = null;
@@ -523,7 +550,7 @@ class BackendSTTEngine {
   private stream: MediaStream | null = null;
   private isRecording: boolean = false;
   private currentLanguage: string;
-  private provider: 'whisper' | 'google';
+  private provider: BackendVoiceProvider;
   private onResultCallback?: (result: TranscriptionResult) => void;
   private onErrorCallback?: (error: string) => void;
   private onStartCallback?: () => void;
@@ -534,8 +561,11 @@ class BackendSTTEngine {
   private maxSilenceDuration: number = 0; // Disabled - only stop on manual tap or max duration
   private maxRecordingDuration: number = 90000; // 90 seconds hard cap
   private startTime: number = 0;
+  private recordedDurationMs: number = 0;
+  private streaming: StreamingUpload | null = null;
+  private failedRecording: { chunks: Blob[]; durationMs: number } | null = null; // Audio of the last failed transcription
 
-  constructor(language: string = 'en-US', provider: 'whisper' | 'google' = 'whisper') {
+  constructor(language: string = 'en-US', provider: BackendVoiceProvider = 'whisper') {
     this.currentLanguage = language;
     this.provider = provider;
   }
@@ -594,6 +624,9 @@ class BackendSTTEngine {
       return;
     }
 
+    // Start the streaming session while the microphone is being opened
+    const streamingPromise = this.openStreaming();
+
     try {
       // Request microphone access
       this.stream = await navigator.mediaDevices.getUserMedia({
@@ -618,15 +651,26 @@ class BackendSTTEngine {
 
       this.mediaRecorder = new MediaRecorder(this.stream, options);
       this.audioChunks = [];
+      this.streaming = await streamingPromise;
 
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
+          // Kept even when streaming, in case the stream fails
           this.audioChunks.push(event.data);
+          if (this.streaming) {
+            this.sendChunk(this.streaming, event.data);
+          }
         }
       };
 
       this.mediaRecorder.onstop = async () => {
-        await this.processRecording();
+        const streaming = this.streaming;
+        this.streaming = null;
+        if (streaming) {
+          await this.finishStreaming(streaming);
+        } else {
+          await this.processRecording();
+        }
       };
 
       this.isRecording = true;
@@ -641,6 +685,7 @@ class BackendSTTEngine {
       // Recording stops only on manual tap or max duration reached
     } catch (error) {
       this.isRecording = false;
+      streamingPromise.then(streaming => streaming?.events.close());
       const errorMessage = error instanceof Error ? error.message : 'Failed to start recording';
       this.onErrorCallback?.(errorMessage);
       throw new Error(`Failed to start backend STT: ${errorMessage}`);
@@ -655,6 +700,7 @@ class BackendSTTEngine {
     this.clearSilenceTimer();
     this.clearMaxDurationTimer();
     this.isRecording = false;
+    this.recordedDurationMs = performance.now() - this.startTime;
 
     if (this.mediaRecorder.state === 'recording') {
       this.mediaRecorder.stop();
@@ -730,33 +776,203 @@ class BackendSTTEngine {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
         const errorMessage = errorData.error || `HTTP ${response.status}`;
         console.error('BackendSTTEngine: API error:', errorMessage);
-        this.onErrorCallback?.('There was a problem transcribing your audio. Please try again.');
+        // The route says what went wrong (auth, quota, format, timeout...)
+        const category: SttErrorCategory = isSttErrorCategory(errorData.category) ? errorData.category : 'unknown';
+        this.keepFailedRecording();
+        this.onErrorCallback?.(STT_ERROR_MESSAGES[category]);
         return;
       }
 
       const data = await response.json();
-      const transcript = data.text || '';
+      this.emitFinalTranscript(data.text || '', data.provider, this.takeRecording(data.words));
+    } catch (error) {
+      console.error('BackendSTTEngine: Transcription failed:', error);
+      // Surface network and other errors to user (fetch rejects with a TypeError when offline)
+      this.keepFailedRecording();
+      this.onErrorCallback?.(STT_ERROR_MESSAGES[error instanceof TypeError ? 'unavailable' : 'unknown']);
+    } finally {
+      this.audioChunks = [];
+    }
+  }
+
+  /**
+   * True while the audio of a failed transcription is kept for a retry
+   */
+  hasFailedRecording(): boolean {
+    return this.failedRecording !== null;
+  }
+
+  /**
+   * Send the audio of the last failed transcription again. The transcript or
+   * error arrives through the usual callbacks; if it fails again, the audio
+   * is kept again.
+   */
+  async retryTranscription(): Promise<void> {
+    const failed = this.failedRecording;
+    if (!failed || this.isRecording) return;
+    this.failedRecording = null;
+    this.audioChunks = failed.chunks;
+    this.recordedDurationMs = failed.durationMs;
+    await this.processRecording();
+  }
+
+  discardFailedRecording(): void {
+    this.failedRecording = null;
+  }
+
+  private keepFailedRecording(): void {
+    this.failedRecording = { chunks: this.audioChunks.slice(), durationMs: this.recordedDurationMs };
+  }
+
+  /**
+   * The recorded audio as one file (for keeping with the entry)
+   */
+  private takeRecording(words?: SttWord[]): VoiceRecording {
+    const type = this.mediaRecorder?.mimeType || 'audio/webm';
+    return { audio: new Blob(this.audioChunks, { type }), durationMs: this.recordedDurationMs, words };
+  }
+
+  private emitFinalTranscript(transcript: string, provider?: string, recording?: VoiceRecording): void {
+    if (provider && provider !== this.provider) {
+      debugLog(`BackendSTTEngine: ${this.provider} failed, transcribed by ${provider}`);
+    }
+
+    // Mean word confidence, where the provider reports it
+    const scored = (recording?.words || []).filter(word => typeof word.confidence === 'number');
+    const confidence = scored.length > 0
+      ? scored.reduce((sum, word) => sum + (word.confidence as number), 0) / scored.length
+      : 1.0;
+
+    // Use full transcript as-is - no truncation or filtering
+    if (transcript && transcript.trim().length > 0) {
+      this.onResultCallback?.({
+        text: transcript.trim(), // Only trim whitespace, no other modification
+        confidence,
+        isFinal: true,
+        timestamp: performance.now(),
+        recording,
+      });
+    } else {
+      // Handle empty transcript gracefully
+      console.warn('BackendSTTEngine: Received empty transcript from API');
+      this.onErrorCallback?.('We couldn\'t hear anything clear. Try speaking a bit closer to the mic.');
+    }
+  }
+
+  /**
+   * Start a streaming session and listen for its transcripts. Null when
+   * the browser has no EventSource or the server did not accept it.
+   */
+  private async openStreaming(): Promise<StreamingUpload | null> {
+    if (typeof EventSource === 'undefined') {
+      return null;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('language', this.currentLanguage);
+      formData.append('provider', this.provider);
+      const response = await fetch('/api/stt/stream', { method: 'POST', body: formData });
+      if (!response.ok) {
+        console.warn(`BackendSTTEngine: Streaming not available (HTTP ${response.status}), uploading on stop`);
+        return null;
+      }
+      const { id } = await response.json();
+
+      const events = new EventSource(`/api/stt/stream/${id}`);
+      let settle: (event: SttStreamEvent | null) => void = () => {};
+      const result = new Promise<SttStreamEvent | null>(resolve => {
+        settle = resolve;
+      });
 
-      // Use full transcript as-is - no truncation or filtering
-      if (transcript && transcript.trim().length > 0) {
+      events.addEventListener('partial', (event) => {
+        const { text } = JSON.parse((event as MessageEvent).data);
+        // Shown as interim text, like WebSpeech's interim results
         this.onResultCallback?.({
-          text: transcript.trim(), // Only trim whitespace, no other modification
-          confidence: 1.0, // Backend doesn't provide confidence
-          isFinal: true,
+          text,
+          confidence: 1.0,
+          isFinal: false,
           timestamp: performance.now(),
         });
+      });
+      events.addEventListener('final', (event) => {
+        settle({ type: 'final', ...JSON.parse((event as MessageEvent).data) });
+      });
+      events.addEventListener('failed', (event) => {
+        settle({ type: 'failed', ...JSON.parse((event as MessageEvent).data) });
+      });
+      events.onerror = () => {
+        // EventSource reconnects by itself unless the server refused the stream
+        if (events.readyState === EventSource.CLOSED) {
+          settle(null);
+        }
+      };
+
+      return { id, events, uploads: Promise.resolve(), nextSeq: 0, failed: false, result };
+    } catch (error) {
+      console.warn('BackendSTTEngine: Streaming not available, uploading on stop:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queue an audio chunk for upload; null marks the end of the recording
+   */
+  private sendChunk(streaming: StreamingUpload, chunk: Blob | null): void {
+    const seq = chunk ? streaming.nextSeq++ : streaming.nextSeq;
+    streaming.uploads = streaming.uploads.then(async () => {
+      if (streaming.failed) return;
+
+      const formData = new FormData();
+      formData.append('seq', String(seq));
+      if (chunk) {
+        formData.append('audio', chunk, `chunk-${seq}.webm`);
       } else {
-        // Handle empty transcript gracefully
-        console.warn('BackendSTTEngine: Received empty transcript from API');
-        this.onErrorCallback?.('We couldn\'t hear anything clear. Try speaking a bit closer to the mic.');
+        formData.append('final', '1');
       }
-    } catch (error) {
-      console.error('BackendSTTEngine: Transcription failed:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Transcription failed';
-      // Surface network and other errors to user
-      this.onErrorCallback?.('There was a problem transcribing your audio. Please try again.');
-    } finally {
+      try {
+        const response = await fetch(`/api/stt/stream/${streaming.id}`, { method: 'POST', body: formData });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.warn('BackendSTTEngine: Chunk upload failed, uploading the whole recording instead:', error);
+        streaming.failed = true;
+      }
+    });
+  }
+
+  private async finishStreaming(streaming: StreamingUpload): Promise<void> {
+    this.sendChunk(streaming, null);
+    await streaming.uploads;
+
+    let event: SttStreamEvent | null = null;
+    if (!streaming.failed) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const grace = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), STREAM_RESULT_GRACE_MS);
+      });
+      event = await Promise.race([streaming.result, grace]);
+      clearTimeout(timer);
+    }
+    streaming.events.close();
+
+    if (!event) {
+      await this.processRecording();
+      return;
+    }
+
+    const recording = this.takeRecording(event.type === 'final' ? event.words : undefined);
+    if (event.type === 'failed') {
+      this.keepFailedRecording();
       this.audioChunks = [];
+      console.error('BackendSTTEngine: API error:', event.error);
+      this.onErrorCallback?.(STT_ERROR_MESSAGES[isSttErrorCategory(event.category) ? event.category : 'unknown']);
+      return;
+    }
+    this.audioChunks = [];
+    if (event.type === 'final') {
+      this.emitFinalTranscript(event.text, event.provider, recording);
     }
   }
 
@@ -795,6 +1011,7 @@ class BackendSTTEngine {
     this.stop();
     this.clearSilenceTimer();
     this.clearMaxDurationTimer();
+    this.failedRecording = null;
     this.onResultCallback = undefined;
     this.onErrorCallback = undefined;
     this.onStartCallback = undefined;
@@ -970,14 +1187,11 @@ export class EnhancedMicButton {
   constructor(language: string = 'en-US', provider: VoiceProvider = 'webspeech') {
     this.currentLanguage = language;
     this.currentProvider = provider;
-    this.useBackend = provider === 'whisper' || provider === 'google';
+    this.useBackend = provider !== 'webspeech';
     
-    if (this.useBackend) {
+    if (provider !== 'webspeech') {
       // Use backend STT engine
-      this.voiceEngine = new BackendSTTEngine(
-        language,
-        provider === 'google' ? 'google' : 'whisper'
-      );
+      this.voiceEngine = new BackendSTTEngine(language, provider);
       // VAD is optional for backend (can work without it)
       this.vad = null;
     } else {
@@ -1050,13 +1264,10 @@ export class EnhancedMicButton {
 
     // Create new engine based on provider
     this.currentProvider = provider;
-    this.useBackend = provider === 'whisper' || provider === 'google';
+    this.useBackend = provider !== 'webspeech';
     
-    if (this.useBackend) {
-      this.voiceEngine = new BackendSTTEngine(
-        this.currentLanguage,
-        provider === 'google' ? 'google' : 'whisper'
-      );
+    if (provider !== 'webspeech') {
+      this.voiceEngine = new BackendSTTEngine(this.currentLanguage, provider);
       this.vad = null;
     } else {
       this.voiceEngine = new VoiceToTextEngine({
@@ -1197,7 +1408,7 @@ export class EnhancedMicButton {
   }
 
   async startListening(
-    onTranscript: (text: string, isFinal: boolean) => void,
+    onTranscript: (text: string, isFinal: boolean, recording?: VoiceRecording) => void,
     onError: (error: string) => void,
     onStart?: () => void,
     onEnd?: () => void
@@ -1210,7 +1421,7 @@ export class EnhancedMicButton {
 
     debugLog(`EnhancedMicButton: Starting ${this.useBackend ? 'backend' : 'webspeech'} voice recognition`);
     this.voiceEngine.onResult((result) => {
-      onTranscript(result.text, result.isFinal);
+      onTranscript(result.text, result.isFinal, result.recording);
     });
 
     this.voiceEngine.onError(onError);
@@ -1255,6 +1466,28 @@ export class EnhancedMicButton {
     this.onUnsupportedCallback = callback;
   }
 
+  /**
+   * Whether the audio of a failed backend transcription can be sent again
+   */
+  canRetryTranscription(): boolean {
+    return this.voiceEngine instanceof BackendSTTEngine && this.voiceEngine.hasFailedRecording();
+  }
+
+  /**
+   * Transcribe the kept audio again; results go to the startListening callbacks
+   */
+  async retryTranscription(): Promise<void> {
+    if (this.voiceEngine instanceof BackendSTTEngine) {
+      await this.voiceEngine.retryTranscription();
+    }
+  }
+
+  discardFailedRecording(): void {
+    if (this.voiceEngine instanceof BackendSTTEngine) {
+      this.voiceEngine.discardFailedRecording();
+    }
+  }
+
   destroy(): void {
     this.voiceEngine.destroy();
     if (this.vad) {
@@ -98,11 +98,16 @@ self.addEventListener('sync', (event) => {
 });
 
 async function syncJournalEntries() {
-  // This would sync entries to Supabase
-  // Implementation depends on your sync strategy
+  // The outbox lives in the page's localStorage, which the worker cannot read,
+  // so ask every open client to replay it (see lib/outbox.ts)
   try {
-    // Placeholder for actual sync logic
-    console.log('Background sync triggered');
+    const clientList = await clients.matchAll({
+      type: 'window',
+      includeUncontrolled: true,
+    });
+    clientList.forEach((client) => {
+      client.postMessage({ type: 'heijo:outbox-replay' });
+    });
   } catch (error) {
     console.error('Background sync failed:', error);
   }
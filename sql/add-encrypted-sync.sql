@@ -0,0 +1,41 @@
+-- ============================================
+-- End-to-end encrypted sync
+-- Run this in Supabase SQL Editor after add-trash-columns.sql
+-- ============================================
+
+-- Entry text and tags are uploaded as AES-GCM ciphertext ({ data, iv, keyId });
+-- the content and tags columns stay empty for encrypted rows.
+-- Rows where encrypted_payload IS NULL are legacy plaintext and are
+-- re-uploaded encrypted by the app on the next sync.
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS encrypted_payload jsonb;
+ALTER TABLE journal_entry_revisions ADD COLUMN IF NOT EXISTS encrypted_payload jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_plaintext
+  ON journal_entries(user_id) WHERE encrypted_payload IS NULL AND purged_at IS NULL;
+
+-- Key derivation parameters for each user's sync secret. The key itself never
+-- leaves the device; key_check is a known value encrypted with it so a
+-- device can tell whether the secret it was given is the right one.
+CREATE TABLE IF NOT EXISTS user_sync_keys (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kdf text NOT NULL DEFAULT 'PBKDF2-SHA256',
+  salt text NOT NULL,
+  iterations integer NOT NULL,
+  key_check jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_sync_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own sync key params" ON user_sync_keys;
+CREATE POLICY "Users can view own sync key params" ON user_sync_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own sync key params" ON user_sync_keys;
+CREATE POLICY "Users can insert own sync key params" ON user_sync_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Revisions are re-uploaded encrypted during the migration
+DROP POLICY IF EXISTS "Users can update own revisions" ON journal_entry_revisions;
+CREATE POLICY "Users can update own revisions" ON journal_entry_revisions
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- ============================================
+-- Sealed entries
+-- Run this in Supabase SQL Editor after add-encrypted-sync.sql
+-- ============================================
+
+-- Entries sealed with a second passphrase carry their text and tags here as
+-- AES-GCM ciphertext ({ salt, iterations, iv, data }). It is uploaded as-is;
+-- the encrypted_payload of a sealed row holds empty text and tags.
+-- Sealing deletes the entry's revisions (see "Users can delete own revisions"
+-- in add-trash-columns.sql).
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS sealed jsonb;
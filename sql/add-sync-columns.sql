@@ -0,0 +1,16 @@
+-- ============================================
+-- Multi-device sync support
+-- Run this in Supabase SQL Editor before enabling the sync engine
+-- ============================================
+
+-- Per-device edit counters ({ "<device id>": <count> }) used to detect concurrent edits
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS version jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Tombstones: deleted entries keep their row (with content cleared) so other devices see the deletion
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Edits also need updated_at (added by create-entry-revisions-table.sql)
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_deleted_at
+  ON journal_entries(user_id) WHERE deleted_at IS NULL;
@@ -0,0 +1,21 @@
+-- ============================================
+-- Trash bin support
+-- Run this in Supabase SQL Editor after add-sync-columns.sql
+-- ============================================
+
+-- deleted_at now means "in the trash" (content kept, restorable).
+-- Permanent deletion sets purged_at and clears the content.
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS purged_at timestamptz;
+
+-- Rows deleted before the trash existed were already content-free tombstones
+UPDATE journal_entries
+  SET purged_at = deleted_at
+  WHERE deleted_at IS NOT NULL AND purged_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_trash
+  ON journal_entries(user_id, deleted_at) WHERE deleted_at IS NOT NULL AND purged_at IS NULL;
+
+-- Purging an entry also removes its revision history
+DROP POLICY IF EXISTS "Users can delete own revisions" ON journal_entry_revisions;
+CREATE POLICY "Users can delete own revisions" ON journal_entry_revisions
+  FOR DELETE USING (auth.uid() = user_id);
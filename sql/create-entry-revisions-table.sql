@@ -0,0 +1,35 @@
+-- ============================================
+-- Entry revision history
+-- Run this in Supabase SQL Editor to enable editable entries with history
+-- ============================================
+
+-- Track when an entry was last edited
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+-- Immutable snapshots of previous versions of an entry
+CREATE TABLE IF NOT EXISTS journal_entry_revisions (
+  id uuid primary key,
+  entry_id uuid not null references journal_entries(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  content text not null,
+  tags text[] not null default '{}',
+  source text not null check (source in ('text', 'voice')),
+  created_at timestamptz not null
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entry_revisions_entry_id
+  ON journal_entry_revisions(entry_id, created_at desc);
+
+ALTER TABLE journal_entry_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions can be read and added, never changed
+DROP POLICY IF EXISTS "Users can read own revisions" ON journal_entry_revisions;
+DROP POLICY IF EXISTS "Users can insert own revisions" ON journal_entry_revisions;
+
+CREATE POLICY "Users can read own revisions" ON journal_entry_revisions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own revisions" ON journal_entry_revisions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
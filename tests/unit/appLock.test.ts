@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appLock, AppLockCooldownError } from '@/lib/appLock';
+import { encryptionManager, WrongPassphraseError } from '@/lib/encryption';
+
+const MINUTE = 60 * 1000;
+
+function setVisibility(state: 'visible' | 'hidden') {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('appLock', () => {
+  let stop: () => void = () => {};
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    await encryptionManager.clearAllData();
+    localStorage.clear();
+    sessionStorage.clear();
+    appLock.reset();
+  });
+
+  afterEach(() => {
+    stop();
+    vi.restoreAllMocks();
+    setVisibility('visible');
+  });
+
+  it('should validate the PIN and throttle repeated wrong attempts', async () => {
+    await expect(appLock.enable('pin', '12a4')).rejects.toThrow('at least 4 digits');
+    await appLock.enable('pin', '2468');
+    expect(appLock.isLocked()).toBe(false);
+
+    await appLock.lock();
+    expect(appLock.isLocked()).toBe(true);
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await expect(appLock.unlock('0000')).rejects.toBeInstanceOf(WrongPassphraseError);
+    }
+    await expect(appLock.unlock('0000')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await expect(appLock.unlock('2468')).rejects.toBeInstanceOf(AppLockCooldownError);
+    expect(appLock.getCooldown()).toBeGreaterThan(0);
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + MINUTE);
+    await appLock.unlock('2468');
+    expect(appLock.isLocked()).toBe(false);
+  }, 30000);
+
+  it('should lock when idle and wipe the in-memory keys', async () => {
+    await encryptionManager.enablePassphrase('correct horse');
+    await appLock.enable('passphrase', 'correct horse', { idleTimeoutMinutes: 5, hiddenTimeoutMinutes: 1 });
+    const locked = vi.fn();
+    window.addEventListener('heijo:app-locked', locked);
+
+    appLock.checkIdle(Date.now() + 4 * MINUTE);
+    expect(appLock.isLocked()).toBe(false);
+
+    appLock.checkIdle(Date.now() + 5 * MINUTE);
+    await vi.waitFor(async () => {
+      expect(await encryptionManager.getStatus()).toEqual({ mode: 'passphrase', locked: true });
+    });
+    expect(appLock.isLocked()).toBe(true);
+    expect(locked).toHaveBeenCalledTimes(1);
+    expect(locked.mock.calls[0][0].detail).toEqual({ reason: 'idle' });
+
+    // The shared passphrase unlocks the encryption keys too
+    await appLock.unlock('correct horse');
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'passphrase', locked: false });
+    window.removeEventListener('heijo:app-locked', locked);
+  }, 30000);
+
+  it('should lock when the tab was hidden for longer than the timeout', async () => {
+    await appLock.enable('pin', '2468', { idleTimeoutMinutes: 30, hiddenTimeoutMinutes: 1 });
+    stop = appLock.start();
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+    setVisibility('hidden');
+    clock.mockReturnValue(now + 30 * 1000);
+    setVisibility('visible');
+    expect(appLock.isLocked()).toBe(false);
+
+    setVisibility('hidden');
+    clock.mockReturnValue(now + 2 * MINUTE);
+    setVisibility('visible');
+    expect(appLock.isLocked()).toBe(true);
+  }, 30000);
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createEnhancedMicButton, VoiceRecording } from '@/lib/voiceToText';
+import { STT_ERROR_MESSAGES } from '@/lib/stt/errors';
+
+// Records three bytes of "audio" and hands them over on stop
+class FakeMediaRecorder {
+  static isTypeSupported = () => true;
+  mimeType = 'audio/webm';
+  state = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/webm' }) });
+    this.onstop?.();
+  }
+}
+
+function jsonResponse(status: number, body: object) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+describe('Backend STT retry', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('EventSource', undefined); // Whole-file uploads only
+    vi.mocked(navigator.mediaDevices.getUserMedia).mockResolvedValue({ getTracks: () => [] } as unknown as MediaStream);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function recordAndFail() {
+    const mic = createEnhancedMicButton('en-US', 'whisper');
+    expect(await mic.initialize()).toBe(true);
+
+    const errors: string[] = [];
+    const transcripts: Array<{ text: string; recording?: VoiceRecording }> = [];
+    await mic.startListening((text, isFinal, recording) => {
+      if (isFinal) transcripts.push({ text, recording });
+    }, error => errors.push(error));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, { error: 'Whisper API error: 429', category: 'quota' }));
+    mic.stopListening();
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    return { mic, errors, transcripts };
+  }
+
+  it('should keep the audio when transcription fails and send it again on retry', async () => {
+    const { mic, errors, transcripts } = await recordAndFail();
+    expect(errors).toEqual([STT_ERROR_MESSAGES.quota]); // Shown next to the mic
+    expect(transcripts).toEqual([]);
+    expect(mic.canRetryTranscription()).toBe(true);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { text: 'Hello there', provider: 'whisper' }));
+    await mic.retryTranscription();
+
+    const retried = (fetchMock.mock.calls[1][1].body as FormData).get('audio') as Blob;
+    expect(retried.size).toBe(3);
+    expect(transcripts).toHaveLength(1);
+    expect(transcripts[0].text).toBe('Hello there');
+    expect(transcripts[0].recording!.audio.size).toBe(3);
+    expect(mic.canRetryTranscription()).toBe(false);
+  });
+
+  it('should keep the audio again if the retry fails, until it is discarded', async () => {
+    const { mic, errors } = await recordAndFail();
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await mic.retryTranscription();
+    expect(errors).toHaveLength(2);
+    expect(mic.canRetryTranscription()).toBe(true);
+
+    mic.discardFailedRecording();
+    expect(mic.canRetryTranscription()).toBe(false);
+  });
+});
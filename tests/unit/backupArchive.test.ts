@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+import { createBackup, previewBackup, restoreBackup, BackupPasswordError, BackupFormatError } from '@/lib/backupArchive';
+
+describe('Backup archives', () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new LocalStorage(null, () => false);
+  });
+
+  async function allEntries(source: LocalStorage): Promise<JournalEntry[]> {
+    return [...await source.getEntries(), ...await source.getTrash()];
+  }
+
+  async function fillJournal(): Promise<void> {
+    const edited = await storage.saveEntry({
+      content: 'First draft',
+      created_at: '2026-01-01T10:00:00.000Z',
+      source: 'text',
+      tags: ['Gratitude']
+    });
+    await storage.updateEntry(edited.id, { content: 'Second draft', tags: ['Gratitude', 'Garden'] });
+    await storage.saveEntry({
+      content: 'Already in the cloud',
+      created_at: '2026-01-02T10:00:00.000Z',
+      source: 'voice',
+      tags: [],
+      sync_status: 'synced',
+      last_synced: '2026-01-02T10:05:00.000Z'
+    });
+    const trashed = await storage.saveEntry({
+      content: 'Not worth keeping',
+      created_at: '2026-01-03T10:00:00.000Z',
+      source: 'text',
+      tags: []
+    });
+    await storage.deleteEntry(trashed.id);
+    localStorage.setItem('heijo-trash-retention-days', '90');
+  }
+
+  it('should restore entries and settings exactly as they were backed up', async () => {
+    await fillJournal();
+    const original = await allEntries(storage);
+    const backup = await createBackup('correct horse', storage);
+    expect(backup).not.toContain('Second draft');
+
+    // A fresh device
+    localStorage.clear();
+    const restored = new LocalStorage(null, () => false);
+    const preview = await previewBackup(backup, 'correct horse', restored);
+    expect(preview.manifest.counts).toMatchObject({ entries: 3, trashed: 1, settings: 1, customTags: 2 });
+    expect(preview.contents.customTags).toEqual(['Garden', 'Gratitude']);
+    expect(preview.duplicates).toBe(0);
+
+    const result = await restoreBackup(preview, restored);
+    expect(result).toMatchObject({ imported: 3, skipped: 0, settings: 1 });
+    expect(await allEntries(restored)).toEqual(original);
+    expect(localStorage.getItem('heijo-trash-retention-days')).toBe('90');
+  }, 30000);
+
+  it('should skip entries that are already here by id or by content', async () => {
+    await fillJournal();
+    const backup = await createBackup('correct horse', storage);
+
+    const again = await previewBackup(backup, 'correct horse', storage);
+    expect(again.newEntries).toHaveLength(0);
+    expect(again.duplicates).toBe(3);
+
+    // The same text saved again under another id on a second device
+    localStorage.clear();
+    const other = new LocalStorage(null, () => false);
+    await other.saveEntry({
+      content: 'Already in the cloud',
+      created_at: '2026-01-02T10:00:00.000Z',
+      source: 'voice',
+      tags: []
+    });
+    const preview = await previewBackup(backup, 'correct horse', other);
+    expect(preview.newEntries.map(entry => entry.content).sort()).toEqual(['Not worth keeping', 'Second draft']);
+    expect(preview.duplicates).toBe(1);
+  }, 30000);
+
+  it('should reject a wrong password, a changed file and other files', async () => {
+    await fillJournal();
+    const backup = await createBackup('correct horse', storage);
+    await expect(previewBackup(backup, 'wrong horse', storage)).rejects.toBeInstanceOf(BackupPasswordError);
+
+    const changed = { ...JSON.parse(backup), version: 0 };
+    await expect(previewBackup(JSON.stringify(changed), 'correct horse', storage)).rejects.toBeInstanceOf(BackupPasswordError);
+
+    await expect(previewBackup('{"entries": []}', 'correct horse', storage)).rejects.toBeInstanceOf(BackupFormatError);
+    await expect(createBackup('short', storage)).rejects.toThrow('at least');
+  }, 30000);
+});
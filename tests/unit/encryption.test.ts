@@ -0,0 +1,99 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  encryptionManager,
+  EncryptionLockedError,
+  WrongPassphraseError
+} from '@/lib/encryption';
+
+describe('EncryptionManager passphrase mode', () => {
+  beforeEach(async () => {
+    await encryptionManager.clearAllData();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should start in device mode and keep data readable after enabling a passphrase', async () => {
+    const sealed = await encryptionManager.encrypt('Quiet morning');
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'device', locked: false });
+
+    await encryptionManager.enablePassphrase('correct horse');
+    await encryptionManager.lock();
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'passphrase', locked: true });
+    await expect(encryptionManager.decrypt(sealed)).rejects.toBeInstanceOf(EncryptionLockedError);
+
+    await encryptionManager.unlock('correct horse');
+    expect(await encryptionManager.decrypt(sealed)).toBe('Quiet morning');
+  }, 30000);
+
+  it('should reject a wrong passphrase and stay locked', async () => {
+    await encryptionManager.enablePassphrase('correct horse');
+    await encryptionManager.lock();
+
+    await expect(encryptionManager.unlock('wrong horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'passphrase', locked: true });
+    await expect(encryptionManager.encrypt('x')).rejects.toBeInstanceOf(EncryptionLockedError);
+  }, 30000);
+
+  it('should re-wrap the same key when the passphrase changes', async () => {
+    await encryptionManager.enablePassphrase('correct horse');
+    const sealed = await encryptionManager.encrypt('Long walk');
+
+    await expect(encryptionManager.changePassphrase('wrong horse', 'battery staple')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await encryptionManager.changePassphrase('correct horse', 'battery staple');
+    await encryptionManager.lock();
+
+    await expect(encryptionManager.unlock('correct horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await encryptionManager.unlock('battery staple');
+    expect(await encryptionManager.decrypt(sealed)).toBe('Long walk');
+  }, 30000);
+
+  it('should require the passphrase to switch back to device mode', async () => {
+    await expect(encryptionManager.enablePassphrase('short')).rejects.toThrow('Passphrase must be at least 8 characters');
+    await encryptionManager.enablePassphrase('correct horse');
+    const sealed = await encryptionManager.encrypt('Tea');
+
+    await expect(encryptionManager.disablePassphrase('wrong horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await encryptionManager.disablePassphrase('correct horse');
+    await encryptionManager.lock();
+
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'device', locked: false });
+    expect(await encryptionManager.decrypt(sealed)).toBe('Tea');
+  }, 30000);
+});
+
+describe('EncryptionManager keyring', () => {
+  beforeEach(async () => {
+    await encryptionManager.clearAllData();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should write with the newest key and still decrypt older ciphertexts', async () => {
+    const old = await encryptionManager.encrypt('First');
+    expect(old.keyId).toBe('heijo-key-v1');
+
+    expect(await encryptionManager.rotateKey()).toBe('heijo-key-v2');
+    const fresh = await encryptionManager.encrypt('Second');
+    expect(fresh.keyId).toBe('heijo-key-v2');
+    expect(await encryptionManager.decrypt(old)).toBe('First');
+    expect(await encryptionManager.getKeyIds()).toEqual(['heijo-key-v1', 'heijo-key-v2']);
+
+    expect(await encryptionManager.retireKeysBefore('heijo-key-v2')).toEqual(['heijo-key-v1']);
+    await expect(encryptionManager.decrypt(old)).rejects.toThrow('Unknown encryption key: heijo-key-v1');
+    expect(await encryptionManager.decrypt(fresh)).toBe('Second');
+  });
+
+  it('should wrap rotated keys with the passphrase and unlock every version', async () => {
+    await encryptionManager.enablePassphrase('correct horse');
+    const old = await encryptionManager.encrypt('Before rotation');
+    await encryptionManager.rotateKey();
+    const fresh = await encryptionManager.encrypt('After rotation');
+
+    await encryptionManager.lock();
+    await expect(encryptionManager.rotateKey()).rejects.toBeInstanceOf(EncryptionLockedError);
+    await encryptionManager.unlock('correct horse');
+
+    expect(await encryptionManager.decrypt(old)).toBe('Before rotation');
+    expect(await encryptionManager.decrypt(fresh)).toBe('After rotation');
+  }, 30000);
+});
@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+import { IndexedDBStorage } from '@/lib/indexedDBStorage';
+import { EntryQuery, decodeCursor, encodeCursor, startOfWeek } from '@/lib/entryQuery';
+
+type PagedBackend = LocalStorage | IndexedDBStorage;
+
+async function seed(backend: PagedBackend) {
+  const day = (n: number) => `2026-01-${String(n).padStart(2, '0')}T10:00:00.000Z`;
+  await backend.saveEntry({ id: 'a', content: 'Walk by the river', created_at: day(1), source: 'text', tags: ['Joy'] });
+  await backend.saveEntry({ id: 'b', content: 'Hard meeting', created_at: day(2), source: 'voice', tags: ['Challenge'] });
+  await backend.saveEntry({ id: 'c', content: 'River swim', created_at: day(3), source: 'voice', tags: ['Joy', 'Energy'] });
+  // Two entries with the same timestamp must still page deterministically
+  await backend.saveEntry({ id: 'd', content: 'Same second, first', created_at: day(4), source: 'text', tags: [] });
+  await backend.saveEntry({ id: 'e', content: 'Same second, second', created_at: day(4), source: 'text', tags: [] });
+}
+
+async function collectIds(backend: PagedBackend, query: EntryQuery): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await backend.queryEntries({ ...query, cursor });
+    pages.push(page.entries.map((entry: JournalEntry) => entry.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+const backends: Array<[string, () => PagedBackend]> = [
+  ['LocalStorage', () => new LocalStorage(null, () => false)],
+  ['IndexedDBStorage', () => new IndexedDBStorage(null, () => false)]
+];
+
+describe.each(backends)('%s.queryEntries', (_name, create) => {
+  let backend: PagedBackend;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    backend = create();
+    await seed(backend);
+  });
+
+  it('should page newest first without gaps or duplicates', async () => {
+    expect(await collectIds(backend, { limit: 2 })).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+  });
+
+  it('should return no cursor when everything fits on one page', async () => {
+    const page = await backend.queryEntries({ limit: 10 });
+    expect(page.entries).toHaveLength(5);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should filter by date range, tag and source', async () => {
+    expect((await collectIds(backend, { from: '2026-01-02T00:00:00.000Z', to: '2026-01-04T00:00:00.000Z' })).flat()).toEqual(['c', 'b']);
+    expect((await collectIds(backend, { tags: ['Joy'], limit: 1 })).flat()).toEqual(['c', 'a']);
+    expect(await collectIds(backend, { source: 'voice', limit: 1 })).toEqual([['c'], ['b']]);
+    expect((await collectIds(backend, { source: 'text', tags: ['Joy'] })).flat()).toEqual(['a']);
+    expect((await collectIds(backend, { tags: ['Joy', 'Energy'] })).flat()).toEqual(['c']);
+    expect((await collectIds(backend, { text: 'river', tags: ['Energy'] })).flat()).toEqual(['c']);
+  });
+});
+
+describe('IndexedDBStorage schema upgrade', () => {
+  it('should page by source through entries saved before the source index was reordered', async () => {
+    globalThis.indexedDB = new IDBFactory();
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('HeijoJournal', 1);
+      request.onupgradeneeded = () => {
+        const entries = request.result.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('created_at', 'created_at');
+        entries.createIndex('tags', 'tags', { multiEntry: true });
+        entries.createIndex('source', 'source');
+        entries.createIndex('owner_created_at', ['owner', 'created_at']);
+        entries.put({ id: 'old', content: 'From v1', created_at: '2026-01-01T10:00:00.000Z', source: 'voice', tags: [], owner: 'guest' });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const backend = new IndexedDBStorage(null, () => false);
+    expect((await backend.queryEntries({ source: 'voice' })).entries.map(entry => entry.id)).toEqual(['old']);
+  });
+});
+
+describe('entry cursors', () => {
+  it('should round-trip created_at and id', () => {
+    const cursor = encodeCursor({ created_at: '2026-01-04T10:00:00.000Z', id: 'entry|with|pipes' });
+    expect(decodeCursor(cursor)).toEqual({ created_at: '2026-01-04T10:00:00.000Z', id: 'entry|with|pipes' });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('nonsense')).toThrow('Invalid page cursor');
+  });
+
+  it('should start weeks on Sunday at local midnight', () => {
+    const start = startOfWeek(new Date(2026, 0, 7, 15, 30)); // Wednesday
+    expect(start.getDay()).toBe(0);
+    expect(start.getDate()).toBe(4);
+    expect(start.getHours()).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { secureStorage } from '@/lib/secureStorage';
+
+function audio(bytes: number[]): Blob {
+  return new Blob([new Uint8Array(bytes)], { type: 'audio/webm' });
+}
+
+async function bytesOf(blob: Blob | null): Promise<number[]> {
+  expect(blob).not.toBeNull();
+  const buffer = await new Promise<ArrayBuffer>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob!);
+  });
+  return Array.from(new Uint8Array(buffer));
+}
+
+describe('Entry voice recordings', () => {
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    await secureStorage.clearAllData();
+  });
+
+  it('should keep the audio encrypted and play it back unchanged', async () => {
+    const saved = await secureStorage.saveRecording('entry-1', audio([1, 2, 3, 4]), 1499.6);
+    expect(saved).toMatchObject({ entryId: 'entry-1', mimeType: 'audio/webm', durationMs: 1500, size: 4 });
+
+    expect(await secureStorage.getRecordings('entry-1')).toEqual([saved]);
+    expect(await secureStorage.getRecordings('entry-2')).toEqual([]);
+
+    const played = await secureStorage.getRecordingAudio(saved.id);
+    expect(played!.type).toBe('audio/webm');
+    expect(await bytesOf(played)).toEqual([1, 2, 3, 4]);
+
+    const metrics = await secureStorage.getStorageMetrics();
+    expect(metrics).toMatchObject({ recordingCount: 1, recordingSize: 4 });
+    expect(metrics.recordingQuota).toBeGreaterThan(0);
+  });
+
+  it('should keep the word timing of the transcript encrypted with the recording', async () => {
+    const words = [
+      { text: 'Hello', start: 0, end: 0.4, confidence: 0.95 },
+      { text: 'world', start: 0.4, end: 0.9, confidence: 0.3 }
+    ];
+    const timed = await secureStorage.saveRecording('entry-1', audio([1]), 900, words);
+    const untimed = await secureStorage.saveRecording('entry-1', audio([2]), 900);
+
+    expect(await secureStorage.getRecordingWords(timed.id)).toEqual(words);
+    expect(await secureStorage.getRecordingWords(untimed.id)).toEqual([]);
+    expect(Object.keys((await secureStorage.getRecordings('entry-1'))[0])).not.toContain('words');
+
+    await secureStorage.rotateKey();
+    expect(await secureStorage.getRecordingWords(timed.id)).toEqual(words);
+  });
+
+  it('should delete audio per recording, per entry, or all of it', async () => {
+    const first = await secureStorage.saveRecording('entry-1', audio([1]), 1000);
+    const second = await secureStorage.saveRecording('entry-1', audio([2]), 1000);
+    await secureStorage.saveRecording('entry-2', audio([3]), 1000);
+
+    expect(await secureStorage.deleteRecordings([first.id])).toBe(1);
+    expect(await secureStorage.getRecordingAudio(first.id)).toBeNull();
+    expect((await secureStorage.getRecordings('entry-1')).map(recording => recording.id)).toEqual([second.id]);
+
+    expect(await secureStorage.deleteRecordingsForEntries(['entry-1'])).toBe(1);
+    expect(await secureStorage.getRecordings('entry-1')).toEqual([]);
+    expect(await secureStorage.getRecordings('entry-2')).toHaveLength(1);
+
+    expect(await secureStorage.deleteAllRecordings()).toBe(1);
+    expect((await secureStorage.getStorageMetrics()).recordingCount).toBe(0);
+  });
+
+  it('should delete the recordings of a deleted entry', async () => {
+    const entry = await secureStorage.saveEntry({
+      content: 'Spoken',
+      created_at: new Date().toISOString(),
+      source: 'voice',
+      tags: []
+    });
+    await secureStorage.saveRecording(entry.id, audio([1, 2]), 800);
+
+    await secureStorage.deleteEntry(entry.id);
+    expect(await secureStorage.getRecordings(entry.id)).toEqual([]);
+  });
+
+  it('should still play recordings after the encryption key is rotated', async () => {
+    const saved = await secureStorage.saveRecording('entry-1', audio([9, 8, 7]), 500);
+
+    const progress = await secureStorage.rotateKey();
+    expect(progress.retiredKeyIds).toEqual(['heijo-key-v1']);
+    expect(await bytesOf(await secureStorage.getRecordingAudio(saved.id))).toEqual([9, 8, 7]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage } from '@/lib/store';
+import { diffWords } from '@/lib/revisionDiff';
+
+describe('Entry revisions', () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new LocalStorage(null, () => false);
+  });
+
+  it('should keep the previous version when an entry is edited', async () => {
+    const entry = await storage.saveEntry({
+      content: 'Teh first draft',
+      created_at: '2026-01-01T10:00:00.000Z',
+      source: 'voice',
+      tags: ['Reflection']
+    });
+
+    const updated = await storage.updateEntry(entry.id, { content: 'The first draft', tags: ['Growth'] });
+    expect(updated.content).toBe('The first draft');
+    expect(updated.tags).toEqual(['Growth']);
+    expect(updated.updated_at).toBeDefined();
+
+    const revisions = await storage.getRevisions(entry.id);
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]).toMatchObject({
+      entry_id: entry.id,
+      content: 'Teh first draft',
+      tags: ['Reflection'],
+      source: 'voice',
+      created_at: '2026-01-01T10:00:00.000Z'
+    });
+  });
+
+  it('should not record a revision for sync-only updates', async () => {
+    const entry = await storage.saveEntry({
+      content: 'Hello',
+      created_at: new Date().toISOString(),
+      source: 'text',
+      tags: []
+    });
+
+    await storage.updateEntry(entry.id, { sync_status: 'synced' });
+    await storage.updateEntry(entry.id, { content: 'Hello' });
+
+    expect(await storage.getRevisions(entry.id)).toHaveLength(0);
+  });
+
+  it('should restore a revision and keep the replaced version', async () => {
+    const entry = await storage.saveEntry({
+      content: 'Version one',
+      created_at: new Date().toISOString(),
+      source: 'text',
+      tags: []
+    });
+    await storage.updateEntry(entry.id, { content: 'Version two' });
+    const [original] = await storage.getRevisions(entry.id);
+
+    const restored = await storage.restoreRevision(entry.id, original.id);
+    expect(restored.content).toBe('Version one');
+
+    const history = (await storage.getRevisions(entry.id)).map(r => r.content);
+    expect(history).toContain('Version one');
+    expect(history).toContain('Version two');
+  });
+
+  it('should keep history in the trash and drop it when the entry is purged', async () => {
+    const entry = await storage.saveEntry({
+      content: 'Short lived',
+      created_at: new Date().toISOString(),
+      source: 'text',
+      tags: []
+    });
+    await storage.updateEntry(entry.id, { content: 'Shorter lived' });
+    await storage.deleteEntry(entry.id);
+    expect(await storage.getRevisions(entry.id)).toHaveLength(1);
+
+    await storage.purgeEntry(entry.id);
+    expect(await storage.getRevisions(entry.id)).toHaveLength(0);
+  });
+
+  it('should throw when editing an unknown entry', async () => {
+    await expect(storage.updateEntry('missing', { content: 'x' })).rejects.toThrow('Entry not found');
+  });
+});
+
+describe('diffWords', () => {
+  it('should mark added and removed words', () => {
+    expect(diffWords('I felt tired today', 'I felt rested today')).toEqual([
+      { type: 'equal', text: 'I felt ' },
+      { type: 'removed', text: 'tired' },
+      { type: 'added', text: 'rested' },
+      { type: 'equal', text: ' today' }
+    ]);
+  });
+
+  it('should return a single equal segment for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+  });
+});
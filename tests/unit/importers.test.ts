@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+import { previewImport, runImport, formatImportReport, ImportFile } from '@/lib/importers';
+import { parseImportDate } from '@/lib/importers/helpers';
+import { buildMarkdownVault } from '@/lib/markdownExport';
+import { createZip } from '@/lib/zipArchive';
+
+function textFile(path: string, text: string): ImportFile {
+  return { path, data: new TextEncoder().encode(text) };
+}
+
+describe('Importers', () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new LocalStorage(null, () => false);
+  });
+
+  it('should import Day One entries after a dry run, reporting what was skipped', async () => {
+    await storage.saveEntry({ content: 'Already here', created_at: '2024-03-01T08:00:00.000Z', source: 'text', tags: ['Gratitude'] });
+    const journal = textFile('Journal.json', JSON.stringify({
+      entries: [
+        { uuid: '1', creationDate: '2024-03-01T08:00:30Z', text: 'Already here', tags: [] },
+        { uuid: '2', creationDate: '2024-03-02T09:15:00Z', text: 'Coffee with Sam\\.\n\n![](dayone-moment://ABC)', tags: ['gratitude', 'friends'] },
+        { uuid: '3', creationDate: '2024-03-02T09:15:00Z', text: 'Coffee with Sam.', tags: [] },
+        { uuid: '4', creationDate: 'someday', text: 'Lost in time' },
+        { uuid: '5', creationDate: '2024-03-03T10:00:00Z', text: '![](dayone-moment://PHOTO)' }
+      ]
+    }));
+
+    const preview = await previewImport('day-one', [journal], {}, storage);
+    expect(preview.total).toBe(5);
+    expect(preview.entries).toEqual([{
+      content: 'Coffee with Sam.',
+      created_at: '2024-03-02T09:15:00.000Z',
+      tags: ['Gratitude', 'friends'],
+      source: 'text',
+      origin: 'Journal.json, entry 2'
+    }]);
+    expect(preview.skipped).toEqual([
+      { origin: 'Journal.json, entry 4', reason: 'Unreadable date "someday"' },
+      { origin: 'Journal.json, entry 1', reason: 'Already in your journal' },
+      { origin: 'Journal.json, entry 3', reason: 'Duplicate of Journal.json, entry 2' },
+      { origin: 'Journal.json, entry 5', reason: 'Empty entry' }
+    ]);
+    expect(await storage.getEntries()).toHaveLength(1);
+
+    const report = await runImport(preview, storage);
+    expect(report).toMatchObject({ importer: 'Day One', total: 5, imported: 1 });
+    expect(formatImportReport(report)).toContain('- Journal.json, entry 4: Unreadable date "someday"');
+    expect((await storage.getEntries()).map(entry => entry.content)).toContain('Coffee with Sam.');
+  });
+
+  it('should read Journey entries from a zip, including HTML text', async () => {
+    const zip = createZip([
+      { path: 'journey-123.json', content: JSON.stringify({ id: '123', date_journal: 1709370000000, text: '<p>First line</p><p>Second &amp; last</p>', tags: ['Walk'] }) },
+      { path: 'journey-123-photo.jpg', content: new Uint8Array([1, 2, 3]) }
+    ]);
+
+    const preview = await previewImport('journey', [{ path: 'export.zip', data: zip }], {}, storage);
+    expect(preview.entries).toMatchObject([{ content: 'First line\nSecond & last', created_at: '2024-03-02T09:00:00.000Z', tags: ['Walk'] }]);
+    expect(preview.skipped).toEqual([{ origin: 'export.zip/journey-123-photo.jpg', reason: 'Media and other files are not imported' }]);
+  });
+
+  it('should map CSV columns, including quoted text and separate date and time columns', async () => {
+    const csv = textFile('notes.csv', [
+      'Day;Time;Note;Labels;Kind',
+      '05/01/2024;21:30;"A long day; then ""rest""\nand sleep";work, #rest;audio',
+      '31/02/2024;08:00;Impossible day;;',
+      ';;;;'
+    ].join('\r\n'));
+
+    const preview = await previewImport('csv', [csv], {
+      csvMapping: { content: 'Note', date: 'Day', time: 'Time', tags: 'Labels', source: 'Kind', dateOrder: 'dmy' }
+    }, storage);
+    expect(preview.entries).toEqual([{
+      content: 'A long day; then "rest"\nand sleep',
+      created_at: new Date(2024, 0, 5, 21, 30).toISOString(),
+      tags: ['work', 'rest'],
+      source: 'voice',
+      origin: 'notes.csv, row 2'
+    }]);
+    expect(preview.skipped).toEqual([{ origin: 'notes.csv, row 3', reason: 'Unreadable date "31/02/2024 08:00"' }]);
+
+    await expect(previewImport('csv', [csv], { csvMapping: { content: 'Text', date: 'Day' } }, storage)).rejects.toThrow('no column "Text"');
+  });
+
+  it('should import a folder of Markdown and text files, including a Heijo Markdown export', async () => {
+    const exported: JournalEntry = {
+      id: 'a1b2c3d4',
+      created_at: new Date(2024, 4, 6, 7, 45).toISOString(),
+      content: 'Round trip',
+      source: 'voice',
+      tags: ['Morning walk'],
+      sync_status: 'local_only'
+    };
+    const vault = buildMarkdownVault([exported], { dailyNotes: true }).map(file => ({
+      path: file.path,
+      data: new TextEncoder().encode(file.content as string)
+    }));
+
+    const preview = await previewImport('text-folder', [
+      ...vault,
+      textFile('notes/2024-05-01 0930 plans.txt', 'Plans for May'),
+      textFile('notes/idea.md', '---\ncreated: 2024-05-02\ntags: [ideas, "side project"]\n---\n\nBuild a boat'),
+      textFile('notes/undated.md', 'When was this?'),
+      textFile('notes/photo.png', ''),
+      textFile('notes/.obsidian/app.json', '{}')
+    ], {}, storage);
+
+    expect(preview.entries).toEqual([
+      { content: 'Round trip', created_at: exported.created_at, tags: ['Morning-walk'], source: 'voice', origin: vault[0].path },
+      { content: 'Plans for May', created_at: new Date(2024, 4, 1, 9, 30).toISOString(), tags: [], source: 'text', origin: 'notes/2024-05-01 0930 plans.txt' },
+      { content: 'Build a boat', created_at: new Date(2024, 4, 2).toISOString(), tags: ['ideas', 'side project'], source: 'text', origin: 'notes/idea.md' }
+    ]);
+    expect(preview.skipped).toEqual([
+      { origin: vault[1].path, reason: 'Only links to other notes (e.g. a daily note)' },
+      { origin: 'notes/undated.md', reason: 'No date in the front matter or file name' },
+      { origin: 'notes/photo.png', reason: 'Not a Markdown or text file' }
+    ]);
+  });
+
+  it('should parse dates in the formats other apps use', () => {
+    expect(parseImportDate('2024-03-02T09:15:00+0100')).toBe('2024-03-02T08:15:00.000Z');
+    expect(parseImportDate(1709370000)).toBe('2024-03-02T09:00:00.000Z');
+    expect(parseImportDate('3/4/2024 9:05 PM', 'mdy')).toBe(new Date(2024, 2, 4, 21, 5).toISOString());
+    expect(parseImportDate('2024-13-01')).toBeNull();
+  });
+});
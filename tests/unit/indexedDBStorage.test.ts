@@ -0,0 +1,170 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  IndexedDBStorage,
+  getMigrationState,
+  migrateFromLocalStorage,
+  rollbackMigration,
+  openJournalDatabase
+} from '@/lib/indexedDBStorage';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+
+function makeLegacyEntry(overrides: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    id: crypto.randomUUID(),
+    created_at: '2026-01-01T10:00:00.000Z',
+    content: 'Legacy entry',
+    source: 'text',
+    tags: [],
+    sync_status: 'local_only',
+    ...overrides
+  };
+}
+
+describe('IndexedDBStorage', () => {
+  let storage: IndexedDBStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    storage = new IndexedDBStorage(null, () => false);
+  });
+
+  it('should save, update, trash and purge entries newest first', async () => {
+    const older = await storage.saveEntry({ content: 'Older', created_at: '2026-01-01T10:00:00.000Z', source: 'text', tags: [] });
+    await storage.saveEntry({ content: 'Newer', created_at: '2026-01-02T10:00:00.000Z', source: 'voice', tags: ['Joy'] });
+
+    expect((await storage.getEntries()).map(entry => entry.content)).toEqual(['Newer', 'Older']);
+
+    await storage.updateEntry(older.id, { content: 'Older, edited' });
+    expect((await storage.getEntry(older.id))?.content).toBe('Older, edited');
+    expect(await storage.getRevisions(older.id)).toHaveLength(1);
+
+    await storage.deleteEntry(older.id);
+    expect(await storage.getEntry(older.id)).toBeNull();
+    expect((await storage.getTrash()).map(entry => entry.content)).toEqual(['Older, edited']);
+    expect(await storage.getRevisions(older.id)).toHaveLength(1);
+
+    await storage.purgeEntry(older.id);
+    expect(await storage.getTrash()).toEqual([]);
+    expect(await storage.getRevisions(older.id)).toHaveLength(0);
+    const [tombstone] = await storage.getSyncRecords([older.id]);
+    expect(tombstone.purged_at).toBeDefined();
+    expect(tombstone.content).toBe('');
+  });
+
+  it('should announce synced records only when they change something', async () => {
+    const saved = await storage.saveEntry({ content: 'Synced', created_at: '2026-01-01T10:00:00.000Z', source: 'text', tags: [] });
+    const [record] = await storage.getSyncRecords([saved.id]);
+    let notified = 0;
+    const count = () => notified++;
+    window.addEventListener('heijo:storage-changed', count);
+    try {
+      const failed = { ...record, sync_status: 'error' as const };
+      await storage.applySyncedRecords([failed]);
+      await storage.applySyncedRecords([failed]); // The same push failing again
+      expect(notified).toBe(1);
+
+      const purged = { ...failed, content: '', purged_at: '2026-01-02T10:00:00.000Z', deleted_at: '2026-01-02T10:00:00.000Z' };
+      await storage.applySyncedRecords([purged]);
+      await storage.applySyncedRecords([purged]);
+      expect(notified).toBe(2);
+    } finally {
+      window.removeEventListener('heijo:storage-changed', count);
+    }
+  });
+
+  it('should index entries by tag and source', async () => {
+    await storage.saveEntry({ content: 'A', created_at: '2026-01-01T10:00:00.000Z', source: 'voice', tags: ['Joy', 'Growth'] });
+    await storage.saveEntry({ content: 'B', created_at: '2026-01-02T10:00:00.000Z', source: 'text', tags: ['Growth'] });
+
+    const db = await openJournalDatabase();
+    const entries = db.transaction('entries', 'readonly').objectStore('entries');
+    const countBy = (index: string, key: IDBValidKey | IDBKeyRange) => new Promise<number>(resolve => {
+      const request = entries.index(index).count(key);
+      request.onsuccess = () => resolve(request.result);
+    });
+
+    expect(await countBy('tags', 'Growth')).toBe(2);
+    expect(await countBy('tags', 'Joy')).toBe(1);
+    expect(await countBy('owner_source_created_at', IDBKeyRange.bound(['guest', 'voice', ''], ['guest', 'voice', '\uffff']))).toBe(1);
+    db.close();
+  });
+
+  it('should keep entries scoped to the signed-in user', async () => {
+    localStorage.setItem('heijo_last_user_id', 'user-a');
+    await storage.saveEntry({ content: 'Mine', created_at: '2026-01-01T10:00:00.000Z', source: 'text', tags: [] });
+
+    localStorage.setItem('heijo_last_user_id', 'user-b');
+    expect(await storage.getEntries()).toHaveLength(0);
+  });
+});
+
+describe('localStorage to IndexedDB migration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should move every entry, revision and tombstone and remove the old blobs', async () => {
+    const guestEntry = makeLegacyEntry({ content: 'Guest entry' });
+    const userEntry = makeLegacyEntry({ content: 'User entry', user_id: 'user-1', created_at: '2026-01-03T10:00:00.000Z' });
+    localStorage.setItem('heijo-journal-entries', JSON.stringify([guestEntry]));
+    localStorage.setItem('heijo-journal-entries:user-1', JSON.stringify([userEntry]));
+    localStorage.setItem('heijo-entry-revisions:user-1', JSON.stringify({
+      [userEntry.id]: [{ id: 'rev-1', entry_id: userEntry.id, content: 'Draft', tags: [], source: 'text', created_at: '2026-01-02T10:00:00.000Z' }]
+    }));
+    localStorage.setItem('heijo-sync-tombstones:user-1', JSON.stringify([
+      makeLegacyEntry({ id: 'gone', content: '', user_id: 'user-1', deleted_at: '2026-01-04T10:00:00.000Z' })
+    ]));
+
+    const state = await migrateFromLocalStorage();
+
+    expect(state).toMatchObject({ status: 'migrated', entry_count: 2 });
+    expect(localStorage.getItem('heijo-journal-entries')).toBeNull();
+    expect(localStorage.getItem('heijo-journal-entries:user-1')).toBeNull();
+    expect(localStorage.getItem('heijo-entry-revisions:user-1')).toBeNull();
+
+    localStorage.setItem('heijo_last_user_id', 'user-1');
+    const storage = new IndexedDBStorage(null, () => false);
+    const entries = await storage.getEntries();
+    // The guest entry is adopted by the first account on the device, as before
+    expect(entries.map(entry => entry.content)).toEqual(['User entry', 'Guest entry']);
+    expect(await storage.getRevisions(userEntry.id)).toHaveLength(1);
+    expect((await storage.getSyncRecords(['gone']))[0].deleted_at).toBe('2026-01-04T10:00:00.000Z');
+  });
+
+  it('should only migrate once', async () => {
+    localStorage.setItem('heijo-journal-entries', JSON.stringify([makeLegacyEntry()]));
+    await migrateFromLocalStorage();
+
+    // Data written to the old key afterwards is not picked up again
+    localStorage.setItem('heijo-journal-entries', JSON.stringify([makeLegacyEntry(), makeLegacyEntry()]));
+    const state = await migrateFromLocalStorage();
+
+    expect(state.entry_count).toBe(1);
+  });
+
+  it('should roll back to localStorage including entries written after migrating', async () => {
+    const legacy = makeLegacyEntry({ content: 'Before migration' });
+    localStorage.setItem('heijo-journal-entries', JSON.stringify([legacy]));
+    await migrateFromLocalStorage();
+
+    const storage = new IndexedDBStorage(null, () => false);
+    const added = await storage.saveEntry({ content: 'After migration', created_at: '2026-01-05T10:00:00.000Z', source: 'text', tags: [] });
+    await storage.updateEntry(added.id, { content: 'After migration, edited' });
+
+    await rollbackMigration();
+
+    expect(getMigrationState()?.status).toBe('rolled_back');
+    const local = new LocalStorage(null, () => false);
+    const entries = await local.getEntries();
+    expect(entries.map(entry => entry.content)).toEqual(['After migration, edited', 'Before migration']);
+    expect(await local.getRevisions(added.id)).toHaveLength(1);
+    expect(await storage.getEntries()).toHaveLength(0);
+
+    // A rolled-back device is never migrated again
+    expect((await migrateFromLocalStorage()).status).toBe('rolled_back');
+  });
+});
@@ -0,0 +1,112 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { encryptionManager, KeyConflictError } from '@/lib/encryption';
+import {
+  createDeviceTransfer,
+  createRecoveryKey,
+  getRecoveryKit,
+  isRecoveryKitCurrent,
+  markRecoveryKitSaved,
+  openDeviceTransfer,
+  parseRecoveryWords,
+  restoreFromRecoveryKey
+} from '@/lib/keyRecovery';
+
+// Clearing browser data / switching to a fresh device
+async function wipeDevice() {
+  globalThis.indexedDB = new IDBFactory();
+  await encryptionManager.clearAllData();
+  localStorage.clear();
+}
+
+describe('recovery key', () => {
+  beforeEach(async () => {
+    await wipeDevice();
+  });
+
+  it('should accept the words or their four-letter prefixes and catch typos', async () => {
+    const words = await createRecoveryKey();
+    expect(words).toHaveLength(18);
+
+    const entropy = await parseRecoveryWords(words.join(' '));
+    expect(await parseRecoveryWords(words.map(word => word.slice(0, 4).toUpperCase()).join(', '))).toEqual(entropy);
+
+    const swapped = [words[1], words[0], ...words.slice(2)];
+    if (words[0] !== words[1]) {
+      await expect(parseRecoveryWords(swapped.join(' '))).rejects.toThrow('not a valid recovery key');
+    }
+    await expect(parseRecoveryWords(['zebra', ...words.slice(1)].join(' '))).rejects.toThrow('"zebra" is not a recovery word');
+    await expect(parseRecoveryWords(words.slice(1).join(' '))).rejects.toThrow('18 words');
+  });
+
+  it('should restore the keyring on a wiped device', async () => {
+    const sealed = await encryptionManager.encrypt('Before the reinstall');
+    const words = await createRecoveryKey();
+    const kit = await getRecoveryKit();
+    await markRecoveryKitSaved();
+    expect(await isRecoveryKitCurrent()).toBe(true);
+
+    await wipeDevice();
+    const otherWords = await createRecoveryKey();
+    await expect(restoreFromRecoveryKey(otherWords.join(' '), kit)).rejects.toThrow('do not belong to this recovery kit');
+
+    expect(await restoreFromRecoveryKey(words.join(' '), kit)).toEqual(['heijo-key-v1']);
+    expect(await encryptionManager.decrypt(sealed)).toBe('Before the reinstall');
+    expect(await encryptionManager.hasRecoveryKey()).toBe(true);
+    expect(await isRecoveryKitCurrent()).toBe(true);
+
+    // A rotation means the printed kit no longer covers every key
+    await encryptionManager.rotateKey();
+    expect(await isRecoveryKitCurrent()).toBe(false);
+  });
+
+  it('should replace a forgotten passphrase', async () => {
+    const sealed = await encryptionManager.encrypt('Behind a passphrase');
+    await encryptionManager.enablePassphrase('correct horse');
+    const words = await createRecoveryKey();
+    const kit = await getRecoveryKit();
+    await encryptionManager.lock();
+
+    await restoreFromRecoveryKey(words.join(' '), kit);
+    expect(await encryptionManager.getStatus()).toEqual({ mode: 'device', locked: false });
+    expect(await encryptionManager.decrypt(sealed)).toBe('Behind a passphrase');
+  }, 30000);
+});
+
+describe('device transfer', () => {
+  beforeEach(async () => {
+    await wipeDevice();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should move the keys with the code and matching checksums', async () => {
+    const sealed = await encryptionManager.encrypt('Written on the laptop');
+    const transfer = await createDeviceTransfer();
+    expect(transfer.code).toMatch(/^[0-9A-Z]{5}-[0-9A-Z]{5}$/);
+    expect(transfer.checksum).toMatch(/^\d{3} \d{3}$/);
+
+    // The new device already made its own key
+    await wipeDevice();
+    await encryptionManager.encrypt('Written on the phone');
+
+    await expect(openDeviceTransfer(transfer.payload, 'AAAAA-AAAAA')).rejects.toThrow('Wrong transfer code');
+
+    const opened = await openDeviceTransfer(transfer.payload, transfer.code.toLowerCase().replace('-', ' '));
+    expect(opened.checksum).toBe(transfer.checksum);
+
+    await expect(encryptionManager.importKeys(opened.keys)).rejects.toBeInstanceOf(KeyConflictError);
+    await encryptionManager.importKeys(opened.keys, { replace: true });
+    expect(await encryptionManager.decrypt(sealed)).toBe('Written on the laptop');
+  }, 30000);
+
+  it('should refuse an expired transfer', async () => {
+    const transfer = await createDeviceTransfer();
+    vi.spyOn(Date, 'now').mockReturnValue(transfer.expiresAt + 1);
+
+    await expect(openDeviceTransfer(transfer.payload, transfer.code)).rejects.toThrow('expired');
+  }, 30000);
+});
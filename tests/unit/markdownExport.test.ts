@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { JournalEntry } from '@/lib/store';
+import { buildMarkdownVault } from '@/lib/markdownExport';
+import { createZip, crc32 } from '@/lib/zipArchive';
+
+function entry(id: string, createdAt: Date, content: string, tags: string[] = []): JournalEntry {
+  return {
+    id,
+    created_at: createdAt.toISOString(),
+    content,
+    source: 'voice',
+    tags,
+    sync_status: 'local_only'
+  };
+}
+
+describe('Markdown vault export', () => {
+  // Local times, so folders and file names do not depend on the test machine's time zone
+  const morning = entry('a1b2c3d4-morning', new Date(2026, 0, 5, 9, 30), 'Walked to the lake: cold', ['Gratitude', 'Morning walk']);
+  const evening = entry('e5f6a7b8-evening', new Date(2026, 0, 5, 21, 5), 'Quiet evening');
+  const february = entry('c9d0e1f2-february', new Date(2026, 1, 1, 8, 0), 'New month');
+
+  it('should write one note per entry with front matter in year/month folders', () => {
+    const files = buildMarkdownVault([february, evening, morning], { locale: 'en-US' });
+    expect(files.map(file => file.path)).toEqual([
+      'Heijo/2026/01/2026-01-05 0930 Walked to the lake cold.md',
+      'Heijo/2026/01/2026-01-05 2105 Quiet evening.md',
+      'Heijo/2026/02/2026-02-01 0800 New month.md'
+    ]);
+
+    const note = files[0].content as string;
+    expect(note).toBe([
+      '---',
+      'id: "a1b2c3d4-morning"',
+      `date: ${morning.created_at}`,
+      'tags:',
+      '  - "Gratitude"',
+      '  - "Morning-walk"',
+      'source: voice',
+      '---',
+      '',
+      '# Monday, January 5, 2026, 9:30 AM',
+      '',
+      'Walked to the lake: cold',
+      ''
+    ].join('\n'));
+    expect(files[1].content).toContain('tags: []');
+  });
+
+  it('should follow the given locale and add daily notes on request', () => {
+    const files = buildMarkdownVault([morning, evening, { ...morning, id: 'ffffffff-again' }], { locale: 'de-DE', dailyNotes: true });
+    expect(files.map(file => file.path)).toContain('Heijo/2026/01/2026-01-05 0930 Walked to the lake cold (ffffffff).md');
+
+    const daily = files.find(file => file.path === 'Heijo/Daily/2026-01-05.md');
+    expect(daily?.content).toContain('# Montag, 5. Januar 2026');
+    expect(daily?.content).toContain('- 21:05 [[2026/01/2026-01-05 2105 Quiet evening|Quiet evening]]');
+    expect(files.filter(file => file.path.startsWith('Heijo/Daily/'))).toHaveLength(1);
+  });
+
+  it('should package files as a stored zip archive', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+
+    const zip = createZip([{ path: 'Heijo/a.md', content: 'hello', modified: new Date(2026, 0, 5) }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(new TextDecoder().decode(zip.slice(30, 40))).toBe('Heijo/a.md');
+    expect(new TextDecoder().decode(zip.slice(40, 45))).toBe('hello');
+
+    // End of central directory: one file, central directory right after the data
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(end + 16, true)).toBe(45);
+  });
+});
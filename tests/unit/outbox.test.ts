@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Outbox, computeBackoff } from '@/lib/outbox';
+
+describe('Outbox', () => {
+  const userId = 'user-1';
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    localStorage.clear();
+    now = 1_000_000;
+  });
+
+  it('should coalesce operations for the same entry', () => {
+    const outbox = new Outbox(vi.fn(), { now: clock });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    outbox.enqueue(userId, 'entry-1', 'update');
+    expect(outbox.getOperations(userId)).toHaveLength(1);
+    expect(outbox.getOperations(userId)[0].type).toBe('create');
+
+    outbox.enqueue(userId, 'entry-1', 'delete');
+    expect(outbox.getOperations(userId)[0].type).toBe('delete');
+  });
+
+  it('should remove operations once they are delivered', async () => {
+    const processor = vi.fn().mockResolvedValue(undefined);
+    const outbox = new Outbox(processor, { now: clock });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    outbox.enqueue(userId, 'entry-2', 'update');
+    const remaining = await outbox.replay(userId);
+
+    expect(processor).toHaveBeenCalledWith(userId, ['entry-1', 'entry-2']);
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should back off exponentially after failures', async () => {
+    const processor = vi.fn().mockRejectedValue(new Error('offline'));
+    const outbox = new Outbox(processor, { now: clock, random: () => 0, baseDelayMs: 1000 });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    await outbox.replay(userId);
+    let [op] = outbox.getOperations(userId);
+    expect(op.attempts).toBe(1);
+    expect(op.last_error).toBe('offline');
+    expect(op.next_attempt_at).toBe(now + 1000);
+
+    // Not due yet: nothing is sent
+    await outbox.replay(userId);
+    expect(processor).toHaveBeenCalledTimes(1);
+
+    now += 1000;
+    await outbox.replay(userId);
+    [op] = outbox.getOperations(userId);
+    expect(op.attempts).toBe(2);
+    expect(op.next_attempt_at).toBe(now + 2000);
+  });
+
+  it('should retry immediately when forced (e.g. back online)', async () => {
+    const processor = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(undefined);
+    const outbox = new Outbox(processor, { now: clock });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    await outbox.replay(userId);
+    await outbox.replay(userId, { force: true });
+
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(outbox.getOperations(userId)).toHaveLength(0);
+  });
+
+  it('should mark operations failed after repeated errors', async () => {
+    const processor = vi.fn().mockRejectedValue(new Error('server error'));
+    const outbox = new Outbox(processor, { now: clock, failedAfterAttempts: 2 });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    await outbox.replay(userId, { force: true });
+    await outbox.replay(userId, { force: true });
+
+    expect(outbox.getOperations(userId)[0].status).toBe('failed');
+  });
+
+  it('should survive a reload and resume interrupted operations', () => {
+    const outbox = new Outbox(vi.fn(), { now: clock });
+    outbox.enqueue(userId, 'entry-1', 'create');
+
+    // Simulate a reload while the operation was in flight
+    const stored = JSON.parse(localStorage.getItem('heijo-sync-outbox')!);
+    stored[0].status = 'in_flight';
+    localStorage.setItem('heijo-sync-outbox', JSON.stringify(stored));
+
+    const reloaded = new Outbox(vi.fn(), { now: clock });
+    expect(reloaded.getOperations(userId)[0].status).toBe('pending');
+  });
+
+  it('should keep operations queued during a replay', async () => {
+    let outbox: Outbox;
+    const processor = vi.fn(async () => {
+      outbox.enqueue(userId, 'entry-2', 'create');
+    });
+    outbox = new Outbox(processor, { now: clock });
+
+    outbox.enqueue(userId, 'entry-1', 'create');
+    await outbox.replay(userId);
+
+    expect(outbox.getOperations(userId).map(op => op.entry_id)).toEqual(['entry-2']);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('should cap the delay', () => {
+    expect(computeBackoff(1, 1000, 10_000, () => 0)).toBe(1000);
+    expect(computeBackoff(3, 1000, 10_000, () => 0)).toBe(4000);
+    expect(computeBackoff(10, 1000, 10_000, () => 0)).toBe(10_000);
+  });
+});
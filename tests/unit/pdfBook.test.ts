@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { JournalEntry } from '@/lib/store';
+import { buildJournalBook } from '@/lib/pdfBook';
+import { PdfDocument } from '@/lib/pdfDocument';
+import { TrueTypeFont } from '@/lib/trueType';
+
+const font = new TrueTypeFont(new Uint8Array(readFileSync('public/fonts/pdf/NotoSans-Regular.ttf')));
+
+function entry(id: string, created_at: string, content: string, extra: Partial<JournalEntry> = {}): JournalEntry {
+  return { id, created_at, content, source: 'text', tags: [], sync_status: 'local_only', ...extra };
+}
+
+function pdfText(pdf: Uint8Array): string {
+  let text = '';
+  pdf.forEach(byte => {
+    text += String.fromCharCode(byte);
+  });
+  return text;
+}
+
+// How text is drawn: glyph ids as hex
+function shown(text: string): string {
+  const hex = Array.from(text).map(char => ('000' + font.glyphId(char.codePointAt(0)!).toString(16).toUpperCase()).slice(-4)).join('');
+  return `<${hex}> Tj`;
+}
+
+describe('PDF journal book', () => {
+  const entries = [
+    entry('1', new Date(2025, 11, 31, 22, 0).toISOString(), 'Before the range'),
+    entry('2', new Date(2026, 0, 5, 9, 30).toISOString(), 'A quiet (cold) morning', { tags: ['Gratitude'], source: 'voice' }),
+    entry('3', new Date(2026, 1, 14, 20, 0).toISOString(), 'Dinner with friends\n\nLong talk about moving'),
+    entry('4', new Date(2026, 2, 1, 8, 0).toISOString(), 'After the range')
+  ];
+
+  it('should typeset a cover, contents by month and the entries in the range', () => {
+    const book = buildJournalBook(entries, [font], { from: '2026-01-01', to: '2026-02-28', locale: 'en-US' });
+    const text = pdfText(book.pdf);
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(book.entries).toBe(2);
+    // Cover, contents, one page per month
+    expect(book.pages).toBe(4);
+    expect(text).toContain('/Count 4');
+    expect(text).toContain(shown('Heijo Journal'));
+    expect(text).toContain(shown('Jan 1, 2026 – Feb 28, 2026'));
+    expect(text).toContain(shown('January 2026'));
+    expect(text).toContain(shown('February 2026'));
+    expect(text).toContain(shown('A quiet (cold) morning'));
+    expect(text).toContain(shown('VOICE'));
+    expect(text).toContain(shown('Gratitude'));
+    expect(text).toContain(shown('Long talk about moving'));
+    expect(text).not.toContain(shown('Before the range'));
+    expect(text).not.toContain(shown('After the range'));
+    // Contents rows link to the month pages
+    expect(text.match(/\/Subtype \/Link/g)).toHaveLength(2);
+  });
+
+  it('should write a valid cross-reference table', () => {
+    const text = pdfText(buildJournalBook(entries, [font], { locale: 'en-US' }).pdf);
+    const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+
+    const offsets = text.slice(xref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should continue long entries on new pages and wrap lines to the page width', () => {
+    const long = Array.from({ length: 400 }, (_, i) => `word${i}`).join(' ');
+    const book = buildJournalBook([entry('1', new Date(2026, 0, 5).toISOString(), long)], [font]);
+    expect(book.pages).toBeGreaterThan(3);
+
+    const doc = new PdfDocument([font]);
+    const style = { size: 10.5 };
+    doc.wrap(long, style, 300).forEach(line => {
+      expect(doc.measure(line, style)).toBeLessThanOrEqual(300);
+    });
+  });
+
+  it('should embed a subset of the font with a map back to the text', () => {
+    const doc = new PdfDocument([font]);
+    doc.text(0, 20, 'Café “ok”', { size: 12 });
+    const text = pdfText(doc.toBytes({ title: 'Heijō' }));
+
+    expect(text).toContain('/Subtype /Type0 /BaseFont /HEIJOA+NotoSans-Regular /Encoding /Identity-H');
+    expect(text).toContain('/Subtype /CIDFontType2');
+    expect(text).not.toContain('/Helvetica');
+    expect(text).toContain(`<${('000' + font.glyphId(0xe9).toString(16).toUpperCase()).slice(-4)}> <00E9>`);
+    expect(text).toContain('/Title <FEFF004800650069006A014D>');
+
+    // The embedded file is a valid font with only the glyphs used drawn
+    const file = /\/Length (\d+) \/Length1 \d+ >>\nstream\n/.exec(text)!;
+    const start = file.index + file[0].length;
+    const bytes = new Uint8Array(Array.from(text.slice(start, start + Number(file[1]))).map(char => char.charCodeAt(0)));
+    const subset = new TrueTypeFont(bytes);
+    expect(subset.advanceWidth(font.glyphId(0xe9))).toBe(font.advanceWidth(font.glyphId(0xe9)));
+    expect(bytes.length).toBeLessThan(font.subset(Array.from({ length: font.numGlyphs }, (_, glyph) => glyph)).length / 2);
+  });
+
+  it('should use the next font for characters the first lacks, and count ones none has', () => {
+    const doc = new PdfDocument([font]);
+    doc.text(0, 20, 'Heijō 日記 🌱', { size: 12 });
+    // "ō" falls back to "o"; the rest print as "?"
+    expect(doc.unsupportedCharacters).toBe(3);
+    expect(doc.measure('Heijō', { size: 12 })).toBe(doc.measure('Heijo', { size: 12 }));
+
+    // A subset has no character map, so here every character comes from the second font
+    const empty = new TrueTypeFont(font.subset([]));
+    const fallback = new PdfDocument([empty, font]);
+    fallback.text(0, 20, 'ok', { size: 12 });
+    const text = pdfText(fallback.toBytes());
+    expect(text).toContain(`/F2 12 Tf ${shown('ok')}`);
+    expect(text).toContain('/BaseFont /HEIJOB+NotoSans-Regular');
+    expect(text).not.toContain('HEIJOA');
+  });
+});
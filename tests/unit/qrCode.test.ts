@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode } from '@/lib/qrCode';
+
+// Format information next to the top-left finder, least significant bit first
+function readFormatBits(modules: boolean[][]): number {
+  const positions: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+    [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]
+  ];
+  return positions.reduce((bits, [x, y], i) => bits | ((modules[y][x] ? 1 : 0) << i), 0) ^ 0x5412;
+}
+
+describe('encodeQrCode', () => {
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQrCode('heijo').version).toBe(1);
+    expect(encodeQrCode('x'.repeat(15)).size).toBe(25);
+    expect(encodeQrCode('x'.repeat(400)).version).toBe(15);
+    expect(() => encodeQrCode('x'.repeat(3000))).toThrow('too long');
+  });
+
+  it('should draw finder patterns, timing and format information', () => {
+    const qr = encodeQrCode('heijo-transfer:1:example');
+    const { modules, size } = qr;
+
+    for (const [left, top] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      expect(modules[top][left + 3]).toBe(true); // Outer ring
+      expect(modules[top + 1][left + 1]).toBe(false); // Light ring
+      expect(modules[top + 3][left + 3]).toBe(true); // Center
+    }
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+
+    // Level M (00) and the chosen mask
+    expect(readFormatBits(modules) >> 10).toBe(qr.mask);
+  });
+});
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalStorage } from '@/lib/store';
+import { scheduledBackups } from '@/lib/scheduledBackups';
+import { restoreBackup, markBackedUp, BackupPasswordError } from '@/lib/backupArchive';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Scheduled backups', () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    storage = new LocalStorage(null, () => false);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T09:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep the newest snapshots and restore one with the stored key', async () => {
+    await storage.saveEntry({ content: 'Before the backups', source: 'text', tags: [] });
+    const first = await scheduledBackups.enable('correct horse battery', 'daily', 2, storage);
+    expect(first).not.toBeNull();
+    expect(scheduledBackups.isDue()).toBe(false);
+
+    await storage.saveEntry({ content: 'After the first backup', source: 'text', tags: [] });
+    vi.setSystemTime(new Date('2026-03-02T09:00:00.000Z'));
+    await scheduledBackups.runBackup(storage);
+    vi.setSystemTime(new Date('2026-03-03T09:00:00.000Z'));
+    await scheduledBackups.runBackup(storage);
+    const snapshots = await scheduledBackups.listSnapshots();
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots.map(snapshot => snapshot.id)).not.toContain(first!.id);
+    expect(snapshots[0].createdAt).toBe('2026-03-03T09:00:00.000Z');
+
+    const fresh = new LocalStorage(null, () => false);
+    localStorage.clear(); // The journal is lost; the snapshots in IndexedDB are not
+    const preview = await scheduledBackups.previewSnapshot(snapshots[0].id, undefined, fresh);
+    expect(preview.newEntries.map(entry => entry.content).sort()).toEqual(['After the first backup', 'Before the backups']);
+    await restoreBackup(preview, fresh);
+    expect(await fresh.getEntries()).toHaveLength(2);
+
+    await expect(scheduledBackups.previewSnapshot(snapshots[0].id, 'wrong password', fresh)).rejects.toThrow(BackupPasswordError);
+
+    await scheduledBackups.disable();
+    expect(await scheduledBackups.listSnapshots()).toEqual([]);
+    expect(scheduledBackups.getSettings().enabled).toBe(false);
+  }, 30000);
+
+  it('should say when a backup is due and when the last one is stale', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z').getTime();
+    expect(scheduledBackups.getStatus(now)).toMatchObject({ enabled: false, lastBackupAt: null, stale: true });
+
+    markBackedUp(new Date(now - 3 * DAY_MS).toISOString());
+    expect(scheduledBackups.getStatus(now).stale).toBe(false);
+    expect(scheduledBackups.isDue(now)).toBe(false);
+
+    localStorage.setItem('heijo-scheduled-backups', JSON.stringify({ enabled: true, frequency: 'daily', keep: 7 }));
+    expect(scheduledBackups.isDue(now)).toBe(true);
+    expect(scheduledBackups.getStatus(now)).toMatchObject({ enabled: true, stale: true, nextBackupAt: new Date(now).toISOString() });
+
+    localStorage.setItem('heijo-scheduled-backups', JSON.stringify({ enabled: true, frequency: 'weekly', keep: 7 }));
+    expect(scheduledBackups.isDue(now)).toBe(false);
+    expect(scheduledBackups.getStatus(now)).toMatchObject({ stale: false, nextBackupAt: new Date(now + 4 * DAY_MS).toISOString() });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+import { sealedEntries, isLockedSealedEntry, SealedEntriesLockedError } from '@/lib/sealedEntries';
+import { WrongPassphraseError } from '@/lib/encryption';
+import { mergeConcurrent } from '@/lib/syncEngine';
+
+describe('Sealed entries', () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sealedEntries.lock();
+    storage = new LocalStorage(null, () => false);
+  });
+
+  async function saveSealable(): Promise<JournalEntry> {
+    const entry = await storage.saveEntry({
+      content: 'First draft',
+      created_at: '2026-01-01T10:00:00.000Z',
+      source: 'text',
+      tags: ['Private']
+    });
+    return storage.updateEntry(entry.id, { content: 'Something only I should read' });
+  }
+
+  it('should seal an entry, drop its history and open it only with the passphrase', async () => {
+    const entry = await saveSealable();
+    await expect(sealedEntries.seal(entry)).rejects.toBeInstanceOf(SealedEntriesLockedError);
+
+    // First use: the passphrase is chosen
+    await sealedEntries.unlock('correct horse', await storage.getEntries());
+    const sealed = await storage.sealEntry(entry.id, await sealedEntries.seal(entry));
+    expect(sealed).toMatchObject({ content: '', tags: [] });
+    expect(await storage.getRevisions(entry.id)).toHaveLength(0);
+    expect(JSON.stringify(localStorage)).not.toContain('only I should read');
+    expect(sealedEntries.reveal(sealed)).toMatchObject({ content: 'Something only I should read', tags: ['Private'] });
+
+    sealedEntries.lock();
+    expect(isLockedSealedEntry(sealedEntries.reveal(sealed))).toBe(true);
+    await expect(sealedEntries.unlock('wrong horse', [sealed])).rejects.toBeInstanceOf(WrongPassphraseError);
+    expect(sealedEntries.isUnlocked()).toBe(false);
+
+    await sealedEntries.unlock('correct horse', [sealed]);
+    const unsealed = await storage.unsealEntry(sealed.id, await sealedEntries.open(sealed));
+    expect(unsealed).toMatchObject({ content: 'Something only I should read', tags: ['Private'] });
+    expect(unsealed.sealed).toBeUndefined();
+  }, 30000);
+
+  it('should check the passphrase against entries sealed on another device', async () => {
+    const entry = await saveSealable();
+    await sealedEntries.unlock('correct horse', [entry]);
+    const sealed = await storage.sealEntry(entry.id, await sealedEntries.seal(entry));
+
+    // A new device has the synced entry but no passphrase settings yet
+    sealedEntries.lock();
+    localStorage.removeItem('heijo-seal-params');
+    expect(sealedEntries.hasPassphrase()).toBe(false);
+
+    await expect(sealedEntries.unlock('another horse', [sealed])).rejects.toBeInstanceOf(WrongPassphraseError);
+    expect(sealedEntries.hasPassphrase()).toBe(false);
+    await sealedEntries.unlock('correct horse', [sealed]);
+    expect(sealedEntries.hasPassphrase()).toBe(true);
+    expect(sealedEntries.reveal(sealed).content).toBe('Something only I should read');
+  }, 30000);
+
+  it('should seal and open an entry too long to spread into one call', async () => {
+    const entry = await saveSealable();
+    const long = 'All day long. '.repeat(300000); // ~4 MB
+    await sealedEntries.unlock('correct horse', [entry]);
+    const sealed = await storage.sealEntry(entry.id, await sealedEntries.seal({ ...entry, content: long }));
+    expect((await sealedEntries.open(sealed)).content).toBe(long);
+  }, 30000);
+
+  it('should treat sealing on one device and editing on another as a conflict', () => {
+    const base: JournalEntry = {
+      id: 'entry-1',
+      created_at: '2026-01-01T10:00:00.000Z',
+      content: '',
+      source: 'text',
+      tags: [],
+      sync_status: 'synced',
+      version: { a: 1, b: 1 }
+    };
+    const sealedLocally = { ...base, sealed: { salt: 's', iterations: 1, iv: 'i', data: 'one' }, version: { a: 2, b: 1 } };
+    const sealedAgain = { ...base, sealed: { salt: 's', iterations: 1, iv: 'i', data: 'two' }, version: { a: 1, b: 2 } };
+
+    expect(mergeConcurrent(sealedLocally, sealedAgain).conflict).toBeDefined();
+    expect(mergeConcurrent(sealedLocally, { ...sealedLocally, version: { a: 1, b: 2 } }).conflict).toBeUndefined();
+  });
+});
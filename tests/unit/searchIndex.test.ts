@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex, highlightMatches, highlightSnippet, tokenize } from '@/lib/searchIndex';
+import { getTextClauses, parseSearchQuery } from '@/lib/searchQuery';
+import { stem } from '@/lib/stemmers';
+
+const clauses = (query: string) => getTextClauses(parseSearchQuery(query));
+const ids = (index: SearchIndex, query: string) => index.search(clauses(`${query} `)).map(hit => hit.id);
+
+describe('stem', () => {
+  it('should reduce inflections to a shared stem', () => {
+    expect(stem('walked', 'en-US')).toBe(stem('walking', 'en-US'));
+    expect(stem('stopped', 'en-GB')).toBe(stem('stops', 'en-GB'));
+    expect(stem('caminando', 'es-ES')).toBe(stem('caminar', 'es-ES'));
+  });
+
+  it('should leave Japanese and Chinese untouched', () => {
+    expect(stem('東京', 'ja-JP')).toBe('東京');
+  });
+});
+
+describe('SearchIndex', () => {
+  const build = (language = 'en-US') => {
+    const index = new SearchIndex(language);
+    index.add('walk', 'I walked to the river this morning.');
+    index.add('run', 'Running late again, skipped the walk.');
+    index.add('tea', 'Quiet afternoon tea. Tea, tea and more tea.');
+    return index;
+  };
+
+  it('should match across inflections', () => {
+    expect(ids(build(), 'walking').sort()).toEqual(['run', 'walk']);
+  });
+
+  it('should require every clause to match', () => {
+    expect(ids(build(), 'walk river')).toEqual(['walk']);
+    expect(ids(build(), 'walk tea')).toEqual([]);
+  });
+
+  it('should match prefixes of the word being typed', () => {
+    const index = build();
+    expect(index.search(clauses('afte')).map(hit => hit.id)).toEqual(['tea']);
+    expect(ids(index, 'afte')).toEqual([]);
+  });
+
+  it('should only match phrases with the words in order', () => {
+    const index = build();
+    expect(ids(index, '"the river"')).toEqual(['walk']);
+    expect(ids(index, '"river the"')).toEqual([]);
+  });
+
+  it('should rank entries with more occurrences first', () => {
+    const index = build();
+    index.add('tea-once', 'Had some tea with a long list of other things to do today and tomorrow.');
+    expect(ids(index, 'tea')).toEqual(['tea', 'tea-once']);
+  });
+
+  it('should fold accents for Latin script', () => {
+    const index = new SearchIndex('fr-FR');
+    index.add('cafe', 'Un café au lait.');
+    expect(ids(index, 'cafe')).toEqual(['cafe']);
+  });
+
+  it('should match Chinese and Japanese text by character bigrams', () => {
+    const index = new SearchIndex('ja-JP');
+    index.add('tokyo', '今日は東京都に行きました');
+    index.add('kyoto', '京都で散歩');
+    expect(ids(index, '東京')).toEqual(['tokyo']);
+  });
+
+  it('should forget removed and replaced entries', () => {
+    const index = build();
+    index.remove('tea');
+    expect(ids(index, 'tea')).toEqual([]);
+    index.add('walk', 'Nothing about rivers any more');
+    expect(ids(index, 'walked')).toEqual(['run']);
+    expect(index.size).toBe(2);
+  });
+
+  it('should drop the words of removed entries from prefix matching', () => {
+    const index = new SearchIndex('en-US');
+    const surfaces = () => Array.from((index as unknown as { surfaces: Map<string, Set<string>> }).surfaces.keys()).sort();
+    index.add('a', 'Rivers flow');
+    index.add('b', 'rivers');
+
+    index.remove('a');
+    expect(surfaces()).toEqual(['rivers']);
+    expect(index.search(clauses('riv')).map(hit => hit.id)).toEqual(['b']);
+
+    index.remove('b');
+    expect(surfaces()).toEqual([]);
+  });
+});
+
+describe('highlighting', () => {
+  it('should mark matched words in the original text', () => {
+    const segments = highlightMatches('Walking home, I walked slowly.', clauses('walk '), 'en-US');
+    expect(segments.filter(segment => segment.match).map(segment => segment.text)).toEqual(['Walking', 'walked']);
+    expect(segments.map(segment => segment.text).join('')).toBe('Walking home, I walked slowly.');
+  });
+
+  it('should cut long text to a window around the first match', () => {
+    const text = `${'filler '.repeat(60)}the river was calm ${'filler '.repeat(60)}`;
+    const segments = highlightSnippet(text, clauses('river '), 'en-US', 80);
+    expect(segments[0].text).toBe('…');
+    expect(segments[segments.length - 1].text).toBe('…');
+    expect(segments.some(segment => segment.match && segment.text === 'river')).toBe(true);
+  });
+
+  it('should keep token offsets pointing at the original text', () => {
+    const text = 'Ça va, Zoë?';
+    expect(tokenize(text, 'fr-FR').map(token => text.slice(token.start, token.end))).toEqual(['Ça', 'va', 'Zoë']);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JournalEntry } from '@/lib/store';
+import { SearchQueryError, getTextClauses, matchesSearchQuery, parseSearchQuery } from '@/lib/searchQuery';
+import { deleteSavedSearch, getSavedSearches, saveSearch } from '@/lib/savedSearches';
+
+function parseError(input: string): SearchQueryError {
+  try {
+    parseSearchQuery(input);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail`);
+}
+
+describe('parseSearchQuery', () => {
+  it('should parse fields, phrases, words and negation', () => {
+    expect(parseSearchQuery('tag:gratitude source:voice after:2026-01-01 "exact phrase" -work').nodes).toEqual([
+      { type: 'tag', tag: 'gratitude', negated: false },
+      { type: 'source', source: 'voice', negated: false },
+      { type: 'date', filter: 'after', date: '2026-01-01', negated: false },
+      { type: 'phrase', text: 'exact phrase', negated: false },
+      { type: 'term', text: 'work', prefix: true, negated: true }
+    ]);
+  });
+
+  it('should accept quoted tags, upper-case fields and explicit prefixes', () => {
+    expect(parseSearchQuery('TAG:"self care" -tag:work run* tea ').nodes).toEqual([
+      { type: 'tag', tag: 'self care', negated: false },
+      { type: 'tag', tag: 'work', negated: true },
+      { type: 'term', text: 'run', prefix: true, negated: false },
+      { type: 'term', text: 'tea', prefix: false, negated: false }
+    ]);
+  });
+
+  it('should return no nodes for blank input', () => {
+    expect(parseSearchQuery('   ').nodes).toEqual([]);
+  });
+
+  it('should only pass positive words and phrases to the text index', () => {
+    const query = parseSearchQuery('tag:joy river -rain "long walk" -"bad day"');
+    expect(getTextClauses(query)).toEqual([
+      { kind: 'term', text: 'river', prefix: false },
+      { kind: 'phrase', text: 'long walk' }
+    ]);
+  });
+
+  it.each([
+    ['tag:joy "unfinished', 'Missing closing quote (")', 8],
+    ['after:2026-02-30', 'Invalid date "2026-02-30" in after:. Use YYYY-MM-DD, e.g. after:2026-01-31', 6],
+    ['before:yesterday', 'Invalid date "yesterday" in before:. Use YYYY-MM-DD, e.g. before:2026-01-31', 7],
+    ['source:video', 'Unknown source "video". Use source:text or source:voice', 7],
+    ['mood:happy', 'Unknown filter "mood:". Use tag:, source:, after:, before: or on:, or put the text in quotes', 0],
+    ['walk tag: ', 'Missing value after tag:', 5],
+    ['walk - rain', 'Nothing to exclude after "-". Write -word, -"a phrase" or -tag:name', 5],
+    ['""', 'Empty phrase "". Put some words between the quotes', 0]
+  ])('should explain why "%s" is invalid', (input, message, position) => {
+    const error = parseError(input);
+    expect(error.message).toBe(message);
+    expect(error.position).toBe(position);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+    id: 'entry',
+    content: 'Walked along the river after work',
+    created_at: new Date(2026, 0, 15, 9, 30).toISOString(),
+    source: 'voice',
+    tags: ['Gratitude'],
+    ...overrides
+  });
+  const matches = (query: string, overrides: Partial<JournalEntry> = {}) =>
+    matchesSearchQuery(entry(overrides), parseSearchQuery(query), 'en-US');
+
+  it('should match tags case-insensitively and sources exactly', () => {
+    expect(matches('tag:gratitude source:voice')).toBe(true);
+    expect(matches('tag:joy')).toBe(false);
+    expect(matches('source:text')).toBe(false);
+  });
+
+  it('should treat dates as whole local days', () => {
+    expect(matches('on:2026-01-15')).toBe(true);
+    expect(matches('after:2026-01-14 before:2026-01-16')).toBe(true);
+    expect(matches('after:2026-01-15')).toBe(false);
+    expect(matches('before:2026-01-15')).toBe(false);
+  });
+
+  it('should exclude entries matching a negated node', () => {
+    expect(matches('river -work')).toBe(false);
+    expect(matches('river -"work day"')).toBe(true);
+    expect(matches('-tag:gratitude')).toBe(false);
+    expect(matches('walking -source:text')).toBe(true);
+  });
+});
+
+describe('saved searches', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should replace views with the same name and delete by id', () => {
+    saveSearch('Voice', 'source:voice');
+    const replaced = saveSearch('voice', 'source:voice tag:joy');
+    expect(getSavedSearches().map(view => view.query)).toEqual(['source:voice tag:joy']);
+
+    deleteSavedSearch(replaced.id);
+    expect(getSavedSearches()).toEqual([]);
+  });
+
+  it('should refuse queries that do not parse', () => {
+    expect(() => saveSearch('Broken', 'source:video')).toThrow(SearchQueryError);
+    expect(getSavedSearches()).toEqual([]);
+  });
+});
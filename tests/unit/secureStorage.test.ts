@@ -0,0 +1,164 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { secureStorage } from '@/lib/secureStorage';
+import { encryptionManager } from '@/lib/encryption';
+import { getDeletionReceipts, verifyDeletionReceipt } from '@/lib/deletionReceipt';
+import { storage } from '@/lib/store';
+import { gdprManager } from '@/lib/gdpr';
+import { scheduledBackups } from '@/lib/scheduledBackups';
+
+const entry = (content: string) => ({
+  content,
+  created_at: new Date().toISOString(),
+  source: 'text' as const,
+  tags: []
+});
+
+describe('SecureLocalStorage key rotation', () => {
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    await secureStorage.clearAllData();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should re-encrypt every entry with the new key and retire the old one', async () => {
+    await secureStorage.saveEntry(entry('One'));
+    await secureStorage.saveEntry(entry('Two'));
+
+    const progress = await secureStorage.rotateKey();
+    expect(progress).toMatchObject({ targetKeyId: 'heijo-key-v2', processed: 2, total: 2, done: true, retiredKeyIds: ['heijo-key-v1'] });
+    expect(await encryptionManager.getKeyIds()).toEqual(['heijo-key-v2']);
+    expect((await secureStorage.getEntries()).map(e => e.content).sort()).toEqual(['One', 'Two']);
+    expect(secureStorage.getReencryptionCheckpoint()).toBeNull();
+  });
+
+  it('should resume an interrupted job without losing entries', async () => {
+    for (const content of ['One', 'Two', 'Three']) {
+      await secureStorage.saveEntry(entry(content));
+    }
+
+    const encrypt = encryptionManager.encrypt.bind(encryptionManager);
+    let calls = 0;
+    vi.spyOn(encryptionManager, 'encrypt').mockImplementation(async (data: string) => {
+      if (++calls === 2) throw new Error('Tab closed');
+      return encrypt(data);
+    });
+
+    await expect(secureStorage.rotateKey()).rejects.toThrow('Tab closed');
+    expect(secureStorage.getReencryptionCheckpoint()).toMatchObject({ targetKeyId: 'heijo-key-v2' });
+    expect(await encryptionManager.getKeyIds()).toEqual(['heijo-key-v1', 'heijo-key-v2']);
+    expect(await secureStorage.getEntries()).toHaveLength(3);
+    await expect(secureStorage.rotateKey()).rejects.toThrow('Key rotation is already in progress');
+
+    vi.restoreAllMocks();
+    const progress = await secureStorage.resumeReencryption();
+    expect(progress).toMatchObject({ done: true, retiredKeyIds: ['heijo-key-v1'] });
+    expect((await secureStorage.getEntries()).map(e => e.content).sort()).toEqual(['One', 'Three', 'Two']);
+  });
+});
+
+describe('SecureLocalStorage crypto-shredding', () => {
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    await secureStorage.clearAllData();
+  });
+
+  function readRecord(storeName: string, id: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open('HeijoSecureStorage');
+      request.onsuccess = () => {
+        const db = request.result;
+        const get = db.transaction([storeName], 'readonly').objectStore(storeName).get(id);
+        get.onsuccess = () => {
+          db.close();
+          resolve(get.result);
+        };
+        get.onerror = () => reject(get.error);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  function writeRecord(storeName: string, record: unknown): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open('HeijoSecureStorage');
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction([storeName], 'readwrite');
+        transaction.objectStore(storeName).put(record);
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+        transaction.onerror = () => reject(transaction.error);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  it('should make a leftover copy of a deleted entry unreadable and issue a receipt', async () => {
+    const saved = await secureStorage.saveEntry(entry('Delete me for good'));
+    await secureStorage.saveEntry(entry('Keep me'));
+    const backup = await readRecord('entries', saved.id);
+    expect(backup.keyId).toBe('heijo-entry-key');
+
+    const receipt = await secureStorage.deleteEntry(saved.id);
+    expect(receipt).toMatchObject({ scope: 'entry', method: 'crypto-shredding', entryIds: [saved.id], verified: true });
+    expect(receipt.entryKeyFingerprints).toHaveLength(1);
+    expect(await verifyDeletionReceipt(receipt)).toBe(true);
+    expect(await verifyDeletionReceipt({ ...receipt, entryIds: ['someone-else'] })).toBe(false);
+    expect(getDeletionReceipts()[0]).toEqual(receipt);
+
+    // The data key is still there, but the entry's own key is gone
+    await writeRecord('entries', backup);
+    expect(await secureStorage.getEntry(saved.id)).toBeNull();
+    expect((await secureStorage.getEntries()).map(e => e.content)).toEqual(['Keep me']);
+  });
+
+  it('should take the recordings along and only claim verified when nothing is left', async () => {
+    const saved = await secureStorage.saveEntry(entry('With a recording'));
+    const recording = await secureStorage.saveRecording(saved.id, new Blob([new Uint8Array([1, 2])], { type: 'audio/webm' }), 1000);
+
+    const receipt = await secureStorage.deleteEntry(saved.id);
+    expect(receipt.verified).toBe(true);
+    expect(await secureStorage.getRecordings(saved.id)).toEqual([]);
+    expect(await readRecord('recordingAudio', recording.id)).toBeUndefined();
+
+    // Written before per-entry keys: the data key still reads it after the delete
+    const legacy = { id: 'legacy-entry', ...(await encryptionManager.encrypt(JSON.stringify(entry('Old one')))), createdAt: new Date().toISOString() };
+    await writeRecord('entries', legacy);
+    const legacyReceipt = await secureStorage.deleteEntry('legacy-entry');
+    expect(await readRecord('entries', 'legacy-entry')).toBeUndefined();
+    expect(legacyReceipt.verified).toBe(false);
+  });
+
+  it('should destroy entry keys and data keys when clearing everything', async () => {
+    const saved = await secureStorage.saveEntry(entry('One'));
+
+    const receipt = await secureStorage.clearAllData();
+    expect(receipt).toMatchObject({ scope: 'all', entryIds: [saved.id], dataKeyIds: ['heijo-key-v1'], verified: true });
+    expect(await encryptionManager.getKeyIds()).toEqual([]);
+  });
+
+  it('should delete the journal itself, trash included, when deleting all data', async () => {
+    const live = await storage.saveEntry(entry('In the journal'));
+    const trashed = await storage.saveEntry(entry('In the trash'));
+    await storage.deleteEntry(trashed.id);
+    const disableBackups = vi.spyOn(scheduledBackups, 'disable');
+
+    const receipt = await gdprManager.deleteAllData();
+    expect(disableBackups).toHaveBeenCalled(); // Snapshots and their key go too
+    expect(receipt.removedEntryIds!.sort()).toEqual([live.id, trashed.id].sort());
+    expect(receipt.verified).toBe(true);
+    expect(await verifyDeletionReceipt(receipt)).toBe(true);
+    expect(await verifyDeletionReceipt({ ...receipt, removedEntryIds: [live.id] })).toBe(false);
+    expect(await storage.getEntries()).toEqual([]);
+    expect(await storage.getTrash()).toEqual([]);
+  });
+});
@@ -37,6 +37,7 @@ vi.mock('@/lib/auth', () => ({
 vi.mock('@/lib/store', () => ({
   storage: {
     getEntries: async () => [],
+    getPendingOperations: async () => [],
   },
 }));
 
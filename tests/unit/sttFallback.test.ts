@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  getSttFallbackChain,
+  transcribeWithFallback,
+  sttErrorFromResponse,
+  toSttError,
+  SttError,
+  SttFallbackError,
+  SttHealthTracker,
+  SttProvider,
+  SttProviderId
+} from '@/lib/stt';
+
+const audio = new Blob([new Uint8Array(800)], { type: 'audio/webm' });
+
+function provider(id: SttProviderId, transcribe: SttProvider['transcribe']): SttProvider {
+  return { id, label: id, isConfigured: () => true, transcribe };
+}
+
+describe('STT fallback', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should classify provider failures', () => {
+    expect(sttErrorFromResponse('Whisper API', 401, 'Incorrect API key provided').category).toBe('auth');
+    expect(sttErrorFromResponse('Whisper API', 429, 'Rate limit reached').category).toBe('quota');
+    expect(sttErrorFromResponse('Whisper API', 400, 'You exceeded your current quota').category).toBe('quota');
+    expect(sttErrorFromResponse('Whisper API', 400, 'Invalid file format. Supported formats: flac, mp3').category).toBe('unsupported_format');
+    expect(sttErrorFromResponse('Whisper API', 413, '').category).toBe('unsupported_format');
+    expect(sttErrorFromResponse('Google STT API', 504, '').category).toBe('timeout');
+    expect(sttErrorFromResponse('Google STT API', 503, 'backend error').category).toBe('unavailable');
+    expect(sttErrorFromResponse('Google STT API', 400, 'bad language').category).toBe('unknown');
+
+    const abort = new Error('The operation was aborted');
+    abort.name = 'AbortError';
+    expect(toSttError(abort).category).toBe('timeout');
+    expect(toSttError(new TypeError('fetch failed')).category).toBe('unavailable');
+  });
+
+  it('should open the circuit after repeated failures and let one trial through after the cooldown', () => {
+    const health = new SttHealthTracker({ failureThreshold: 3, cooldownMs: 1000, maxCooldownMs: 3000 });
+    const now = 10000;
+
+    health.recordFailure('whisper', 'unsupported_format', now);
+    health.recordFailure('whisper', 'unavailable', now);
+    health.recordFailure('whisper', 'unavailable', now);
+    expect(health.canAttempt('whisper', now)).toBe(true);
+    health.recordFailure('whisper', 'timeout', now);
+    expect(health.getHealth('whisper', now)).toMatchObject({ state: 'open', consecutiveFailures: 3, lastFailureCategory: 'timeout' });
+    expect(health.canAttempt('whisper', now + 999)).toBe(false);
+
+    expect(health.getHealth('whisper', now + 1000).state).toBe('half-open');
+    expect(health.canAttempt('whisper', now + 1000)).toBe(true);
+    expect(health.canAttempt('whisper', now + 1000)).toBe(false); // One trial at a time
+    health.recordFailure('whisper', 'timeout', now + 1000);
+    expect(health.getHealth('whisper', now + 1000).openUntil).toBe(now + 3000); // Cooldown doubled
+
+    expect(health.canAttempt('whisper', now + 3000)).toBe(true);
+    health.recordSuccess('whisper');
+    expect(health.getHealth('whisper', now + 3000)).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+
+    // A rejected key will not fix itself on retry
+    health.recordFailure('google', 'auth', now);
+    expect(health.canAttempt('google', now)).toBe(false);
+  });
+
+  it('should fall back to the next provider and report the primary failure when all fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const health = new SttHealthTracker({ failureThreshold: 1, cooldownMs: 60000 });
+    const slow = provider('whisper', (request) => new Promise((_, reject) => {
+      request.signal?.addEventListener('abort', () => reject(new Error('aborted by signal')));
+    }));
+    const selfHosted = provider('self-hosted', async ({ language }) => ({ text: `Hallo (${language})` }));
+
+    const result = await transcribeWithFallback({ audio, language: 'de-DE' }, [slow, selfHosted], { timeoutMs: 20, health });
+    expect(result).toMatchObject({ text: 'Hallo (de-DE)', provider: 'self-hosted' });
+    expect(result.attempts).toEqual([
+      { provider: 'whisper', ok: false, category: 'timeout', message: 'whisper did not answer within 20 ms' },
+      { provider: 'self-hosted', ok: true }
+    ]);
+
+    // Whisper's circuit is now open, so it is skipped without a request
+    const quota = provider('google', async () => { throw new SttError('Google STT API error: 429', 'quota', 429); });
+    const error = await transcribeWithFallback({ audio, language: 'de-DE' }, [slow, quota], { timeoutMs: 20, health })
+      .catch((e: SttFallbackError) => e);
+    expect(error).toBeInstanceOf(SttFallbackError);
+    expect(error.category).toBe('quota');
+    expect(error.attempts.map(attempt => [attempt.provider, attempt.skipped || false])).toEqual([['whisper', true], ['google', false]]);
+
+    await expect(transcribeWithFallback({ audio, language: 'de-DE' }, [], { health })).rejects.toMatchObject({ category: 'not_configured' });
+  });
+
+  it('should put the requested provider first and leave out unconfigured ones', () => {
+    vi.stubEnv('STT_SELF_HOSTED_URL', 'http://localhost:8000/v1');
+    vi.stubEnv('WHISPER_API_KEY', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('GOOGLE_STT_KEY', 'google-key');
+
+    expect(getSttFallbackChain().map(p => p.id)).toEqual(['self-hosted', 'google']);
+    expect(getSttFallbackChain('google').map(p => p.id)).toEqual(['google', 'self-hosted']);
+    expect(getSttFallbackChain('fake').map(p => p.id)).toEqual(['fake', 'self-hosted', 'google']);
+
+    vi.stubEnv('STT_FALLBACK_CHAIN', 'google, azure');
+    expect(getSttFallbackChain('self-hosted').map(p => p.id)).toEqual(['self-hosted', 'google']);
+  });
+});
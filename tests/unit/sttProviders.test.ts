@@ -0,0 +1,129 @@
+import { Blob as NodeBlob } from 'buffer';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getSttProviders, getSttProvider, getDefaultSttProviderId, STT_PROVIDER_IDS } from '@/lib/stt';
+import { VOICE_PROVIDERS } from '@/lib/voiceSettings';
+
+const audio = new Blob([new Uint8Array(1200)], { type: 'audio/webm' });
+
+describe('STT providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should register an adapter for every provider the client can choose', () => {
+    expect(getSttProviders().map(provider => provider.id)).toEqual([...STT_PROVIDER_IDS]);
+    expect(VOICE_PROVIDERS).toEqual(['webspeech', ...STT_PROVIDER_IDS]);
+    expect(getSttProvider('azure')).toBeUndefined();
+
+    expect(getDefaultSttProviderId()).toBe('whisper');
+    vi.stubEnv('STT_DEFAULT_PROVIDER', 'self-hosted');
+    expect(getDefaultSttProviderId()).toBe('self-hosted');
+    vi.stubEnv('STT_DEFAULT_PROVIDER', 'azure');
+    expect(getDefaultSttProviderId()).toBe('whisper');
+  });
+
+  it('should give the same fake transcript for the same audio, and only in tests', async () => {
+    const fake = getSttProvider('fake')!;
+    expect(fake.isConfigured()).toBe(true);
+    expect(await fake.transcribe({ audio, language: 'de-DE' })).toEqual({ text: 'Test transcript (de-DE, 1200 bytes)' });
+
+    vi.stubEnv('STT_FAKE_TRANSCRIPT', 'Hello from the fake');
+    expect(await fake.transcribe({ audio, language: 'en-US' })).toEqual({ text: 'Hello from the fake' });
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(fake.isConfigured()).toBe(false);
+    await expect(fake.transcribe({ audio, language: 'en-US' })).rejects.toThrow('only available in tests');
+  });
+
+  it('should send audio to a self-hosted OpenAI-compatible endpoint', async () => {
+    const selfHosted = getSttProvider('self-hosted')!;
+    vi.stubEnv('STT_SELF_HOSTED_URL', '');
+    expect(selfHosted.isConfigured()).toBe(false);
+
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ text: 'Guten Morgen' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('STT_SELF_HOSTED_URL', 'http://localhost:8000/v1/');
+    vi.stubEnv('STT_SELF_HOSTED_MODEL', 'Systran/faster-whisper-small');
+    expect(selfHosted.isConfigured()).toBe(true);
+
+    expect(await selfHosted.transcribe({ audio, language: 'de-DE' })).toEqual({ text: 'Guten Morgen' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/audio/transcriptions');
+    expect(init.headers).toEqual({});
+    const body = init.body as FormData;
+    expect(body.get('model')).toBe('Systran/faster-whisper-small');
+    expect(body.get('language')).toBe('de');
+    expect((body.get('file') as Blob).size).toBe(1200);
+
+    fetchMock.mockResolvedValue(new Response('model not loaded', { status: 500 }));
+    vi.stubEnv('STT_SELF_HOSTED_API_KEY', 'local-secret');
+    await expect(selfHosted.transcribe({ audio, language: 'de-DE' })).rejects.toThrow('Self-hosted STT error: 500 model not loaded');
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({ Authorization: 'Bearer local-secret' });
+  });
+
+  it('should return word timing with confidence from verbose_json', async () => {
+    const selfHosted = getSttProvider('self-hosted')!;
+    vi.stubEnv('STT_SELF_HOSTED_URL', 'http://localhost:8000/v1');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      text: 'Good morning. Hi',
+      segments: [
+        { start: 0, end: 1.2, text: ' Good morning.', avg_logprob: -0.1 },
+        { start: 1.2, end: 2, text: ' Hi', avg_logprob: -1.5 }
+      ],
+      words: [
+        { word: ' Good', start: 0, end: 0.4 },
+        { word: ' morning.', start: 0.4, end: 1.1 },
+        { word: ' Hi', start: 1.3, end: 1.8 }
+      ]
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { words } = await selfHosted.transcribe({ audio, language: 'en-US' });
+    expect(words!.map(word => [word.text, word.start, word.end])).toEqual([['Good', 0, 0.4], ['morning.', 0.4, 1.1], ['Hi', 1.3, 1.8]]);
+    expect(words![0].confidence).toBeCloseTo(Math.exp(-0.1));
+    expect(words![2].confidence).toBeCloseTo(Math.exp(-1.5));
+
+    const body = fetchMock.mock.calls[0][1].body as FormData;
+    expect(body.get('response_format')).toBe('verbose_json');
+    expect(body.getAll('timestamp_granularities[]')).toEqual(['word', 'segment']);
+
+    // Servers without word timestamps: one entry per segment
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      text: 'Good morning.',
+      segments: [{ start: 0, end: 1.2, text: ' Good morning.' }]
+    }), { status: 200 }));
+    expect((await selfHosted.transcribe({ audio, language: 'en-US' })).words).toEqual([
+      { text: 'Good morning.', start: 0, end: 1.2, confidence: undefined }
+    ]);
+  });
+
+  it('should return word offsets and confidence from Google', async () => {
+    const google = getSttProvider('google')!;
+    vi.stubEnv('GOOGLE_STT_KEY', 'google-key');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      results: [{
+        alternatives: [{
+          transcript: 'hello there',
+          words: [
+            { word: 'hello', startTime: '0s', endTime: '0.500s', confidence: 0.92 },
+            { word: 'there', startTime: '0.500s', endTime: '1.100s', confidence: 0.41 }
+          ]
+        }]
+      }]
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    // On the server the audio is a Node Blob; jsdom's Blob has no arrayBuffer()
+    const serverAudio = new NodeBlob([new Uint8Array(1200)], { type: 'audio/webm' }) as unknown as Blob;
+    expect(await google.transcribe({ audio: serverAudio, language: 'en-US' })).toEqual({
+      text: 'hello there',
+      words: [
+        { text: 'hello', start: 0, end: 0.5, confidence: 0.92 },
+        { text: 'there', start: 0.5, end: 1.1, confidence: 0.41 }
+      ]
+    });
+    const { config } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(config).toMatchObject({ enableWordTimeOffsets: true, enableWordConfidence: true });
+  });
+});
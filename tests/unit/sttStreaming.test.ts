@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSttStream,
+  getSttStream,
+  encodeSseEvent,
+  SttError,
+  SttHealthTracker,
+  SttProvider,
+  SttStreamEvent,
+  MAX_PARTIAL_BYTES
+} from '@/lib/stt';
+
+function chunk(bytes: number): Blob {
+  return new Blob([new Uint8Array(bytes)], { type: 'audio/webm' });
+}
+
+// Transcribes to the number of bytes it was given, so partials show how much audio they covered
+function byteCounter(): SttProvider & { calls: number[] } {
+  const calls: number[] = [];
+  return {
+    id: 'self-hosted',
+    label: 'Byte counter',
+    isConfigured: () => true,
+    transcribe: async ({ audio }) => {
+      calls.push(audio.size);
+      return { text: `${audio.size} bytes` };
+    },
+    calls
+  };
+}
+
+async function settle() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe('STT streaming', () => {
+  it('should send partials for the audio so far, then the final transcript', async () => {
+    const provider = byteCounter();
+    const session = createSttStream('en-US', [provider], { health: new SttHealthTracker(), partialIntervalMs: 0 });
+    expect(getSttStream(session.id)).toBe(session);
+
+    const events: SttStreamEvent[] = [];
+    session.subscribe(event => events.push(event));
+
+    session.append(0, chunk(100));
+    session.append(1, chunk(50)); // Arrives while the first partial is in flight
+    await settle();
+    expect(events).toEqual([
+      { type: 'partial', text: '100 bytes' },
+      { type: 'partial', text: '150 bytes' }
+    ]);
+
+    session.append(2, chunk(25));
+    await session.finish();
+    expect(events[events.length - 1]).toEqual({ type: 'final', text: '175 bytes', provider: 'self-hosted' });
+    expect(session.isDone).toBe(true);
+    expect(() => session.append(3, chunk(10))).toThrow('already finished');
+
+    // A client that reconnects gets the final transcript again
+    const late: SttStreamEvent[] = [];
+    session.subscribe(event => late.push(event));
+    expect(late).toEqual([{ type: 'final', text: '175 bytes', provider: 'self-hosted' }]);
+  });
+
+  it('should refuse chunks out of order and report a failed transcription', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: SttProvider = {
+      id: 'whisper',
+      label: 'Whisper',
+      isConfigured: () => true,
+      transcribe: async () => { throw new SttError('Whisper API error: 429', 'quota', 429); }
+    };
+    const health = new SttHealthTracker();
+    const partialHealth = new SttHealthTracker();
+    const session = createSttStream('en-US', [failing], { health, partialHealth, partialIntervalMs: 0 });
+    const events: SttStreamEvent[] = [];
+    session.subscribe(event => events.push(event));
+
+    expect(() => session.append(1, chunk(10))).toThrow('Expected chunk 0, got 1');
+    session.append(0, chunk(10));
+    await session.finish();
+
+    // The failed partial is dropped and only opens the partials' circuit;
+    // the final transcript still tries Whisper
+    expect(events).toEqual([{ type: 'failed', error: 'Transcription failed: Whisper API error: 429', category: 'quota' }]);
+    expect(partialHealth.canAttempt('whisper')).toBe(false);
+    expect(health.getHealth('whisper').state).toBe('open');
+    vi.restoreAllMocks();
+  });
+
+  it('should space partials out and stop them on long recordings', async () => {
+    vi.useFakeTimers();
+    const provider = byteCounter();
+    const session = createSttStream('en-US', [provider], { health: new SttHealthTracker(), partialIntervalMs: 1000 });
+
+    session.append(0, chunk(10));
+    await settle();
+    session.append(1, chunk(10));
+    session.append(2, chunk(10));
+    await settle();
+    expect(provider.calls).toEqual([10]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(provider.calls).toEqual([10, 30]);
+
+    session.append(3, chunk(MAX_PARTIAL_BYTES));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(provider.calls).toEqual([10, 30]);
+
+    await session.finish();
+    expect(provider.calls).toEqual([10, 30, MAX_PARTIAL_BYTES + 30]);
+    vi.useRealTimers();
+  });
+
+  it('should cap open sessions and prune idle ones on a timer', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 10 * 60 * 1000); // Earlier tests' sessions are idle by now
+    vi.stubEnv('STT_STREAM_MAX_SESSIONS', '1');
+    const provider = byteCounter();
+
+    const session = createSttStream('en-US', [provider]);
+    expect(() => createSttStream('en-US', [provider])).toThrow('Too many streaming transcriptions');
+
+    await vi.advanceTimersByTimeAsync(6 * 60 * 1000);
+    expect(getSttStream(session.id)).toBeUndefined();
+    expect(() => createSttStream('en-US', [provider])).not.toThrow();
+
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('should encode events in the text/event-stream format', () => {
+    expect(encodeSseEvent({ type: 'partial', text: 'Hello\nworld' })).toBe('event: partial\ndata: {"text":"Hello\\nworld"}\n\n');
+    expect(encodeSseEvent({ type: 'failed', error: 'No audio', category: 'unsupported_format' }))
+      .toBe('event: failed\ndata: {"error":"No audio","category":"unsupported_format"}\n\n');
+  });
+});
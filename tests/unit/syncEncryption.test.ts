@@ -0,0 +1,130 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSupabaseRemote, SyncRecord } from '@/lib/syncEngine';
+import { encryptionManager, SyncKeyMissingError, WrongPassphraseError } from '@/lib/encryption';
+import { encryptedSyncCodec, isPlaintextMigrationDone, migratePlaintextRows, unlockSyncKey } from '@/lib/syncEncryption';
+
+const USER_ID = 'user-1';
+
+/**
+ * In-memory stand-in for the Supabase query builder calls used by the
+ * encrypted sync: select/eq/in/is, maybeSingle, insert and upsert
+ */
+function createInMemorySupabase() {
+  const tables: Record<string, Map<string, any>> = {
+    journal_entries: new Map(),
+    journal_entry_revisions: new Map(),
+    user_sync_keys: new Map()
+  };
+
+  const from = (table: string) => {
+    const rows = tables[table];
+    const keyOf = (row: any) => row.id ?? row.user_id;
+    const filters: Array<(row: any) => boolean> = [];
+    const select = () => Array.from(rows.values())
+      .filter(row => filters.every(filter => filter(row)))
+      .map(row => JSON.parse(JSON.stringify(row)));
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      is: (column: string, value: null) => {
+        filters.push(row => (row[column] ?? null) === value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: select()[0] ?? null, error: null }),
+      insert: async (newRows: any[]) => {
+        newRows.forEach(row => rows.set(keyOf(row), JSON.parse(JSON.stringify(row))));
+        return { error: null };
+      },
+      upsert: async (newRows: any[]) => {
+        newRows.forEach(row => rows.set(keyOf(row), JSON.parse(JSON.stringify(row))));
+        return { error: null };
+      },
+      then: (resolve: (value: unknown) => void) => resolve({ data: select(), error: null })
+    };
+    return builder;
+  };
+
+  return { client: { from } as any, tables };
+}
+
+const entry = (id: string, content: string, tags: string[] = []): SyncRecord => ({
+  id,
+  content,
+  tags,
+  source: 'text',
+  created_at: '2026-03-01T08:00:00.000Z',
+  sync_status: 'local_only',
+  version: { laptop: 1 }
+});
+
+describe('encrypted sync', () => {
+  let supabase: ReturnType<typeof createInMemorySupabase>;
+
+  beforeEach(async () => {
+    await encryptionManager.clearAllData();
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    supabase = createInMemorySupabase();
+  });
+
+  it('should upload only ciphertext and decrypt it on pull', async () => {
+    const remote = createSupabaseRemote(supabase.client, encryptedSyncCodec);
+    await expect(remote.push(USER_ID, [entry('a', 'Secret thoughts')])).rejects.toBeInstanceOf(SyncKeyMissingError);
+
+    expect(await unlockSyncKey(supabase.client, USER_ID, 'sync secret 1')).toBe('created');
+    await remote.push(USER_ID, [entry('a', 'Secret thoughts', ['private'])]);
+
+    const row = supabase.tables.journal_entries.get('a');
+    expect(row).toMatchObject({ content: '', tags: [] });
+    expect(JSON.stringify(row)).not.toContain('Secret thoughts');
+    expect(JSON.stringify(row)).not.toContain('private');
+
+    const [pulled] = await remote.pull(USER_ID);
+    expect(pulled).toMatchObject({ content: 'Secret thoughts', tags: ['private'] });
+    expect(pulled).not.toHaveProperty('encrypted_payload');
+  }, 30000);
+
+  it('should require the same secret on another device', async () => {
+    const remote = createSupabaseRemote(supabase.client, encryptedSyncCodec);
+    await unlockSyncKey(supabase.client, USER_ID, 'sync secret 1');
+    await remote.push(USER_ID, [entry('a', 'From the laptop')]);
+
+    // A second device starts without the key
+    await encryptionManager.forgetSyncKey(USER_ID);
+    await expect(remote.pull(USER_ID)).rejects.toBeInstanceOf(SyncKeyMissingError);
+    await expect(unlockSyncKey(supabase.client, USER_ID, 'wrong secret')).rejects.toBeInstanceOf(WrongPassphraseError);
+    expect(await encryptionManager.hasSyncKey(USER_ID)).toBe(false);
+
+    expect(await unlockSyncKey(supabase.client, USER_ID, 'sync secret 1')).toBe('unlocked');
+    expect((await remote.pull(USER_ID))[0].content).toBe('From the laptop');
+  }, 30000);
+
+  it('should re-upload legacy plaintext rows and revisions encrypted', async () => {
+    supabase.tables.journal_entries.set('old', { ...entry('old', 'Written before E2EE', ['legacy']), user_id: USER_ID, purged_at: null });
+    supabase.tables.journal_entry_revisions.set('rev-1', {
+      id: 'rev-1', entry_id: 'old', user_id: USER_ID, content: 'Earlier draft', tags: [], source: 'text', created_at: '2026-02-01T08:00:00.000Z'
+    });
+    const remote = createSupabaseRemote(supabase.client, encryptedSyncCodec);
+    await unlockSyncKey(supabase.client, USER_ID, 'sync secret 1');
+
+    // Plaintext rows are still readable before the migration
+    expect((await remote.pull(USER_ID))[0].content).toBe('Written before E2EE');
+
+    expect(await migratePlaintextRows(supabase.client, remote, USER_ID)).toEqual({ entries: 1, revisions: 1 });
+    expect(isPlaintextMigrationDone(USER_ID)).toBe(true);
+    expect(supabase.tables.journal_entries.get('old')).toMatchObject({ content: '', tags: [], version: { laptop: 1 } });
+    expect(supabase.tables.journal_entry_revisions.get('rev-1')).toMatchObject({ content: '', tags: [] });
+
+    const [pulled] = await remote.pull(USER_ID);
+    expect(pulled).toMatchObject({ content: 'Written before E2EE', tags: ['legacy'] });
+  }, 30000);
+});
@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorage, JournalEntry } from '@/lib/store';
+import { IndexedDBStorage } from '@/lib/indexedDBStorage';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  getTrashCutoff,
+  getTrashRetentionDays,
+  setTrashRetentionDays
+} from '@/lib/trash';
+
+type TrashBackend = LocalStorage | IndexedDBStorage;
+
+const backends: Array<[string, () => TrashBackend]> = [
+  ['LocalStorage', () => new LocalStorage(null, () => false)],
+  ['IndexedDBStorage', () => new IndexedDBStorage(null, () => false)]
+];
+
+describe.each(backends)('%s trash', (_name, create) => {
+  let backend: TrashBackend;
+  let entry: JournalEntry;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    backend = create();
+    entry = await backend.saveEntry({ content: 'Rainy walk', created_at: '2026-01-01T10:00:00.000Z', source: 'text', tags: ['Calm'] });
+  });
+
+  it('should hide trashed entries from reads and restore them unchanged', async () => {
+    await backend.deleteEntry(entry.id);
+    expect(await backend.getEntries()).toEqual([]);
+    expect((await backend.queryEntries({})).entries).toEqual([]);
+    await expect(backend.updateEntry(entry.id, { content: 'Edited' })).rejects.toThrow('Entry not found');
+
+    const restored = await backend.restoreEntry(entry.id);
+    expect(restored.deleted_at).toBeUndefined();
+    expect(await backend.getEntry(entry.id)).toMatchObject({ content: 'Rainy walk', tags: ['Calm'] });
+    expect(await backend.getTrash()).toEqual([]);
+  });
+
+  it('should only purge entries that are in the trash', async () => {
+    await expect(backend.purgeEntry(entry.id)).rejects.toThrow('Entry not found in trash');
+    await expect(backend.restoreEntry(entry.id)).rejects.toThrow('Entry not found in trash');
+    expect(await backend.getEntry(entry.id)).not.toBeNull();
+  });
+
+  it('should empty only entries trashed before the cutoff', async () => {
+    const recent = await backend.saveEntry({ content: 'Recent', created_at: '2026-01-02T10:00:00.000Z', source: 'text', tags: [] });
+    await backend.deleteEntry(entry.id);
+    await backend.deleteEntry(recent.id);
+
+    // Backdate the first deletion past the retention period
+    const [old] = await backend.getSyncRecords([entry.id]);
+    await backend.applySyncedRecords([{ ...old, deleted_at: '2025-01-01T00:00:00.000Z' }]);
+
+    expect(await backend.emptyTrash({ olderThan: getTrashCutoff(30) })).toEqual([entry.id]);
+    expect((await backend.getTrash()).map(trashed => trashed.id)).toEqual([recent.id]);
+
+    expect(await backend.emptyTrash()).toEqual([recent.id]);
+    expect(await backend.getTrash()).toEqual([]);
+  });
+});
+
+describe('trash retention', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to 30 days and reject invalid values', () => {
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    setTrashRetentionDays(7);
+    expect(getTrashRetentionDays()).toBe(7);
+    expect(() => setTrashRetentionDays(0)).toThrow('Trash retention must be a whole number of days');
+  });
+
+  it('should count whole days left before purging', () => {
+    const now = new Date('2026-01-10T12:00:00.000Z').getTime();
+    const trashed = { deleted_at: '2026-01-09T12:00:00.000Z' } as JournalEntry;
+    expect(daysUntilPurge(trashed, 7, now)).toBe(6);
+    expect(daysUntilPurge(trashed, 1, now)).toBe(0);
+    expect(getTrashCutoff(7, now)).toBe('2026-01-03T12:00:00.000Z');
+  });
+});